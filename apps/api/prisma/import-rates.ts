@@ -0,0 +1,32 @@
+import { readFile } from 'fs/promises';
+import { ExchangeRatesFileSchema } from '@group-pay/shared';
+import { prisma } from '../src/lib/prisma.js';
+import { importExchangeRates } from '../src/services/exchangeRates.js';
+
+// Usage: pnpm db:import-rates path/to/rates.json
+async function main() {
+  const filePath = process.argv[2];
+
+  if (!filePath) {
+    throw new Error('Usage: pnpm db:import-rates <rates-file.json>');
+  }
+
+  const file = ExchangeRatesFileSchema.parse(
+    JSON.parse(await readFile(filePath, 'utf-8'))
+  );
+  const { imported, baseCurrency, effectiveAt } =
+    await importExchangeRates(file);
+
+  console.log(
+    `✅ Imported ${imported} ${baseCurrency} rates effective ${effectiveAt.toISOString()}`
+  );
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Error importing exchange rates:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
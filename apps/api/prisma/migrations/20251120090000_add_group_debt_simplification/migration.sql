@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "DebtSimplification" AS ENUM ('GREEDY', 'OPTIMAL');
+
+-- AlterTable
+ALTER TABLE "Group" ADD COLUMN     "debtSimplification" "DebtSimplification" NOT NULL DEFAULT 'GREEDY';
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Group" ADD COLUMN     "simplifyDebts" BOOLEAN NOT NULL DEFAULT true;
@@ -0,0 +1,21 @@
+-- CreateEnum
+CREATE TYPE "ExchangeRateSource" AS ENUM ('MANUAL', 'IMPORT');
+
+-- AlterTable
+ALTER TABLE "Expense" ADD COLUMN     "exchangeRate" DOUBLE PRECISION NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "ExchangeRate" (
+    "id" UUID NOT NULL,
+    "baseCurrency" TEXT NOT NULL,
+    "quoteCurrency" TEXT NOT NULL,
+    "rate" DOUBLE PRECISION NOT NULL,
+    "source" "ExchangeRateSource" NOT NULL DEFAULT 'MANUAL',
+    "effectiveAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ExchangeRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ExchangeRate_baseCurrency_quoteCurrency_effectiveAt_idx" ON "ExchangeRate"("baseCurrency", "quoteCurrency", "effectiveAt");
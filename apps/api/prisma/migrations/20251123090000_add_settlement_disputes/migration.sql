@@ -0,0 +1,26 @@
+-- AlterEnum
+ALTER TYPE "SettlementStatus" ADD VALUE 'REJECTED';
+ALTER TYPE "SettlementStatus" ADD VALUE 'DISPUTED';
+
+-- CreateTable
+CREATE TABLE "SettlementEvent" (
+    "id" UUID NOT NULL,
+    "settlementId" UUID NOT NULL,
+    "actorId" UUID NOT NULL,
+    "fromStatus" "SettlementStatus",
+    "toStatus" "SettlementStatus" NOT NULL,
+    "amountCents" INTEGER NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SettlementEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SettlementEvent_settlementId_idx" ON "SettlementEvent"("settlementId");
+
+-- AddForeignKey
+ALTER TABLE "SettlementEvent" ADD CONSTRAINT "SettlementEvent_settlementId_fkey" FOREIGN KEY ("settlementId") REFERENCES "Settlement"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SettlementEvent" ADD CONSTRAINT "SettlementEvent_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
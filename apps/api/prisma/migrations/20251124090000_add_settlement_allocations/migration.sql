@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "SettlementAllocation" (
+    "id" UUID NOT NULL,
+    "settlementId" UUID NOT NULL,
+    "expenseId" UUID NOT NULL,
+    "amountCents" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SettlementAllocation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SettlementAllocation_expenseId_idx" ON "SettlementAllocation"("expenseId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SettlementAllocation_settlementId_expenseId_key" ON "SettlementAllocation"("settlementId", "expenseId");
+
+-- AddForeignKey
+ALTER TABLE "SettlementAllocation" ADD CONSTRAINT "SettlementAllocation_settlementId_fkey" FOREIGN KEY ("settlementId") REFERENCES "Settlement"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SettlementAllocation" ADD CONSTRAINT "SettlementAllocation_expenseId_fkey" FOREIGN KEY ("expenseId") REFERENCES "Expense"("id") ON DELETE CASCADE ON UPDATE CASCADE;
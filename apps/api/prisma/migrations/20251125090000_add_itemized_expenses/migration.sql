@@ -0,0 +1,21 @@
+-- AlterEnum
+ALTER TYPE "ExpenseSplitType" ADD VALUE 'ITEMIZED';
+
+-- CreateTable
+CREATE TABLE "ExpenseItem" (
+    "id" UUID NOT NULL,
+    "expenseId" UUID NOT NULL,
+    "description" TEXT NOT NULL,
+    "amountCents" INTEGER NOT NULL,
+    "userIds" UUID[],
+    "position" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ExpenseItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ExpenseItem_expenseId_idx" ON "ExpenseItem"("expenseId");
+
+-- AddForeignKey
+ALTER TABLE "ExpenseItem" ADD CONSTRAINT "ExpenseItem_expenseId_fkey" FOREIGN KEY ("expenseId") REFERENCES "Expense"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,76 @@
+-- CreateEnum
+CREATE TYPE "RecurrenceCadence" AS ENUM ('DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY');
+
+-- AlterTable
+ALTER TABLE "Expense" ADD COLUMN     "recurrenceDate" TIMESTAMP(3),
+ADD COLUMN     "recurringExpenseId" UUID;
+
+-- CreateTable
+CREATE TABLE "RecurringExpense" (
+    "id" UUID NOT NULL,
+    "groupId" UUID NOT NULL,
+    "createdById" UUID NOT NULL,
+    "payerId" UUID NOT NULL,
+    "description" TEXT NOT NULL,
+    "amountCents" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "category" TEXT,
+    "notes" TEXT,
+    "splitType" "ExpenseSplitType" NOT NULL DEFAULT 'EQUAL',
+    "cadence" "RecurrenceCadence" NOT NULL,
+    "interval" INTEGER NOT NULL DEFAULT 1,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3),
+    "nextRunAt" TIMESTAMP(3) NOT NULL,
+    "lastRunAt" TIMESTAMP(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RecurringExpense_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RecurringExpenseParticipant" (
+    "id" UUID NOT NULL,
+    "recurringExpenseId" UUID NOT NULL,
+    "userId" UUID NOT NULL,
+    "shareCents" INTEGER,
+    "sharePercentage" DOUBLE PRECISION,
+    "shareCount" INTEGER,
+
+    CONSTRAINT "RecurringExpenseParticipant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RecurringExpense_groupId_idx" ON "RecurringExpense"("groupId");
+
+-- CreateIndex
+CREATE INDEX "RecurringExpense_isActive_nextRunAt_idx" ON "RecurringExpense"("isActive", "nextRunAt");
+
+-- CreateIndex
+CREATE INDEX "RecurringExpenseParticipant_userId_idx" ON "RecurringExpenseParticipant"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RecurringExpenseParticipant_recurringExpenseId_userId_key" ON "RecurringExpenseParticipant"("recurringExpenseId", "userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Expense_recurringExpenseId_recurrenceDate_key" ON "Expense"("recurringExpenseId", "recurrenceDate");
+
+-- AddForeignKey
+ALTER TABLE "Expense" ADD CONSTRAINT "Expense_recurringExpenseId_fkey" FOREIGN KEY ("recurringExpenseId") REFERENCES "RecurringExpense"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringExpense" ADD CONSTRAINT "RecurringExpense_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "Group"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringExpense" ADD CONSTRAINT "RecurringExpense_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringExpense" ADD CONSTRAINT "RecurringExpense_payerId_fkey" FOREIGN KEY ("payerId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringExpenseParticipant" ADD CONSTRAINT "RecurringExpenseParticipant_recurringExpenseId_fkey" FOREIGN KEY ("recurringExpenseId") REFERENCES "RecurringExpense"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringExpenseParticipant" ADD CONSTRAINT "RecurringExpenseParticipant_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
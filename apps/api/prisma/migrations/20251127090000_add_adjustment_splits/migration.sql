@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "ExpenseSplitType" ADD VALUE 'ADJUSTMENT';
+
+-- AlterTable
+ALTER TABLE "ExpenseParticipant" ADD COLUMN     "adjustmentCents" INTEGER;
+
+-- AlterTable
+ALTER TABLE "RecurringExpenseParticipant" ADD COLUMN     "adjustmentCents" INTEGER;
@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "ExpenseRevisionAction" AS ENUM ('CREATE', 'UPDATE', 'DELETE');
+
+-- CreateTable
+CREATE TABLE "ExpenseRevision" (
+    "id" UUID NOT NULL,
+    "expenseId" UUID NOT NULL,
+    "groupId" UUID NOT NULL,
+    "actorId" UUID NOT NULL,
+    "action" "ExpenseRevisionAction" NOT NULL,
+    "changes" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ExpenseRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ExpenseRevision_expenseId_createdAt_idx" ON "ExpenseRevision"("expenseId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ExpenseRevision_groupId_idx" ON "ExpenseRevision"("groupId");
+
+-- AddForeignKey
+ALTER TABLE "ExpenseRevision" ADD CONSTRAINT "ExpenseRevision_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "Group"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExpenseRevision" ADD CONSTRAINT "ExpenseRevision_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
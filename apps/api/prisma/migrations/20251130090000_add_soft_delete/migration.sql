@@ -0,0 +1,14 @@
+-- AlterEnum
+ALTER TYPE "ExpenseRevisionAction" ADD VALUE 'RESTORE';
+
+-- AlterTable
+ALTER TABLE "Group" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Expense" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Group_deletedAt_idx" ON "Group"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "Expense_deletedAt_idx" ON "Expense"("deletedAt");
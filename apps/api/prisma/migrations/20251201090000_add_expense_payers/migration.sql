@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "ExpensePayer" (
+    "id" UUID NOT NULL,
+    "expenseId" UUID NOT NULL,
+    "userId" UUID NOT NULL,
+    "paidCents" INTEGER NOT NULL,
+
+    CONSTRAINT "ExpensePayer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ExpensePayer_userId_idx" ON "ExpensePayer"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExpensePayer_expenseId_userId_key" ON "ExpensePayer"("expenseId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "ExpensePayer" ADD CONSTRAINT "ExpensePayer_expenseId_fkey" FOREIGN KEY ("expenseId") REFERENCES "Expense"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExpensePayer" ADD CONSTRAINT "ExpensePayer_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Existing expenses were paid in full by their payer
+INSERT INTO "ExpensePayer" ("id", "expenseId", "userId", "paidCents")
+SELECT gen_random_uuid(), "id", "payerId", "amountCents" FROM "Expense";
@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "ReceiptOcrStatus" AS ENUM ('PENDING', 'PROCESSING', 'COMPLETED', 'FAILED', 'SKIPPED');
+
+-- AlterTable
+ALTER TABLE "Receipt" ADD COLUMN     "ocrData" JSONB,
+ADD COLUMN     "ocrProcessedAt" TIMESTAMP(3),
+ADD COLUMN     "ocrStatus" "ReceiptOcrStatus" NOT NULL DEFAULT 'PENDING';
+
+-- Receipts uploaded before OCR existed are never going to be read
+UPDATE "Receipt" SET "ocrStatus" = 'SKIPPED';
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "ExpenseRevisionAction" ADD VALUE 'CONFIRM';
+
+-- AlterTable
+ALTER TABLE "Expense" ADD COLUMN     "isDraft" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,12 @@
+-- Rates entered by hand are kept and treated like imported ones
+UPDATE "ExchangeRate" SET "source" = 'IMPORT' WHERE "source" = 'MANUAL';
+
+-- AlterEnum
+BEGIN;
+CREATE TYPE "ExchangeRateSource_new" AS ENUM ('IMPORT');
+ALTER TABLE "ExchangeRate" ALTER COLUMN "source" DROP DEFAULT;
+ALTER TABLE "ExchangeRate" ALTER COLUMN "source" TYPE "ExchangeRateSource_new" USING ("source"::text::"ExchangeRateSource_new");
+ALTER TYPE "ExchangeRateSource" RENAME TO "ExchangeRateSource_old";
+ALTER TYPE "ExchangeRateSource_new" RENAME TO "ExchangeRateSource";
+DROP TYPE "ExchangeRateSource_old";
+COMMIT;
@@ -334,6 +334,12 @@ async function main() {
       description: 'Hotel booking',
       amountCents: 30000, // $300.00
       payerId: users.alice.id,
+      payers: {
+        create: [
+          { userId: users.alice.id, paidCents: 18000 }, // Two cards
+          { userId: users.bob.id, paidCents: 12000 },
+        ],
+      },
       category: 'Accommodation',
       splitType: ExpenseSplitType.EQUAL,
       date: getPastDate(25),
@@ -353,6 +359,7 @@ async function main() {
       description: 'Shared taxi to airport',
       amountCents: 4500, // $45.00
       payerId: users.bob.id,
+      payers: { create: { userId: users.bob.id, paidCents: 4500 } },
       category: 'Transportation',
       splitType: ExpenseSplitType.EQUAL,
       date: getPastDate(24),
@@ -373,6 +380,7 @@ async function main() {
       description: 'Groceries for the weekend',
       amountCents: 50000, // $500.00
       payerId: users.alice.id,
+      payers: { create: { userId: users.alice.id, paidCents: 50000 } },
       category: 'Food',
       splitType: ExpenseSplitType.PERCENTAGE,
       date: getPastDate(23),
@@ -393,6 +401,7 @@ async function main() {
       description: 'Concert tickets',
       amountCents: 40000, // $400.00
       payerId: users.david.id,
+      payers: { create: { userId: users.david.id, paidCents: 40000 } },
       category: 'Entertainment',
       splitType: ExpenseSplitType.PERCENTAGE,
       date: getPastDate(50),
@@ -413,6 +422,7 @@ async function main() {
       description: 'Monthly rent',
       amountCents: 200000, // $2000.00
       payerId: users.alice.id,
+      payers: { create: { userId: users.alice.id, paidCents: 200000 } },
       category: 'Housing',
       splitType: ExpenseSplitType.SHARES,
       date: getPastDate(10),
@@ -432,6 +442,7 @@ async function main() {
       description: 'Utilities (electricity, water, internet)',
       amountCents: 15000, // $150.00
       payerId: users.bob.id,
+      payers: { create: { userId: users.bob.id, paidCents: 15000 } },
       category: 'Utilities',
       splitType: ExpenseSplitType.SHARES,
       date: getPastDate(5),
@@ -451,6 +462,7 @@ async function main() {
       description: 'Individual purchases at market',
       amountCents: 15000, // $15.00 total
       payerId: users.charlie.id,
+      payers: { create: { userId: users.charlie.id, paidCents: 15000 } },
       category: 'Shopping',
       splitType: ExpenseSplitType.EXACT,
       date: getPastDate(22),
@@ -471,6 +483,7 @@ async function main() {
       description: 'Lunch at Italian restaurant',
       amountCents: 8500, // $85.00
       payerId: users.eve.id,
+      payers: { create: { userId: users.eve.id, paidCents: 8500 } },
       category: 'Food',
       splitType: ExpenseSplitType.EXACT,
       date: getPastDate(2),
@@ -493,6 +506,7 @@ async function main() {
       description: 'Hotel in Paris',
       amountCents: 25000, // €250.00
       payerId: users.iris.id,
+      payers: { create: { userId: users.iris.id, paidCents: 25000 } },
       category: 'Accommodation',
       currency: 'EUR',
       splitType: ExpenseSplitType.EQUAL,
@@ -514,6 +528,7 @@ async function main() {
       description: 'Train tickets to Amsterdam',
       amountCents: 32000, // €320.00
       payerId: users.jack.id,
+      payers: { create: { userId: users.jack.id, paidCents: 32000 } },
       category: 'Transportation',
       currency: 'EUR',
       splitType: ExpenseSplitType.EQUAL,
@@ -536,6 +551,7 @@ async function main() {
       description: 'Reunion venue rental',
       amountCents: 500000, // $5000.00
       payerId: users.charlie.id,
+      payers: { create: { userId: users.charlie.id, paidCents: 500000 } },
       category: 'Venue',
       splitType: ExpenseSplitType.EQUAL,
       date: getPastDate(40),
@@ -561,6 +577,7 @@ async function main() {
       description: 'Old group dinner',
       amountCents: 12000, // $120.00
       payerId: users.frank.id,
+      payers: { create: { userId: users.frank.id, paidCents: 12000 } },
       category: 'Food',
       splitType: ExpenseSplitType.EQUAL,
       date: getPastDate(190),
@@ -846,6 +863,7 @@ async function main() {
       description: 'Group dinner paid by Alice',
       amountCents: 30000, // $300.00
       payerId: users.alice.id,
+      payers: { create: { userId: users.alice.id, paidCents: 30000 } },
       category: 'Food',
       splitType: ExpenseSplitType.EQUAL,
       date: getPastDate(15),
@@ -866,6 +884,7 @@ async function main() {
       description: 'Taxi paid by Bob',
       amountCents: 5000, // $50.00
       payerId: users.bob.id,
+      payers: { create: { userId: users.bob.id, paidCents: 5000 } },
       category: 'Transportation',
       splitType: ExpenseSplitType.EQUAL,
       date: getPastDate(14),
@@ -887,6 +906,7 @@ async function main() {
       description: 'Groceries paid by Charlie',
       amountCents: 40000, // $400.00
       payerId: users.charlie.id,
+      payers: { create: { userId: users.charlie.id, paidCents: 40000 } },
       category: 'Food',
       splitType: ExpenseSplitType.PERCENTAGE,
       date: getPastDate(13),
@@ -909,6 +929,7 @@ async function main() {
       description: 'Event tickets paid by David',
       amountCents: 20000, // $200.00
       payerId: users.david.id,
+      payers: { create: { userId: users.david.id, paidCents: 20000 } },
       category: 'Entertainment',
       splitType: ExpenseSplitType.EQUAL,
       date: getPastDate(12),
@@ -0,0 +1,96 @@
+import { FastifyInstance } from 'fastify';
+import { prisma } from '../lib/prisma.js';
+
+export interface TestUser {
+  userId: string;
+  cookies: string;
+}
+
+export interface TestGroup {
+  authCookies: string;
+  testUserId: string;
+  otherCookies: string;
+  otherUserId: string;
+  groupId: string;
+}
+
+// Clear everything the route tests create
+export async function resetDatabase() {
+  await prisma.expenseComment.deleteMany();
+  await prisma.expense.deleteMany();
+  await prisma.recurringExpense.deleteMany();
+  await prisma.groupMember.deleteMany();
+  await prisma.group.deleteMany();
+  await prisma.user.deleteMany();
+}
+
+// Sign a user up through the API and keep their session cookies
+export async function registerUser(
+  server: FastifyInstance,
+  email: string,
+  name: string
+): Promise<TestUser> {
+  const response = await server.inject({
+    method: 'POST',
+    url: '/api/auth/register',
+    payload: { email, password: 'password123', name },
+  });
+
+  return {
+    userId: JSON.parse(response.body).user.id,
+    cookies: response.cookies.map((c) => `${c.name}=${c.value}`).join('; '),
+  };
+}
+
+/**
+ * Start each test from an empty database with a signed-in test user who
+ * owns a group shared with one other member, who can sign in too
+ */
+export async function createTestGroup(
+  server: FastifyInstance
+): Promise<TestGroup> {
+  await resetDatabase();
+
+  const testUser = await registerUser(server, 'test@example.com', 'Test User');
+  const otherUser = await registerUser(
+    server,
+    'other@example.com',
+    'Other User'
+  );
+
+  const group = await prisma.group.create({
+    data: {
+      ownerId: testUser.userId,
+      name: 'Flat',
+      currency: 'USD',
+      members: {
+        create: [
+          { userId: testUser.userId, role: 'OWNER' },
+          { userId: otherUser.userId, role: 'MEMBER' },
+        ],
+      },
+    },
+  });
+
+  return {
+    authCookies: testUser.cookies,
+    testUserId: testUser.userId,
+    otherCookies: otherUser.cookies,
+    otherUserId: otherUser.userId,
+    groupId: group.id,
+  };
+}
+
+// Who owes whom in a group
+export async function getPairwiseBalances(
+  server: FastifyInstance,
+  groupId: string,
+  cookies: string
+) {
+  const response = await server.inject({
+    method: 'GET',
+    url: `/api/groups/${groupId}/pairwise-balances`,
+    headers: { cookie: cookies },
+  });
+  return JSON.parse(response.body).balances;
+}
@@ -27,6 +27,10 @@ import expenseRoutes from './routes/expenses.js';
 import settlementRoutes from './routes/settlements.js';
 import userRoutes from './routes/users.js';
 import receiptRoutes from './routes/receipts.js';
+import inviteRoutes from './routes/invites.js';
+import exchangeRateRoutes from './routes/exchangeRates.js';
+import recurringRoutes from './routes/recurring.js';
+import commentRoutes from './routes/comments.js';
 
 export async function createApp(appInsightsClient?: TelemetryClient | null) {
   // Configure logger with Application Insights stream in production
@@ -180,10 +184,19 @@ export async function createApp(appInsightsClient?: TelemetryClient | null) {
         { name: 'Expenses', description: 'Expense management endpoints' },
         { name: 'Settlements', description: 'Settlement/payment endpoints' },
         { name: 'Users', description: 'User management endpoints' },
+        { name: 'Invites', description: 'Group invite link endpoints' },
+        {
+          name: 'Exchange Rates',
+          description: 'Currency exchange rate endpoints',
+        },
         {
           name: 'Receipts',
           description: 'Receipt upload and management endpoints',
         },
+        {
+          name: 'Recurring Expenses',
+          description: 'Recurring expense template endpoints',
+        },
       ],
       securityDefinitions: {
         bearerAuth: {
@@ -259,6 +272,10 @@ export async function createApp(appInsightsClient?: TelemetryClient | null) {
   await app.register(settlementRoutes, { prefix: '/api/settlements' });
   await app.register(userRoutes, { prefix: '/api/users' });
   await app.register(receiptRoutes, { prefix: '/api' });
+  await app.register(inviteRoutes, { prefix: '/api' });
+  await app.register(exchangeRateRoutes, { prefix: '/api/exchange-rates' });
+  await app.register(recurringRoutes, { prefix: '/api' });
+  await app.register(commentRoutes, { prefix: '/api' });
 
   // Root endpoint
   app.get('/', async () => {
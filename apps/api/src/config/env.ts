@@ -39,6 +39,24 @@ const envSchema = z.object({
   MAX_FILE_SIZE: z.coerce.number().default(5242880), // 5MB
   UPLOAD_DEST: z.string().default('uploads/receipts'),
   STORAGE_TYPE: z.enum(['local', 's3', 'azure']).default('local'),
+  FILE_URL_SECRET: z.string().min(32).optional(), // Signs local file URLs; defaults to JWT_SECRET
+
+  // Receipt OCR
+  OCR_ENGINE: z.enum(['tesseract', 'none']).default('tesseract'),
+  TESSERACT_PATH: z.string().default('tesseract'),
+  OCR_TIMEOUT_MS: z.coerce.number().default(60000),
+
+  // Receipt image processing
+  IMAGE_ENGINE: z.enum(['imagemagick', 'none']).default('imagemagick'),
+  MAGICK_PATH: z.string().default('magick'),
+  IMAGE_TIMEOUT_MS: z.coerce.number().default(30000),
+
+  // S3-compatible storage (AWS S3, MinIO, ...)
+  S3_ENDPOINT: z.string().url().optional(), // Leave unset for AWS S3
+  S3_REGION: z.string().default('us-east-1'),
+  S3_BUCKET: z.string().default('receipts'),
+  S3_ACCESS_KEY_ID: z.string().optional(),
+  S3_SECRET_ACCESS_KEY: z.string().optional(),
 
   // Email Configuration
   EMAIL_FROM: z.string().email().optional(),
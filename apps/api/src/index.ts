@@ -1,6 +1,8 @@
 import { createApp } from './app.js';
 import { env } from './config/env.js';
 import { prisma } from './lib/prisma.js';
+import { startRecurringScheduler } from './services/recurringExpenses.js';
+import { startPurgeScheduler } from './services/purgeDeleted.js';
 
 // Initialize Application Insights if connection string is available
 // This must be done early to properly instrument the app
@@ -67,9 +69,17 @@ async function start() {
     app.log.info(`[DOCS] API Documentation: http://localhost:${env.PORT}/docs`);
     app.log.info(`[HEALTH] Health Check: http://localhost:${env.PORT}/health`);
 
+    // Create recurring expenses as they come due
+    const recurringScheduler = startRecurringScheduler({ logger: app.log });
+
+    // Permanently remove expenses and groups deleted over 30 days ago
+    const purgeScheduler = startPurgeScheduler({ logger: app.log });
+
     // Handle graceful shutdown
     const shutdown = async () => {
       app.log.info('Shutting down gracefully');
+      recurringScheduler.stop();
+      purgeScheduler.stop();
       await app.close();
       await prisma.$disconnect();
       process.exit(0);
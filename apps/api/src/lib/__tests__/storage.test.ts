@@ -0,0 +1,344 @@
+import { test, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { createHash, createHmac } from 'crypto';
+import {
+  S3StorageService,
+  createStorageService,
+  verifyLocalFileSignature,
+} from '../storage.js';
+
+// A tiny in-process stand-in for an S3-compatible server such as MinIO.
+// It recomputes the SigV4 signature of every request and presigned URL with
+// the shared secret, as S3 does, and keeps objects in memory.
+const objects = new Map<string, { body: Buffer; contentType?: string }>();
+let server: Server;
+let endpoint: string;
+
+const config = {
+  region: 'us-east-1',
+  bucket: 'receipts',
+  accessKeyId: 'test-key',
+  secretAccessKey: 'test-secret',
+};
+
+const authorizationPattern =
+  /^AWS4-HMAC-SHA256 Credential=([^,]+), SignedHeaders=([^,]+), Signature=([0-9a-f]{64})$/;
+
+function sha256Hex(data: string | Buffer) {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string) {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+function encodeRfc3986(value: string) {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+// The signature S3 expects for a canonical request, or null when the
+// credential is not ours or its scope doesn't match the request date
+function expectedSignature(
+  credential: string,
+  amzDate: string,
+  canonicalRequest: string
+): string | null {
+  const [accessKeyId, ...scopeParts] = credential.split('/');
+  const scope = scopeParts.join('/');
+  const date = amzDate.slice(0, 8);
+
+  if (
+    accessKeyId !== config.accessKeyId ||
+    scope !== `${date}/${config.region}/s3/aws4_request`
+  ) {
+    return null;
+  }
+
+  const stringToSign = [
+    'AWS4-HMAC-SHA256',
+    amzDate,
+    scope,
+    sha256Hex(canonicalRequest),
+  ].join('\n');
+  const signingKey = hmac(
+    hmac(
+      hmac(hmac(`AWS4${config.secretAccessKey}`, date), config.region),
+      's3'
+    ),
+    'aws4_request'
+  );
+
+  return createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+}
+
+// Query-string authentication, used by presigned links
+function verifyPresignedUrl(url: URL, host: string): boolean {
+  const query = url.searchParams;
+  const amzDate = query.get('X-Amz-Date') ?? '';
+  const expiresAt =
+    Date.parse(
+      amzDate.replace(
+        /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/,
+        '$1-$2-$3T$4:$5:$6Z'
+      )
+    ) +
+    Number(query.get('X-Amz-Expires')) * 1000;
+
+  if (
+    query.get('X-Amz-Algorithm') !== 'AWS4-HMAC-SHA256' ||
+    query.get('X-Amz-SignedHeaders') !== 'host' ||
+    !(expiresAt >= Date.now())
+  ) {
+    return false;
+  }
+
+  const canonicalQuery = [...query]
+    .filter(([name]) => name !== 'X-Amz-Signature')
+    .map(([name, value]) => `${encodeRfc3986(name)}=${encodeRfc3986(value)}`)
+    .sort()
+    .join('&');
+  const canonicalRequest = [
+    'GET',
+    url.pathname,
+    canonicalQuery,
+    `host:${host}`,
+    '',
+    'host',
+    'UNSIGNED-PAYLOAD',
+  ].join('\n');
+
+  return (
+    expectedSignature(
+      query.get('X-Amz-Credential') ?? '',
+      amzDate,
+      canonicalRequest
+    ) === query.get('X-Amz-Signature')
+  );
+}
+
+// Header authentication, used by uploads and deletes
+function verifyAuthorization(
+  method: string,
+  url: URL,
+  headers: IncomingHttpHeaders,
+  body: Buffer
+): boolean {
+  const match = authorizationPattern.exec(headers.authorization ?? '');
+  if (!match) return false;
+
+  const [, credential, signedHeaders, signature] = match;
+  const headerNames = signedHeaders.split(';');
+  const payloadHash = headers['x-amz-content-sha256'];
+
+  // The date and body have to be covered by the signature
+  if (
+    !['host', 'x-amz-content-sha256', 'x-amz-date'].every((name) =>
+      headerNames.includes(name)
+    ) ||
+    payloadHash !== sha256Hex(body)
+  ) {
+    return false;
+  }
+
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    url.search.slice(1),
+    ...headerNames.map((name) => `${name}:${headers[name] ?? ''}`),
+    '',
+    signedHeaders,
+    payloadHash,
+  ].join('\n');
+
+  return (
+    expectedSignature(
+      credential,
+      String(headers['x-amz-date'] ?? ''),
+      canonicalRequest
+    ) === signature
+  );
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => {
+      const body = Buffer.concat(chunks);
+      const url = new URL(req.url ?? '', 'http://localhost');
+      const key = url.pathname;
+
+      // Reads need a presigned URL
+      if (req.method === 'GET') {
+        if (!verifyPresignedUrl(url, req.headers.host ?? '')) {
+          res.writeHead(403).end('AccessDenied');
+          return;
+        }
+
+        const object = objects.get(key);
+        if (!object) {
+          res.writeHead(404).end();
+          return;
+        }
+        res.writeHead(200, { 'content-type': object.contentType });
+        res.end(object.body);
+        return;
+      }
+
+      if (!verifyAuthorization(req.method ?? '', url, req.headers, body)) {
+        res.writeHead(403).end('SignatureDoesNotMatch');
+        return;
+      }
+
+      if (req.method === 'PUT') {
+        objects.set(key, { body, contentType: req.headers['content-type'] });
+        res.writeHead(200).end();
+      } else if (req.method === 'DELETE') {
+        objects.delete(key);
+        res.writeHead(204).end();
+      } else {
+        res.writeHead(405).end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  objects.clear();
+});
+
+test('upload - should store the file under the bucket with its content type', async () => {
+  const storage = new S3StorageService({ ...config, endpoint });
+  const file = Buffer.from('fake image data');
+
+  const key = await storage.upload(file, 'dinner.jpg', 'image/jpeg');
+
+  expect(key).toMatch(/^receipts\/[0-9a-f-]{36}\.jpg$/);
+  const stored = objects.get(`/receipts/${key}`);
+  expect(stored?.body.equals(file)).toBe(true);
+  expect(stored?.contentType).toBe('image/jpeg');
+});
+
+test('getSignedUrl - should presign a link to the uploaded object', async () => {
+  const storage = new S3StorageService({ ...config, endpoint });
+  const key = await storage.upload(
+    Buffer.from('%PDF-1.4'),
+    'invoice.pdf',
+    'application/pdf'
+  );
+
+  const url = new URL(await storage.getSignedUrl(key, 900));
+  expect(url.origin + url.pathname).toBe(`${endpoint}/receipts/${key}`);
+  expect(url.searchParams.get('X-Amz-Expires')).toBe('900');
+
+  const response = await fetch(url);
+  expect(response.status).toBe(200);
+  expect(await response.text()).toBe('%PDF-1.4');
+
+  // The bare object URL is not enough
+  const unsigned = await fetch(`${endpoint}/receipts/${key}`);
+  expect(unsigned.status).toBe(403);
+
+  // Nor is a signed link someone stretched the expiry of
+  url.searchParams.set('X-Amz-Expires', '604800');
+  const tampered = await fetch(url);
+  expect(tampered.status).toBe(403);
+});
+
+test('delete - should remove the object and ignore missing ones', async () => {
+  const storage = new S3StorageService({ ...config, endpoint });
+  const key = await storage.upload(Buffer.from('x'), 'a.png', 'image/png');
+
+  await storage.delete(key);
+  expect(objects.size).toBe(0);
+
+  // Deleting again is not an error
+  await expect(storage.delete(key)).resolves.toBeUndefined();
+});
+
+test('upload - should fail when the server rejects the credentials', async () => {
+  const storage = new S3StorageService({
+    ...config,
+    endpoint,
+    accessKeyId: 'wrong-key',
+  });
+
+  await expect(
+    storage.upload(Buffer.from('x'), 'a.png', 'image/png')
+  ).rejects.toThrow('S3 upload failed with status 403');
+  expect(objects.size).toBe(0);
+});
+
+test('upload - should fail when signed with the wrong secret', async () => {
+  const storage = new S3StorageService({
+    ...config,
+    endpoint,
+    secretAccessKey: 'wrong-secret',
+  });
+
+  await expect(
+    storage.upload(Buffer.from('x'), 'a.png', 'image/png')
+  ).rejects.toThrow('S3 upload failed with status 403');
+  expect(objects.size).toBe(0);
+});
+
+test('getSignedUrl - should not work when signed with the wrong secret', async () => {
+  const storage = new S3StorageService({ ...config, endpoint });
+  const key = await storage.upload(Buffer.from('x'), 'a.png', 'image/png');
+
+  const forged = new S3StorageService({
+    ...config,
+    endpoint,
+    secretAccessKey: 'wrong-secret',
+  });
+  const response = await fetch(await forged.getSignedUrl(key, 60));
+  expect(response.status).toBe(403);
+});
+
+test('getSignedUrl - should use virtual-hosted URLs and cap the expiry on AWS', async () => {
+  const aws = new S3StorageService(config);
+
+  const url = new URL(await aws.getSignedUrl('abc.jpg', 30 * 24 * 60 * 60));
+  expect(url.origin + url.pathname).toBe(
+    'https://receipts.s3.us-east-1.amazonaws.com/receipts/abc.jpg'
+  );
+  expect(url.searchParams.get('X-Amz-Expires')).toBe(String(7 * 24 * 60 * 60));
+});
+
+test('local getSignedUrl - should sign links that expire', async () => {
+  const local = createStorageService();
+  const url = new URL(
+    await local.getSignedUrl('receipts/abc.jpg', 60),
+    'http://localhost'
+  );
+
+  expect(url.pathname).toBe('/api/receipts/files/abc.jpg');
+  const expires = Number(url.searchParams.get('expires'));
+  const signature = url.searchParams.get('signature') ?? '';
+
+  expect(verifyLocalFileSignature('abc.jpg', expires, signature)).toBe(true);
+  // Another file, a later expiry or a later time all fail
+  expect(verifyLocalFileSignature('xyz.jpg', expires, signature)).toBe(false);
+  expect(verifyLocalFileSignature('abc.jpg', expires + 60, signature)).toBe(
+    false
+  );
+  expect(
+    verifyLocalFileSignature(
+      'abc.jpg',
+      expires,
+      signature,
+      (expires + 1) * 1000
+    )
+  ).toBe(false);
+});
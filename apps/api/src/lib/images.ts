@@ -0,0 +1,141 @@
+import { spawn } from 'child_process';
+import { env } from '../config/env.js';
+
+// Longest side of a receipt thumbnail, in pixels
+const THUMBNAIL_SIZE = 320;
+
+export interface ProcessedImage {
+  file: Buffer;
+  mimeType: string;
+}
+
+export interface ReceiptImageProcessor {
+  /**
+   * Turns the image upright using its EXIF orientation and strips its
+   * metadata, converting HEIC to JPEG. Returns null when the file type is not
+   * something this processor can handle.
+   */
+  normalize(file: Buffer, mimeType: string): Promise<ProcessedImage | null>;
+  /**
+   * Returns a small JPEG preview of an image that normalize() produced
+   */
+  thumbnail(file: Buffer, mimeType: string): Promise<ProcessedImage | null>;
+}
+
+/**
+ * Runs the local ImageMagick 7 `magick` command line tool
+ */
+class ImageMagickProcessor implements ReceiptImageProcessor {
+  // ImageMagick output format for each type it reads; HEIC is converted
+  // because browsers can't show it
+  private static readonly outputFormats: Record<string, string> = {
+    'image/jpeg': 'jpeg',
+    'image/png': 'png',
+    'image/gif': 'gif',
+    'image/webp': 'webp',
+    'image/heic': 'jpeg',
+    'image/heif': 'jpeg',
+  };
+
+  async normalize(
+    file: Buffer,
+    mimeType: string
+  ): Promise<ProcessedImage | null> {
+    const format = ImageMagickProcessor.outputFormats[mimeType];
+    if (!format) {
+      return null;
+    }
+
+    // -strip drops EXIF, including GPS location, once it has been applied
+    const output = await this.run(
+      ['-', '-auto-orient', '-strip', '-quality', '90', `${format}:-`],
+      file
+    );
+    return { file: output, mimeType: `image/${format}` };
+  }
+
+  async thumbnail(
+    file: Buffer,
+    mimeType: string
+  ): Promise<ProcessedImage | null> {
+    if (!ImageMagickProcessor.outputFormats[mimeType]) {
+      return null;
+    }
+
+    // Only the first frame of animated images; transparency becomes white
+    const output = await this.run(
+      [
+        '-[0]',
+        '-thumbnail',
+        `${THUMBNAIL_SIZE}x${THUMBNAIL_SIZE}>`,
+        '-background',
+        'white',
+        '-flatten',
+        '-quality',
+        '80',
+        'jpeg:-',
+      ],
+      file
+    );
+    return { file: output, mimeType: 'image/jpeg' };
+  }
+
+  private run(args: string[], input: Buffer): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      // Read the image from stdin and write the result to stdout
+      const child = spawn(env.MAGICK_PATH, args, {
+        timeout: env.IMAGE_TIMEOUT_MS,
+      });
+      const stdout: Buffer[] = [];
+      const stderr: Buffer[] = [];
+
+      child.stdout.on('data', (chunk) => stdout.push(chunk));
+      child.stderr.on('data', (chunk) => stderr.push(chunk));
+      child.on('error', reject);
+      child.on('close', (code, signal) => {
+        if (code === 0) {
+          resolve(Buffer.concat(stdout));
+        } else {
+          reject(
+            new Error(
+              `magick exited with ${signal ?? `code ${code}`}: ${Buffer.concat(stderr).toString('utf8').trim()}`
+            )
+          );
+        }
+      });
+
+      child.stdin.on('error', () => {
+        // magick may exit before reading everything, e.g. on a corrupt
+        // image; the close handler reports that
+      });
+      child.stdin.end(input);
+    });
+  }
+}
+
+/**
+ * Processor used when image processing is turned off. Files are stored as
+ * uploaded and get no thumbnail.
+ */
+class NoopImageProcessor implements ReceiptImageProcessor {
+  async normalize(): Promise<ProcessedImage | null> {
+    return null;
+  }
+
+  async thumbnail(): Promise<ProcessedImage | null> {
+    return null;
+  }
+}
+
+// Factory function to create the processor based on env
+export function createReceiptImageProcessor(): ReceiptImageProcessor {
+  switch (env.IMAGE_ENGINE) {
+    case 'none':
+      return new NoopImageProcessor();
+    case 'imagemagick':
+    default:
+      return new ImageMagickProcessor();
+  }
+}
+
+export const receiptImageProcessor = createReceiptImageProcessor();
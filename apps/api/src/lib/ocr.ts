@@ -0,0 +1,81 @@
+import { spawn } from 'child_process';
+import { env } from '../config/env.js';
+
+export interface ReceiptRecognizer {
+  /**
+   * Returns the text found in the file, or null when the file type is not
+   * something this recognizer can read
+   */
+  recognize(file: Buffer, mimeType: string): Promise<string | null>;
+}
+
+/**
+ * Runs the local `tesseract` command line tool
+ */
+class TesseractRecognizer implements ReceiptRecognizer {
+  // Leptonica reads these; PDFs would need rasterizing first
+  private static readonly supportedTypes = [
+    'image/jpeg',
+    'image/png',
+    'image/gif',
+    'image/webp',
+  ];
+
+  async recognize(file: Buffer, mimeType: string): Promise<string | null> {
+    if (!TesseractRecognizer.supportedTypes.includes(mimeType)) {
+      return null;
+    }
+
+    return new Promise((resolve, reject) => {
+      // Read the image from stdin and write plain text to stdout
+      const child = spawn(env.TESSERACT_PATH, ['stdin', 'stdout'], {
+        timeout: env.OCR_TIMEOUT_MS,
+      });
+      const stdout: Buffer[] = [];
+      const stderr: Buffer[] = [];
+
+      child.stdout.on('data', (chunk) => stdout.push(chunk));
+      child.stderr.on('data', (chunk) => stderr.push(chunk));
+      child.on('error', reject);
+      child.on('close', (code, signal) => {
+        if (code === 0) {
+          resolve(Buffer.concat(stdout).toString('utf8'));
+        } else {
+          reject(
+            new Error(
+              `tesseract exited with ${signal ?? `code ${code}`}: ${Buffer.concat(stderr).toString('utf8').trim()}`
+            )
+          );
+        }
+      });
+
+      child.stdin.on('error', () => {
+        // tesseract may exit before reading everything, e.g. on a bad
+        // image; the close handler reports that
+      });
+      child.stdin.end(file);
+    });
+  }
+}
+
+/**
+ * Recognizer used when OCR is turned off
+ */
+class NoopRecognizer implements ReceiptRecognizer {
+  async recognize(): Promise<string | null> {
+    return null;
+  }
+}
+
+// Factory function to create the recognizer based on env
+export function createReceiptRecognizer(): ReceiptRecognizer {
+  switch (env.OCR_ENGINE) {
+    case 'none':
+      return new NoopRecognizer();
+    case 'tesseract':
+    default:
+      return new TesseractRecognizer();
+  }
+}
+
+export const receiptRecognizer = createReceiptRecognizer();
@@ -1,13 +1,45 @@
 import { promises as fs } from 'fs';
 import path from 'path';
-import { randomUUID } from 'crypto';
-import { BlobServiceClient, ContainerClient } from '@azure/storage-blob';
+import { createHash, createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import {
+  BlobSASPermissions,
+  BlobServiceClient,
+  ContainerClient,
+} from '@azure/storage-blob';
 import { env } from '../config/env.js';
 
 export interface StorageService {
   upload(file: Buffer, filename: string, mimeType: string): Promise<string>;
   delete(fileUrl: string): Promise<void>;
-  getUrl(filePath: string): string;
+  /**
+   * Returns a URL that grants read access to the file for `ttlSeconds`
+   */
+  getSignedUrl(filePath: string, ttlSeconds: number): Promise<string>;
+}
+
+function localSignature(filename: string, expires: number): string {
+  return createHmac('sha256', env.FILE_URL_SECRET || env.JWT_SECRET)
+    .update(`${filename}:${expires}`)
+    .digest('hex');
+}
+
+/**
+ * Checks a signed local file URL, as produced by
+ * `LocalStorageService.getSignedUrl`, and that it has not expired
+ */
+export function verifyLocalFileSignature(
+  filename: string,
+  expires: number,
+  signature: string,
+  now = Date.now()
+): boolean {
+  if (!Number.isInteger(expires) || expires * 1000 < now) {
+    return false;
+  }
+
+  const expected = Buffer.from(localSignature(filename, expires), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
 }
 
 /**
@@ -67,10 +99,15 @@ class LocalStorageService implements StorageService {
     }
   }
 
-  getUrl(filePath: string): string {
-    // For local storage, return a path that can be served statically
-    // In production, this would return a CDN URL or signed URL
-    return `/api/receipts/files/${filePath.replace('receipts/', '')}`;
+  async getSignedUrl(filePath: string, ttlSeconds: number): Promise<string> {
+    // Served by the receipts route, which checks the signature
+    const filename = filePath.replace('receipts/', '');
+    const expires = Math.floor(Date.now() / 1000) + ttlSeconds;
+    const params = new URLSearchParams({
+      expires: String(expires),
+      signature: localSignature(filename, expires),
+    });
+    return `/api/receipts/files/${filename}?${params}`;
   }
 }
 
@@ -80,7 +117,6 @@ class LocalStorageService implements StorageService {
 class AzureStorageService implements StorageService {
   private containerClient: ContainerClient;
   private containerName: string;
-  private accountName: string;
 
   constructor() {
     const connectionString =
@@ -94,7 +130,6 @@ class AzureStorageService implements StorageService {
     }
 
     this.containerName = process.env.AZURE_STORAGE_CONTAINER_NAME || 'receipts';
-    this.accountName = process.env.AZURE_STORAGE_ACCOUNT_NAME || '';
 
     const blobServiceClient =
       BlobServiceClient.fromConnectionString(connectionString);
@@ -147,19 +182,241 @@ class AzureStorageService implements StorageService {
     }
   }
 
-  getUrl(filePath: string): string {
-    // Construct blob URL
-    // Format: https://{accountName}.blob.core.windows.net/{containerName}/{blobName}
+  async getSignedUrl(filePath: string, ttlSeconds: number): Promise<string> {
     const blobName = filePath.startsWith('receipts/')
       ? filePath
       : `receipts/${filePath}`;
 
-    if (this.accountName) {
-      return `https://${this.accountName}.blob.core.windows.net/${this.containerName}/${blobName}`;
+    // Read-only SAS; needs a connection string with an account key
+    return this.containerClient.getBlockBlobClient(blobName).generateSasUrl({
+      permissions: BlobSASPermissions.parse('r'),
+      expiresOn: new Date(Date.now() + ttlSeconds * 1000),
+    });
+  }
+}
+
+export interface S3StorageConfig {
+  endpoint?: string; // e.g. http://localhost:9000 for MinIO; unset for AWS
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+// S3 rejects presigned URLs that live longer than a week
+const S3_MAX_PRESIGN_SECONDS = 7 * 24 * 60 * 60;
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+// RFC 3986 encoding as required by SigV4
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+// Keeps the slashes between key segments
+function encodeKey(key: string): string {
+  return key.split('/').map(encodeRfc3986).join('/');
+}
+
+/**
+ * S3-compatible object storage (AWS S3, MinIO, ...)
+ *
+ * Requests are signed with AWS Signature Version 4. Custom endpoints use
+ * path-style URLs, which is what MinIO and most S3 clones expect.
+ */
+export class S3StorageService implements StorageService {
+  private config: S3StorageConfig;
+
+  constructor(config?: S3StorageConfig) {
+    if (config) {
+      this.config = config;
+      return;
     }
 
-    // Fallback: return path that can be served via API endpoint
-    return `/api/receipts/files/${blobName.replace('receipts/', '')}`;
+    if (!env.S3_ACCESS_KEY_ID || !env.S3_SECRET_ACCESS_KEY) {
+      throw new Error(
+        'S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY environment variables are required for S3 storage'
+      );
+    }
+
+    this.config = {
+      endpoint: env.S3_ENDPOINT,
+      region: env.S3_REGION,
+      bucket: env.S3_BUCKET,
+      accessKeyId: env.S3_ACCESS_KEY_ID,
+      secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+    };
+  }
+
+  async upload(
+    file: Buffer,
+    filename: string,
+    mimeType: string
+  ): Promise<string> {
+    // Generate secure filename using UUID
+    const ext = path.extname(filename);
+    const key = `receipts/${randomUUID()}${ext}`;
+
+    const response = await this.request('PUT', key, file, {
+      'content-type': mimeType,
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `S3 upload failed with status ${response.status}: ${await response.text()}`
+      );
+    }
+
+    // Return key for storage in database
+    return key;
+  }
+
+  async delete(fileUrl: string): Promise<void> {
+    const key = fileUrl.includes('/') ? fileUrl : `receipts/${fileUrl}`;
+
+    const response = await this.request('DELETE', key);
+
+    // S3 answers 204 whether or not the object existed; some clones send 404
+    if (!response.ok && response.status !== 404) {
+      throw new Error(
+        `S3 delete failed with status ${response.status}: ${await response.text()}`
+      );
+    }
+  }
+
+  async getSignedUrl(filePath: string, ttlSeconds: number): Promise<string> {
+    const key = filePath.startsWith('receipts/')
+      ? filePath
+      : `receipts/${filePath}`;
+    const url = this.objectUrl(key);
+    const { amzDate, scope } = this.timestamp();
+
+    // Query-string authentication: everything but the host lives in the URL
+    const query: Record<string, string> = {
+      'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+      'X-Amz-Credential': `${this.config.accessKeyId}/${scope}`,
+      'X-Amz-Date': amzDate,
+      'X-Amz-Expires': String(Math.min(ttlSeconds, S3_MAX_PRESIGN_SECONDS)),
+      'X-Amz-SignedHeaders': 'host',
+    };
+    const canonicalQuery = Object.keys(query)
+      .sort()
+      .map((name) => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`)
+      .join('&');
+
+    const signature = this.sign(
+      [
+        'GET',
+        url.pathname,
+        canonicalQuery,
+        `host:${url.host}`,
+        '',
+        'host',
+        'UNSIGNED-PAYLOAD',
+      ].join('\n'),
+      amzDate,
+      scope
+    );
+
+    url.search = `${canonicalQuery}&X-Amz-Signature=${signature}`;
+    return url.toString();
+  }
+
+  private objectUrl(key: string): URL {
+    const { endpoint, bucket, region } = this.config;
+
+    if (endpoint) {
+      return new URL(
+        `${endpoint.replace(/\/$/, '')}/${bucket}/${encodeKey(key)}`
+      );
+    }
+
+    return new URL(
+      `https://${bucket}.s3.${region}.amazonaws.com/${encodeKey(key)}`
+    );
+  }
+
+  private timestamp() {
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const scope = `${amzDate.slice(0, 8)}/${this.config.region}/s3/aws4_request`;
+    return { amzDate, scope };
+  }
+
+  private sign(canonicalRequest: string, amzDate: string, scope: string) {
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      amzDate,
+      scope,
+      sha256Hex(canonicalRequest),
+    ].join('\n');
+
+    const signingKey = hmac(
+      hmac(
+        hmac(
+          hmac(`AWS4${this.config.secretAccessKey}`, amzDate.slice(0, 8)),
+          this.config.region
+        ),
+        's3'
+      ),
+      'aws4_request'
+    );
+
+    return createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+  }
+
+  private async request(
+    method: 'PUT' | 'DELETE',
+    key: string,
+    body?: Buffer,
+    headers: Record<string, string> = {}
+  ): Promise<Response> {
+    const url = this.objectUrl(key);
+    const { amzDate, scope } = this.timestamp();
+    const payloadHash = sha256Hex(body ?? '');
+
+    const amzHeaders = {
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+    // fetch derives the Host header from the URL, but it must be signed
+    const signedHeaders: Record<string, string> = {
+      host: url.host,
+      ...amzHeaders,
+    };
+    const headerNames = Object.keys(signedHeaders).sort();
+
+    const signature = this.sign(
+      [
+        method,
+        url.pathname,
+        '', // No query string
+        ...headerNames.map((name) => `${name}:${signedHeaders[name]}`),
+        '',
+        headerNames.join(';'),
+        payloadHash,
+      ].join('\n'),
+      amzDate,
+      scope
+    );
+
+    return fetch(url, {
+      method,
+      body,
+      headers: {
+        ...headers,
+        ...amzHeaders,
+        authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${headerNames.join(';')}, Signature=${signature}`,
+      },
+    });
   }
 }
 
@@ -170,6 +427,8 @@ export function createStorageService(): StorageService {
   switch (storageType) {
     case 'azure':
       return new AzureStorageService();
+    case 's3':
+      return new S3StorageService();
     case 'local':
       return new LocalStorageService();
     default:
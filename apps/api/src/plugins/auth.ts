@@ -46,7 +46,15 @@ async function authPlugin(fastify: FastifyInstance) {
       );
     });
 
-    if (isPublicRoute) {
+    // Routes that are public only on an exact match, so nested routes
+    // (e.g. accepting an invite) still require authentication.
+    // Receipt files are authorized by their signed URL instead.
+    const publicExactRoutes = [
+      '/api/invites/:code',
+      '/api/receipts/files/:filename',
+    ];
+
+    if (isPublicRoute || publicExactRoutes.includes(normalizedPath)) {
       return;
     }
 
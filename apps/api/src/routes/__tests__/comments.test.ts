@@ -0,0 +1,148 @@
+import { test, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { FastifyInstance } from 'fastify';
+import { createApp } from '../../app.js';
+import { prisma } from '../../lib/prisma.js';
+import { createTestGroup } from '../../__tests__/fixtures.js';
+
+let server: FastifyInstance;
+let authCookies: string;
+let testUserId: string;
+let otherUserId: string;
+let groupId: string;
+let expenseId: string;
+
+beforeAll(async () => {
+  server = await createApp();
+  await server.ready();
+});
+
+afterAll(async () => {
+  await prisma.$disconnect();
+  await server.close();
+});
+
+beforeEach(async () => {
+  ({ authCookies, testUserId, otherUserId, groupId } =
+    await createTestGroup(server));
+
+  const expense = await prisma.expense.create({
+    data: {
+      groupId,
+      payerId: testUserId,
+      description: 'Groceries',
+      amountCents: 4200,
+      participants: {
+        create: [
+          { userId: testUserId, shareCents: 2100 },
+          { userId: otherUserId, shareCents: 2100 },
+        ],
+      },
+    },
+  });
+  expenseId = expense.id;
+});
+
+test('POST /expenses/:expenseId/comments - should add a comment', async () => {
+  const response = await server.inject({
+    method: 'POST',
+    url: `/api/expenses/${expenseId}/comments`,
+    headers: { cookie: authCookies },
+    payload: { body: '  Was this the big shop?  ' },
+  });
+
+  expect(response.statusCode).toBe(201);
+  const { comment } = JSON.parse(response.body);
+  expect(comment.body).toBe('Was this the big shop?');
+  expect(comment.author.id).toBe(testUserId);
+});
+
+test('POST /expenses/:expenseId/comments - should reject empty comments', async () => {
+  const response = await server.inject({
+    method: 'POST',
+    url: `/api/expenses/${expenseId}/comments`,
+    headers: { cookie: authCookies },
+    payload: { body: '   ' },
+  });
+
+  expect(response.statusCode).toBe(400);
+});
+
+test('GET /expenses/:expenseId/comments - should list oldest first', async () => {
+  await prisma.expenseComment.create({
+    data: {
+      expenseId,
+      authorId: otherUserId,
+      body: 'First',
+      createdAt: new Date('2025-01-01T00:00:00.000Z'),
+    },
+  });
+  await prisma.expenseComment.create({
+    data: {
+      expenseId,
+      authorId: testUserId,
+      body: 'Second',
+      createdAt: new Date('2025-01-02T00:00:00.000Z'),
+    },
+  });
+
+  const response = await server.inject({
+    method: 'GET',
+    url: `/api/expenses/${expenseId}/comments`,
+    headers: { cookie: authCookies },
+  });
+
+  expect(response.statusCode).toBe(200);
+  const { comments } = JSON.parse(response.body);
+  expect(comments.map((c: { body: string }) => c.body)).toEqual([
+    'First',
+    'Second',
+  ]);
+});
+
+test('PUT /expenses/:expenseId/comments/:commentId - only the author can edit', async () => {
+  const comment = await prisma.expenseComment.create({
+    data: { expenseId, authorId: otherUserId, body: 'Mine' },
+  });
+
+  const response = await server.inject({
+    method: 'PUT',
+    url: `/api/expenses/${expenseId}/comments/${comment.id}`,
+    headers: { cookie: authCookies },
+    payload: { body: 'Not yours' },
+  });
+
+  expect(response.statusCode).toBe(403);
+});
+
+test('DELETE /expenses/:expenseId/comments/:commentId - admins can delete any comment', async () => {
+  const comment = await prisma.expenseComment.create({
+    data: { expenseId, authorId: otherUserId, body: 'Spam' },
+  });
+
+  const response = await server.inject({
+    method: 'DELETE',
+    url: `/api/expenses/${expenseId}/comments/${comment.id}`,
+    headers: { cookie: authCookies },
+  });
+
+  expect(response.statusCode).toBe(200);
+  expect(await prisma.expenseComment.count()).toBe(0);
+});
+
+test('GET /expenses/group/:groupId - should include comment counts', async () => {
+  await prisma.expenseComment.createMany({
+    data: [
+      { expenseId, authorId: testUserId, body: 'One' },
+      { expenseId, authorId: otherUserId, body: 'Two' },
+    ],
+  });
+
+  const response = await server.inject({
+    method: 'GET',
+    url: `/api/expenses/group/${groupId}`,
+    headers: { cookie: authCookies },
+  });
+
+  expect(response.statusCode).toBe(200);
+  expect(JSON.parse(response.body).expenses[0].commentCount).toBe(2);
+});
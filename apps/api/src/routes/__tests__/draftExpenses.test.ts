@@ -0,0 +1,160 @@
+import { test, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { FastifyInstance } from 'fastify';
+import { createApp } from '../../app.js';
+import { prisma } from '../../lib/prisma.js';
+import {
+  createTestGroup,
+  getPairwiseBalances,
+} from '../../__tests__/fixtures.js';
+
+// Stand in for tesseract; each test sets the text the receipt "contains"
+const ocr = vi.hoisted(() => ({ text: '' }));
+vi.mock('../../lib/ocr.js', () => ({
+  receiptRecognizer: { recognize: async () => ocr.text },
+}));
+
+// The fake image data is stored as uploaded
+vi.mock('../../lib/images.js', () => ({
+  receiptImageProcessor: {
+    normalize: async () => null,
+    thumbnail: async () => null,
+  },
+}));
+
+let server: FastifyInstance;
+let authCookies: string;
+let testUserId: string;
+let groupId: string;
+
+beforeAll(async () => {
+  server = await createApp();
+  await server.ready();
+});
+
+afterAll(async () => {
+  await prisma.$disconnect();
+  await server.close();
+});
+
+beforeEach(async () => {
+  ({ authCookies, testUserId, groupId } = await createTestGroup(server));
+});
+
+async function scanReceipt(text: string) {
+  ocr.text = text;
+
+  // Hand-built multipart body with a single image file
+  const boundary = '----receipt-boundary';
+  const payload = Buffer.concat([
+    Buffer.from(
+      `--${boundary}\r\n` +
+        'Content-Disposition: form-data; name="file"; filename="receipt.jpg"\r\n' +
+        'Content-Type: image/jpeg\r\n\r\n'
+    ),
+    Buffer.from('fake image data'),
+    Buffer.from(`\r\n--${boundary}--\r\n`),
+  ]);
+
+  const response = await server.inject({
+    method: 'POST',
+    url: `/api/groups/${groupId}/receipts/draft`,
+    headers: {
+      cookie: authCookies,
+      'content-type': `multipart/form-data; boundary=${boundary}`,
+    },
+    payload,
+  });
+
+  expect(response.statusCode).toBe(201);
+  return JSON.parse(response.body);
+}
+
+async function confirm(expenseId: string) {
+  return server.inject({
+    method: 'POST',
+    url: `/api/expenses/${expenseId}/confirm`,
+    headers: { cookie: authCookies },
+  });
+}
+
+test('POST /groups/:groupId/receipts/draft - should prefill a draft from the receipt', async () => {
+  const { expense, receipt } = await scanReceipt(
+    'CORNER BISTRO\n2025-03-14\nPasta 14.00\nSalad 9.50\nTotal 23.50'
+  );
+
+  expect(expense).toMatchObject({
+    description: 'CORNER BISTRO',
+    amountCents: 2350,
+    date: '2025-03-14T00:00:00.000Z',
+    payerId: testUserId,
+    splitType: 'EQUAL',
+    isDraft: true,
+  });
+  expect(
+    expense.participants.map((p: { shareCents: number }) => p.shareCents)
+  ).toEqual([1175, 1175]);
+  expect(receipt.ocrStatus).toBe('COMPLETED');
+  expect(receipt.fileUrl).toContain('signature=');
+});
+
+test('POST /groups/:groupId/receipts/draft - should keep drafts out of balances and lists', async () => {
+  const { expense } = await scanReceipt('Cafe\nTotal 10.00');
+
+  expect(await getPairwiseBalances(server, groupId, authCookies)).toHaveLength(
+    0
+  );
+
+  const listResponse = await server.inject({
+    method: 'GET',
+    url: `/api/expenses/group/${groupId}`,
+    headers: { cookie: authCookies },
+  });
+  expect(JSON.parse(listResponse.body).expenses).toHaveLength(0);
+
+  const draftsResponse = await server.inject({
+    method: 'GET',
+    url: `/api/expenses/group/${groupId}/drafts`,
+    headers: { cookie: authCookies },
+  });
+  expect(JSON.parse(draftsResponse.body).expenses[0].id).toBe(expense.id);
+});
+
+test('POST /expenses/:expenseId/confirm - should put the draft in the balances once', async () => {
+  const { expense } = await scanReceipt('Cafe\nTotal 10.00');
+
+  const response = await confirm(expense.id);
+  expect(response.statusCode).toBe(200);
+  expect(await getPairwiseBalances(server, groupId, authCookies)).toHaveLength(
+    1
+  );
+
+  const revisions = await prisma.expenseRevision.findMany({
+    where: { expenseId: expense.id },
+    orderBy: { createdAt: 'asc' },
+  });
+  expect(revisions.map((r) => r.action)).toEqual(['CREATE', 'CONFIRM']);
+
+  // Confirming twice is an error
+  expect((await confirm(expense.id)).statusCode).toBe(400);
+});
+
+test('POST /expenses/:expenseId/confirm - should need an amount when none was read', async () => {
+  const { expense } = await scanReceipt('~~ unreadable ~~');
+  expect(expense.amountCents).toBe(0);
+  expect(expense.description).toBe('Scanned receipt');
+
+  expect((await confirm(expense.id)).statusCode).toBe(400);
+
+  const updateResponse = await server.inject({
+    method: 'PUT',
+    url: `/api/expenses/${expense.id}`,
+    headers: { cookie: authCookies },
+    payload: { amountCents: 3000 },
+  });
+  expect(updateResponse.statusCode).toBe(200);
+
+  expect((await confirm(expense.id)).statusCode).toBe(200);
+  expect(await getPairwiseBalances(server, groupId, authCookies)).toHaveLength(
+    1
+  );
+});
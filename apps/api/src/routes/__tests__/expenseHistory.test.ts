@@ -0,0 +1,105 @@
+import { test, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { FastifyInstance } from 'fastify';
+import { createApp } from '../../app.js';
+import { prisma } from '../../lib/prisma.js';
+import { createTestGroup } from '../../__tests__/fixtures.js';
+
+let server: FastifyInstance;
+let authCookies: string;
+let testUserId: string;
+let otherUserId: string;
+let groupId: string;
+
+beforeAll(async () => {
+  server = await createApp();
+  await server.ready();
+});
+
+afterAll(async () => {
+  await prisma.$disconnect();
+  await server.close();
+});
+
+beforeEach(async () => {
+  ({ authCookies, testUserId, otherUserId, groupId } =
+    await createTestGroup(server));
+});
+
+test('GET /expenses/:expenseId/history - should record every change', async () => {
+  const created = await server.inject({
+    method: 'POST',
+    url: `/api/expenses?groupId=${groupId}`,
+    headers: { cookie: authCookies },
+    payload: {
+      description: 'Groceries',
+      amountCents: 4200,
+      payerId: testUserId,
+      splitType: 'EQUAL',
+      participants: [{ userId: testUserId }, { userId: otherUserId }],
+    },
+  });
+  expect(created.statusCode).toBe(201);
+  const expenseId = JSON.parse(created.body).expense.id;
+
+  await server.inject({
+    method: 'PUT',
+    url: `/api/expenses/${expenseId}`,
+    headers: { cookie: authCookies },
+    payload: { amountCents: 5000 },
+  });
+
+  // Saving without changes adds nothing to the history
+  await server.inject({
+    method: 'PUT',
+    url: `/api/expenses/${expenseId}`,
+    headers: { cookie: authCookies },
+    payload: { description: 'Groceries' },
+  });
+
+  await server.inject({
+    method: 'DELETE',
+    url: `/api/expenses/${expenseId}`,
+    headers: { cookie: authCookies },
+  });
+
+  // The history is still there after the expense is gone
+  const response = await server.inject({
+    method: 'GET',
+    url: `/api/expenses/${expenseId}/history`,
+    headers: { cookie: authCookies },
+  });
+
+  expect(response.statusCode).toBe(200);
+  const { revisions } = JSON.parse(response.body);
+  expect(revisions.map((r: { action: string }) => r.action)).toEqual([
+    'CREATE',
+    'UPDATE',
+    'DELETE',
+  ]);
+  expect(revisions[1].changes.amountCents).toEqual({ from: 4200, to: 5000 });
+  expect(revisions[1].changes.shares.to).toEqual({
+    [testUserId]: 2500,
+    [otherUserId]: 2500,
+  });
+  expect(revisions[1].actor.id).toBe(testUserId);
+});
+
+test('GET /expenses/:expenseId/history - should hide history from non-members', async () => {
+  const expense = await prisma.expense.create({
+    data: {
+      groupId,
+      payerId: testUserId,
+      description: 'Rent',
+      amountCents: 100,
+    },
+  });
+  await prisma.groupMember.deleteMany({ where: { userId: testUserId } });
+
+  const response = await server.inject({
+    method: 'GET',
+    url: `/api/expenses/${expense.id}/history`,
+    headers: { cookie: authCookies },
+  });
+
+  expect(response.statusCode).toBe(403);
+});
@@ -0,0 +1,183 @@
+import { test, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { FastifyInstance } from 'fastify';
+import { createApp } from '../../app.js';
+import { prisma } from '../../lib/prisma.js';
+import {
+  createTestGroup,
+  getPairwiseBalances,
+} from '../../__tests__/fixtures.js';
+
+let server: FastifyInstance;
+let authCookies: string;
+let testUserId: string;
+let otherUserId: string;
+let groupId: string;
+
+beforeAll(async () => {
+  server = await createApp();
+  await server.ready();
+});
+
+afterAll(async () => {
+  await prisma.$disconnect();
+  await server.close();
+});
+
+beforeEach(async () => {
+  ({ authCookies, testUserId, otherUserId, groupId } =
+    await createTestGroup(server));
+});
+
+test('POST /expenses - should credit each payer of a shared expense', async () => {
+  // Hotel put on two cards, shared equally
+  const response = await server.inject({
+    method: 'POST',
+    url: `/api/expenses?groupId=${groupId}`,
+    headers: { cookie: authCookies },
+    payload: {
+      description: 'Hotel',
+      amountCents: 30000,
+      payerId: testUserId,
+      payers: [
+        { userId: testUserId, paidCents: 20000 },
+        { userId: otherUserId, paidCents: 10000 },
+      ],
+      splitType: 'EQUAL',
+      participants: [{ userId: testUserId }, { userId: otherUserId }],
+    },
+  });
+
+  expect(response.statusCode).toBe(201);
+  expect(JSON.parse(response.body).expense.payers).toHaveLength(2);
+
+  // Each owes $150; the other user paid $100 of theirs
+  const balances = await getPairwiseBalances(server, groupId, authCookies);
+  expect(balances).toHaveLength(1);
+  expect(balances[0]).toMatchObject({
+    from: { id: otherUserId },
+    to: { id: testUserId },
+    amountCents: 5000,
+  });
+});
+
+test('POST /expenses - should reject payers that do not add up to the amount', async () => {
+  const response = await server.inject({
+    method: 'POST',
+    url: `/api/expenses?groupId=${groupId}`,
+    headers: { cookie: authCookies },
+    payload: {
+      description: 'Hotel',
+      amountCents: 30000,
+      payerId: testUserId,
+      payers: [
+        { userId: testUserId, paidCents: 20000 },
+        { userId: otherUserId, paidCents: 5000 },
+      ],
+      splitType: 'EQUAL',
+      participants: [{ userId: testUserId }, { userId: otherUserId }],
+    },
+  });
+
+  expect(response.statusCode).toBe(400);
+});
+
+test('PUT /expenses/:expenseId - should require payers to change the amount of a shared expense', async () => {
+  const created = await server.inject({
+    method: 'POST',
+    url: `/api/expenses?groupId=${groupId}`,
+    headers: { cookie: authCookies },
+    payload: {
+      description: 'Hotel',
+      amountCents: 30000,
+      payerId: testUserId,
+      payers: [
+        { userId: testUserId, paidCents: 15000 },
+        { userId: otherUserId, paidCents: 15000 },
+      ],
+      splitType: 'EQUAL',
+      participants: [{ userId: testUserId }, { userId: otherUserId }],
+    },
+  });
+  const expenseId = JSON.parse(created.body).expense.id;
+
+  const rejected = await server.inject({
+    method: 'PUT',
+    url: `/api/expenses/${expenseId}`,
+    headers: { cookie: authCookies },
+    payload: { amountCents: 32000 },
+  });
+  expect(rejected.statusCode).toBe(400);
+
+  const updated = await server.inject({
+    method: 'PUT',
+    url: `/api/expenses/${expenseId}`,
+    headers: { cookie: authCookies },
+    payload: {
+      amountCents: 32000,
+      payers: [
+        { userId: testUserId, paidCents: 16000 },
+        { userId: otherUserId, paidCents: 16000 },
+      ],
+    },
+  });
+  expect(updated.statusCode).toBe(200);
+  expect(await getPairwiseBalances(server, groupId, authCookies)).toHaveLength(
+    0
+  );
+});
+
+test('POST /settlements - should let a participant pay back each payer their part', async () => {
+  const thirdUser = await prisma.user.create({
+    data: {
+      email: 'third@example.com',
+      passwordHash: 'hash',
+      name: 'Third User',
+    },
+  });
+  await prisma.groupMember.create({
+    data: { groupId, userId: thirdUser.id, role: 'MEMBER' },
+  });
+
+  // The other two paid half each; the test user owes each of them $50
+  const created = await server.inject({
+    method: 'POST',
+    url: `/api/expenses?groupId=${groupId}`,
+    headers: { cookie: authCookies },
+    payload: {
+      description: 'Hotel',
+      amountCents: 30000,
+      payerId: otherUserId,
+      payers: [
+        { userId: otherUserId, paidCents: 15000 },
+        { userId: thirdUser.id, paidCents: 15000 },
+      ],
+      splitType: 'EQUAL',
+      participants: [
+        { userId: testUserId },
+        { userId: otherUserId },
+        { userId: thirdUser.id },
+      ],
+    },
+  });
+  const expenseId = JSON.parse(created.body).expense.id;
+
+  const settle = (toUserId: string, amountCents: number) =>
+    server.inject({
+      method: 'POST',
+      url: `/api/settlements?groupId=${groupId}`,
+      headers: { cookie: authCookies },
+      payload: {
+        fromUserId: testUserId,
+        toUserId,
+        amountCents,
+        method: 'MARK_ONLY',
+        allocations: [{ expenseId, amountCents }],
+      },
+    });
+
+  expect((await settle(otherUserId, 5000)).statusCode).toBe(201);
+  expect((await settle(thirdUser.id, 5000)).statusCode).toBe(201);
+
+  // Both parts are now paid back in full
+  expect((await settle(thirdUser.id, 100)).statusCode).toBe(400);
+});
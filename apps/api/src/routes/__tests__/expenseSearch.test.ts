@@ -0,0 +1,151 @@
+import { test, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { FastifyInstance } from 'fastify';
+import { createApp } from '../../app.js';
+import { prisma } from '../../lib/prisma.js';
+import { createTestGroup } from '../../__tests__/fixtures.js';
+
+let server: FastifyInstance;
+let authCookies: string;
+let testUserId: string;
+let otherUserId: string;
+let groupId: string;
+
+beforeAll(async () => {
+  server = await createApp();
+  await server.ready();
+});
+
+afterAll(async () => {
+  await prisma.$disconnect();
+  await server.close();
+});
+
+beforeEach(async () => {
+  ({ authCookies, testUserId, otherUserId, groupId } =
+    await createTestGroup(server));
+});
+
+async function createExpense(payload: Record<string, unknown>) {
+  const response = await server.inject({
+    method: 'POST',
+    url: `/api/expenses?groupId=${groupId}`,
+    headers: { cookie: authCookies },
+    payload: {
+      payerId: testUserId,
+      splitType: 'EQUAL',
+      participants: [{ userId: testUserId }, { userId: otherUserId }],
+      ...payload,
+    },
+  });
+
+  expect(response.statusCode).toBe(201);
+  return JSON.parse(response.body).expense.id as string;
+}
+
+async function search(query: string) {
+  const response = await server.inject({
+    method: 'GET',
+    url: `/api/expenses/search?${query}`,
+    headers: { cookie: authCookies },
+  });
+
+  expect(response.statusCode).toBe(200);
+  return JSON.parse(response.body);
+}
+
+test('GET /expenses/search - should match every word in the description or notes', async () => {
+  await createExpense({
+    description: 'Weekly shop',
+    notes: 'Oat milk and bread',
+    amountCents: 3000,
+    category: 'Food',
+  });
+  await createExpense({
+    description: 'Bread maker',
+    amountCents: 9000,
+    category: 'Shopping',
+  });
+
+  const result = await search('q=bread%20OAT');
+
+  expect(result.total).toBe(1);
+  expect(result.expenses[0].description).toBe('Weekly shop');
+});
+
+test('GET /expenses/search - should filter by payer, amount and date', async () => {
+  await createExpense({
+    description: 'Internet',
+    amountCents: 4000,
+    date: '2025-02-10T00:00:00.000Z',
+  });
+  await createExpense({
+    description: 'Electricity',
+    amountCents: 12000,
+    payerId: otherUserId,
+    date: '2025-02-20T00:00:00.000Z',
+  });
+
+  const byPayer = await search(`payerId=${otherUserId}`);
+  expect(
+    byPayer.expenses.map((e: { description: string }) => e.description)
+  ).toEqual(['Electricity']);
+
+  const byAmount = await search('minAmountCents=5000');
+  expect(byAmount.total).toBe(1);
+
+  // The end date includes the whole day
+  const byDate = await search('dateFrom=2025-02-01&dateTo=2025-02-10');
+  expect(byDate.expenses[0].description).toBe('Internet');
+  expect(byDate.total).toBe(1);
+});
+
+test('GET /expenses/search - should page with a cursor', async () => {
+  for (let day = 1; day <= 5; day++) {
+    await createExpense({
+      description: `Coffee ${day}`,
+      amountCents: 400,
+      date: `2025-03-0${day}T00:00:00.000Z`,
+    });
+  }
+
+  const first = await search('limit=3');
+  expect(first.expenses).toHaveLength(3);
+  expect(first.expenses[0].description).toBe('Coffee 5');
+  expect(first.nextCursor).toBe(first.expenses[2].id);
+
+  const second = await search(`limit=3&cursor=${first.nextCursor}`);
+  expect(
+    second.expenses.map((e: { description: string }) => e.description)
+  ).toEqual(['Coffee 2', 'Coffee 1']);
+  expect(second.nextCursor).toBeNull();
+});
+
+test('GET /expenses/search - should count facets without their own filter', async () => {
+  await createExpense({
+    description: 'Pizza',
+    amountCents: 2000,
+    category: 'Food',
+  });
+  await createExpense({
+    description: 'Sushi',
+    amountCents: 5000,
+    category: 'Food',
+  });
+  await createExpense({
+    description: 'Cinema',
+    amountCents: 3000,
+    category: 'Entertainment',
+    payerId: otherUserId,
+  });
+
+  const result = await search('category=Food');
+
+  expect(result.total).toBe(2);
+  expect(result.facets.categories).toEqual([
+    { category: 'Food', count: 2 },
+    { category: 'Entertainment', count: 1 },
+  ]);
+  expect(result.facets.payers).toEqual([
+    { user: expect.objectContaining({ id: testUserId }), count: 2 },
+  ]);
+});
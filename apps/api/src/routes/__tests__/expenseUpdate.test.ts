@@ -0,0 +1,152 @@
+import { test, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { FastifyInstance } from 'fastify';
+import { createApp } from '../../app.js';
+import { prisma } from '../../lib/prisma.js';
+import { createTestGroup } from '../../__tests__/fixtures.js';
+
+let server: FastifyInstance;
+let authCookies: string;
+let testUserId: string;
+let otherUserId: string;
+let groupId: string;
+let expenseId: string;
+
+beforeAll(async () => {
+  server = await createApp();
+  await server.ready();
+});
+
+afterAll(async () => {
+  await prisma.$disconnect();
+  await server.close();
+});
+
+beforeEach(async () => {
+  ({ authCookies, testUserId, otherUserId, groupId } =
+    await createTestGroup(server));
+
+  const created = await server.inject({
+    method: 'POST',
+    url: `/api/expenses?groupId=${groupId}`,
+    headers: { cookie: authCookies },
+    payload: {
+      description: 'Groceries',
+      amountCents: 10000,
+      payerId: testUserId,
+      splitType: 'EQUAL',
+      participants: [{ userId: testUserId }, { userId: otherUserId }],
+    },
+  });
+  expenseId = JSON.parse(created.body).expense.id;
+});
+
+function updateExpense(payload: Record<string, unknown>) {
+  return server.inject({
+    method: 'PUT',
+    url: `/api/expenses/${expenseId}`,
+    headers: { cookie: authCookies },
+    payload,
+  });
+}
+
+// userId -> shareCents, from the response or the database
+function sharesOf(participants: { userId: string; shareCents: number }[]) {
+  return Object.fromEntries(participants.map((p) => [p.userId, p.shareCents]));
+}
+
+test('PUT /expenses/:expenseId - should re-split the shares when the amount changes', async () => {
+  const response = await updateExpense({ amountCents: 6000 });
+
+  expect(response.statusCode).toBe(200);
+  expect(sharesOf(JSON.parse(response.body).expense.participants)).toEqual({
+    [testUserId]: 3000,
+    [otherUserId]: 3000,
+  });
+
+  const stored = await prisma.expenseParticipant.findMany({
+    where: { expenseId },
+  });
+  expect(sharesOf(stored)).toEqual({
+    [testUserId]: 3000,
+    [otherUserId]: 3000,
+  });
+});
+
+test('PUT /expenses/:expenseId - should re-split the shares when the split type changes', async () => {
+  const exact = await updateExpense({
+    splitType: 'EXACT',
+    participants: [
+      { userId: testUserId, shareCents: 7000 },
+      { userId: otherUserId, shareCents: 3000 },
+    ],
+  });
+
+  expect(exact.statusCode).toBe(200);
+  expect(JSON.parse(exact.body).expense.splitType).toBe('EXACT');
+  expect(sharesOf(JSON.parse(exact.body).expense.participants)).toEqual({
+    [testUserId]: 7000,
+    [otherUserId]: 3000,
+  });
+
+  // Back to equal with the same people
+  const equal = await updateExpense({ splitType: 'EQUAL' });
+
+  expect(equal.statusCode).toBe(200);
+  expect(sharesOf(JSON.parse(equal.body).expense.participants)).toEqual({
+    [testUserId]: 5000,
+    [otherUserId]: 5000,
+  });
+});
+
+test('PUT /expenses/:expenseId - should reject exact shares that do not add up to the amount', async () => {
+  const response = await updateExpense({
+    splitType: 'EXACT',
+    participants: [
+      { userId: testUserId, shareCents: 7000 },
+      { userId: otherUserId, shareCents: 2000 },
+    ],
+  });
+
+  expect(response.statusCode).toBe(400);
+
+  // Nothing was changed
+  const expense = await prisma.expense.findUniqueOrThrow({
+    where: { id: expenseId },
+    include: { participants: true },
+  });
+  expect(expense.splitType).toBe('EQUAL');
+  expect(sharesOf(expense.participants)).toEqual({
+    [testUserId]: 5000,
+    [otherUserId]: 5000,
+  });
+});
+
+test('PUT /expenses/:expenseId - should reject a new amount that exact shares no longer add up to', async () => {
+  await updateExpense({
+    splitType: 'EXACT',
+    participants: [
+      { userId: testUserId, shareCents: 7000 },
+      { userId: otherUserId, shareCents: 3000 },
+    ],
+  });
+
+  const response = await updateExpense({ amountCents: 12000 });
+
+  expect(response.statusCode).toBe(400);
+});
+
+test('PUT /expenses/:expenseId - should return the new participants', async () => {
+  const response = await updateExpense({
+    participants: [{ userId: otherUserId }],
+  });
+
+  expect(response.statusCode).toBe(200);
+
+  const { participants } = JSON.parse(response.body).expense;
+  expect(participants).toHaveLength(1);
+  expect(participants[0]).toMatchObject({
+    userId: otherUserId,
+    shareCents: 10000,
+    user: { id: otherUserId, name: 'Other User' },
+  });
+});
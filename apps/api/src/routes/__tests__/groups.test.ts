@@ -27,7 +27,7 @@ beforeEach(async () => {
   // Create test user and get auth cookies
   const response = await server.inject({
     method: 'POST',
-    url: '/auth/register',
+    url: '/api/auth/register',
     payload: {
       email: 'test@example.com',
       password: 'password123',
@@ -43,7 +43,7 @@ beforeEach(async () => {
 test('POST /groups - should create new group', async () => {
   const response = await server.inject({
     method: 'POST',
-    url: '/groups',
+    url: '/api/groups',
     headers: { cookie: authCookies },
     payload: {
       name: 'Test Group',
@@ -63,7 +63,7 @@ test('POST /groups - should create new group', async () => {
 test('POST /groups - should reject unauthenticated request', async () => {
   const response = await server.inject({
     method: 'POST',
-    url: '/groups',
+    url: '/api/groups',
     payload: {
       name: 'Test Group',
       currency: 'USD',
@@ -77,7 +77,7 @@ test('GET /groups - should return user groups', async () => {
   // Create a group first
   await server.inject({
     method: 'POST',
-    url: '/groups',
+    url: '/api/groups',
     headers: { cookie: authCookies },
     payload: {
       name: 'Test Group',
@@ -87,7 +87,7 @@ test('GET /groups - should return user groups', async () => {
 
   const response = await server.inject({
     method: 'GET',
-    url: '/groups',
+    url: '/api/groups',
     headers: { cookie: authCookies },
   });
 
@@ -103,7 +103,7 @@ test('GET /groups/:groupId - should return group details', async () => {
   // Create a group first
   const createResponse = await server.inject({
     method: 'POST',
-    url: '/groups',
+    url: '/api/groups',
     headers: { cookie: authCookies },
     payload: {
       name: 'Detailed Group',
@@ -116,7 +116,7 @@ test('GET /groups/:groupId - should return group details', async () => {
 
   const response = await server.inject({
     method: 'GET',
-    url: `/groups/${groupId}`,
+    url: `/api/groups/${groupId}`,
     headers: { cookie: authCookies },
   });
 
@@ -132,7 +132,7 @@ test('GET /groups/:groupId - should return group details', async () => {
 test('GET /groups/:groupId - should return 404 for non-existent group', async () => {
   const response = await server.inject({
     method: 'GET',
-    url: '/groups/550e8400-e29b-41d4-a716-446655440000',
+    url: '/api/groups/550e8400-e29b-41d4-a716-446655440000',
     headers: { cookie: authCookies },
   });
 
@@ -143,7 +143,7 @@ test('PUT /groups/:groupId - should update group', async () => {
   // Create a group first
   const createResponse = await server.inject({
     method: 'POST',
-    url: '/groups',
+    url: '/api/groups',
     headers: { cookie: authCookies },
     payload: {
       name: 'Original Name',
@@ -157,7 +157,7 @@ test('PUT /groups/:groupId - should update group', async () => {
   // Update the group
   const response = await server.inject({
     method: 'PUT',
-    url: `/groups/${groupId}`,
+    url: `/api/groups/${groupId}`,
     headers: { cookie: authCookies },
     payload: {
       name: 'Updated Name',
@@ -171,11 +171,55 @@ test('PUT /groups/:groupId - should update group', async () => {
   expect(body.group.currency).toBe('EUR');
 });
 
+test('PUT /groups/:groupId - should not change the currency once there are expenses', async () => {
+  const createResponse = await server.inject({
+    method: 'POST',
+    url: '/api/groups',
+    headers: { cookie: authCookies },
+    payload: {
+      name: 'Trip',
+      currency: 'USD',
+    },
+  });
+  const groupId = JSON.parse(createResponse.body).group.id;
+
+  await server.inject({
+    method: 'POST',
+    url: `/api/expenses?groupId=${groupId}`,
+    headers: { cookie: authCookies },
+    payload: {
+      description: 'Hotel',
+      amountCents: 20000,
+      payerId: testUserId,
+      splitType: 'EQUAL',
+      participants: [{ userId: testUserId }],
+    },
+  });
+
+  const response = await server.inject({
+    method: 'PUT',
+    url: `/api/groups/${groupId}`,
+    headers: { cookie: authCookies },
+    payload: { currency: 'EUR' },
+  });
+
+  expect(response.statusCode).toBe(400);
+
+  // Other settings can still change
+  const rename = await server.inject({
+    method: 'PUT',
+    url: `/api/groups/${groupId}`,
+    headers: { cookie: authCookies },
+    payload: { name: 'Summer Trip', currency: 'USD' },
+  });
+  expect(rename.statusCode).toBe(200);
+});
+
 test('POST /groups/:groupId/members - should add member to group', async () => {
   // Create another user
   await server.inject({
     method: 'POST',
-    url: '/auth/register',
+    url: '/api/auth/register',
     payload: {
       email: 'member@example.com',
       password: 'password123',
@@ -186,7 +230,7 @@ test('POST /groups/:groupId/members - should add member to group', async () => {
   // Create a group
   const groupResponse = await server.inject({
     method: 'POST',
-    url: '/groups',
+    url: '/api/groups',
     headers: { cookie: authCookies },
     payload: {
       name: 'Test Group',
@@ -200,7 +244,7 @@ test('POST /groups/:groupId/members - should add member to group', async () => {
   // Add member to group
   const response = await server.inject({
     method: 'POST',
-    url: `/groups/${groupId}/members`,
+    url: `/api/groups/${groupId}/members`,
     headers: { cookie: authCookies },
     payload: {
       email: 'member@example.com',
@@ -217,7 +261,7 @@ test('POST /groups/:groupId/members - should reject adding non-existent user', a
   // Create a group
   const groupResponse = await server.inject({
     method: 'POST',
-    url: '/groups',
+    url: '/api/groups',
     headers: { cookie: authCookies },
     payload: {
       name: 'Test Group',
@@ -231,7 +275,7 @@ test('POST /groups/:groupId/members - should reject adding non-existent user', a
   // Try to add non-existent user
   const response = await server.inject({
     method: 'POST',
-    url: `/groups/${groupId}/members`,
+    url: `/api/groups/${groupId}/members`,
     headers: { cookie: authCookies },
     payload: {
       email: 'nonexistent@example.com',
@@ -245,7 +289,7 @@ test('DELETE /groups/:groupId - should delete group (owner only)', async () => {
   // Create a group
   const createResponse = await server.inject({
     method: 'POST',
-    url: '/groups',
+    url: '/api/groups',
     headers: { cookie: authCookies },
     payload: {
       name: 'Group to Delete',
@@ -259,7 +303,7 @@ test('DELETE /groups/:groupId - should delete group (owner only)', async () => {
   // Delete the group
   const response = await server.inject({
     method: 'DELETE',
-    url: `/groups/${groupId}`,
+    url: `/api/groups/${groupId}`,
     headers: { cookie: authCookies },
   });
 
@@ -270,9 +314,286 @@ test('DELETE /groups/:groupId - should delete group (owner only)', async () => {
   // Verify group is deleted
   const getResponse = await server.inject({
     method: 'GET',
-    url: `/groups/${groupId}`,
+    url: `/api/groups/${groupId}`,
     headers: { cookie: authCookies },
   });
 
   expect(getResponse.statusCode).toBe(404);
 });
+
+test('POST /groups/:groupId/restore - should bring back a deleted group', async () => {
+  const createResponse = await server.inject({
+    method: 'POST',
+    url: '/api/groups',
+    headers: { cookie: authCookies },
+    payload: {
+      name: 'Group to Restore',
+      currency: 'USD',
+    },
+  });
+  const groupId = JSON.parse(createResponse.body).group.id;
+
+  await server.inject({
+    method: 'DELETE',
+    url: `/api/groups/${groupId}`,
+    headers: { cookie: authCookies },
+  });
+
+  // It shows up in the recently deleted list rather than the group list
+  const deletedResponse = await server.inject({
+    method: 'GET',
+    url: '/api/groups/deleted',
+    headers: { cookie: authCookies },
+  });
+  expect(JSON.parse(deletedResponse.body).groups).toHaveLength(1);
+
+  const response = await server.inject({
+    method: 'POST',
+    url: `/api/groups/${groupId}/restore`,
+    headers: { cookie: authCookies },
+  });
+
+  expect(response.statusCode).toBe(200);
+
+  const getResponse = await server.inject({
+    method: 'GET',
+    url: `/api/groups/${groupId}`,
+    headers: { cookie: authCookies },
+  });
+
+  expect(getResponse.statusCode).toBe(200);
+});
+
+// Build a group owned by the test user with one expense per payer, each
+// split as given: { payer: { participant: shareCents } }. Anyone but "test"
+// is created as another member.
+async function createLedgerGroup(
+  debts: Record<string, Record<string, number>>
+) {
+  const names = [
+    ...new Set(
+      Object.entries(debts).flatMap(([payer, shares]) => [
+        payer,
+        ...Object.keys(shares),
+      ])
+    ),
+  ].filter((name) => name !== 'test');
+
+  const userIds: Record<string, string> = { test: testUserId };
+  for (const name of names) {
+    const user = await prisma.user.create({
+      data: { email: `${name}@example.com`, passwordHash: 'hash', name },
+    });
+    userIds[name] = user.id;
+  }
+
+  const group = await prisma.group.create({
+    data: {
+      ownerId: testUserId,
+      name: 'Ledger',
+      currency: 'USD',
+      members: {
+        create: Object.values(userIds).map((userId) => ({
+          userId,
+          role: userId === testUserId ? 'OWNER' : 'MEMBER',
+        })),
+      },
+    },
+  });
+
+  for (const [payer, shares] of Object.entries(debts)) {
+    await prisma.expense.create({
+      data: {
+        groupId: group.id,
+        payerId: userIds[payer],
+        description: `Paid by ${payer}`,
+        amountCents: Object.values(shares).reduce((a, b) => a + b, 0),
+        participants: {
+          create: Object.entries(shares).map(([name, shareCents]) => ({
+            userId: userIds[name],
+            shareCents,
+          })),
+        },
+      },
+    });
+  }
+
+  return { groupId: group.id, userIds };
+}
+
+async function getSettleUp(groupId: string) {
+  const response = await server.inject({
+    method: 'GET',
+    url: `/api/groups/${groupId}/settle-up`,
+    headers: { cookie: authCookies },
+  });
+  return { statusCode: response.statusCode, body: JSON.parse(response.body) };
+}
+
+test('GET /groups/:groupId/settle-up - should combine debts when simplifying', async () => {
+  // Bob owes the test user, and Carol owes Bob the same amount
+  const { groupId, userIds } = await createLedgerGroup({
+    test: { bob: 1500 },
+    bob: { carol: 1500 },
+  });
+
+  const { statusCode, body } = await getSettleUp(groupId);
+
+  expect(statusCode).toBe(200);
+  expect(body).toMatchObject({
+    currency: 'USD',
+    simplifyDebts: true,
+    debtSimplification: 'GREEDY',
+  });
+  expect(body.transfers).toEqual([
+    expect.objectContaining({
+      amountCents: 1500,
+      from: expect.objectContaining({ id: userIds.carol, name: 'carol' }),
+      to: expect.objectContaining({ id: testUserId }),
+    }),
+  ]);
+});
+
+test('GET /groups/:groupId/settle-up - should pay back whoever fronted the money when not simplifying', async () => {
+  const { groupId, userIds } = await createLedgerGroup({
+    test: { bob: 1500 },
+    bob: { carol: 1500 },
+  });
+
+  const update = await server.inject({
+    method: 'PUT',
+    url: `/api/groups/${groupId}`,
+    headers: { cookie: authCookies },
+    payload: { simplifyDebts: false },
+  });
+  expect(update.statusCode).toBe(200);
+
+  const { body } = await getSettleUp(groupId);
+
+  expect(body.simplifyDebts).toBe(false);
+  expect(
+    body.transfers.map((t: { from: { id: string }; to: { id: string } }) => [
+      t.from.id,
+      t.to.id,
+    ])
+  ).toEqual(
+    expect.arrayContaining([
+      [userIds.bob, testUserId],
+      [userIds.carol, userIds.bob],
+    ])
+  );
+  expect(body.transfers).toHaveLength(2);
+});
+
+test('GET /groups/:groupId/settle-up - should use fewer payments with the optimal algorithm', async () => {
+  // test +800, bob +600, carol -600, dave -500, erin -300
+  const { groupId, userIds } = await createLedgerGroup({
+    test: { dave: 500, erin: 300 },
+    bob: { carol: 600 },
+  });
+
+  const greedy = await getSettleUp(groupId);
+  expect(greedy.body.transfers).toHaveLength(4);
+
+  await server.inject({
+    method: 'PUT',
+    url: `/api/groups/${groupId}`,
+    headers: { cookie: authCookies },
+    payload: { debtSimplification: 'OPTIMAL' },
+  });
+
+  const optimal = await getSettleUp(groupId);
+  expect(optimal.body.debtSimplification).toBe('OPTIMAL');
+  expect(optimal.body.transfers).toHaveLength(3);
+  expect(optimal.body.transfers).toContainEqual(
+    expect.objectContaining({
+      amountCents: 600,
+      from: expect.objectContaining({ id: userIds.carol }),
+      to: expect.objectContaining({ id: userIds.bob }),
+    })
+  );
+});
+
+test('GET /groups/:groupId/pairwise-balances - should list what each pair owes without simplifying', async () => {
+  const { groupId, userIds } = await createLedgerGroup({
+    test: { bob: 1500 },
+    bob: { carol: 1500 },
+  });
+
+  const response = await server.inject({
+    method: 'GET',
+    url: `/api/groups/${groupId}/pairwise-balances`,
+    headers: { cookie: authCookies },
+  });
+
+  expect(response.statusCode).toBe(200);
+  const body = JSON.parse(response.body);
+  expect(body.currency).toBe('USD');
+  expect(body.balances).toHaveLength(2);
+  expect(body.balances).toEqual(
+    expect.arrayContaining([
+      expect.objectContaining({
+        amountCents: 1500,
+        from: expect.objectContaining({ id: userIds.bob }),
+        to: expect.objectContaining({ id: testUserId }),
+      }),
+      expect.objectContaining({
+        amountCents: 1500,
+        from: expect.objectContaining({ id: userIds.carol }),
+        to: expect.objectContaining({ id: userIds.bob }),
+      }),
+    ])
+  );
+});
+
+test('GET /groups/:groupId/settle-up - should return 404 to non-members', async () => {
+  const { groupId } = await createLedgerGroup({ bob: { carol: 1500 } });
+
+  // The test user owns the group, so take them out of it
+  await prisma.groupMember.deleteMany({
+    where: { groupId, userId: testUserId },
+  });
+
+  for (const path of ['settle-up', 'pairwise-balances']) {
+    const response = await server.inject({
+      method: 'GET',
+      url: `/api/groups/${groupId}/${path}`,
+      headers: { cookie: authCookies },
+    });
+    expect(response.statusCode).toBe(404);
+  }
+});
+
+test('GET /groups/:groupId/settle-up - should not suggest a payment that is waiting to be confirmed', async () => {
+  const { groupId, userIds } = await createLedgerGroup({
+    test: { bob: 1500 },
+  });
+
+  // Bob paid through a payment app; the test user hasn't confirmed it yet
+  await prisma.settlement.create({
+    data: {
+      groupId,
+      fromUserId: userIds.bob,
+      toUserId: testUserId,
+      amountCents: 1000,
+      method: 'VENMO',
+      status: 'PENDING',
+    },
+  });
+
+  const { body } = await getSettleUp(groupId);
+  expect(body.transfers).toEqual([
+    expect.objectContaining({
+      amountCents: 500,
+      from: expect.objectContaining({ id: userIds.bob }),
+    }),
+  ]);
+
+  // The balances still only count it once it is confirmed
+  const balances = await server.inject({
+    method: 'GET',
+    url: `/api/groups/${groupId}/pairwise-balances`,
+    headers: { cookie: authCookies },
+  });
+  expect(JSON.parse(balances.body).balances[0].amountCents).toBe(1500);
+});
@@ -0,0 +1,183 @@
+import { test, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { FastifyInstance } from 'fastify';
+import { createApp } from '../../app.js';
+import { prisma } from '../../lib/prisma.js';
+import { createTestGroup } from '../../__tests__/fixtures.js';
+import {
+  runDueRecurringExpenses,
+  startRecurringScheduler,
+} from '../../services/recurringExpenses.js';
+
+let server: FastifyInstance;
+let authCookies: string;
+let testUserId: string;
+let otherUserId: string;
+let groupId: string;
+
+beforeAll(async () => {
+  server = await createApp();
+  await server.ready();
+});
+
+afterAll(async () => {
+  await prisma.$disconnect();
+  await server.close();
+});
+
+beforeEach(async () => {
+  ({ authCookies, testUserId, otherUserId, groupId } =
+    await createTestGroup(server));
+});
+
+async function createRent(startDate: string) {
+  const response = await server.inject({
+    method: 'POST',
+    url: `/api/groups/${groupId}/recurring`,
+    headers: { cookie: authCookies },
+    payload: {
+      description: 'Rent',
+      amountCents: 150000,
+      currency: 'USD',
+      payerId: testUserId,
+      splitType: 'EQUAL',
+      participants: [{ userId: testUserId }, { userId: otherUserId }],
+      cadence: 'MONTHLY',
+      startDate,
+    },
+  });
+
+  expect(response.statusCode).toBe(201);
+  return JSON.parse(response.body).recurringExpense;
+}
+
+test('POST /groups/:groupId/recurring - should create a template', async () => {
+  const template = await createRent('2025-01-31T00:00:00.000Z');
+
+  expect(template.cadence).toBe('MONTHLY');
+  expect(template.interval).toBe(1);
+  expect(template.nextRunAt).toBe('2025-01-31T00:00:00.000Z');
+  expect(template.participants).toHaveLength(2);
+});
+
+test('POST /groups/:groupId/recurring - should reject non-members', async () => {
+  const response = await server.inject({
+    method: 'POST',
+    url: `/api/groups/${groupId}/recurring`,
+    headers: { cookie: authCookies },
+    payload: {
+      description: 'Rent',
+      amountCents: 150000,
+      payerId: testUserId,
+      splitType: 'EQUAL',
+      participants: [{ userId: '550e8400-e29b-41d4-a716-446655440000' }],
+      cadence: 'MONTHLY',
+      startDate: '2025-01-31T00:00:00.000Z',
+    },
+  });
+
+  expect(response.statusCode).toBe(400);
+});
+
+test('scheduler - should create each due occurrence once', async () => {
+  const template = await createRent('2025-01-31T00:00:00.000Z');
+
+  // Nothing is due before the start date
+  expect(await runDueRecurringExpenses(new Date('2025-01-30T00:00:00Z'))).toBe(
+    0
+  );
+
+  // Catches up on every missed month
+  expect(await runDueRecurringExpenses(new Date('2025-03-31T12:00:00Z'))).toBe(
+    3
+  );
+
+  // Running again for the same time creates nothing new
+  expect(await runDueRecurringExpenses(new Date('2025-03-31T12:00:00Z'))).toBe(
+    0
+  );
+
+  const expenses = await prisma.expense.findMany({
+    where: { recurringExpenseId: template.id },
+    include: { participants: true },
+    orderBy: { date: 'asc' },
+  });
+
+  expect(expenses.map((expense) => expense.date.toISOString())).toEqual([
+    '2025-01-31T00:00:00.000Z',
+    '2025-02-28T00:00:00.000Z',
+    '2025-03-31T00:00:00.000Z',
+  ]);
+  expect(expenses[0].participants.map((p) => p.shareCents)).toEqual([
+    75000, 75000,
+  ]);
+
+  const updated = await prisma.recurringExpense.findUniqueOrThrow({
+    where: { id: template.id },
+  });
+  expect(updated.nextRunAt.toISOString()).toBe('2025-04-30T00:00:00.000Z');
+});
+
+test('scheduler - should not duplicate when runs overlap', async () => {
+  const template = await createRent('2025-01-31T00:00:00.000Z');
+  const now = new Date('2025-01-31T12:00:00Z');
+
+  const results = await Promise.all([
+    runDueRecurringExpenses(now),
+    runDueRecurringExpenses(now),
+  ]);
+
+  expect(results[0] + results[1]).toBe(1);
+  expect(
+    await prisma.expense.count({ where: { recurringExpenseId: template.id } })
+  ).toBe(1);
+});
+
+test('scheduler - should follow a fake clock', async () => {
+  const template = await createRent('2025-01-31T00:00:00.000Z');
+
+  let now = new Date('2025-01-01T00:00:00Z');
+  const scheduler = startRecurringScheduler({
+    intervalMs: 60 * 60 * 1000,
+    now: () => now,
+  });
+
+  try {
+    expect(await scheduler.tick()).toBe(0);
+
+    now = new Date('2025-02-01T00:00:00Z');
+    expect(await scheduler.tick()).toBe(1);
+
+    now = new Date('2025-02-15T00:00:00Z');
+    expect(await scheduler.tick()).toBe(0);
+  } finally {
+    scheduler.stop();
+  }
+
+  expect(
+    await prisma.expense.count({ where: { recurringExpenseId: template.id } })
+  ).toBe(1);
+});
+
+test('PUT /groups/:groupId/recurring/:id - should skip occurrences missed while paused', async () => {
+  const template = await createRent('2025-01-31T00:00:00.000Z');
+
+  await server.inject({
+    method: 'PUT',
+    url: `/api/groups/${groupId}/recurring/${template.id}`,
+    headers: { cookie: authCookies },
+    payload: { isActive: false },
+  });
+
+  const response = await server.inject({
+    method: 'PUT',
+    url: `/api/groups/${groupId}/recurring/${template.id}`,
+    headers: { cookie: authCookies },
+    payload: { isActive: true },
+  });
+
+  expect(response.statusCode).toBe(200);
+  const body = JSON.parse(response.body);
+  expect(new Date(body.recurringExpense.nextRunAt).getTime()).toBeGreaterThan(
+    Date.now()
+  );
+});
@@ -0,0 +1,114 @@
+import { test, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { FastifyInstance } from 'fastify';
+import { createApp } from '../../app.js';
+import { prisma } from '../../lib/prisma.js';
+import { createTestGroup } from '../../__tests__/fixtures.js';
+
+let server: FastifyInstance;
+let authCookies: string;
+let otherCookies: string; // The receiver, who confirms and rejects
+let testUserId: string;
+let otherUserId: string;
+let groupId: string;
+let expenseId: string;
+
+beforeAll(async () => {
+  server = await createApp();
+  await server.ready();
+});
+
+afterAll(async () => {
+  await prisma.$disconnect();
+  await server.close();
+});
+
+beforeEach(async () => {
+  ({ authCookies, testUserId, otherCookies, otherUserId, groupId } =
+    await createTestGroup(server));
+
+  // The other user paid; the test user owes them $50
+  const created = await server.inject({
+    method: 'POST',
+    url: `/api/expenses?groupId=${groupId}`,
+    headers: { cookie: authCookies },
+    payload: {
+      description: 'Groceries',
+      amountCents: 10000,
+      payerId: otherUserId,
+      splitType: 'EQUAL',
+      participants: [{ userId: testUserId }, { userId: otherUserId }],
+    },
+  });
+  expenseId = JSON.parse(created.body).expense.id;
+});
+
+function settle(amountCents: number) {
+  return server.inject({
+    method: 'POST',
+    url: `/api/settlements?groupId=${groupId}`,
+    headers: { cookie: authCookies },
+    payload: {
+      fromUserId: testUserId,
+      toUserId: otherUserId,
+      amountCents,
+      method: 'MARK_ONLY',
+      allocations: [{ expenseId, amountCents }],
+    },
+  });
+}
+
+test('POST /settlements - should not over-allocate a share when settlements arrive together', async () => {
+  const responses = await Promise.all([settle(3000), settle(3000)]);
+
+  expect(responses.map((response) => response.statusCode).sort()).toEqual([
+    201, 400,
+  ]);
+});
+
+test('PUT /expenses/:expenseId - should not cut a share below what was paid back', async () => {
+  expect((await settle(4000)).statusCode).toBe(201);
+
+  // Halving the amount leaves only $25 owed
+  const rejected = await server.inject({
+    method: 'PUT',
+    url: `/api/expenses/${expenseId}`,
+    headers: { cookie: authCookies },
+    payload: { amountCents: 5000 },
+  });
+  expect(rejected.statusCode).toBe(400);
+
+  const unchanged = await prisma.expenseParticipant.findFirstOrThrow({
+    where: { expenseId, userId: testUserId },
+  });
+  expect(unchanged.shareCents).toBe(5000);
+
+  // $40 is still within what a $90 expense leaves owed
+  const updated = await server.inject({
+    method: 'PUT',
+    url: `/api/expenses/${expenseId}`,
+    headers: { cookie: authCookies },
+    payload: { amountCents: 9000 },
+  });
+  expect(updated.statusCode).toBe(200);
+});
+
+test('PUT /settlements/:settlementId/resubmit - should not bring back allocations that no longer fit', async () => {
+  const first = JSON.parse((await settle(4000)).body).settlement;
+
+  // The receiver rejects it, which frees the share for another settlement
+  await server.inject({
+    method: 'PUT',
+    url: `/api/settlements/${first.id}/reject`,
+    headers: { cookie: otherCookies },
+    payload: { reason: 'Never arrived' },
+  });
+  expect((await settle(4000)).statusCode).toBe(201);
+
+  const resubmitted = await server.inject({
+    method: 'PUT',
+    url: `/api/settlements/${first.id}/resubmit`,
+    headers: { cookie: authCookies },
+    payload: { amountCents: 4000 },
+  });
+  expect(resubmitted.statusCode).toBe(400);
+});
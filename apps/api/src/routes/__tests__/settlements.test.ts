@@ -0,0 +1,180 @@
+import { test, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { FastifyInstance } from 'fastify';
+import { createApp } from '../../app.js';
+import { prisma } from '../../lib/prisma.js';
+import { createTestGroup } from '../../__tests__/fixtures.js';
+
+let server: FastifyInstance;
+let payerCookies: string;
+let receiverCookies: string;
+let payerId: string;
+let receiverId: string;
+let groupId: string;
+let settlementId: string;
+
+beforeAll(async () => {
+  server = await createApp();
+  await server.ready();
+});
+
+afterAll(async () => {
+  await prisma.$disconnect();
+  await server.close();
+});
+
+beforeEach(async () => {
+  // Both sides of the settlement act on it, so both sign in
+  ({
+    testUserId: payerId,
+    authCookies: payerCookies,
+    otherUserId: receiverId,
+    otherCookies: receiverCookies,
+    groupId,
+  } = await createTestGroup(server));
+
+  const created = await server.inject({
+    method: 'POST',
+    url: `/api/settlements?groupId=${groupId}`,
+    headers: { cookie: payerCookies },
+    payload: {
+      fromUserId: payerId,
+      toUserId: receiverId,
+      amountCents: 2500,
+      method: 'MARK_ONLY',
+    },
+  });
+  settlementId = JSON.parse(created.body).settlement.id;
+});
+
+function act(
+  action: 'confirm' | 'reject' | 'dispute' | 'resubmit',
+  cookies: string,
+  payload?: Record<string, unknown>
+) {
+  return server.inject({
+    method: 'PUT',
+    url: `/api/settlements/${settlementId}/${action}`,
+    headers: { cookie: cookies },
+    payload,
+  });
+}
+
+test('PUT /settlements/:settlementId/confirm - should let only the receiver confirm', async () => {
+  // The payer can't vouch for their own payment
+  const selfConfirmed = await act('confirm', payerCookies);
+  expect(selfConfirmed.statusCode).toBe(403);
+
+  const confirmed = await act('confirm', receiverCookies);
+  expect(confirmed.statusCode).toBe(200);
+  expect(JSON.parse(confirmed.body).settlement.status).toBe('CONFIRMED');
+
+  const again = await act('confirm', receiverCookies);
+  expect(again.statusCode).toBe(400);
+});
+
+test('PUT /settlements/:settlementId/reject - should let only the receiver reject, with a reason', async () => {
+  const byPayer = await act('reject', payerCookies, { reason: 'Changed mind' });
+  expect(byPayer.statusCode).toBe(403);
+
+  const withoutReason = await act('reject', receiverCookies, { reason: '  ' });
+  expect(withoutReason.statusCode).toBe(400);
+
+  const rejected = await act('reject', receiverCookies, {
+    reason: 'Never arrived',
+  });
+  expect(rejected.statusCode).toBe(200);
+  expect(JSON.parse(rejected.body).settlement.status).toBe('REJECTED');
+});
+
+test('PUT /settlements/:settlementId/dispute - should let only the payer dispute a rejection', async () => {
+  // Nothing to dispute until the receiver rejects it
+  const early = await act('dispute', payerCookies, { reason: 'I sent it' });
+  expect(early.statusCode).toBe(400);
+
+  await act('reject', receiverCookies, { reason: 'Never arrived' });
+
+  const byReceiver = await act('dispute', receiverCookies, {
+    reason: 'I sent it',
+  });
+  expect(byReceiver.statusCode).toBe(403);
+
+  const disputed = await act('dispute', payerCookies, {
+    reason: 'Bank transfer ref 1234',
+  });
+  expect(disputed.statusCode).toBe(200);
+  expect(JSON.parse(disputed.body).settlement.status).toBe('DISPUTED');
+
+  // The receiver can still confirm once they find it
+  const confirmed = await act('confirm', receiverCookies);
+  expect(JSON.parse(confirmed.body).settlement.status).toBe('CONFIRMED');
+});
+
+test('PUT /settlements/:settlementId/resubmit - should let only the payer resubmit a corrected amount', async () => {
+  const early = await act('resubmit', payerCookies, { amountCents: 2000 });
+  expect(early.statusCode).toBe(400);
+
+  await act('reject', receiverCookies, { reason: 'Only got $20' });
+
+  const byReceiver = await act('resubmit', receiverCookies, {
+    amountCents: 2000,
+  });
+  expect(byReceiver.statusCode).toBe(403);
+
+  const resubmitted = await act('resubmit', payerCookies, {
+    amountCents: 2000,
+    note: 'Sent $20',
+  });
+  expect(resubmitted.statusCode).toBe(200);
+  expect(JSON.parse(resubmitted.body).settlement).toMatchObject({
+    status: 'PENDING',
+    amountCents: 2000,
+  });
+});
+
+test('GET /settlements/:settlementId/events - should record who moved the settlement and why', async () => {
+  await act('reject', receiverCookies, { reason: 'Never arrived' });
+  await act('dispute', payerCookies, { reason: 'Bank transfer ref 1234' });
+  await act('resubmit', payerCookies, { amountCents: 2000 });
+  await act('confirm', receiverCookies);
+
+  const response = await server.inject({
+    method: 'GET',
+    url: `/api/settlements/${settlementId}/events`,
+    headers: { cookie: receiverCookies },
+  });
+
+  expect(response.statusCode).toBe(200);
+  expect(JSON.parse(response.body).events).toMatchObject([
+    { actor: { id: payerId }, fromStatus: null, toStatus: 'PENDING' },
+    {
+      actor: { id: receiverId },
+      fromStatus: 'PENDING',
+      toStatus: 'REJECTED',
+      reason: 'Never arrived',
+    },
+    {
+      actor: { id: payerId },
+      fromStatus: 'REJECTED',
+      toStatus: 'DISPUTED',
+      reason: 'Bank transfer ref 1234',
+    },
+    {
+      actor: { id: payerId },
+      fromStatus: 'DISPUTED',
+      toStatus: 'PENDING',
+      amountCents: 2000,
+    },
+    {
+      actor: { id: receiverId },
+      fromStatus: 'PENDING',
+      toStatus: 'CONFIRMED',
+      amountCents: 2000,
+    },
+  ]);
+
+  // Refused actions leave no trace
+  await act('confirm', payerCookies);
+  expect(await prisma.settlementEvent.count({ where: { settlementId } })).toBe(
+    5
+  );
+});
@@ -0,0 +1,127 @@
+import { test, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { FastifyInstance } from 'fastify';
+import { createApp } from '../../app.js';
+import { prisma } from '../../lib/prisma.js';
+import {
+  createTestGroup,
+  getPairwiseBalances,
+} from '../../__tests__/fixtures.js';
+import { purgeDeletedRecords } from '../../services/purgeDeleted.js';
+
+let server: FastifyInstance;
+let authCookies: string;
+let testUserId: string;
+let otherUserId: string;
+let groupId: string;
+
+beforeAll(async () => {
+  server = await createApp();
+  await server.ready();
+});
+
+afterAll(async () => {
+  await prisma.$disconnect();
+  await server.close();
+});
+
+beforeEach(async () => {
+  ({ authCookies, testUserId, otherUserId, groupId } =
+    await createTestGroup(server));
+});
+
+async function createExpense(amountCents: number) {
+  const response = await server.inject({
+    method: 'POST',
+    url: `/api/expenses?groupId=${groupId}`,
+    headers: { cookie: authCookies },
+    payload: {
+      description: 'Groceries',
+      amountCents,
+      payerId: testUserId,
+      splitType: 'EQUAL',
+      participants: [{ userId: testUserId }, { userId: otherUserId }],
+    },
+  });
+
+  expect(response.statusCode).toBe(201);
+  return JSON.parse(response.body).expense.id as string;
+}
+
+test('DELETE /expenses/:expenseId - should leave deleted expenses out of lists and balances', async () => {
+  const expenseId = await createExpense(4200);
+
+  await server.inject({
+    method: 'DELETE',
+    url: `/api/expenses/${expenseId}`,
+    headers: { cookie: authCookies },
+  });
+
+  const listResponse = await server.inject({
+    method: 'GET',
+    url: `/api/expenses/group/${groupId}`,
+    headers: { cookie: authCookies },
+  });
+  expect(JSON.parse(listResponse.body).expenses).toHaveLength(0);
+  expect(await getPairwiseBalances(server, groupId, authCookies)).toHaveLength(
+    0
+  );
+
+  const deletedResponse = await server.inject({
+    method: 'GET',
+    url: `/api/expenses/group/${groupId}/deleted`,
+    headers: { cookie: authCookies },
+  });
+  expect(JSON.parse(deletedResponse.body).expenses[0].id).toBe(expenseId);
+});
+
+test('POST /expenses/:expenseId/restore - should put the expense back in the balances', async () => {
+  const expenseId = await createExpense(4200);
+
+  await server.inject({
+    method: 'DELETE',
+    url: `/api/expenses/${expenseId}`,
+    headers: { cookie: authCookies },
+  });
+
+  const response = await server.inject({
+    method: 'POST',
+    url: `/api/expenses/${expenseId}/restore`,
+    headers: { cookie: authCookies },
+  });
+
+  expect(response.statusCode).toBe(200);
+  expect(await getPairwiseBalances(server, groupId, authCookies)).toHaveLength(
+    1
+  );
+
+  // Restoring twice finds nothing to restore
+  const again = await server.inject({
+    method: 'POST',
+    url: `/api/expenses/${expenseId}/restore`,
+    headers: { cookie: authCookies },
+  });
+  expect(again.statusCode).toBe(404);
+});
+
+test('purgeDeletedRecords - should only remove what was deleted over 30 days ago', async () => {
+  const oldId = await createExpense(1000);
+  const recentId = await createExpense(2000);
+  const now = new Date('2025-06-01T00:00:00Z');
+
+  await prisma.expense.update({
+    where: { id: oldId },
+    data: { deletedAt: new Date('2025-04-01T00:00:00Z') },
+  });
+  await prisma.expense.update({
+    where: { id: recentId },
+    data: { deletedAt: new Date('2025-05-20T00:00:00Z') },
+  });
+
+  const purged = await purgeDeletedRecords(now);
+
+  expect(purged).toEqual({ expenses: 1, groups: 0 });
+  expect(await prisma.expense.findUnique({ where: { id: oldId } })).toBeNull();
+  expect(
+    await prisma.expense.findUnique({ where: { id: recentId } })
+  ).not.toBeNull();
+});
@@ -0,0 +1,143 @@
+import { test, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { FastifyInstance } from 'fastify';
+import { createApp } from '../../app.js';
+import { prisma } from '../../lib/prisma.js';
+import { createTestGroup } from '../../__tests__/fixtures.js';
+
+let server: FastifyInstance;
+let authCookies: string;
+let otherCookies: string;
+let testUserId: string;
+let otherUserId: string;
+let groupId: string;
+
+beforeAll(async () => {
+  server = await createApp();
+  await server.ready();
+});
+
+afterAll(async () => {
+  await prisma.$disconnect();
+  await server.close();
+});
+
+beforeEach(async () => {
+  ({ authCookies, otherCookies, testUserId, otherUserId, groupId } =
+    await createTestGroup(server));
+
+  // The test user paid; the other user owes them $50
+  await addExpense(groupId, testUserId, 10000);
+});
+
+function addExpense(inGroupId: string, payerId: string, amountCents: number) {
+  return server.inject({
+    method: 'POST',
+    url: `/api/expenses?groupId=${inGroupId}`,
+    headers: { cookie: authCookies },
+    payload: {
+      description: 'Groceries',
+      amountCents,
+      payerId,
+      splitType: 'EQUAL',
+      participants: [{ userId: testUserId }, { userId: otherUserId }],
+    },
+  });
+}
+
+// The other user pays the test user back, which the test user may confirm
+async function payBack(amountCents: number, confirm: boolean) {
+  const created = await server.inject({
+    method: 'POST',
+    url: `/api/settlements?groupId=${groupId}`,
+    headers: { cookie: otherCookies },
+    payload: {
+      fromUserId: otherUserId,
+      toUserId: testUserId,
+      amountCents,
+      method: 'MARK_ONLY',
+    },
+  });
+  expect(created.statusCode).toBe(201);
+
+  if (confirm) {
+    const { settlement } = JSON.parse(created.body);
+    const confirmed = await server.inject({
+      method: 'PUT',
+      url: `/api/settlements/${settlement.id}/confirm`,
+      headers: { cookie: authCookies },
+    });
+    expect(confirmed.statusCode).toBe(200);
+  }
+}
+
+async function getUserBalances(path: string) {
+  const response = await server.inject({
+    method: 'GET',
+    url: `/api/users/${path}`,
+    headers: { cookie: authCookies },
+  });
+  expect(response.statusCode).toBe(200);
+  return JSON.parse(response.body);
+}
+
+test('GET /users/balances - should count confirmed settlements and report pending ones as in flight', async () => {
+  await payBack(2000, true);
+  await payBack(1000, false);
+
+  const { balances } = await getUserBalances('balances');
+
+  expect(balances).toEqual([
+    expect.objectContaining({
+      groupId,
+      totalLent: 5000,
+      totalOwed: 0,
+      netBalance: 3000, // $50 less the confirmed $20
+      inFlight: 1000, // The pending $10 is on its way in
+      currency: 'USD',
+    }),
+  ]);
+});
+
+test('GET /users/balances/counterparties - should net each person across groups', async () => {
+  // In a second group the other user paid, so the test user owes $20 there
+  const second = await prisma.group.create({
+    data: {
+      ownerId: testUserId,
+      name: 'Holiday',
+      currency: 'USD',
+      members: {
+        create: [
+          { userId: testUserId, role: 'OWNER' },
+          { userId: otherUserId, role: 'MEMBER' },
+        ],
+      },
+    },
+  });
+  await addExpense(second.id, otherUserId, 4000);
+
+  await payBack(1000, true);
+  await payBack(500, false); // Not counted until confirmed
+
+  const { counterparties } = await getUserBalances('balances/counterparties');
+
+  expect(counterparties).toHaveLength(1);
+  expect(counterparties[0]).toMatchObject({
+    user: { id: otherUserId, name: 'Other User' },
+    currency: 'USD',
+    netBalance: 2000, // $40 owed in the first group, $20 owing in the second
+  });
+  expect(counterparties[0].groups).toEqual(
+    expect.arrayContaining([
+      { groupId, groupName: 'Flat', netBalance: 4000 },
+      { groupId: second.id, groupName: 'Holiday', netBalance: -2000 },
+    ])
+  );
+});
+
+test('GET /users/balances/counterparties - should leave out people who are square', async () => {
+  await payBack(5000, true);
+
+  const { counterparties } = await getUserBalances('balances/counterparties');
+
+  expect(counterparties).toEqual([]);
+});
@@ -0,0 +1,186 @@
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import {
+  CreateExpenseCommentDto,
+  UpdateExpenseCommentDto,
+  NotFoundError,
+  ForbiddenError,
+  ValidationError,
+  UnauthorizedError,
+} from '@group-pay/shared';
+import { commentSchemas } from '../schemas/comments.js';
+import { prisma } from '../lib/prisma.js';
+
+// Helper to ensure user is authenticated
+function requireAuth(request: FastifyRequest) {
+  if (!request.authUser?.userId) {
+    throw new UnauthorizedError('Authentication required');
+  }
+  return request.authUser.userId as string;
+}
+
+const commentInclude = {
+  author: {
+    select: {
+      id: true,
+      name: true,
+      photoUrl: true,
+    },
+  },
+} as const;
+
+// Find an expense the user can see, along with their membership of its group
+async function findExpenseForMember(expenseId: string, userId: string) {
+  const expense = await prisma.expense.findFirst({
+    where: {
+      id: expenseId,
+      deletedAt: null,
+      group: {
+        deletedAt: null,
+        members: {
+          some: { userId },
+        },
+      },
+    },
+    select: {
+      id: true,
+      group: {
+        select: {
+          members: { where: { userId }, select: { role: true } },
+        },
+      },
+    },
+  });
+
+  if (!expense) {
+    throw new NotFoundError('Expense');
+  }
+
+  return { expense, role: expense.group.members[0].role };
+}
+
+async function findComment(expenseId: string, commentId: string) {
+  const comment = await prisma.expenseComment.findFirst({
+    where: { id: commentId, expenseId },
+  });
+
+  if (!comment) {
+    throw new NotFoundError('Comment', commentId);
+  }
+  return comment;
+}
+
+function requireBody(body: string) {
+  const trimmed = body.trim();
+  if (!trimmed) {
+    throw new ValidationError('Comment cannot be empty');
+  }
+  return trimmed;
+}
+
+export default async function commentRoutes(fastify: FastifyInstance) {
+  // Get the comment thread for an expense, oldest first
+  fastify.get(
+    '/expenses/:expenseId/comments',
+    { schema: commentSchemas.getComments },
+    async (request) => {
+      const userId = requireAuth(request);
+      const { expenseId } = request.params as { expenseId: string };
+
+      await findExpenseForMember(expenseId, userId);
+
+      const comments = await prisma.expenseComment.findMany({
+        where: { expenseId },
+        include: commentInclude,
+        orderBy: { createdAt: 'asc' },
+      });
+
+      return { comments };
+    }
+  );
+
+  // Comment on an expense
+  fastify.post(
+    '/expenses/:expenseId/comments',
+    { schema: commentSchemas.createComment },
+    async (request, reply) => {
+      const userId = requireAuth(request);
+      const { expenseId } = request.params as { expenseId: string };
+      const { body } = request.body as CreateExpenseCommentDto;
+
+      await findExpenseForMember(expenseId, userId);
+
+      const comment = await prisma.expenseComment.create({
+        data: {
+          expenseId,
+          authorId: userId,
+          body: requireBody(body),
+        },
+        include: commentInclude,
+      });
+
+      reply.status(201).send({ comment });
+    }
+  );
+
+  // Edit a comment
+  fastify.put(
+    '/expenses/:expenseId/comments/:commentId',
+    { schema: commentSchemas.updateComment },
+    async (request) => {
+      const userId = requireAuth(request);
+      const { expenseId, commentId } = request.params as {
+        expenseId: string;
+        commentId: string;
+      };
+      const { body } = request.body as UpdateExpenseCommentDto;
+
+      await findExpenseForMember(expenseId, userId);
+      const existing = await findComment(expenseId, commentId);
+
+      // Only the author can change what they said
+      if (existing.authorId !== userId) {
+        throw new ForbiddenError('Only the author can edit this comment');
+      }
+
+      const comment = await prisma.expenseComment.update({
+        where: { id: commentId },
+        data: { body: requireBody(body) },
+        include: commentInclude,
+      });
+
+      return { comment };
+    }
+  );
+
+  // Delete a comment
+  fastify.delete(
+    '/expenses/:expenseId/comments/:commentId',
+    { schema: commentSchemas.deleteComment },
+    async (request) => {
+      const userId = requireAuth(request);
+      const { expenseId, commentId } = request.params as {
+        expenseId: string;
+        commentId: string;
+      };
+
+      const { role } = await findExpenseForMember(expenseId, userId);
+      const existing = await findComment(expenseId, commentId);
+
+      // Group admins can also remove comments
+      const canDelete =
+        existing.authorId === userId || ['OWNER', 'ADMIN'].includes(role);
+
+      if (!canDelete) {
+        throw new ForbiddenError(
+          'Only the author or group admins can delete this comment'
+        );
+      }
+
+      await prisma.expenseComment.delete({
+        where: { id: commentId },
+      });
+
+      return { success: true };
+    }
+  );
+}
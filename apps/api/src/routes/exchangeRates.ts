@@ -0,0 +1,82 @@
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import { UnauthorizedError } from '@group-pay/shared';
+import { prisma } from '../lib/prisma.js';
+
+// Schema for a stored exchange rate
+const ExchangeRateSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    baseCurrency: { type: 'string' },
+    quoteCurrency: { type: 'string' },
+    rate: { type: 'number' },
+    source: { type: 'string' },
+    effectiveAt: { type: 'string' },
+    createdAt: { type: 'string' },
+  },
+} as const;
+
+// Helper to ensure user is authenticated
+function requireAuth(request: FastifyRequest) {
+  if (!request.authUser?.userId) {
+    throw new UnauthorizedError('Authentication required');
+  }
+  return request.authUser.userId as string;
+}
+
+// Rates are shared by every group, so they are read-only here and only
+// written by the db:import-rates script
+export default async function exchangeRateRoutes(fastify: FastifyInstance) {
+  // List exchange rates, newest first
+  fastify.get(
+    '/',
+    {
+      schema: {
+        tags: ['Exchange Rates'],
+        summary: 'List stored exchange rates',
+        querystring: {
+          type: 'object',
+          properties: {
+            baseCurrency: { type: 'string', minLength: 3, maxLength: 3 },
+            quoteCurrency: { type: 'string', minLength: 3, maxLength: 3 },
+            limit: { type: 'number', minimum: 1, maximum: 100 },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              rates: {
+                type: 'array',
+                items: ExchangeRateSchema,
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request) => {
+      requireAuth(request);
+      const {
+        baseCurrency,
+        quoteCurrency,
+        limit = 50,
+      } = request.query as {
+        baseCurrency?: string;
+        quoteCurrency?: string;
+        limit?: number;
+      };
+
+      const rates = await prisma.exchangeRate.findMany({
+        where: {
+          baseCurrency: baseCurrency?.toUpperCase(),
+          quoteCurrency: quoteCurrency?.toUpperCase(),
+        },
+        orderBy: { effectiveAt: 'desc' },
+        take: limit,
+      });
+
+      return { rates };
+    }
+  );
+}
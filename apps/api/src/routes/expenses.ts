@@ -1,15 +1,30 @@
 import { FastifyInstance, FastifyRequest } from 'fastify';
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { randomUUID } from 'crypto';
 import {
   CreateExpenseDto,
+  CreateExpenseItemDto,
+  CreateExpenseParticipantDto,
+  CreateExpensePayerDto,
+  ExpenseSplitType,
+  SplitResult,
   UpdateExpenseDto,
   NotFoundError,
   ForbiddenError,
   ValidationError,
   UnauthorizedError,
   calculateSplit,
+  convertCents,
+  getPurgeDate,
+  validateExpensePayers,
 } from '@group-pay/shared';
 import { expenseSchemas } from '../schemas/expenses';
+import { getExchangeRate } from '../services/exchangeRates.js';
+import { recordExpenseRevision } from '../services/expenseRevisions.js';
+import {
+  lockExpenses,
+  assertAllocationsFit,
+} from '../services/settlementAllocations.js';
 
 const prisma = new PrismaClient();
 
@@ -21,6 +36,105 @@ function requireAuth(request: FastifyRequest) {
   return request.authUser.userId as string;
 }
 
+// Helper to expose an expense's amount in its group's currency alongside
+// the original amount
+function withConvertedAmount<
+  T extends { amountCents: number; exchangeRate: number },
+>(expense: T) {
+  return {
+    ...expense,
+    convertedAmountCents: convertCents(
+      expense.amountCents,
+      expense.exchangeRate
+    ),
+  };
+}
+
+// Helper to shape an expense for the list views, which show a comment count
+function toListExpense<
+  T extends {
+    amountCents: number;
+    exchangeRate: number;
+    _count: { comments: number };
+  },
+>({ _count, ...expense }: T) {
+  return {
+    ...withConvertedAmount(expense),
+    commentCount: _count.comments,
+  };
+}
+
+// Helper to run the split engine, reporting bad splits as validation errors.
+// Splits are seeded with the expense id so leftover cents go to different
+// people on different expenses, but always the same people for one expense.
+function calculateShares(
+  expenseId: string,
+  amountCents: number,
+  splitType: ExpenseSplitType,
+  participants: CreateExpenseParticipantDto[],
+  items: CreateExpenseItemDto[] = []
+) {
+  if (splitType === 'ITEMIZED' && items.length === 0) {
+    throw new ValidationError('Line items are required for an itemized split');
+  }
+
+  try {
+    return calculateSplit(
+      amountCents,
+      splitType,
+      participants,
+      items,
+      expenseId
+    );
+  } catch (error) {
+    throw new ValidationError(
+      error instanceof Error ? error.message : 'Invalid split'
+    );
+  }
+}
+
+// Helper to turn calculated shares into participant rows, keeping the
+// adjustments an adjustment split was worked out from so it can be edited
+function toParticipantRows(
+  splits: SplitResult[],
+  splitType: ExpenseSplitType,
+  participants: CreateExpenseParticipantDto[]
+) {
+  const adjustments = new Map(
+    participants.map((p) => [p.userId, p.adjustmentCents ?? 0])
+  );
+
+  return splits.map((split) => ({
+    userId: split.userId,
+    shareCents: split.shareCents,
+    adjustmentCents:
+      splitType === 'ADJUSTMENT' ? (adjustments.get(split.userId) ?? 0) : null,
+  }));
+}
+
+// Helper to work out who paid what. Without a breakdown the payer paid the
+// whole amount; with one, the payer has to be among the people listed.
+function resolvePayers(
+  amountCents: number,
+  payerId: string,
+  payers?: CreateExpensePayerDto[]
+) {
+  if (!payers) {
+    return [{ userId: payerId, paidCents: amountCents }];
+  }
+
+  const result = validateExpensePayers(amountCents, payers);
+  if (!result.isValid) {
+    throw new ValidationError(result.errors.join('; '));
+  }
+
+  if (!payers.some((payer) => payer.userId === payerId)) {
+    throw new ValidationError('The payer must be one of the people who paid');
+  }
+
+  return payers.map(({ userId, paidCents }) => ({ userId, paidCents }));
+}
+
 export default async function expenseRoutes(fastify: FastifyInstance) {
   // Get all expenses for the authenticated user across all their groups
   fastify.get(
@@ -36,7 +150,10 @@ export default async function expenseRoutes(fastify: FastifyInstance) {
       // Get all expenses from groups the user is a member of
       const expenses = await prisma.expense.findMany({
         where: {
+          deletedAt: null,
+          isDraft: false,
           group: {
+            deletedAt: null,
             members: {
               some: { userId },
             },
@@ -50,6 +167,17 @@ export default async function expenseRoutes(fastify: FastifyInstance) {
               photoUrl: true,
             },
           },
+          payers: {
+            include: {
+              user: {
+                select: {
+                  id: true,
+                  name: true,
+                  photoUrl: true,
+                },
+              },
+            },
+          },
           participants: {
             include: {
               user: {
@@ -61,6 +189,7 @@ export default async function expenseRoutes(fastify: FastifyInstance) {
               },
             },
           },
+          _count: { select: { comments: true } },
         },
         orderBy: { createdAt: 'desc' },
         take: limit,
@@ -69,7 +198,10 @@ export default async function expenseRoutes(fastify: FastifyInstance) {
 
       const total = await prisma.expense.count({
         where: {
+          deletedAt: null,
+          isDraft: false,
           group: {
+            deletedAt: null,
             members: {
               some: { userId },
             },
@@ -78,7 +210,7 @@ export default async function expenseRoutes(fastify: FastifyInstance) {
       });
 
       return {
-        expenses,
+        expenses: expenses.map(toListExpense),
         pagination: {
           total,
           limit,
@@ -89,6 +221,169 @@ export default async function expenseRoutes(fastify: FastifyInstance) {
     }
   );
 
+  // Search expenses across all the user's groups
+  fastify.get(
+    '/search',
+    { schema: expenseSchemas.searchExpenses },
+    async (request) => {
+      const userId = requireAuth(request);
+      const {
+        q,
+        groupId,
+        category,
+        payerId,
+        participantId,
+        dateFrom,
+        dateTo,
+        minAmountCents,
+        maxAmountCents,
+        cursor,
+        limit = 20,
+      } = request.query as {
+        q?: string;
+        groupId?: string;
+        category?: string;
+        payerId?: string;
+        participantId?: string;
+        dateFrom?: string;
+        dateTo?: string;
+        minAmountCents?: number;
+        maxAmountCents?: number;
+        cursor?: string;
+        limit?: number;
+      };
+
+      // Every word has to appear in the description or the notes
+      const terms = q?.trim().split(/\s+/).filter(Boolean) ?? [];
+
+      // The end date is inclusive, so stop before the next day starts
+      const dateBefore = dateTo ? new Date(dateTo) : undefined;
+      dateBefore?.setUTCDate(dateBefore.getUTCDate() + 1);
+
+      const baseWhere: Prisma.ExpenseWhereInput = {
+        deletedAt: null,
+        isDraft: false,
+        groupId,
+        group: {
+          deletedAt: null,
+          members: {
+            some: { userId },
+          },
+        },
+        AND: terms.map((term) => ({
+          OR: [
+            { description: { contains: term, mode: 'insensitive' } },
+            { notes: { contains: term, mode: 'insensitive' } },
+          ],
+        })),
+        participants: participantId
+          ? { some: { userId: participantId } }
+          : undefined,
+        date: {
+          gte: dateFrom ? new Date(dateFrom) : undefined,
+          lt: dateBefore,
+        },
+        amountCents: { gte: minAmountCents, lte: maxAmountCents },
+      };
+      const categoryWhere: Prisma.ExpenseWhereInput = category
+        ? { category }
+        : {};
+      const payerWhere: Prisma.ExpenseWhereInput = payerId
+        ? { payers: { some: { userId: payerId } } }
+        : {};
+      const where = { ...baseWhere, ...categoryWhere, ...payerWhere };
+
+      // Fetch one extra row to know whether there is another page
+      const expenses = await prisma.expense.findMany({
+        where,
+        include: {
+          payer: {
+            select: {
+              id: true,
+              name: true,
+              photoUrl: true,
+            },
+          },
+          payers: {
+            include: {
+              user: {
+                select: {
+                  id: true,
+                  name: true,
+                  photoUrl: true,
+                },
+              },
+            },
+          },
+          participants: {
+            include: {
+              user: {
+                select: {
+                  id: true,
+                  name: true,
+                  photoUrl: true,
+                },
+              },
+            },
+          },
+          _count: { select: { comments: true } },
+        },
+        orderBy: [{ date: 'desc' }, { id: 'desc' }],
+        take: limit + 1,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+
+      const hasMore = expenses.length > limit;
+      const page = hasMore ? expenses.slice(0, limit) : expenses;
+
+      // Each facet leaves out its own filter so the other choices stay
+      // visible once one is picked
+      const [total, categoryCounts, payerCounts] = await Promise.all([
+        prisma.expense.count({ where }),
+        prisma.expense.groupBy({
+          by: ['category'],
+          where: { ...baseWhere, ...payerWhere },
+          _count: { _all: true },
+        }),
+        prisma.expensePayer.groupBy({
+          by: ['userId'],
+          where: { expense: { ...baseWhere, ...categoryWhere } },
+          _count: { _all: true },
+        }),
+      ]);
+
+      const payerUsers = await prisma.user.findMany({
+        where: { id: { in: payerCounts.map((count) => count.userId) } },
+        select: {
+          id: true,
+          name: true,
+          photoUrl: true,
+        },
+      });
+      const usersById = new Map(payerUsers.map((user) => [user.id, user]));
+
+      return {
+        expenses: page.map(toListExpense),
+        nextCursor: hasMore ? page[page.length - 1].id : null,
+        total,
+        facets: {
+          categories: categoryCounts
+            .map((count) => ({
+              category: count.category,
+              count: count._count._all,
+            }))
+            .sort((a, b) => b.count - a.count),
+          payers: payerCounts
+            .map((count) => ({
+              user: usersById.get(count.userId),
+              count: count._count._all,
+            }))
+            .sort((a, b) => b.count - a.count),
+        },
+      };
+    }
+  );
+
   // Create new expense
   fastify.post(
     '/',
@@ -104,30 +399,48 @@ export default async function expenseRoutes(fastify: FastifyInstance) {
         category,
         notes,
         payerId,
+        payers,
         splitType,
         participants,
+        items = [],
       } = request.body as CreateExpenseDto;
 
       // Verify user is member of the group
       const membership = await prisma.groupMember.findFirst({
-        where: { groupId, userId },
+        where: { groupId, userId, group: { deletedAt: null } },
       });
 
       if (!membership) {
         throw new ForbiddenError('You are not a member of this group');
       }
 
-      // Verify payer is in the group
-      const payerMembership = await prisma.groupMember.findFirst({
-        where: { groupId, userId: payerId },
+      // Verify everyone who paid is in the group
+      const payerRows = resolvePayers(amountCents, payerId, payers);
+      const payerMemberships = await prisma.groupMember.count({
+        where: {
+          groupId,
+          userId: { in: payerRows.map((payer) => payer.userId) },
+        },
       });
 
-      if (!payerMembership) {
-        throw new ValidationError('The payer must be a member of the group');
+      if (payerMemberships !== payerRows.length) {
+        throw new ValidationError(
+          'Everyone who paid must be a member of the group'
+        );
       }
 
-      // Verify all participants are in the group
-      const participantIds = participants.map((p) => p.userId);
+      // Calculate splits, picking the id up front to seed them
+      const expenseId = randomUUID();
+      const calculatedSplits = calculateShares(
+        expenseId,
+        amountCents,
+        splitType,
+        participants,
+        items
+      );
+
+      // Verify everyone sharing the cost is in the group
+      const participantIds = calculatedSplits.map((split) => split.userId);
       const participantMemberships = await prisma.groupMember.findMany({
         where: {
           groupId,
@@ -141,54 +454,89 @@ export default async function expenseRoutes(fastify: FastifyInstance) {
         );
       }
 
-      // Calculate splits
-      const calculatedSplits = calculateSplit(
-        amountCents,
-        splitType,
-        participants
+      // Snapshot the rate into the group currency at creation time
+      const group = await prisma.group.findUniqueOrThrow({
+        where: { id: groupId },
+        select: { currency: true },
+      });
+      const expenseCurrency = currency || 'USD';
+      const exchangeRate = await getExchangeRate(
+        expenseCurrency,
+        group.currency
       );
 
-      // Create expense with participants
-      const expense = await prisma.expense.create({
-        data: {
-          groupId,
-          description,
-          amountCents,
-          currency: currency || 'USD',
-          date: date || new Date(),
-          category,
-          notes,
-          payerId,
-          participants: {
-            create: calculatedSplits.map((split) => ({
-              userId: split.userId,
-              shareCents: split.shareCents,
-            })),
-          },
-        },
-        include: {
-          payer: {
-            select: {
-              id: true,
-              name: true,
-              photoUrl: true,
+      // Create expense with participants and start its history
+      const expense = await prisma.$transaction(async (tx) => {
+        const created = await tx.expense.create({
+          data: {
+            id: expenseId,
+            groupId,
+            description,
+            amountCents,
+            currency: expenseCurrency,
+            exchangeRate,
+            date: date || new Date(),
+            category,
+            notes,
+            payerId,
+            splitType,
+            payers: { create: payerRows },
+            participants: {
+              create: toParticipantRows(
+                calculatedSplits,
+                splitType,
+                participants
+              ),
             },
+            items:
+              splitType === 'ITEMIZED'
+                ? {
+                    create: items.map((item, position) => ({
+                      ...item,
+                      position,
+                    })),
+                  }
+                : undefined,
           },
-          participants: {
-            include: {
-              user: {
-                select: {
-                  id: true,
-                  name: true,
-                  photoUrl: true,
+          include: {
+            payer: {
+              select: {
+                id: true,
+                name: true,
+                photoUrl: true,
+              },
+            },
+            payers: {
+              include: {
+                user: {
+                  select: {
+                    id: true,
+                    name: true,
+                    photoUrl: true,
+                  },
+                },
+              },
+            },
+            items: { orderBy: { position: 'asc' } },
+            participants: {
+              include: {
+                user: {
+                  select: {
+                    id: true,
+                    name: true,
+                    photoUrl: true,
+                  },
                 },
               },
             },
           },
-        },
+        });
+
+        await recordExpenseRevision(tx, userId, null, created);
+        return created;
       });
 
-      reply.status(201).send({ expense });
+      reply.status(201).send({ expense: withConvertedAmount(expense) });
     }
   );
 
@@ -203,7 +551,9 @@ export default async function expenseRoutes(fastify: FastifyInstance) {
       const expense = await prisma.expense.findFirst({
         where: {
           id: expenseId,
+          deletedAt: null,
           group: {
+            deletedAt: null,
             members: {
               some: { userId },
             },
@@ -224,6 +574,18 @@ export default async function expenseRoutes(fastify: FastifyInstance) {
               photoUrl: true,
             },
           },
+          payers: {
+            include: {
+              user: {
+                select: {
+                  id: true,
+                  name: true,
+                  photoUrl: true,
+                },
+              },
+            },
+          },
+          items: { orderBy: { position: 'asc' } },
           participants: {
             include: {
               user: {
@@ -242,7 +604,59 @@ export default async function expenseRoutes(fastify: FastifyInstance) {
         throw new NotFoundError('Expense');
       }
 
-      return { expense };
+      return { expense: withConvertedAmount(expense) };
+    }
+  );
+
+  // Get the edit history of an expense
+  fastify.get(
+    '/:expenseId/history',
+    { schema: expenseSchemas.getExpenseHistory },
+    async (request) => {
+      const userId = requireAuth(request);
+      const { expenseId } = request.params as { expenseId: string };
+
+      // Deleted expenses are only left in their history
+      const expense = await prisma.expense.findUnique({
+        where: { id: expenseId },
+        select: { groupId: true },
+      });
+      const groupId =
+        expense?.groupId ??
+        (
+          await prisma.expenseRevision.findFirst({
+            where: { expenseId },
+            select: { groupId: true },
+          })
+        )?.groupId;
+
+      if (!groupId) {
+        throw new NotFoundError('Expense');
+      }
+
+      const membership = await prisma.groupMember.findFirst({
+        where: { groupId, userId, group: { deletedAt: null } },
+      });
+
+      if (!membership) {
+        throw new ForbiddenError('You are not a member of this group');
+      }
+
+      const revisions = await prisma.expenseRevision.findMany({
+        where: { expenseId },
+        include: {
+          actor: {
+            select: {
+              id: true,
+              name: true,
+              photoUrl: true,
+            },
+          },
+        },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      return { revisions };
     }
   );
 
@@ -260,7 +674,7 @@ export default async function expenseRoutes(fastify: FastifyInstance) {
 
       // Verify user is member of the group
       const membership = await prisma.groupMember.findFirst({
-        where: { groupId, userId },
+        where: { groupId, userId, group: { deletedAt: null } },
       });
 
       if (!membership) {
@@ -268,7 +682,7 @@ export default async function expenseRoutes(fastify: FastifyInstance) {
       }
 
       const expenses = await prisma.expense.findMany({
-        where: { groupId },
+        where: { groupId, deletedAt: null, isDraft: false },
         include: {
           payer: {
             select: {
@@ -277,6 +691,17 @@ export default async function expenseRoutes(fastify: FastifyInstance) {
               photoUrl: true,
             },
           },
+          payers: {
+            include: {
+              user: {
+                select: {
+                  id: true,
+                  name: true,
+                  photoUrl: true,
+                },
+              },
+            },
+          },
           participants: {
             include: {
               user: {
@@ -288,6 +713,7 @@ export default async function expenseRoutes(fastify: FastifyInstance) {
               },
             },
           },
+          _count: { select: { comments: true } },
         },
         orderBy: { createdAt: 'desc' },
         take: limit,
@@ -295,11 +721,11 @@ export default async function expenseRoutes(fastify: FastifyInstance) {
       });
 
       const total = await prisma.expense.count({
-        where: { groupId },
+        where: { groupId, deletedAt: null, isDraft: false },
       });
 
       return {
-        expenses,
+        expenses: expenses.map(toListExpense),
         pagination: {
           total,
           limit,
@@ -310,6 +736,109 @@ export default async function expenseRoutes(fastify: FastifyInstance) {
     }
   );
 
+  // Get recently deleted expenses for a group (admins only)
+  fastify.get(
+    '/group/:groupId/deleted',
+    { schema: expenseSchemas.getDeletedGroupExpenses },
+    async (request) => {
+      const userId = requireAuth(request);
+      const { groupId } = request.params as { groupId: string };
+
+      const membership = await prisma.groupMember.findFirst({
+        where: {
+          groupId,
+          userId,
+          role: { in: ['OWNER', 'ADMIN'] },
+          group: { deletedAt: null },
+        },
+      });
+
+      if (!membership) {
+        throw new ForbiddenError(
+          'Only group owners and admins can see deleted expenses'
+        );
+      }
+
+      const expenses = await prisma.expense.findMany({
+        where: { groupId, deletedAt: { not: null } },
+        include: {
+          payer: {
+            select: {
+              id: true,
+              name: true,
+              photoUrl: true,
+            },
+          },
+        },
+        orderBy: { deletedAt: 'desc' },
+      });
+
+      return {
+        expenses: expenses.map((expense) => ({
+          ...withConvertedAmount(expense),
+          purgeAt: getPurgeDate(expense.deletedAt!),
+        })),
+      };
+    }
+  );
+
+  // Get draft expenses waiting for review in a group
+  fastify.get(
+    '/group/:groupId/drafts',
+    { schema: expenseSchemas.getDraftGroupExpenses },
+    async (request) => {
+      const userId = requireAuth(request);
+      const { groupId } = request.params as { groupId: string };
+
+      const membership = await prisma.groupMember.findFirst({
+        where: { groupId, userId, group: { deletedAt: null } },
+      });
+
+      if (!membership) {
+        throw new ForbiddenError('You are not a member of this group');
+      }
+
+      const expenses = await prisma.expense.findMany({
+        where: { groupId, deletedAt: null, isDraft: true },
+        include: {
+          payer: {
+            select: {
+              id: true,
+              name: true,
+              photoUrl: true,
+            },
+          },
+          payers: {
+            include: {
+              user: {
+                select: {
+                  id: true,
+                  name: true,
+                  photoUrl: true,
+                },
+              },
+            },
+          },
+          items: { orderBy: { position: 'asc' } },
+          participants: {
+            include: {
+              user: {
+                select: {
+                  id: true,
+                  name: true,
+                  photoUrl: true,
+                },
+              },
+            },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      return { expenses: expenses.map(withConvertedAmount) };
+    }
+  );
+
   // Update expense
   fastify.put(
     '/:expenseId',
@@ -317,22 +846,25 @@ export default async function expenseRoutes(fastify: FastifyInstance) {
     async (request) => {
       const userId = requireAuth(request);
       const { expenseId } = request.params as { expenseId: string };
-      const updates = request.body as UpdateExpenseDto & {
-        payerId?: string;
-        splitType?: string;
-        participants?: Array<{ userId: string; shareCents?: number }>;
-      };
+      const updates = request.body as UpdateExpenseDto;
 
       // Check if expense exists and user has access
       const expense = await prisma.expense.findFirst({
         where: {
           id: expenseId,
+          deletedAt: null,
           group: {
+            deletedAt: null,
             members: {
               some: { userId },
             },
           },
         },
+        include: {
+          payers: true,
+          participants: true,
+          items: { orderBy: { position: 'asc' } },
+        },
       });
 
       if (!expense) {
@@ -348,7 +880,7 @@ export default async function expenseRoutes(fastify: FastifyInstance) {
       });
 
       const canEdit =
-        expense.payerId === userId ||
+        expense.payers.some((payer) => payer.userId === userId) ||
         ['OWNER', 'ADMIN'].includes(membership?.role || '');
 
       if (!canEdit) {
@@ -357,7 +889,119 @@ export default async function expenseRoutes(fastify: FastifyInstance) {
         );
       }
 
+      const amountCents = updates.amountCents ?? expense.amountCents;
+      const splitType = updates.splitType ?? expense.splitType;
+      const splitChanged =
+        !!updates.participants ||
+        !!updates.items ||
+        amountCents !== expense.amountCents ||
+        splitType !== expense.splitType;
+
+      // Itemized expenses keep their line items unless new ones are sent
+      const items =
+        splitType === 'ITEMIZED'
+          ? (updates.items ??
+            expense.items.map(({ description, amountCents, userIds }) => ({
+              description,
+              amountCents,
+              userIds,
+            })))
+          : [];
+
+      let participantRows: ReturnType<typeof toParticipantRows> | undefined;
+
+      if (splitChanged) {
+        if (
+          !updates.participants &&
+          (splitType === 'PERCENTAGE' || splitType === 'SHARES')
+        ) {
+          throw new ValidationError(
+            'Participants are required to recalculate a percentage or shares split'
+          );
+        }
+
+        // Re-split the existing participants when only the amount or type
+        // changed; an exact split then no longer adds up and is rejected
+        const participants =
+          updates.participants ??
+          expense.participants.map((p) => ({
+            userId: p.userId,
+            shareCents: p.shareCents,
+            adjustmentCents: p.adjustmentCents ?? undefined,
+          }));
+
+        const calculatedSplits = calculateShares(
+          expenseId,
+          amountCents,
+          splitType,
+          participants,
+          items
+        );
+
+        const participantIds = calculatedSplits.map((split) => split.userId);
+        const participantMemberships = await prisma.groupMember.count({
+          where: {
+            groupId: expense.groupId,
+            userId: { in: participantIds },
+          },
+        });
+
+        if (
+          new Set(participantIds).size !== participantIds.length ||
+          participantMemberships !== participantIds.length
+        ) {
+          throw new ValidationError(
+            'All participants must be members of the group'
+          );
+        }
+
+        participantRows = toParticipantRows(
+          calculatedSplits,
+          splitType,
+          participants
+        );
+      }
+
+      // Who paid is reworked when the payers, the payer or the amount change.
+      // A breakdown between several payers can't be guessed for a new amount.
+      const payerId = updates.payerId ?? expense.payerId;
+      let payerRows: ReturnType<typeof resolvePayers> | undefined;
+
+      if (
+        updates.payers ||
+        payerId !== expense.payerId ||
+        amountCents !== expense.amountCents
+      ) {
+        if (
+          !updates.payers &&
+          payerId === expense.payerId &&
+          expense.payers.length > 1
+        ) {
+          throw new ValidationError(
+            'Payers are required to change the amount of an expense several people paid'
+          );
+        }
+
+        payerRows = resolvePayers(amountCents, payerId, updates.payers);
+
+        const payerMemberships = await prisma.groupMember.count({
+          where: {
+            groupId: expense.groupId,
+            userId: { in: payerRows.map((payer) => payer.userId) },
+          },
+        });
+
+        if (payerMemberships !== payerRows.length) {
+          throw new ValidationError(
+            'Everyone who paid must be a member of the group'
+          );
+        }
+      }
+
       const updatedExpense = await prisma.$transaction(async (tx) => {
+        // Settlements may not be recorded against the old shares meanwhile
+        await lockExpenses(tx, [expenseId]);
+
         // Update basic expense fields
         const baseUpdates = {
           description: updates.description,
@@ -374,25 +1018,56 @@ export default async function expenseRoutes(fastify: FastifyInstance) {
           data: baseUpdates,
         });
 
-        // Update participants if provided
-        if (updates.participants) {
-          // Delete existing participants
+        // Replace who paid
+        if (payerRows) {
+          await tx.expensePayer.deleteMany({
+            where: { expenseId },
+          });
+
+          await tx.expensePayer.createMany({
+            data: payerRows.map((row) => ({ ...row, expenseId })),
+          });
+        }
+
+        // Replace participants with the recalculated shares
+        if (participantRows) {
           await tx.expenseParticipant.deleteMany({
             where: { expenseId },
           });
 
-          // Create new participants
           await tx.expenseParticipant.createMany({
-            data: updates.participants.map((p) => ({
-              expenseId,
-              userId: p.userId,
-              shareCents: p.shareCents || 0,
-            })),
+            data: participantRows.map((row) => ({ ...row, expenseId })),
           });
         }
 
+        // Replace line items when they change or the expense stops being
+        // itemized
+        if (
+          updates.items ||
+          (expense.splitType === 'ITEMIZED' && splitType !== 'ITEMIZED')
+        ) {
+          await tx.expenseItem.deleteMany({
+            where: { expenseId },
+          });
+
+          if (splitType === 'ITEMIZED') {
+            await tx.expenseItem.createMany({
+              data: items.map((item, position) => ({
+                ...item,
+                expenseId,
+                position,
+              })),
+            });
+          }
+        }
+
+        // What was already paid back must still be owed
+        if (participantRows || payerRows) {
+          await assertAllocationsFit(tx, expenseId);
+        }
+
         // Return updated expense with relations
-        return await tx.expense.findUnique({
+        const updated = await tx.expense.findUniqueOrThrow({
           where: { id: expenseId },
           include: {
             payer: {
@@ -402,6 +1077,18 @@ export default async function expenseRoutes(fastify: FastifyInstance) {
                 photoUrl: true,
               },
             },
+            payers: {
+              include: {
+                user: {
+                  select: {
+                    id: true,
+                    name: true,
+                    photoUrl: true,
+                  },
+                },
+              },
+            },
+            items: { orderBy: { position: 'asc' } },
             participants: {
               include: {
                 user: {
@@ -415,9 +1102,12 @@ export default async function expenseRoutes(fastify: FastifyInstance) {
             },
           },
         });
+
+        await recordExpenseRevision(tx, userId, expense, updated);
+        return updated;
       });
 
-      return { expense: updatedExpense };
+      return { expense: withConvertedAmount(updatedExpense) };
     }
   );
 
@@ -433,12 +1123,19 @@ export default async function expenseRoutes(fastify: FastifyInstance) {
       const expense = await prisma.expense.findFirst({
         where: {
           id: expenseId,
+          deletedAt: null,
           group: {
+            deletedAt: null,
             members: {
               some: { userId },
             },
           },
         },
+        include: {
+          payers: true,
+          participants: true,
+          items: { orderBy: { position: 'asc' } },
+        },
       });
 
       if (!expense) {
@@ -454,7 +1151,7 @@ export default async function expenseRoutes(fastify: FastifyInstance) {
       });
 
       const canDelete =
-        expense.payerId === userId ||
+        expense.payers.some((payer) => payer.userId === userId) ||
         ['OWNER', 'ADMIN'].includes(membership?.role || '');
 
       if (!canDelete) {
@@ -463,8 +1160,142 @@ export default async function expenseRoutes(fastify: FastifyInstance) {
         );
       }
 
-      await prisma.expense.delete({
-        where: { id: expenseId },
+      // Keep it in the recently deleted list until the purge job removes it
+      await prisma.$transaction(async (tx) => {
+        await recordExpenseRevision(tx, userId, expense, null);
+        await tx.expense.update({
+          where: { id: expenseId },
+          data: { deletedAt: new Date() },
+        });
+      });
+
+      return { success: true };
+    }
+  );
+
+  // Confirm a draft expense so it counts towards balances. Any member can
+  // confirm once the draft has an amount that's been split.
+  fastify.post(
+    '/:expenseId/confirm',
+    { schema: expenseSchemas.confirmExpense },
+    async (request) => {
+      const userId = requireAuth(request);
+      const { expenseId } = request.params as { expenseId: string };
+
+      const expense = await prisma.expense.findFirst({
+        where: {
+          id: expenseId,
+          deletedAt: null,
+          group: {
+            deletedAt: null,
+            members: {
+              some: { userId },
+            },
+          },
+        },
+        include: {
+          payers: true,
+          participants: true,
+          items: { orderBy: { position: 'asc' } },
+        },
+      });
+
+      if (!expense) {
+        throw new NotFoundError('Expense');
+      }
+
+      if (!expense.isDraft) {
+        throw new ValidationError('This expense has already been confirmed');
+      }
+
+      if (expense.amountCents <= 0) {
+        throw new ValidationError(
+          'Enter the amount before confirming this expense'
+        );
+      }
+
+      if (expense.participants.length === 0) {
+        throw new ValidationError(
+          'Choose who shares this expense before confirming it'
+        );
+      }
+
+      await prisma.$transaction(async (tx) => {
+        const { count } = await tx.expense.updateMany({
+          where: { id: expenseId, isDraft: true },
+          data: { isDraft: false },
+        });
+
+        if (count === 0) {
+          throw new ValidationError('This expense has already been confirmed');
+        }
+
+        await recordExpenseRevision(tx, userId, null, expense, 'CONFIRM');
+      });
+
+      return { success: true };
+    }
+  );
+
+  // Restore a deleted expense
+  fastify.post(
+    '/:expenseId/restore',
+    { schema: expenseSchemas.restoreExpense },
+    async (request) => {
+      const userId = requireAuth(request);
+      const { expenseId } = request.params as { expenseId: string };
+
+      const expense = await prisma.expense.findFirst({
+        where: {
+          id: expenseId,
+          deletedAt: { not: null },
+          group: {
+            deletedAt: null,
+            members: {
+              some: { userId },
+            },
+          },
+        },
+        include: {
+          payers: true,
+          participants: true,
+          items: { orderBy: { position: 'asc' } },
+        },
+      });
+
+      if (!expense) {
+        throw new NotFoundError('Expense');
+      }
+
+      // The same people who could delete it can bring it back
+      const membership = await prisma.groupMember.findFirst({
+        where: {
+          groupId: expense.groupId,
+          userId,
+        },
+      });
+
+      const canRestore =
+        expense.payers.some((payer) => payer.userId === userId) ||
+        ['OWNER', 'ADMIN'].includes(membership?.role || '');
+
+      if (!canRestore) {
+        throw new ForbiddenError(
+          'Only the person who paid or group admins can restore this expense'
+        );
+      }
+
+      await prisma.$transaction(async (tx) => {
+        const { count } = await tx.expense.updateMany({
+          where: { id: expenseId, deletedAt: { not: null } },
+          data: { deletedAt: null },
+        });
+
+        if (count === 0) {
+          throw new ValidationError('This expense has already been restored');
+        }
+
+        await recordExpenseRevision(tx, userId, null, expense, 'RESTORE');
       });
 
       return { success: true };
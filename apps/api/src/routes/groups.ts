@@ -7,6 +7,11 @@ import {
   ForbiddenError,
   ValidationError,
   UnauthorizedError,
+  computeNetBalances,
+  computePairwiseBalances,
+  convertCents,
+  getPurgeDate,
+  type NettedEdge,
 } from '@group-pay/shared';
 
 const prisma = new PrismaClient();
@@ -20,6 +25,29 @@ const AddMemberSchema = {
   required: ['email'],
 } as const;
 
+// Schema for a user in a settle-up transfer
+const SettleUpUserSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    email: { type: 'string' },
+    photoUrl: { type: 'string', nullable: true },
+    venmoHandle: { type: 'string', nullable: true },
+    paypalLink: { type: 'string', nullable: true },
+  },
+} as const;
+
+// Schema for a payment from one user to another
+const TransferSchema = {
+  type: 'object',
+  properties: {
+    amountCents: { type: 'number' },
+    from: SettleUpUserSchema,
+    to: SettleUpUserSchema,
+  },
+} as const;
+
 // Helper to ensure user is authenticated
 function requireAuth(request: FastifyRequest) {
   if (!request.authUser?.userId) {
@@ -28,6 +56,62 @@ function requireAuth(request: FastifyRequest) {
   return request.authUser.userId as string;
 }
 
+// Helper to load a group with the expenses and settlements needed to work
+// out who owes whom. Rejected settlements never count, so they are left out.
+async function findGroupLedger(groupId: string, userId: string) {
+  const group = await prisma.group.findFirst({
+    where: {
+      id: groupId,
+      deletedAt: null,
+      members: {
+        some: { userId },
+      },
+    },
+    include: {
+      expenses: {
+        where: { deletedAt: null, isDraft: false },
+        include: { payers: true, participants: true },
+      },
+      settlements: {
+        where: { status: { not: 'REJECTED' } },
+      },
+    },
+  });
+
+  if (!group) {
+    throw new NotFoundError('Group');
+  }
+
+  return group;
+}
+
+// Helper to attach user details to balance edges. Former members can still
+// owe or be owed money, so users are looked up by id rather than through
+// the current membership list
+async function withTransferUsers(edges: NettedEdge[]) {
+  const userIds = [
+    ...new Set(edges.flatMap((e) => [e.fromUserId, e.toUserId])),
+  ];
+  const users = await prisma.user.findMany({
+    where: { id: { in: userIds } },
+    select: {
+      id: true,
+      name: true,
+      email: true, // For Zelle, which pays to an email address
+      photoUrl: true,
+      venmoHandle: true,
+      paypalLink: true,
+    },
+  });
+  const usersById = new Map(users.map((user) => [user.id, user]));
+
+  return edges.map((edge) => ({
+    amountCents: edge.amountCents,
+    from: usersById.get(edge.fromUserId),
+    to: usersById.get(edge.toUserId),
+  }));
+}
+
 export default async function groupRoutes(fastify: FastifyInstance) {
   // Create new group
   fastify.post(
@@ -140,6 +224,7 @@ export default async function groupRoutes(fastify: FastifyInstance) {
 
       const groups = await prisma.group.findMany({
         where: {
+          deletedAt: null,
           members: {
             some: { userId },
           },
@@ -148,10 +233,11 @@ export default async function groupRoutes(fastify: FastifyInstance) {
           _count: {
             select: {
               members: true,
-              expenses: true,
+              expenses: { where: { deletedAt: null, isDraft: false } },
             },
           },
           expenses: {
+            where: { deletedAt: null, isDraft: false },
             orderBy: { createdAt: 'desc' },
             take: 1,
             select: {
@@ -178,6 +264,62 @@ export default async function groupRoutes(fastify: FastifyInstance) {
     }
   );
 
+  // Get recently deleted groups the user owns
+  fastify.get(
+    '/deleted',
+    {
+      schema: {
+        tags: ['Groups'],
+        summary: 'Get recently deleted groups',
+        description:
+          'Groups the current user owns that can still be restored before they are purged.',
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              groups: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    name: { type: 'string' },
+                    currency: { type: 'string' },
+                    deletedAt: { type: 'string' },
+                    purgeAt: { type: 'string' },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request) => {
+      const userId = requireAuth(request);
+
+      const groups = await prisma.group.findMany({
+        where: {
+          deletedAt: { not: null },
+          members: {
+            some: { userId, role: 'OWNER' },
+          },
+        },
+        orderBy: { deletedAt: 'desc' },
+      });
+
+      return {
+        groups: groups.map((group) => ({
+          id: group.id,
+          name: group.name,
+          currency: group.currency,
+          deletedAt: group.deletedAt!.toISOString(),
+          purgeAt: getPurgeDate(group.deletedAt!).toISOString(),
+        })),
+      };
+    }
+  );
+
   // Get group by ID
   fastify.get(
     '/:groupId',
@@ -201,6 +343,7 @@ export default async function groupRoutes(fastify: FastifyInstance) {
       const group = await prisma.group.findFirst({
         where: {
           id: groupId,
+          deletedAt: null,
           members: {
             some: { userId },
           },
@@ -220,7 +363,9 @@ export default async function groupRoutes(fastify: FastifyInstance) {
               },
             },
           },
+          // Drafts are listed separately until someone confirms them
           expenses: {
+            where: { deletedAt: null, isDraft: false },
             include: {
               payer: {
                 select: {
@@ -229,6 +374,17 @@ export default async function groupRoutes(fastify: FastifyInstance) {
                   photoUrl: true,
                 },
               },
+              payers: {
+                include: {
+                  user: {
+                    select: {
+                      id: true,
+                      name: true,
+                      photoUrl: true,
+                    },
+                  },
+                },
+              },
               participants: {
                 include: {
                   user: {
@@ -240,6 +396,13 @@ export default async function groupRoutes(fastify: FastifyInstance) {
                   },
                 },
               },
+              items: { orderBy: { position: 'asc' } },
+              allocations: {
+                where: { settlement: { status: 'CONFIRMED' } },
+                include: {
+                  settlement: { select: { fromUserId: true } },
+                },
+              },
             },
             orderBy: { createdAt: 'desc' },
           },
@@ -255,6 +418,8 @@ export default async function groupRoutes(fastify: FastifyInstance) {
           id: group.id,
           name: group.name,
           currency: group.currency,
+          simplifyDebts: group.simplifyDebts,
+          debtSimplification: group.debtSimplification,
           createdAt: group.createdAt.toISOString(),
           members: group.members.map((member) => ({
             id: member.id,
@@ -267,10 +432,34 @@ export default async function groupRoutes(fastify: FastifyInstance) {
             description: expense.description,
             amountCents: expense.amountCents,
             currency: expense.currency,
+            exchangeRate: expense.exchangeRate,
+            convertedAmountCents: convertCents(
+              expense.amountCents,
+              expense.exchangeRate
+            ),
             category: expense.category,
             date: expense.date.toISOString(),
+            splitType: expense.splitType,
+            items: expense.items.map((item) => ({
+              id: item.id,
+              description: item.description,
+              amountCents: item.amountCents,
+              userIds: item.userIds,
+            })),
             payer: expense.payer,
-            participants: expense.participants,
+            payers: expense.payers.map((payer) => ({
+              paidCents: payer.paidCents,
+              user: payer.user,
+            })),
+            participants: expense.participants.map((participant) => ({
+              ...participant,
+              paidBackCents: expense.allocations
+                .filter(
+                  (allocation) =>
+                    allocation.settlement.fromUserId === participant.userId
+                )
+                .reduce((sum, allocation) => sum + allocation.amountCents, 0),
+            })),
             createdAt: expense.createdAt.toISOString(),
           })),
         },
@@ -278,6 +467,118 @@ export default async function groupRoutes(fastify: FastifyInstance) {
     }
   );
 
+  // Get suggested transfers to settle up the group
+  fastify.get(
+    '/:groupId/settle-up',
+    {
+      schema: {
+        tags: ['Groups'],
+        summary: 'Get suggested payments to settle up a group',
+        params: {
+          type: 'object',
+          properties: {
+            groupId: { type: 'string', format: 'uuid' },
+          },
+          required: ['groupId'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              currency: { type: 'string' },
+              simplifyDebts: { type: 'boolean' },
+              debtSimplification: { type: 'string' },
+              transfers: {
+                type: 'array',
+                items: TransferSchema,
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request) => {
+      const { groupId } = request.params as { groupId: string };
+      const userId = requireAuth(request);
+
+      const group = await findGroupLedger(groupId, userId);
+      const participants = group.expenses.flatMap(
+        (expense) => expense.participants
+      );
+
+      // Payments still waiting for the receiver to confirm them are taken
+      // off the suggestions, so a debt that was just paid isn't suggested
+      // a second time
+      const settlements = group.settlements.map((settlement) => ({
+        ...settlement,
+        status: 'CONFIRMED' as const,
+      }));
+
+      // Groups that opt out of simplification pay back whoever fronted the money
+      const edges = group.simplifyDebts
+        ? computeNetBalances(
+            group.expenses,
+            participants,
+            settlements,
+            group.debtSimplification
+          )
+        : computePairwiseBalances(group.expenses, participants, settlements);
+
+      return {
+        currency: group.currency,
+        simplifyDebts: group.simplifyDebts,
+        debtSimplification: group.debtSimplification,
+        transfers: await withTransferUsers(edges),
+      };
+    }
+  );
+
+  // Get raw pairwise balances between members
+  fastify.get(
+    '/:groupId/pairwise-balances',
+    {
+      schema: {
+        tags: ['Groups'],
+        summary: 'Get unsimplified balances between every pair of members',
+        params: {
+          type: 'object',
+          properties: {
+            groupId: { type: 'string', format: 'uuid' },
+          },
+          required: ['groupId'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              currency: { type: 'string' },
+              balances: {
+                type: 'array',
+                items: TransferSchema,
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request) => {
+      const { groupId } = request.params as { groupId: string };
+      const userId = requireAuth(request);
+
+      const group = await findGroupLedger(groupId, userId);
+      const edges = computePairwiseBalances(
+        group.expenses,
+        group.expenses.flatMap((expense) => expense.participants),
+        group.settlements
+      );
+
+      return {
+        currency: group.currency,
+        balances: await withTransferUsers(edges),
+      };
+    }
+  );
+
   // Update group
   fastify.put(
     '/:groupId',
@@ -297,6 +598,8 @@ export default async function groupRoutes(fastify: FastifyInstance) {
           properties: {
             name: { type: 'string', minLength: 1, maxLength: 100 },
             currency: { type: 'string', minLength: 3, maxLength: 3 },
+            simplifyDebts: { type: 'boolean' },
+            debtSimplification: { type: 'string', enum: ['GREEDY', 'OPTIMAL'] },
           },
         },
       },
@@ -312,6 +615,7 @@ export default async function groupRoutes(fastify: FastifyInstance) {
           groupId,
           userId,
           role: { in: ['OWNER', 'ADMIN'] },
+          group: { deletedAt: null },
         },
       });
 
@@ -321,9 +625,31 @@ export default async function groupRoutes(fastify: FastifyInstance) {
         );
       }
 
-      const group = await prisma.group.update({
-        where: { id: groupId },
-        data: updates,
+      const group = await prisma.$transaction(async (tx) => {
+        const current = await tx.group.findUniqueOrThrow({
+          where: { id: groupId },
+          select: {
+            currency: true,
+            _count: { select: { expenses: true, settlements: true } },
+          },
+        });
+
+        // Expense rates were snapshotted into the current currency, and
+        // settlements were paid in it
+        if (
+          updates.currency &&
+          updates.currency !== current.currency &&
+          (current._count.expenses > 0 || current._count.settlements > 0)
+        ) {
+          throw new ValidationError(
+            'The currency of a group with expenses or settlements cannot be changed'
+          );
+        }
+
+        return tx.group.update({
+          where: { id: groupId },
+          data: updates,
+        });
       });
 
       return { group };
@@ -358,6 +684,7 @@ export default async function groupRoutes(fastify: FastifyInstance) {
           groupId,
           userId,
           role: { in: ['OWNER', 'ADMIN'] },
+          group: { deletedAt: null },
         },
       });
 
@@ -454,7 +781,7 @@ export default async function groupRoutes(fastify: FastifyInstance) {
 
       // Get current user membership
       const currentUserMembership = await prisma.groupMember.findFirst({
-        where: { groupId, userId },
+        where: { groupId, userId, group: { deletedAt: null } },
       });
 
       if (!currentUserMembership) {
@@ -522,6 +849,7 @@ export default async function groupRoutes(fastify: FastifyInstance) {
           groupId,
           userId,
           role: 'OWNER',
+          group: { deletedAt: null },
         },
       });
 
@@ -529,9 +857,53 @@ export default async function groupRoutes(fastify: FastifyInstance) {
         throw new ForbiddenError('Only group owners can delete groups');
       }
 
-      // Delete group (cascade will handle related records)
-      await prisma.group.delete({
+      // Hide the group until the purge job removes it along with its
+      // expenses, settlements and receipts
+      await prisma.group.update({
+        where: { id: groupId },
+        data: { deletedAt: new Date() },
+      });
+
+      return { success: true };
+    }
+  );
+
+  // Restore a deleted group (owner only)
+  fastify.post(
+    '/:groupId/restore',
+    {
+      schema: {
+        tags: ['Groups'],
+        summary: 'Restore a deleted group',
+        params: {
+          type: 'object',
+          properties: {
+            groupId: { type: 'string', format: 'uuid' },
+          },
+          required: ['groupId'],
+        },
+      },
+    },
+    async (request) => {
+      const { groupId } = request.params as { groupId: string };
+      const userId = requireAuth(request);
+
+      const membership = await prisma.groupMember.findFirst({
+        where: {
+          groupId,
+          userId,
+          role: 'OWNER',
+          group: { deletedAt: { not: null } },
+        },
+      });
+
+      if (!membership) {
+        throw new NotFoundError('Deleted group');
+      }
+
+      await prisma.group.update({
         where: { id: groupId },
+        data: { deletedAt: null },
       });
 
       return { success: true };
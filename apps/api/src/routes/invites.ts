@@ -0,0 +1,410 @@
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import {
+  NotFoundError,
+  ForbiddenError,
+  ValidationError,
+  UnauthorizedError,
+  CreateInviteSchema,
+} from '@group-pay/shared';
+import { prisma } from '../lib/prisma.js';
+import { generateInviteCode, isTokenExpired } from '../utils/tokens.js';
+
+// Schema for an invite returned to group admins
+const InviteSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    groupId: { type: 'string' },
+    code: { type: 'string' },
+    status: { type: 'string' },
+    expiresAt: { type: 'string' },
+    createdAt: { type: 'string' },
+    creator: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        name: { type: 'string' },
+      },
+    },
+  },
+} as const;
+
+const creatorSelect = {
+  select: {
+    id: true,
+    name: true,
+  },
+} as const;
+
+// Helper to ensure user is authenticated
+function requireAuth(request: FastifyRequest) {
+  if (!request.authUser?.userId) {
+    throw new UnauthorizedError('Authentication required');
+  }
+  return request.authUser.userId as string;
+}
+
+// Helper to ensure user can manage a group's invites
+async function requireGroupAdmin(groupId: string, userId: string) {
+  const membership = await prisma.groupMember.findFirst({
+    where: { groupId, userId, group: { deletedAt: null } },
+  });
+
+  if (!membership) {
+    throw new ForbiddenError('You are not a member of this group');
+  }
+
+  if (!['OWNER', 'ADMIN'].includes(membership.role)) {
+    throw new ForbiddenError('Only group owners and admins can manage invites');
+  }
+}
+
+export default async function inviteRoutes(fastify: FastifyInstance) {
+  // Create an invite link for a group
+  fastify.post(
+    '/groups/:groupId/invites',
+    {
+      schema: {
+        tags: ['Invites'],
+        summary: 'Create an invite code for a group',
+        params: {
+          type: 'object',
+          properties: {
+            groupId: { type: 'string', format: 'uuid' },
+          },
+          required: ['groupId'],
+        },
+        body: {
+          type: 'object',
+          properties: {
+            expiresInDays: { type: 'integer', minimum: 1, maximum: 30 },
+          },
+        },
+        response: {
+          201: {
+            type: 'object',
+            properties: {
+              invite: InviteSchema,
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = requireAuth(request);
+      const { groupId } = request.params as { groupId: string };
+      const body = CreateInviteSchema.safeParse(request.body ?? {});
+
+      if (!body.success) {
+        throw new ValidationError(body.error.errors[0].message);
+      }
+      const { expiresInDays } = body.data;
+
+      await requireGroupAdmin(groupId, userId);
+
+      const expiresAt = new Date();
+      expiresAt.setDate(expiresAt.getDate() + expiresInDays);
+
+      const invite = await prisma.invite.create({
+        data: {
+          groupId,
+          code: generateInviteCode(),
+          createdBy: userId,
+          expiresAt,
+        },
+        include: { creator: creatorSelect },
+      });
+
+      reply.status(201).send({ invite });
+    }
+  );
+
+  // List active invites for a group
+  fastify.get(
+    '/groups/:groupId/invites',
+    {
+      schema: {
+        tags: ['Invites'],
+        summary: 'List pending invites for a group',
+        params: {
+          type: 'object',
+          properties: {
+            groupId: { type: 'string', format: 'uuid' },
+          },
+          required: ['groupId'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              invites: {
+                type: 'array',
+                items: InviteSchema,
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request) => {
+      const userId = requireAuth(request);
+      const { groupId } = request.params as { groupId: string };
+
+      await requireGroupAdmin(groupId, userId);
+
+      const invites = await prisma.invite.findMany({
+        where: {
+          groupId,
+          status: 'PENDING',
+          expiresAt: { gt: new Date() },
+        },
+        include: { creator: creatorSelect },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      return { invites };
+    }
+  );
+
+  // Cancel an invite
+  fastify.delete(
+    '/groups/:groupId/invites/:inviteId',
+    {
+      schema: {
+        tags: ['Invites'],
+        summary: 'Cancel a pending invite',
+        params: {
+          type: 'object',
+          properties: {
+            groupId: { type: 'string', format: 'uuid' },
+            inviteId: { type: 'string', format: 'uuid' },
+          },
+          required: ['groupId', 'inviteId'],
+        },
+      },
+    },
+    async (request) => {
+      const userId = requireAuth(request);
+      const { groupId, inviteId } = request.params as {
+        groupId: string;
+        inviteId: string;
+      };
+
+      await requireGroupAdmin(groupId, userId);
+
+      const invite = await prisma.invite.findFirst({
+        where: { id: inviteId, groupId },
+      });
+
+      if (!invite) {
+        throw new NotFoundError('Invite', inviteId);
+      }
+
+      if (invite.status !== 'PENDING') {
+        throw new ValidationError('Only pending invites can be cancelled');
+      }
+
+      await prisma.invite.update({
+        where: { id: inviteId },
+        data: { status: 'CANCELLED' },
+      });
+
+      return { success: true };
+    }
+  );
+
+  // Preview the group behind an invite code (public)
+  fastify.get(
+    '/invites/:code',
+    {
+      schema: {
+        tags: ['Invites'],
+        summary: 'Preview an invite before joining',
+        params: {
+          type: 'object',
+          properties: {
+            code: { type: 'string', minLength: 6, maxLength: 20 },
+          },
+          required: ['code'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              invite: {
+                type: 'object',
+                properties: {
+                  code: { type: 'string' },
+                  status: { type: 'string' },
+                  expiresAt: { type: 'string' },
+                  expired: { type: 'boolean' },
+                  invitedBy: {
+                    type: 'object',
+                    properties: {
+                      name: { type: 'string' },
+                    },
+                  },
+                  group: {
+                    type: 'object',
+                    properties: {
+                      id: { type: 'string' },
+                      name: { type: 'string' },
+                      currency: { type: 'string' },
+                      memberCount: { type: 'number' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request) => {
+      const { code } = request.params as { code: string };
+
+      // Invites to deleted groups stop working
+      const invite = await prisma.invite.findFirst({
+        where: { code: code.toUpperCase(), group: { deletedAt: null } },
+        include: {
+          creator: { select: { name: true } },
+          group: {
+            include: {
+              _count: {
+                select: { members: true },
+              },
+            },
+          },
+        },
+      });
+
+      if (!invite) {
+        throw new NotFoundError('Invite');
+      }
+
+      return {
+        invite: {
+          code: invite.code,
+          status: invite.status,
+          expiresAt: invite.expiresAt,
+          expired: isTokenExpired(invite.expiresAt),
+          invitedBy: invite.creator,
+          group: {
+            id: invite.group.id,
+            name: invite.group.name,
+            currency: invite.group.currency,
+            memberCount: invite.group._count.members,
+          },
+        },
+      };
+    }
+  );
+
+  // Redeem an invite code and join the group
+  fastify.post(
+    '/invites/:code/accept',
+    {
+      schema: {
+        tags: ['Invites'],
+        summary: 'Accept an invite and join the group',
+        params: {
+          type: 'object',
+          properties: {
+            code: { type: 'string', minLength: 6, maxLength: 20 },
+          },
+          required: ['code'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              group: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  name: { type: 'string' },
+                  currency: { type: 'string' },
+                },
+              },
+              membership: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  role: { type: 'string' },
+                  joinedAt: { type: 'string' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request) => {
+      const userId = requireAuth(request);
+      const { code } = request.params as { code: string };
+
+      // Invites to deleted groups stop working
+      const invite = await prisma.invite.findFirst({
+        where: { code: code.toUpperCase(), group: { deletedAt: null } },
+        include: { group: true },
+      });
+
+      if (!invite) {
+        throw new NotFoundError('Invite');
+      }
+
+      if (invite.status !== 'PENDING') {
+        throw new ValidationError(
+          invite.status === 'ACCEPTED'
+            ? 'This invite has already been used'
+            : 'This invite has been cancelled'
+        );
+      }
+
+      if (isTokenExpired(invite.expiresAt)) {
+        throw new ValidationError('This invite has expired');
+      }
+
+      const existingMembership = await prisma.groupMember.findFirst({
+        where: { groupId: invite.groupId, userId },
+      });
+
+      if (existingMembership) {
+        throw new ValidationError('You are already a member of this group');
+      }
+
+      const membership = await prisma.$transaction(async (tx) => {
+        // Only one redemption can flip the invite out of PENDING
+        const { count } = await tx.invite.updateMany({
+          where: { id: invite.id, status: 'PENDING' },
+          data: { status: 'ACCEPTED' },
+        });
+
+        if (count === 0) {
+          throw new ValidationError('This invite has already been used');
+        }
+
+        return tx.groupMember.create({
+          data: {
+            groupId: invite.groupId,
+            userId,
+            role: 'MEMBER',
+          },
+        });
+      });
+
+      return {
+        group: {
+          id: invite.group.id,
+          name: invite.group.name,
+          currency: invite.group.currency,
+        },
+        membership: {
+          id: membership.id,
+          role: membership.role,
+          joinedAt: membership.joinedAt.toISOString(),
+        },
+      };
+    }
+  );
+}
@@ -1,18 +1,53 @@
 import { FastifyInstance, FastifyRequest } from 'fastify';
 import multipart, { FastifyMultipartBaseOptions } from '@fastify/multipart';
+import { randomUUID } from 'crypto';
 import {
   NotFoundError,
   ForbiddenError,
   ValidationError,
   UnauthorizedError,
+  calculateEqualSplit,
+  convertCents,
   validateReceiptFile,
 } from '@group-pay/shared';
 import { receiptSchemas } from '../schemas/receipts.js';
-import { storageService } from '../lib/storage.js';
+import { storageService, verifyLocalFileSignature } from '../lib/storage.js';
 import { prisma } from '../lib/prisma.js';
+import {
+  queueReceiptOcr,
+  readReceipt,
+  toReceiptOcrData,
+} from '../services/receiptOcr.js';
+import {
+  storeReceiptFile,
+  deleteReceiptFiles,
+} from '../services/receiptFiles.js';
+import { recordExpenseRevision } from '../services/expenseRevisions.js';
 import path from 'path';
 import { promises as fs } from 'fs';
 
+// How long receipt links handed to clients stay valid
+const RECEIPT_URL_TTL_SECONDS = 60 * 60;
+
+// Swap the stored paths for signed URLs before a receipt goes to a client
+async function withSignedUrls<
+  T extends { fileUrl: string; thumbnailUrl: string | null },
+>(receipt: T): Promise<T> {
+  return {
+    ...receipt,
+    fileUrl: await storageService.getSignedUrl(
+      receipt.fileUrl,
+      RECEIPT_URL_TTL_SECONDS
+    ),
+    thumbnailUrl:
+      receipt.thumbnailUrl &&
+      (await storageService.getSignedUrl(
+        receipt.thumbnailUrl,
+        RECEIPT_URL_TTL_SECONDS
+      )),
+  };
+}
+
 // Helper to ensure user is authenticated
 function requireAuth(request: FastifyRequest) {
   if (!request.authUser?.userId) {
@@ -41,7 +76,9 @@ export default async function receiptRoutes(fastify: FastifyInstance) {
       const expense = await prisma.expense.findFirst({
         where: {
           id: expenseId,
+          deletedAt: null,
           group: {
+            deletedAt: null,
             members: {
               some: { userId },
             },
@@ -93,27 +130,174 @@ export default async function receiptRoutes(fastify: FastifyInstance) {
         throw new ValidationError(validation.errors.join(', '));
       }
 
-      // Upload file
-      const filePath = await storageService.upload(buffer, filename, mimeType);
-      const fileUrl = storageService.getUrl(filePath);
+      // Clean up the image and upload it with a thumbnail
+      const { file, ...stored } = await storeReceiptFile(
+        buffer,
+        filename,
+        mimeType,
+        { logger: request.log }
+      );
 
-      // Create receipt record
+      // Create receipt record; paths are stored, not full URLs
       const receipt = await prisma.receipt.create({
         data: {
           expenseId,
-          fileUrl: filePath, // Store path, not full URL
-          mimeType,
-          filename,
-          fileSize: buffer.length,
+          ...stored,
         },
       });
 
+      // Read the receipt in the background; clients poll for ocrStatus
+      queueReceiptOcr(receipt.id, file, receipt.mimeType, {
+        logger: request.log,
+      });
+
       reply.status(201).send({
-        receipt: {
-          ...receipt,
-          fileUrl, // Return full URL to client
+        receipt: await withSignedUrls(receipt),
+      });
+    }
+  );
+
+  // Scan a receipt into a new draft expense. The draft is prefilled from
+  // what OCR could read and split equally between all members; it stays out
+  // of balances until someone reviews and confirms it.
+  fastify.post(
+    '/groups/:groupId/receipts/draft',
+    { schema: receiptSchemas.createDraftFromReceipt },
+    async (request, reply) => {
+      const userId = requireAuth(request);
+      const { groupId } = request.params as { groupId: string };
+
+      const group = await prisma.group.findFirst({
+        where: {
+          id: groupId,
+          deletedAt: null,
+          members: {
+            some: { userId },
+          },
+        },
+        include: {
+          members: { select: { userId: true } },
         },
       });
+
+      if (!group) {
+        throw new NotFoundError('Group');
+      }
+
+      const data = await request.file();
+
+      if (!data) {
+        throw new ValidationError('No file provided');
+      }
+
+      const buffer = await data.toBuffer();
+      const filename = data.filename || 'receipt';
+      const mimeType = data.mimetype || 'application/octet-stream';
+
+      const validation = validateReceiptFile({
+        name: filename,
+        size: buffer.length,
+        type: mimeType,
+      });
+
+      if (!validation.isValid) {
+        throw new ValidationError(validation.errors.join(', '));
+      }
+
+      const { file, ...stored } = await storeReceiptFile(
+        buffer,
+        filename,
+        mimeType,
+        { logger: request.log }
+      );
+
+      // Read the receipt now, the draft is built from what it says
+      const ocr = await readReceipt(file, stored.mimeType, {
+        logger: request.log,
+      });
+      const parsed = ocr.parsed;
+
+      // Without a total the draft starts at zero and can't be confirmed
+      // until someone enters the amount
+      const amountCents = Math.max(0, parsed?.totalAmount ?? 0);
+      const expenseId = randomUUID();
+      const shares = calculateEqualSplit(
+        amountCents,
+        group.members.map((member) => member.userId),
+        expenseId
+      );
+
+      const { receipts, ...expense } = await prisma.$transaction(async (tx) => {
+        const created = await tx.expense.create({
+          data: {
+            id: expenseId,
+            groupId,
+            description:
+              parsed?.merchantName?.slice(0, 200) || 'Scanned receipt',
+            amountCents,
+            currency: group.currency,
+            date: parsed?.date ?? new Date(),
+            payerId: userId,
+            splitType: 'EQUAL',
+            isDraft: true,
+            payers: { create: [{ userId, paidCents: amountCents }] },
+            participants: { create: shares },
+            receipts: {
+              create: {
+                ...stored, // Paths, not full URLs
+                ...toReceiptOcrData(ocr),
+              },
+            },
+          },
+          include: {
+            payer: {
+              select: {
+                id: true,
+                name: true,
+                photoUrl: true,
+              },
+            },
+            payers: {
+              include: {
+                user: {
+                  select: {
+                    id: true,
+                    name: true,
+                    photoUrl: true,
+                  },
+                },
+              },
+            },
+            items: { orderBy: { position: 'asc' } },
+            participants: {
+              include: {
+                user: {
+                  select: {
+                    id: true,
+                    name: true,
+                    photoUrl: true,
+                  },
+                },
+              },
+            },
+            receipts: true,
+          },
+        });
+
+        await recordExpenseRevision(tx, userId, null, created);
+        return created;
+      });
+
+      reply.status(201).send({
+        expense: {
+          ...expense,
+          convertedAmountCents: convertCents(
+            expense.amountCents,
+            expense.exchangeRate
+          ),
+        },
+        receipt: await withSignedUrls(receipts[0]),
+      });
     }
   );
 
@@ -129,7 +313,9 @@ export default async function receiptRoutes(fastify: FastifyInstance) {
       const expense = await prisma.expense.findFirst({
         where: {
           id: expenseId,
+          deletedAt: null,
           group: {
+            deletedAt: null,
             members: {
               some: { userId },
             },
@@ -146,13 +332,8 @@ export default async function receiptRoutes(fastify: FastifyInstance) {
         orderBy: { createdAt: 'desc' },
       });
 
-      // Convert file paths to URLs
-      const receiptsWithUrls = receipts.map((receipt) => ({
-        ...receipt,
-        fileUrl: storageService.getUrl(receipt.fileUrl),
-      }));
-
-      return { receipts: receiptsWithUrls };
+      // Convert file paths to short-lived signed URLs
+      return { receipts: await Promise.all(receipts.map(withSignedUrls)) };
     }
   );
 
@@ -168,7 +349,9 @@ export default async function receiptRoutes(fastify: FastifyInstance) {
         where: {
           id: receiptId,
           expense: {
+            deletedAt: null,
             group: {
+              deletedAt: null,
               members: {
                 some: { userId },
               },
@@ -181,12 +364,7 @@ export default async function receiptRoutes(fastify: FastifyInstance) {
         throw new NotFoundError('Receipt');
       }
 
-      return {
-        receipt: {
-          ...receipt,
-          fileUrl: storageService.getUrl(receipt.fileUrl),
-        },
-      };
+      return { receipt: await withSignedUrls(receipt) };
     }
   );
 
@@ -203,7 +381,9 @@ export default async function receiptRoutes(fastify: FastifyInstance) {
         where: {
           id: receiptId,
           expense: {
+            deletedAt: null,
             group: {
+              deletedAt: null,
               members: {
                 some: { userId },
               },
@@ -213,8 +393,8 @@ export default async function receiptRoutes(fastify: FastifyInstance) {
         include: {
           expense: {
             select: {
-              payerId: true,
               groupId: true,
+              payers: { select: { userId: true } },
             },
           },
         },
@@ -224,7 +404,8 @@ export default async function receiptRoutes(fastify: FastifyInstance) {
         throw new NotFoundError('Receipt');
       }
 
-      // Only the expense payer or group admin can delete receipts
+      // Only someone who paid for the expense or a group admin can delete
+      // receipts
       const membership = await prisma.groupMember.findFirst({
         where: {
           groupId: receipt.expense.groupId,
@@ -233,7 +414,7 @@ export default async function receiptRoutes(fastify: FastifyInstance) {
       });
 
       const canDelete =
-        receipt.expense.payerId === userId ||
+        receipt.expense.payers.some((payer) => payer.userId === userId) ||
         ['OWNER', 'ADMIN'].includes(membership?.role || '');
 
       if (!canDelete) {
@@ -242,8 +423,8 @@ export default async function receiptRoutes(fastify: FastifyInstance) {
         );
       }
 
-      // Delete file from storage
-      await storageService.delete(receipt.fileUrl);
+      // Delete files from storage
+      await deleteReceiptFiles(receipt);
 
       // Delete receipt record
       await prisma.receipt.delete({
@@ -255,27 +436,37 @@ export default async function receiptRoutes(fastify: FastifyInstance) {
   );
 
   // Serve receipt files (static file serving for local storage only)
-  // For Azure storage, files are served directly via blob URLs
+  // For Azure and S3 storage, files are served directly via signed URLs.
+  // No session is needed: the signed URL itself grants access.
   fastify.get('/receipts/files/:filename', async (request, reply) => {
-    const userId = requireAuth(request);
     const { filename } = request.params as { filename: string };
+    const { expires, signature } = request.query as {
+      expires?: string;
+      signature?: string;
+    };
 
     // Security: prevent directory traversal
     if (filename.includes('..') || filename.includes('/')) {
       throw new ValidationError('Invalid filename');
     }
 
-    // Find receipt to verify access
+    if (
+      !expires ||
+      !signature ||
+      !verifyLocalFileSignature(filename, Number(expires), signature)
+    ) {
+      throw new ForbiddenError('This receipt link is invalid or has expired');
+    }
+
+    // The file must still belong to a live receipt
+    const filePath = `receipts/${filename}`;
     const receipt = await prisma.receipt.findFirst({
       where: {
-        fileUrl: {
-          contains: filename,
-        },
+        OR: [{ fileUrl: filePath }, { thumbnailUrl: filePath }],
         expense: {
+          deletedAt: null,
           group: {
-            members: {
-              some: { userId },
-            },
+            deletedAt: null,
           },
         },
       },
@@ -285,28 +476,27 @@ export default async function receiptRoutes(fastify: FastifyInstance) {
       throw new NotFoundError('Receipt');
     }
 
-    // If using Azure storage, redirect to blob URL or return 404
-    // (Azure blobs should be accessed directly via their URLs)
+    // If using cloud storage, return 404
+    // (Azure blobs and S3 objects are read through getSignedUrl() links)
     const storageType = process.env.STORAGE_TYPE || 'local';
-    if (storageType === 'azure') {
-      // Azure storage URLs are returned directly from getUrl()
-      // This endpoint should not be used for Azure storage
+    if (storageType !== 'local') {
       throw new NotFoundError('Receipt file not available via this endpoint');
     }
 
     // Get file path for local storage
-    const filePath = path.resolve(
+    const localPath = path.resolve(
       process.cwd(),
       process.env.UPLOAD_DEST || 'uploads/receipts',
       filename
     );
 
     try {
-      const fileBuffer = await fs.readFile(filePath);
+      const fileBuffer = await fs.readFile(localPath);
       const ext = path.extname(filename).toLowerCase();
 
-      // Set appropriate content type
-      let contentType = receipt.mimeType;
+      // Set appropriate content type; thumbnails go by their extension
+      let contentType =
+        receipt.fileUrl === filePath ? receipt.mimeType : undefined;
       if (!contentType) {
         const mimeTypes: Record<string, string> = {
           '.jpg': 'image/jpeg',
@@ -0,0 +1,378 @@
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import {
+  CreateExpenseParticipantDto,
+  CreateRecurringExpenseDto,
+  ExpenseSplitType,
+  UpdateRecurringExpenseDto,
+  NotFoundError,
+  ForbiddenError,
+  ValidationError,
+  UnauthorizedError,
+  calculateSplit,
+  getNextOccurrence,
+} from '@group-pay/shared';
+import { recurringSchemas } from '../schemas/recurring.js';
+import { toSplitParticipants } from '../services/recurringExpenses.js';
+import { prisma } from '../lib/prisma.js';
+
+// Helper to ensure user is authenticated
+function requireAuth(request: FastifyRequest) {
+  if (!request.authUser?.userId) {
+    throw new UnauthorizedError('Authentication required');
+  }
+  return request.authUser.userId as string;
+}
+
+const recurringInclude = {
+  payer: {
+    select: {
+      id: true,
+      name: true,
+      photoUrl: true,
+    },
+  },
+  participants: {
+    include: {
+      user: {
+        select: {
+          id: true,
+          name: true,
+          photoUrl: true,
+        },
+      },
+    },
+  },
+} as const;
+
+async function requireMembership(groupId: string, userId: string) {
+  const membership = await prisma.groupMember.findFirst({
+    where: { groupId, userId, group: { deletedAt: null } },
+  });
+
+  if (!membership) {
+    throw new ForbiddenError('You are not a member of this group');
+  }
+  return membership;
+}
+
+// Check a template's split up front so it doesn't first fail when the
+// scheduler runs it
+async function validateTemplateSplit(
+  groupId: string,
+  payerId: string,
+  amountCents: number,
+  splitType: ExpenseSplitType,
+  participants: CreateExpenseParticipantDto[]
+) {
+  const payerMembership = await prisma.groupMember.findFirst({
+    where: { groupId, userId: payerId },
+  });
+
+  if (!payerMembership) {
+    throw new ValidationError('The payer must be a member of the group');
+  }
+
+  const participantIds = participants.map((p) => p.userId);
+  if (new Set(participantIds).size !== participantIds.length) {
+    throw new ValidationError('Participants must be unique');
+  }
+
+  const participantMemberships = await prisma.groupMember.count({
+    where: { groupId, userId: { in: participantIds } },
+  });
+
+  if (participantMemberships !== participantIds.length) {
+    throw new ValidationError('All participants must be members of the group');
+  }
+
+  try {
+    calculateSplit(amountCents, splitType, participants);
+  } catch (error) {
+    throw new ValidationError(
+      error instanceof Error ? error.message : 'Invalid split'
+    );
+  }
+}
+
+function toParticipantRows(participants: CreateExpenseParticipantDto[]) {
+  return participants.map((participant) => ({
+    userId: participant.userId,
+    shareCents: participant.shareCents,
+    sharePercentage: participant.sharePercentage,
+    shareCount: participant.shareCount,
+    adjustmentCents: participant.adjustmentCents,
+  }));
+}
+
+export default async function recurringRoutes(fastify: FastifyInstance) {
+  // Get all recurring expenses for a group
+  fastify.get(
+    '/groups/:groupId/recurring',
+    { schema: recurringSchemas.getRecurringExpenses },
+    async (request) => {
+      const userId = requireAuth(request);
+      const { groupId } = request.params as { groupId: string };
+
+      await requireMembership(groupId, userId);
+
+      const recurringExpenses = await prisma.recurringExpense.findMany({
+        where: { groupId },
+        include: recurringInclude,
+        orderBy: { nextRunAt: 'asc' },
+      });
+
+      return { recurringExpenses };
+    }
+  );
+
+  // Create a recurring expense
+  fastify.post(
+    '/groups/:groupId/recurring',
+    { schema: recurringSchemas.createRecurringExpense },
+    async (request, reply) => {
+      const userId = requireAuth(request);
+      const { groupId } = request.params as { groupId: string };
+      const {
+        description,
+        amountCents,
+        currency,
+        category,
+        notes,
+        payerId,
+        splitType,
+        participants,
+        cadence,
+        interval,
+        startDate,
+        endDate,
+      } = request.body as CreateRecurringExpenseDto;
+
+      await requireMembership(groupId, userId);
+      await validateTemplateSplit(
+        groupId,
+        payerId,
+        amountCents,
+        splitType,
+        participants
+      );
+
+      const start = new Date(startDate);
+      const end = endDate ? new Date(endDate) : null;
+      if (end && end < start) {
+        throw new ValidationError('The end date must be after the start date');
+      }
+
+      const recurringExpense = await prisma.recurringExpense.create({
+        data: {
+          groupId,
+          createdById: userId,
+          payerId,
+          description,
+          amountCents,
+          currency: currency || 'USD',
+          category,
+          notes,
+          splitType,
+          cadence,
+          interval,
+          startDate: start,
+          endDate: end,
+          nextRunAt: start,
+          participants: {
+            create: toParticipantRows(participants),
+          },
+        },
+        include: recurringInclude,
+      });
+
+      reply.status(201).send({ recurringExpense });
+    }
+  );
+
+  // Get a recurring expense by ID
+  fastify.get(
+    '/groups/:groupId/recurring/:recurringId',
+    { schema: recurringSchemas.getRecurringExpense },
+    async (request) => {
+      const userId = requireAuth(request);
+      const { groupId, recurringId } = request.params as {
+        groupId: string;
+        recurringId: string;
+      };
+
+      await requireMembership(groupId, userId);
+
+      const recurringExpense = await prisma.recurringExpense.findFirst({
+        where: { id: recurringId, groupId },
+        include: recurringInclude,
+      });
+
+      if (!recurringExpense) {
+        throw new NotFoundError('Recurring expense', recurringId);
+      }
+
+      return { recurringExpense };
+    }
+  );
+
+  // Update a recurring expense
+  fastify.put(
+    '/groups/:groupId/recurring/:recurringId',
+    { schema: recurringSchemas.updateRecurringExpense },
+    async (request) => {
+      const userId = requireAuth(request);
+      const { groupId, recurringId } = request.params as {
+        groupId: string;
+        recurringId: string;
+      };
+      const updates = request.body as UpdateRecurringExpenseDto;
+
+      const membership = await requireMembership(groupId, userId);
+
+      const template = await prisma.recurringExpense.findFirst({
+        where: { id: recurringId, groupId },
+        include: { participants: true },
+      });
+
+      if (!template) {
+        throw new NotFoundError('Recurring expense', recurringId);
+      }
+
+      // Only the person who set it up can edit it, or group admins
+      const canEdit =
+        template.createdById === userId ||
+        ['OWNER', 'ADMIN'].includes(membership.role);
+
+      if (!canEdit) {
+        throw new ForbiddenError(
+          'Only the person who created it or group admins can edit this recurring expense'
+        );
+      }
+
+      const payerId = updates.payerId ?? template.payerId;
+      const amountCents = updates.amountCents ?? template.amountCents;
+      const splitType = updates.splitType ?? template.splitType;
+      const participants =
+        updates.participants ?? toSplitParticipants(template.participants);
+
+      if (
+        updates.payerId ||
+        updates.amountCents ||
+        updates.splitType ||
+        updates.participants
+      ) {
+        await validateTemplateSplit(
+          groupId,
+          payerId,
+          amountCents,
+          splitType,
+          participants
+        );
+      }
+
+      const rule = {
+        startDate: updates.startDate
+          ? new Date(updates.startDate)
+          : template.startDate,
+        cadence: updates.cadence ?? template.cadence,
+        interval: updates.interval ?? template.interval,
+      };
+      const endDate =
+        updates.endDate === undefined
+          ? template.endDate
+          : updates.endDate && new Date(updates.endDate);
+
+      if (endDate && endDate < rule.startDate) {
+        throw new ValidationError('The end date must be after the start date');
+      }
+
+      // A new schedule picks up after the last occurrence that was created
+      let nextRunAt = template.nextRunAt;
+      if (updates.startDate || updates.cadence || updates.interval) {
+        nextRunAt = template.lastRunAt
+          ? getNextOccurrence(rule, template.lastRunAt)
+          : rule.startDate;
+      }
+
+      // Occurrences missed while paused are skipped rather than backfilled
+      const isActive = updates.isActive ?? template.isActive;
+      const now = new Date();
+      if (isActive && !template.isActive && nextRunAt < now) {
+        nextRunAt = getNextOccurrence(rule, now);
+      }
+
+      const recurringExpense = await prisma.$transaction(async (tx) => {
+        if (updates.participants) {
+          await tx.recurringExpenseParticipant.deleteMany({
+            where: { recurringExpenseId: recurringId },
+          });
+        }
+
+        return tx.recurringExpense.update({
+          where: { id: recurringId },
+          data: {
+            description: updates.description,
+            amountCents: updates.amountCents,
+            category: updates.category,
+            notes: updates.notes,
+            payerId: updates.payerId,
+            splitType: updates.splitType,
+            cadence: rule.cadence,
+            interval: rule.interval,
+            startDate: rule.startDate,
+            endDate,
+            nextRunAt,
+            // Nothing left to run once the schedule is past its end date
+            isActive: isActive && (!endDate || nextRunAt <= endDate),
+            participants: updates.participants
+              ? { create: toParticipantRows(updates.participants) }
+              : undefined,
+          },
+          include: recurringInclude,
+        });
+      });
+
+      return { recurringExpense };
+    }
+  );
+
+  // Delete a recurring expense
+  fastify.delete(
+    '/groups/:groupId/recurring/:recurringId',
+    { schema: recurringSchemas.deleteRecurringExpense },
+    async (request) => {
+      const userId = requireAuth(request);
+      const { groupId, recurringId } = request.params as {
+        groupId: string;
+        recurringId: string;
+      };
+
+      const membership = await requireMembership(groupId, userId);
+
+      const template = await prisma.recurringExpense.findFirst({
+        where: { id: recurringId, groupId },
+      });
+
+      if (!template) {
+        throw new NotFoundError('Recurring expense', recurringId);
+      }
+
+      const canDelete =
+        template.createdById === userId ||
+        ['OWNER', 'ADMIN'].includes(membership.role);
+
+      if (!canDelete) {
+        throw new ForbiddenError(
+          'Only the person who created it or group admins can delete this recurring expense'
+        );
+      }
+
+      // Expenses already created stay and lose their link to the template
+      await prisma.recurringExpense.delete({
+        where: { id: recurringId },
+      });
+
+      return { success: true };
+    }
+  );
+}
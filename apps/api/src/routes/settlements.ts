@@ -1,12 +1,22 @@
 import { FastifyInstance, FastifyRequest } from 'fastify';
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient, SettlementStatus } from '@prisma/client';
 import {
   CreateSettlementDto,
+  CreateSettlementAllocationDto,
+  RejectSettlementDto,
+  DisputeSettlementDto,
+  ResubmitSettlementDto,
   NotFoundError,
   ForbiddenError,
   ValidationError,
   UnauthorizedError,
+  validateSettlementAllocations,
 } from '@group-pay/shared';
+import {
+  lockExpenses,
+  shareOwedTo,
+  assertAllocationsFit,
+} from '../services/settlementAllocations.js';
 
 const prisma = new PrismaClient();
 
@@ -18,6 +28,168 @@ function requireAuth(request: FastifyRequest) {
   return request.authUser.userId as string;
 }
 
+const settlementInclude = {
+  allocations: true,
+  fromUser: {
+    select: {
+      id: true,
+      name: true,
+      photoUrl: true,
+    },
+  },
+  toUser: {
+    select: {
+      id: true,
+      name: true,
+      photoUrl: true,
+    },
+  },
+} as const;
+
+// Move a settlement to a new status and record who did it. The status check
+// is part of the update so two people acting at once can't both succeed.
+async function transitionSettlement(
+  settlementId: string,
+  actorId: string,
+  allowedFrom: SettlementStatus[],
+  change: { status: SettlementStatus; amountCents?: number; reason?: string }
+) {
+  return prisma.$transaction(async (tx) => {
+    const current = await tx.settlement.findUnique({
+      where: { id: settlementId },
+      include: { allocations: true },
+    });
+
+    if (!current) {
+      throw new NotFoundError('Settlement');
+    }
+
+    // A rejected settlement's allocations stop counting; bringing it back
+    // has to fit in what is still owed
+    const reactivating =
+      current.status === 'REJECTED' && change.status !== 'REJECTED';
+    const expenseIds = current.allocations.map((a) => a.expenseId);
+
+    if (reactivating) {
+      await lockExpenses(tx, expenseIds);
+    }
+
+    const { count } = await tx.settlement.updateMany({
+      where: { id: settlementId, status: { in: allowedFrom } },
+      data: {
+        status: change.status,
+        amountCents: change.amountCents,
+      },
+    });
+
+    if (count === 0) {
+      throw new ValidationError(
+        `A ${current.status.toLowerCase()} settlement cannot be moved to ${change.status.toLowerCase()}`
+      );
+    }
+
+    if (reactivating) {
+      for (const expenseId of expenseIds) {
+        await assertAllocationsFit(tx, expenseId);
+      }
+    }
+
+    await tx.settlementEvent.create({
+      data: {
+        settlementId,
+        actorId,
+        fromStatus: current.status,
+        toStatus: change.status,
+        amountCents: change.amountCents ?? current.amountCents,
+        reason: change.reason,
+      },
+    });
+
+    return tx.settlement.findUniqueOrThrow({
+      where: { id: settlementId },
+      include: settlementInclude,
+    });
+  });
+}
+
+// Helper to check that allocations only pay back expenses the receiver paid
+// for, and never more than the part of the payer's share owed to them. Call
+// with the expenses locked.
+async function validateAllocations(
+  tx: Prisma.TransactionClient,
+  groupId: string,
+  fromUserId: string,
+  toUserId: string,
+  amountCents: number,
+  allocations: CreateSettlementAllocationDto[]
+) {
+  const expenses = await tx.expense.findMany({
+    where: {
+      id: { in: allocations.map((allocation) => allocation.expenseId) },
+      groupId,
+      payers: { some: { userId: toUserId } },
+      deletedAt: null,
+      isDraft: false,
+    },
+    include: {
+      payers: true,
+      participants: {
+        where: { userId: fromUserId },
+      },
+      allocations: {
+        where: {
+          settlement: {
+            fromUserId,
+            toUserId,
+            status: { not: 'REJECTED' },
+          },
+        },
+      },
+    },
+  });
+
+  const limits = expenses
+    .filter((expense) => expense.participants.length > 0)
+    .map((expense) => ({
+      expenseId: expense.id,
+      // Settlements are in the group currency, and with several payers only
+      // the receiver's part of the share is owed to them
+      shareCents: shareOwedTo(
+        expense,
+        expense.participants[0].shareCents,
+        toUserId
+      ),
+      allocatedCents: expense.allocations.reduce(
+        (sum, allocation) => sum + allocation.amountCents,
+        0
+      ),
+    }));
+
+  const result = validateSettlementAllocations(
+    amountCents,
+    allocations,
+    limits
+  );
+
+  if (!result.isValid) {
+    throw new ValidationError(result.errors.join('; '));
+  }
+}
+
+// Helper to load a settlement or fail with a 404
+async function findSettlement(settlementId: string) {
+  const settlement = await prisma.settlement.findFirst({
+    where: { id: settlementId, group: { deletedAt: null } },
+    include: { allocations: true },
+  });
+
+  if (!settlement) {
+    throw new NotFoundError('Settlement');
+  }
+
+  return settlement;
+}
+
 export default async function settlementRoutes(fastify: FastifyInstance) {
   // Record a settlement/payment
   fastify.post(
@@ -44,6 +216,17 @@ export default async function settlementRoutes(fastify: FastifyInstance) {
               enum: ['VENMO', 'PAYPAL', 'ZELLE', 'STRIPE_LINK', 'MARK_ONLY'],
             },
             externalRef: { type: 'string' },
+            allocations: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  expenseId: { type: 'string', format: 'uuid' },
+                  amountCents: { type: 'number', minimum: 1 },
+                },
+                required: ['expenseId', 'amountCents'],
+              },
+            },
           },
           required: ['fromUserId', 'toUserId', 'amountCents', 'method'],
         },
@@ -61,6 +244,17 @@ export default async function settlementRoutes(fastify: FastifyInstance) {
                   method: { type: 'string' },
                   status: { type: 'string' },
                   createdAt: { type: 'string' },
+                  allocations: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        id: { type: 'string' },
+                        expenseId: { type: 'string' },
+                        amountCents: { type: 'number' },
+                      },
+                    },
+                  },
                 },
               },
             },
@@ -71,8 +265,14 @@ export default async function settlementRoutes(fastify: FastifyInstance) {
     async (request, reply) => {
       const userId = requireAuth(request);
       const { groupId } = request.query as { groupId: string };
-      const { fromUserId, toUserId, amountCents, method, externalRef } =
-        request.body as CreateSettlementDto;
+      const {
+        fromUserId,
+        toUserId,
+        amountCents,
+        method,
+        externalRef,
+        allocations = [],
+      } = request.body as CreateSettlementDto;
 
       // Verify user is involved in the settlement (either sender or receiver)
       if (userId !== fromUserId && userId !== toUserId) {
@@ -86,6 +286,7 @@ export default async function settlementRoutes(fastify: FastifyInstance) {
         where: {
           groupId,
           userId: { in: [fromUserId, toUserId] },
+          group: { deletedAt: null },
         },
       });
 
@@ -93,34 +294,64 @@ export default async function settlementRoutes(fastify: FastifyInstance) {
         throw new ValidationError('Both users must be members of the group');
       }
 
-      // Create settlement record
-      const settlement = await prisma.settlement.create({
-        data: {
-          groupId,
-          fromUserId,
-          toUserId,
-          amountCents,
-          method,
-          externalRef,
-          status: 'PENDING',
-          createdAt: new Date(),
-        },
-        include: {
-          fromUser: {
-            select: {
-              id: true,
-              name: true,
-              photoUrl: true,
+      // Check and record in one transaction with the expenses locked, so
+      // two settlements at once can't both claim the same share
+      const settlement = await prisma.$transaction(async (tx) => {
+        if (allocations.length > 0) {
+          await lockExpenses(
+            tx,
+            allocations.map((allocation) => allocation.expenseId)
+          );
+          await validateAllocations(
+            tx,
+            groupId,
+            fromUserId,
+            toUserId,
+            amountCents,
+            allocations
+          );
+        }
+
+        // Create settlement record
+        return tx.settlement.create({
+          data: {
+            groupId,
+            fromUserId,
+            toUserId,
+            amountCents,
+            method,
+            externalRef,
+            status: 'PENDING',
+            createdAt: new Date(),
+            events: {
+              create: {
+                actorId: userId,
+                toStatus: 'PENDING',
+                amountCents,
+              },
+            },
+            allocations: {
+              create: allocations,
             },
           },
-          toUser: {
-            select: {
-              id: true,
-              name: true,
-              photoUrl: true,
+          include: {
+            allocations: true,
+            fromUser: {
+              select: {
+                id: true,
+                name: true,
+                photoUrl: true,
+              },
+            },
+            toUser: {
+              select: {
+                id: true,
+                name: true,
+                photoUrl: true,
+              },
             },
           },
-        },
+        });
       });
 
       reply.status(201).send({ settlement });
@@ -160,7 +391,7 @@ export default async function settlementRoutes(fastify: FastifyInstance) {
 
       // Verify user is member of the group
       const membership = await prisma.groupMember.findFirst({
-        where: { groupId, userId },
+        where: { groupId, userId, group: { deletedAt: null } },
       });
 
       if (!membership) {
@@ -170,6 +401,7 @@ export default async function settlementRoutes(fastify: FastifyInstance) {
       const settlements = await prisma.settlement.findMany({
         where: { groupId },
         include: {
+          allocations: true,
           fromUser: {
             select: {
               id: true,
@@ -232,6 +464,7 @@ export default async function settlementRoutes(fastify: FastifyInstance) {
       const settlements = await prisma.settlement.findMany({
         where: {
           OR: [{ fromUserId: userId }, { toUserId: userId }],
+          group: { deletedAt: null },
         },
         include: {
           fromUser: {
@@ -263,6 +496,7 @@ export default async function settlementRoutes(fastify: FastifyInstance) {
       const total = await prisma.settlement.count({
         where: {
           OR: [{ fromUserId: userId }, { toUserId: userId }],
+          group: { deletedAt: null },
         },
       });
 
@@ -284,7 +518,7 @@ export default async function settlementRoutes(fastify: FastifyInstance) {
     {
       schema: {
         tags: ['Settlements'],
-        summary: 'Confirm a settlement as paid',
+        summary: 'Confirm a settlement as received',
         params: {
           type: 'object',
           properties: {
@@ -298,59 +532,227 @@ export default async function settlementRoutes(fastify: FastifyInstance) {
       const userId = requireAuth(request);
       const { settlementId } = request.params as { settlementId: string };
 
-      // Get the settlement
-      const settlement = await prisma.settlement.findUnique({
-        where: { id: settlementId },
-        include: {
-          group: {
-            include: {
-              members: {
-                where: { userId },
-              },
-            },
+      const settlement = await findSettlement(settlementId);
+
+      // Only the person who was paid can say the money arrived
+      if (settlement.toUserId !== userId) {
+        throw new ForbiddenError('Only the receiver can confirm a settlement');
+      }
+
+      const updatedSettlement = await transitionSettlement(
+        settlementId,
+        userId,
+        ['PENDING', 'DISPUTED'],
+        { status: 'CONFIRMED' }
+      );
+
+      return { settlement: updatedSettlement };
+    }
+  );
+
+  // Reject a settlement the receiver never got
+  fastify.put(
+    '/:settlementId/reject',
+    {
+      schema: {
+        tags: ['Settlements'],
+        summary: 'Reject a settlement as not received',
+        params: {
+          type: 'object',
+          properties: {
+            settlementId: { type: 'string', format: 'uuid' },
           },
+          required: ['settlementId'],
         },
-      });
+        body: {
+          type: 'object',
+          properties: {
+            reason: { type: 'string', minLength: 1, maxLength: 500 },
+          },
+          required: ['reason'],
+        },
+      },
+    },
+    async (request) => {
+      const userId = requireAuth(request);
+      const { settlementId } = request.params as { settlementId: string };
+      const { reason } = request.body as RejectSettlementDto;
+
+      const settlement = await findSettlement(settlementId);
 
-      if (!settlement) {
-        throw new NotFoundError('Settlement');
+      if (settlement.toUserId !== userId) {
+        throw new ForbiddenError('Only the receiver can reject a settlement');
       }
 
-      // Check if user is involved or is a group admin
-      const isInvolved =
-        settlement.fromUserId === userId || settlement.toUserId === userId;
-      const isAdmin =
-        settlement.group.members.length > 0 &&
-        ['OWNER', 'ADMIN'].includes(settlement.group.members[0].role);
+      if (!reason.trim()) {
+        throw new ValidationError(
+          'A reason is required to reject a settlement'
+        );
+      }
 
-      if (!isInvolved && !isAdmin) {
-        throw new ForbiddenError(
-          'You can only confirm settlements you are involved in'
+      const updatedSettlement = await transitionSettlement(
+        settlementId,
+        userId,
+        ['PENDING', 'DISPUTED'],
+        { status: 'REJECTED', reason: reason.trim() }
+      );
+
+      return { settlement: updatedSettlement };
+    }
+  );
+
+  // Dispute a rejection
+  fastify.put(
+    '/:settlementId/dispute',
+    {
+      schema: {
+        tags: ['Settlements'],
+        summary: 'Dispute a rejected settlement',
+        params: {
+          type: 'object',
+          properties: {
+            settlementId: { type: 'string', format: 'uuid' },
+          },
+          required: ['settlementId'],
+        },
+        body: {
+          type: 'object',
+          properties: {
+            reason: { type: 'string', minLength: 1, maxLength: 500 },
+          },
+          required: ['reason'],
+        },
+      },
+    },
+    async (request) => {
+      const userId = requireAuth(request);
+      const { settlementId } = request.params as { settlementId: string };
+      const { reason } = request.body as DisputeSettlementDto;
+
+      const settlement = await findSettlement(settlementId);
+
+      if (settlement.fromUserId !== userId) {
+        throw new ForbiddenError('Only the payer can dispute a rejection');
+      }
+
+      if (!reason.trim()) {
+        throw new ValidationError(
+          'A reason is required to dispute a rejection'
         );
       }
 
-      const updatedSettlement = await prisma.settlement.update({
-        where: { id: settlementId },
-        data: { status: 'CONFIRMED' },
-        include: {
-          fromUser: {
-            select: {
-              id: true,
-              name: true,
-              photoUrl: true,
-            },
+      const updatedSettlement = await transitionSettlement(
+        settlementId,
+        userId,
+        ['REJECTED'],
+        { status: 'DISPUTED', reason: reason.trim() }
+      );
+
+      return { settlement: updatedSettlement };
+    }
+  );
+
+  // Resubmit a rejected or disputed settlement with a corrected amount
+  fastify.put(
+    '/:settlementId/resubmit',
+    {
+      schema: {
+        tags: ['Settlements'],
+        summary: 'Resubmit a settlement with a corrected amount',
+        params: {
+          type: 'object',
+          properties: {
+            settlementId: { type: 'string', format: 'uuid' },
           },
-          toUser: {
+          required: ['settlementId'],
+        },
+        body: {
+          type: 'object',
+          properties: {
+            amountCents: { type: 'number', minimum: 1 },
+            note: { type: 'string', maxLength: 500 },
+          },
+          required: ['amountCents'],
+        },
+      },
+    },
+    async (request) => {
+      const userId = requireAuth(request);
+      const { settlementId } = request.params as { settlementId: string };
+      const { amountCents, note } = request.body as ResubmitSettlementDto;
+
+      const settlement = await findSettlement(settlementId);
+
+      if (settlement.fromUserId !== userId) {
+        throw new ForbiddenError('Only the payer can resubmit a settlement');
+      }
+
+      const allocatedCents = settlement.allocations.reduce(
+        (sum, allocation) => sum + allocation.amountCents,
+        0
+      );
+
+      if (amountCents < allocatedCents) {
+        throw new ValidationError(
+          `Amount cannot be less than the ${allocatedCents / 100} allocated to expenses`
+        );
+      }
+
+      const updatedSettlement = await transitionSettlement(
+        settlementId,
+        userId,
+        ['REJECTED', 'DISPUTED'],
+        { status: 'PENDING', amountCents, reason: note?.trim() || undefined }
+      );
+
+      return { settlement: updatedSettlement };
+    }
+  );
+
+  // Get the status history of a settlement
+  fastify.get(
+    '/:settlementId/events',
+    {
+      schema: {
+        tags: ['Settlements'],
+        summary: 'Get the audit trail of a settlement',
+        params: {
+          type: 'object',
+          properties: {
+            settlementId: { type: 'string', format: 'uuid' },
+          },
+          required: ['settlementId'],
+        },
+      },
+    },
+    async (request) => {
+      const userId = requireAuth(request);
+      const { settlementId } = request.params as { settlementId: string };
+
+      const settlement = await findSettlement(settlementId);
+
+      const membership = await prisma.groupMember.findFirst({
+        where: { groupId: settlement.groupId, userId },
+      });
+
+      if (!membership) {
+        throw new ForbiddenError('You are not a member of this group');
+      }
+
+      const events = await prisma.settlementEvent.findMany({
+        where: { settlementId },
+        include: {
+          actor: {
             select: {
               id: true,
               name: true,
-              photoUrl: true,
             },
           },
         },
+        orderBy: { createdAt: 'asc' },
       });
 
-      return { settlement: updatedSettlement };
+      return { events };
     }
   );
 
@@ -374,14 +776,7 @@ export default async function settlementRoutes(fastify: FastifyInstance) {
       const userId = requireAuth(request);
       const { settlementId } = request.params as { settlementId: string };
 
-      // Get the settlement
-      const settlement = await prisma.settlement.findUnique({
-        where: { id: settlementId },
-      });
-
-      if (!settlement) {
-        throw new NotFoundError('Settlement');
-      }
+      const settlement = await findSettlement(settlementId);
 
       // Only the person who created the settlement can delete it, and only if it's pending
       if (settlement.fromUserId !== userId) {
@@ -1,6 +1,13 @@
 import { FastifyInstance, FastifyRequest } from 'fastify';
 import { PrismaClient } from '@prisma/client';
-import { UpdateUserDto, UnauthorizedError } from '@group-pay/shared';
+import {
+  UpdateUserDto,
+  UnauthorizedError,
+  calculateUserBalances,
+  computeCounterpartyBalances,
+  computePairwiseBalances,
+  convertShares,
+} from '@group-pay/shared';
 
 const prisma = new PrismaClient();
 
@@ -156,6 +163,7 @@ export default async function userRoutes(fastify: FastifyInstance) {
                     totalOwed: { type: 'number' },
                     totalLent: { type: 'number' },
                     netBalance: { type: 'number' },
+                    inFlight: { type: 'number' },
                     currency: { type: 'string' },
                   },
                 },
@@ -171,16 +179,22 @@ export default async function userRoutes(fastify: FastifyInstance) {
       // Get all groups the user is a member of
       const groups = await prisma.group.findMany({
         where: {
+          deletedAt: null,
           members: {
             some: { userId },
           },
         },
         include: {
           expenses: {
+            where: { deletedAt: null, isDraft: false },
             include: {
-              participants: {
-                where: { userId },
-              },
+              payers: true,
+              participants: true,
+            },
+          },
+          settlements: {
+            where: {
+              OR: [{ fromUserId: userId }, { toUserId: userId }],
             },
           },
         },
@@ -191,33 +205,48 @@ export default async function userRoutes(fastify: FastifyInstance) {
         let totalLent = 0;
 
         group.expenses.forEach((expense) => {
-          if (expense.payerId === userId) {
-            // User paid this expense, calculate how much others owe them
-            totalLent += expense.amountCents;
-            // Subtract their own share
-            const userShare = expense.participants.find(
-              (p) => p.userId === userId
-            );
-            if (userShare) {
-              totalLent -= userShare.shareCents;
-            }
+          // Amounts are converted into the group currency
+          const shares = convertShares(
+            expense.participants.map((p) => p.shareCents),
+            expense.exchangeRate
+          );
+          const userShareIndex = expense.participants.findIndex(
+            (p) => p.userId === userId
+          );
+          const userShare = userShareIndex >= 0 ? shares[userShareIndex] : 0;
+
+          const paid = convertShares(
+            expense.payers.map((p) => p.paidCents),
+            expense.exchangeRate
+          );
+          const userPaidIndex = expense.payers.findIndex(
+            (p) => p.userId === userId
+          );
+          const userPaid = userPaidIndex >= 0 ? paid[userPaidIndex] : 0;
+
+          if (userPaid > userShare) {
+            // User paid more than their share, so others owe them the rest
+            totalLent += userPaid - userShare;
           } else {
-            // User owes money for this expense
-            const userShare = expense.participants.find(
-              (p) => p.userId === userId
-            );
-            if (userShare) {
-              totalOwed += userShare.shareCents;
-            }
+            // User owes whatever of their share they didn't pay themselves
+            totalOwed += userShare - userPaid;
           }
         });
 
+        // Net balance and in-flight amounts account for settlements
+        const userBalance = calculateUserBalances(
+          group.expenses,
+          group.expenses.flatMap((expense) => expense.participants),
+          group.settlements
+        ).find((balance) => balance.userId === userId);
+
         return {
           groupId: group.id,
           groupName: group.name,
           totalOwed,
           totalLent,
-          netBalance: totalLent - totalOwed,
+          netBalance: userBalance?.netBalance ?? 0,
+          inFlight: userBalance?.inFlight ?? 0,
           currency: group.currency,
         };
       });
@@ -226,6 +255,121 @@ export default async function userRoutes(fastify: FastifyInstance) {
     }
   );
 
+  // Get what the user owes or is owed per person across all shared groups
+  fastify.get(
+    '/balances/counterparties',
+    {
+      schema: {
+        tags: ['Users'],
+        summary: 'Get net balances with each person across all groups',
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              counterparties: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    user: {
+                      type: 'object',
+                      properties: {
+                        id: { type: 'string' },
+                        name: { type: 'string' },
+                        photoUrl: { type: 'string', nullable: true },
+                        venmoHandle: { type: 'string', nullable: true },
+                        paypalLink: { type: 'string', nullable: true },
+                      },
+                    },
+                    currency: { type: 'string' },
+                    netBalance: { type: 'number' },
+                    groups: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          groupId: { type: 'string' },
+                          groupName: { type: 'string' },
+                          netBalance: { type: 'number' },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request) => {
+      const userId = requireAuth(request);
+
+      const groups = await prisma.group.findMany({
+        where: {
+          deletedAt: null,
+          members: {
+            some: { userId },
+          },
+        },
+        include: {
+          expenses: {
+            where: { deletedAt: null, isDraft: false },
+            include: {
+              payers: true,
+              participants: true,
+            },
+          },
+          settlements: {
+            where: { status: 'CONFIRMED' },
+          },
+        },
+      });
+
+      // Use unsimplified balances so each debt stays with the person it is owed to
+      const counterparties = computeCounterpartyBalances(
+        userId,
+        groups.map((group) => ({
+          groupId: group.id,
+          currency: group.currency,
+          edges: computePairwiseBalances(
+            group.expenses,
+            group.expenses.flatMap((expense) => expense.participants),
+            group.settlements
+          ),
+        }))
+      );
+
+      const users = await prisma.user.findMany({
+        where: {
+          id: { in: [...new Set(counterparties.map((c) => c.userId))] },
+        },
+        select: {
+          id: true,
+          name: true,
+          photoUrl: true,
+          venmoHandle: true,
+          paypalLink: true,
+        },
+      });
+      const usersById = new Map(users.map((user) => [user.id, user]));
+      const groupNames = new Map(groups.map((group) => [group.id, group.name]));
+
+      return {
+        counterparties: counterparties.map((counterparty) => ({
+          user: usersById.get(counterparty.userId),
+          currency: counterparty.currency,
+          netBalance: counterparty.netBalance,
+          groups: counterparty.groups.map((group) => ({
+            groupId: group.groupId,
+            groupName: groupNames.get(group.groupId),
+            netBalance: group.netBalance,
+          })),
+        })),
+      };
+    }
+  );
+
   // Get current user profile
   fastify.get(
     '/me',
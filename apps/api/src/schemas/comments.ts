@@ -0,0 +1,107 @@
+const comment = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    expenseId: { type: 'string' },
+    authorId: { type: 'string' },
+    body: { type: 'string' },
+    createdAt: { type: 'string' },
+    updatedAt: { type: 'string' },
+    author: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        name: { type: 'string' },
+        photoUrl: { type: 'string', nullable: true },
+      },
+    },
+  },
+} as const;
+
+const commentBody = {
+  type: 'object',
+  properties: {
+    body: { type: 'string', minLength: 1, maxLength: 2000 },
+  },
+  required: ['body'],
+} as const;
+
+const expenseParams = {
+  type: 'object',
+  properties: {
+    expenseId: { type: 'string', format: 'uuid' },
+  },
+  required: ['expenseId'],
+} as const;
+
+const commentParams = {
+  type: 'object',
+  properties: {
+    expenseId: { type: 'string', format: 'uuid' },
+    commentId: { type: 'string', format: 'uuid' },
+  },
+  required: ['expenseId', 'commentId'],
+} as const;
+
+// Expense comment route schemas
+export const commentSchemas = {
+  getComments: {
+    tags: ['Expenses'],
+    summary: 'Get the comment thread for an expense',
+    params: expenseParams,
+    response: {
+      200: {
+        type: 'object',
+        properties: {
+          comments: { type: 'array', items: comment },
+        },
+      },
+    },
+  },
+
+  createComment: {
+    tags: ['Expenses'],
+    summary: 'Comment on an expense',
+    params: expenseParams,
+    body: commentBody,
+    response: {
+      201: {
+        type: 'object',
+        properties: {
+          comment,
+        },
+      },
+    },
+  },
+
+  updateComment: {
+    tags: ['Expenses'],
+    summary: 'Edit a comment',
+    description: 'Only the author can edit a comment.',
+    params: commentParams,
+    body: commentBody,
+    response: {
+      200: {
+        type: 'object',
+        properties: {
+          comment,
+        },
+      },
+    },
+  },
+
+  deleteComment: {
+    tags: ['Expenses'],
+    summary: 'Delete a comment',
+    description: 'The author or a group admin can delete a comment.',
+    params: commentParams,
+    response: {
+      200: {
+        type: 'object',
+        properties: {
+          success: { type: 'boolean' },
+        },
+      },
+    },
+  },
+};
@@ -23,6 +23,8 @@ export const expenseSchemas = {
                 description: { type: 'string' },
                 amountCents: { type: 'number' },
                 currency: { type: 'string' },
+                exchangeRate: { type: 'number' },
+                convertedAmountCents: { type: 'number' },
                 date: { type: 'string' },
                 category: { type: 'string', nullable: true },
                 groupId: { type: 'string' },
@@ -30,6 +32,7 @@ export const expenseSchemas = {
                 notes: { type: 'string', nullable: true },
                 splitType: { type: 'string' },
                 createdAt: { type: 'string' },
+                commentCount: { type: 'number' },
                 payer: {
                   type: 'object',
                   properties: {
@@ -38,6 +41,24 @@ export const expenseSchemas = {
                     photoUrl: { type: 'string', nullable: true },
                   },
                 },
+                payers: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      userId: { type: 'string' },
+                      paidCents: { type: 'number' },
+                      user: {
+                        type: 'object',
+                        properties: {
+                          id: { type: 'string' },
+                          name: { type: 'string' },
+                          photoUrl: { type: 'string', nullable: true },
+                        },
+                      },
+                    },
+                  },
+                },
                 participants: {
                   type: 'array',
                   items: {
@@ -47,6 +68,7 @@ export const expenseSchemas = {
                       expenseId: { type: 'string' },
                       userId: { type: 'string' },
                       shareCents: { type: 'number' },
+                      adjustmentCents: { type: 'number', nullable: true },
                       user: {
                         type: 'object',
                         properties: {
@@ -100,9 +122,28 @@ export const expenseSchemas = {
         category: { type: 'string', maxLength: 50, nullable: true },
         notes: { type: 'string', maxLength: 500, nullable: true },
         payerId: { type: 'string', format: 'uuid' },
+        payers: {
+          type: 'array',
+          minItems: 1,
+          items: {
+            type: 'object',
+            properties: {
+              userId: { type: 'string', format: 'uuid' },
+              paidCents: { type: 'number', minimum: 1 },
+            },
+            required: ['userId', 'paidCents'],
+          },
+        },
         splitType: {
           type: 'string',
-          enum: ['EQUAL', 'PERCENTAGE', 'SHARES', 'EXACT'],
+          enum: [
+            'EQUAL',
+            'PERCENTAGE',
+            'SHARES',
+            'EXACT',
+            'ITEMIZED',
+            'ADJUSTMENT',
+          ],
         },
         participants: {
           type: 'array',
@@ -114,10 +155,28 @@ export const expenseSchemas = {
               shareCents: { type: 'number', minimum: 0 },
               sharePercentage: { type: 'number', minimum: 0, maximum: 100 },
               shareCount: { type: 'number', minimum: 1 },
+              adjustmentCents: { type: 'number' },
             },
             required: ['userId'],
           },
         },
+        items: {
+          type: 'array',
+          minItems: 1,
+          items: {
+            type: 'object',
+            properties: {
+              description: { type: 'string', minLength: 1, maxLength: 200 },
+              amountCents: { type: 'number', minimum: 1 },
+              userIds: {
+                type: 'array',
+                minItems: 1,
+                items: { type: 'string', format: 'uuid' },
+              },
+            },
+            required: ['description', 'amountCents', 'userIds'],
+          },
+        },
       },
       required: [
         'description',
@@ -138,10 +197,80 @@ export const expenseSchemas = {
               description: { type: 'string' },
               amountCents: { type: 'number' },
               currency: { type: 'string' },
+              exchangeRate: { type: 'number' },
+              convertedAmountCents: { type: 'number' },
               date: { type: 'string' },
               category: { type: 'string', nullable: true },
+              splitType: { type: 'string' },
               payer: { type: 'object' },
+              payers: { type: 'array' },
               participants: { type: 'array' },
+              items: { type: 'array' },
+            },
+          },
+        },
+      },
+    },
+  },
+
+  searchExpenses: {
+    tags: ['Expenses'],
+    summary: "Search expenses across the user's groups",
+    description:
+      'Matches every word of q against the description and notes. Results are newest first; pass nextCursor back as cursor for the next page. Facet counts cover all matches, each ignoring its own filter.',
+    querystring: {
+      type: 'object',
+      properties: {
+        q: { type: 'string', maxLength: 200 },
+        groupId: { type: 'string', format: 'uuid' },
+        category: { type: 'string', maxLength: 50 },
+        payerId: { type: 'string', format: 'uuid' },
+        participantId: { type: 'string', format: 'uuid' },
+        dateFrom: { type: 'string', format: 'date' },
+        dateTo: { type: 'string', format: 'date' },
+        minAmountCents: { type: 'number', minimum: 0 },
+        maxAmountCents: { type: 'number', minimum: 0 },
+        cursor: { type: 'string', format: 'uuid' },
+        limit: { type: 'number', minimum: 1, maximum: 100 },
+      },
+    },
+    response: {
+      200: {
+        type: 'object',
+        properties: {
+          expenses: { type: 'array' },
+          nextCursor: { type: 'string', nullable: true },
+          total: { type: 'number' },
+          facets: {
+            type: 'object',
+            properties: {
+              categories: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    category: { type: 'string', nullable: true },
+                    count: { type: 'number' },
+                  },
+                },
+              },
+              payers: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    user: {
+                      type: 'object',
+                      properties: {
+                        id: { type: 'string' },
+                        name: { type: 'string' },
+                        photoUrl: { type: 'string', nullable: true },
+                      },
+                    },
+                    count: { type: 'number' },
+                  },
+                },
+              },
             },
           },
         },
@@ -199,19 +328,62 @@ export const expenseSchemas = {
         category: { type: 'string', maxLength: 50, nullable: true },
         notes: { type: 'string', maxLength: 500, nullable: true },
         payerId: { type: 'string', format: 'uuid' },
-        splitType: { type: 'string', enum: ['EQUAL', 'SHARES', 'EXACT'] },
+        payers: {
+          type: 'array',
+          minItems: 1,
+          items: {
+            type: 'object',
+            properties: {
+              userId: { type: 'string', format: 'uuid' },
+              paidCents: { type: 'number', minimum: 1 },
+            },
+            required: ['userId', 'paidCents'],
+          },
+        },
+        splitType: {
+          type: 'string',
+          enum: [
+            'EQUAL',
+            'PERCENTAGE',
+            'SHARES',
+            'EXACT',
+            'ITEMIZED',
+            'ADJUSTMENT',
+          ],
+        },
         participants: {
           type: 'array',
+          minItems: 1,
           items: {
             type: 'object',
             properties: {
               userId: { type: 'string', format: 'uuid' },
               shareCents: { type: 'number', minimum: 0 },
+              sharePercentage: { type: 'number', minimum: 0, maximum: 100 },
+              shareCount: { type: 'number', minimum: 1 },
+              adjustmentCents: { type: 'number' },
             },
             required: ['userId'],
             additionalProperties: false,
           },
         },
+        items: {
+          type: 'array',
+          minItems: 1,
+          items: {
+            type: 'object',
+            properties: {
+              description: { type: 'string', minLength: 1, maxLength: 200 },
+              amountCents: { type: 'number', minimum: 1 },
+              userIds: {
+                type: 'array',
+                minItems: 1,
+                items: { type: 'string', format: 'uuid' },
+              },
+            },
+            required: ['description', 'amountCents', 'userIds'],
+          },
+        },
       },
     },
   },
@@ -219,6 +391,74 @@ export const expenseSchemas = {
   deleteExpense: {
     tags: ['Expenses'],
     summary: 'Delete expense',
+    description:
+      'Moves the expense to the recently deleted list, where it can be restored for 30 days.',
+    params: {
+      type: 'object',
+      properties: {
+        expenseId: { type: 'string', format: 'uuid' },
+      },
+      required: ['expenseId'],
+    },
+  },
+
+  getDeletedGroupExpenses: {
+    tags: ['Expenses'],
+    summary: 'Get recently deleted expenses for a group',
+    description:
+      'Group owners and admins only. Deleted expenses can be restored until they are purged.',
+    params: {
+      type: 'object',
+      properties: {
+        groupId: { type: 'string', format: 'uuid' },
+      },
+      required: ['groupId'],
+    },
+  },
+
+  getDraftGroupExpenses: {
+    tags: ['Expenses'],
+    summary: 'Get draft expenses waiting for review in a group',
+    description:
+      'Drafts are created from scanned receipts and left out of balances until a member confirms them.',
+    params: {
+      type: 'object',
+      properties: {
+        groupId: { type: 'string', format: 'uuid' },
+      },
+      required: ['groupId'],
+    },
+  },
+
+  confirmExpense: {
+    tags: ['Expenses'],
+    summary: 'Confirm a draft expense so it counts towards balances',
+    params: {
+      type: 'object',
+      properties: {
+        expenseId: { type: 'string', format: 'uuid' },
+      },
+      required: ['expenseId'],
+    },
+  },
+
+  restoreExpense: {
+    tags: ['Expenses'],
+    summary: 'Restore a deleted expense',
+    params: {
+      type: 'object',
+      properties: {
+        expenseId: { type: 'string', format: 'uuid' },
+      },
+      required: ['expenseId'],
+    },
+  },
+
+  getExpenseHistory: {
+    tags: ['Expenses'],
+    summary: 'Get the edit history of an expense',
+    description:
+      'Every create, update and delete, oldest first. Still available after the expense is deleted.',
     params: {
       type: 'object',
       properties: {
@@ -21,9 +21,16 @@ export const receiptSchemas = {
               id: { type: 'string' },
               expenseId: { type: 'string' },
               fileUrl: { type: 'string' },
+              thumbnailUrl: { type: 'string', nullable: true },
               mimeType: { type: 'string' },
               filename: { type: 'string', nullable: true },
               fileSize: { type: 'number', nullable: true },
+              ocrStatus: { type: 'string' },
+              ocrData: {
+                type: 'object',
+                nullable: true,
+                additionalProperties: true,
+              },
               createdAt: { type: 'string' },
             },
           },
@@ -32,6 +39,21 @@ export const receiptSchemas = {
     },
   },
 
+  createDraftFromReceipt: {
+    tags: ['Receipts'],
+    summary: 'Scan a receipt into a draft expense',
+    description:
+      'Creates a draft expense prefilled from the receipt, split equally between all members. Drafts are left out of balances until confirmed.',
+    params: {
+      type: 'object',
+      properties: {
+        groupId: { type: 'string', format: 'uuid' },
+      },
+      required: ['groupId'],
+    },
+    consumes: ['multipart/form-data'],
+  },
+
   getReceipts: {
     tags: ['Receipts'],
     summary: 'Get all receipts for an expense',
@@ -54,9 +76,16 @@ export const receiptSchemas = {
                 id: { type: 'string' },
                 expenseId: { type: 'string' },
                 fileUrl: { type: 'string' },
+                thumbnailUrl: { type: 'string', nullable: true },
                 mimeType: { type: 'string' },
                 filename: { type: 'string', nullable: true },
                 fileSize: { type: 'number', nullable: true },
+                ocrStatus: { type: 'string' },
+                ocrData: {
+                  type: 'object',
+                  nullable: true,
+                  additionalProperties: true,
+                },
                 createdAt: { type: 'string' },
               },
             },
@@ -98,4 +127,3 @@ export const receiptSchemas = {
     },
   },
 } as const;
-
@@ -0,0 +1,213 @@
+const userSummary = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    photoUrl: { type: 'string', nullable: true },
+  },
+} as const;
+
+const recurringExpense = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    groupId: { type: 'string' },
+    createdById: { type: 'string' },
+    payerId: { type: 'string' },
+    description: { type: 'string' },
+    amountCents: { type: 'number' },
+    currency: { type: 'string' },
+    category: { type: 'string', nullable: true },
+    notes: { type: 'string', nullable: true },
+    splitType: { type: 'string' },
+    cadence: { type: 'string' },
+    interval: { type: 'number' },
+    startDate: { type: 'string' },
+    endDate: { type: 'string', nullable: true },
+    nextRunAt: { type: 'string' },
+    lastRunAt: { type: 'string', nullable: true },
+    isActive: { type: 'boolean' },
+    createdAt: { type: 'string' },
+    payer: userSummary,
+    participants: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          userId: { type: 'string' },
+          shareCents: { type: 'number', nullable: true },
+          sharePercentage: { type: 'number', nullable: true },
+          shareCount: { type: 'number', nullable: true },
+          adjustmentCents: { type: 'number', nullable: true },
+          user: userSummary,
+        },
+      },
+    },
+  },
+} as const;
+
+const participantsBody = {
+  type: 'array',
+  minItems: 1,
+  items: {
+    type: 'object',
+    properties: {
+      userId: { type: 'string', format: 'uuid' },
+      shareCents: { type: 'number', minimum: 0 },
+      sharePercentage: { type: 'number', minimum: 0, maximum: 100 },
+      shareCount: { type: 'number', minimum: 1 },
+      adjustmentCents: { type: 'number' },
+    },
+    required: ['userId'],
+  },
+} as const;
+
+const splitTypeBody = {
+  type: 'string',
+  enum: ['EQUAL', 'PERCENTAGE', 'SHARES', 'EXACT', 'ADJUSTMENT'],
+} as const;
+
+const cadenceBody = {
+  type: 'string',
+  enum: ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'],
+} as const;
+
+const groupParams = {
+  type: 'object',
+  properties: {
+    groupId: { type: 'string', format: 'uuid' },
+  },
+  required: ['groupId'],
+} as const;
+
+const recurringParams = {
+  type: 'object',
+  properties: {
+    groupId: { type: 'string', format: 'uuid' },
+    recurringId: { type: 'string', format: 'uuid' },
+  },
+  required: ['groupId', 'recurringId'],
+} as const;
+
+// Recurring expense route schemas
+export const recurringSchemas = {
+  getRecurringExpenses: {
+    tags: ['Recurring Expenses'],
+    summary: 'Get all recurring expenses for a group',
+    params: groupParams,
+    response: {
+      200: {
+        type: 'object',
+        properties: {
+          recurringExpenses: { type: 'array', items: recurringExpense },
+        },
+      },
+    },
+  },
+
+  createRecurringExpense: {
+    tags: ['Recurring Expenses'],
+    summary: 'Create a recurring expense',
+    params: groupParams,
+    body: {
+      type: 'object',
+      properties: {
+        description: { type: 'string', minLength: 1, maxLength: 200 },
+        amountCents: { type: 'number', minimum: 1 },
+        currency: {
+          type: 'string',
+          minLength: 3,
+          maxLength: 3,
+          default: 'USD',
+        },
+        category: { type: 'string', maxLength: 50, nullable: true },
+        notes: { type: 'string', maxLength: 500, nullable: true },
+        payerId: { type: 'string', format: 'uuid' },
+        splitType: splitTypeBody,
+        participants: participantsBody,
+        cadence: cadenceBody,
+        interval: { type: 'number', minimum: 1, maximum: 365, default: 1 },
+        startDate: { type: 'string', format: 'date-time' },
+        endDate: { type: 'string', format: 'date-time', nullable: true },
+      },
+      required: [
+        'description',
+        'amountCents',
+        'payerId',
+        'splitType',
+        'participants',
+        'cadence',
+        'startDate',
+      ],
+    },
+    response: {
+      201: {
+        type: 'object',
+        properties: {
+          recurringExpense,
+        },
+      },
+    },
+  },
+
+  getRecurringExpense: {
+    tags: ['Recurring Expenses'],
+    summary: 'Get a recurring expense by ID',
+    params: recurringParams,
+    response: {
+      200: {
+        type: 'object',
+        properties: {
+          recurringExpense,
+        },
+      },
+    },
+  },
+
+  updateRecurringExpense: {
+    tags: ['Recurring Expenses'],
+    summary: 'Update a recurring expense',
+    params: recurringParams,
+    body: {
+      type: 'object',
+      properties: {
+        description: { type: 'string', minLength: 1, maxLength: 200 },
+        amountCents: { type: 'number', minimum: 1 },
+        category: { type: 'string', maxLength: 50, nullable: true },
+        notes: { type: 'string', maxLength: 500, nullable: true },
+        payerId: { type: 'string', format: 'uuid' },
+        splitType: splitTypeBody,
+        participants: participantsBody,
+        cadence: cadenceBody,
+        interval: { type: 'number', minimum: 1, maximum: 365 },
+        startDate: { type: 'string', format: 'date-time' },
+        endDate: { type: 'string', format: 'date-time', nullable: true },
+        isActive: { type: 'boolean' },
+      },
+    },
+    response: {
+      200: {
+        type: 'object',
+        properties: {
+          recurringExpense,
+        },
+      },
+    },
+  },
+
+  deleteRecurringExpense: {
+    tags: ['Recurring Expenses'],
+    summary: 'Delete a recurring expense',
+    description: 'Stops future occurrences. Expenses already created are kept.',
+    params: recurringParams,
+    response: {
+      200: {
+        type: 'object',
+        properties: {
+          success: { type: 'boolean' },
+        },
+      },
+    },
+  },
+};
@@ -0,0 +1,122 @@
+import { test, expect, afterEach } from 'vitest';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { ValidationError } from '@group-pay/shared';
+import type { ReceiptImageProcessor } from '../../lib/images.js';
+import {
+  storeReceiptFile,
+  deleteReceiptFiles,
+  type StoredReceiptFile,
+} from '../receiptFiles.js';
+
+const stored: StoredReceiptFile[] = [];
+
+// Stands in for ImageMagick: "processing" tags the bytes so the tests can
+// tell which version ended up in storage
+function fakeProcessor(
+  overrides: Partial<ReceiptImageProcessor> = {}
+): ReceiptImageProcessor {
+  return {
+    normalize: async (file) => ({
+      file: Buffer.concat([Buffer.from('upright:'), file]),
+      mimeType: 'image/jpeg',
+    }),
+    thumbnail: async (file) => ({
+      file: Buffer.concat([Buffer.from('thumbnail:'), file]),
+      mimeType: 'image/jpeg',
+    }),
+    ...overrides,
+  };
+}
+
+async function store(
+  filename: string,
+  mimeType: string,
+  processor: ReceiptImageProcessor
+) {
+  const result = await storeReceiptFile(
+    Buffer.from('photo'),
+    filename,
+    mimeType,
+    { processor }
+  );
+  stored.push(result);
+  return result;
+}
+
+function readStored(fileUrl: string) {
+  return fs.readFile(
+    path.resolve(
+      process.env.UPLOAD_DEST || 'uploads/receipts',
+      path.basename(fileUrl)
+    )
+  );
+}
+
+afterEach(async () => {
+  await Promise.all(stored.splice(0).map(deleteReceiptFiles));
+});
+
+test('storeReceiptFile - should store the processed image and a thumbnail', async () => {
+  const result = await store('receipt.jpg', 'image/jpeg', fakeProcessor());
+
+  expect(result).toMatchObject({
+    mimeType: 'image/jpeg',
+    filename: 'receipt.jpg',
+    fileSize: 'upright:photo'.length,
+  });
+  expect((await readStored(result.fileUrl)).toString()).toBe('upright:photo');
+  expect(result.thumbnailUrl).toMatch(/^receipts\/.+\.jpg$/);
+  expect((await readStored(result.thumbnailUrl!)).toString()).toBe(
+    'thumbnail:upright:photo'
+  );
+});
+
+test('storeReceiptFile - should convert HEIC photos to JPEG', async () => {
+  const result = await store('IMG_0042.HEIC', 'image/heic', fakeProcessor());
+
+  expect(result.mimeType).toBe('image/jpeg');
+  expect(result.filename).toBe('IMG_0042.jpg');
+  expect(result.fileUrl).toMatch(/\.jpg$/);
+});
+
+test('storeReceiptFile - should reject HEIC photos that cannot be converted', async () => {
+  const processor = fakeProcessor({ normalize: async () => null });
+
+  await expect(
+    store('IMG_0042.HEIC', 'image/heic', processor)
+  ).rejects.toBeInstanceOf(ValidationError);
+});
+
+test('storeReceiptFile - should store files the processor skips as uploaded', async () => {
+  const processor = fakeProcessor({ normalize: async () => null });
+  const result = await store('receipt.pdf', 'application/pdf', processor);
+
+  expect(result.mimeType).toBe('application/pdf');
+  expect(result.thumbnailUrl).toBeNull();
+  expect((await readStored(result.fileUrl)).toString()).toBe('photo');
+});
+
+test('storeReceiptFile - should reject images that cannot be read', async () => {
+  const processor = fakeProcessor({
+    normalize: async () => {
+      throw new Error('magick exited with code 1');
+    },
+  });
+
+  await expect(
+    store('receipt.jpg', 'image/jpeg', processor)
+  ).rejects.toBeInstanceOf(ValidationError);
+});
+
+test('storeReceiptFile - should keep the receipt when the thumbnail fails', async () => {
+  const processor = fakeProcessor({
+    thumbnail: async () => {
+      throw new Error('magick exited with code 1');
+    },
+  });
+  const result = await store('receipt.png', 'image/png', processor);
+
+  expect(result.thumbnailUrl).toBeNull();
+  expect((await readStored(result.fileUrl)).toString()).toBe('upright:photo');
+});
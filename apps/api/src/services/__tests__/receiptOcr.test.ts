@@ -0,0 +1,125 @@
+import { test, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { prisma } from '../../lib/prisma.js';
+import type { ReceiptRecognizer } from '../../lib/ocr.js';
+import { processReceiptOcr } from '../receiptOcr.js';
+
+let receiptId: string;
+
+const receiptText = `
+  CORNER BISTRO
+  2025-03-14
+  Pasta        14.00
+  Salad         9.50
+  Subtotal     23.50
+  Tax           2.00
+  Total        25.50
+`;
+
+function fakeRecognizer(
+  recognize: ReceiptRecognizer['recognize']
+): ReceiptRecognizer {
+  return { recognize };
+}
+
+beforeAll(async () => {
+  await prisma.$connect();
+});
+
+afterAll(async () => {
+  await prisma.$disconnect();
+});
+
+beforeEach(async () => {
+  // Clean up database before each test
+  await prisma.expense.deleteMany();
+  await prisma.groupMember.deleteMany();
+  await prisma.group.deleteMany();
+  await prisma.user.deleteMany();
+
+  const user = await prisma.user.create({
+    data: { email: 'test@example.com', passwordHash: 'hash', name: 'Test' },
+  });
+  const group = await prisma.group.create({
+    data: {
+      ownerId: user.id,
+      name: 'Dinner club',
+      currency: 'USD',
+      members: { create: [{ userId: user.id, role: 'OWNER' }] },
+    },
+  });
+  const expense = await prisma.expense.create({
+    data: {
+      groupId: group.id,
+      payerId: user.id,
+      description: 'Dinner',
+      amountCents: 2550,
+      currency: 'USD',
+      payers: { create: [{ userId: user.id, paidCents: 2550 }] },
+    },
+  });
+  const receipt = await prisma.receipt.create({
+    data: {
+      expenseId: expense.id,
+      fileUrl: 'receipts/test.jpg',
+      mimeType: 'image/jpeg',
+    },
+  });
+  receiptId = receipt.id;
+});
+
+test('processReceiptOcr - should store the parsed receipt', async () => {
+  await processReceiptOcr(receiptId, Buffer.from('image'), 'image/jpeg', {
+    recognizer: fakeRecognizer(async () => receiptText),
+  });
+
+  const receipt = await prisma.receipt.findUniqueOrThrow({
+    where: { id: receiptId },
+  });
+  expect(receipt.ocrStatus).toBe('COMPLETED');
+  expect(receipt.ocrProcessedAt).not.toBeNull();
+  expect(receipt.ocrData).toMatchObject({
+    merchantName: 'CORNER BISTRO',
+    totalAmount: 2550,
+    date: '2025-03-14T00:00:00.000Z',
+    items: [
+      { description: 'Pasta', amount: 1400 },
+      { description: 'Salad', amount: 950 },
+    ],
+    confidence: 1,
+  });
+});
+
+test('processReceiptOcr - should skip files the recognizer cannot read', async () => {
+  await processReceiptOcr(receiptId, Buffer.from('%PDF'), 'application/pdf', {
+    recognizer: fakeRecognizer(async () => null),
+  });
+
+  const receipt = await prisma.receipt.findUniqueOrThrow({
+    where: { id: receiptId },
+  });
+  expect(receipt.ocrStatus).toBe('SKIPPED');
+  expect(receipt.ocrData).toBeNull();
+});
+
+test('processReceiptOcr - should mark the receipt failed when OCR throws', async () => {
+  await processReceiptOcr(receiptId, Buffer.from('image'), 'image/jpeg', {
+    recognizer: fakeRecognizer(async () => {
+      throw new Error('tesseract not found');
+    }),
+  });
+
+  const receipt = await prisma.receipt.findUniqueOrThrow({
+    where: { id: receiptId },
+  });
+  expect(receipt.ocrStatus).toBe('FAILED');
+});
+
+test('processReceiptOcr - should not fail when the receipt was deleted', async () => {
+  await prisma.receipt.delete({ where: { id: receiptId } });
+
+  await expect(
+    processReceiptOcr(receiptId, Buffer.from('image'), 'image/jpeg', {
+      recognizer: fakeRecognizer(async () => receiptText),
+    })
+  ).resolves.toBeUndefined();
+});
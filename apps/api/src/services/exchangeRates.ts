@@ -0,0 +1,73 @@
+import { prisma } from '../lib/prisma.js';
+import { ValidationError, type ExchangeRatesFile } from '@group-pay/shared';
+
+/**
+ * Find the rate to convert one unit of `from` into `to` as of a given time.
+ * Uses the most recent rate in either direction that was in effect then.
+ */
+export async function getExchangeRate(
+  from: string,
+  to: string,
+  at: Date = new Date()
+): Promise<number> {
+  const base = from.toUpperCase();
+  const quote = to.toUpperCase();
+
+  if (base === quote) {
+    return 1;
+  }
+
+  const [direct, inverse] = await Promise.all([
+    prisma.exchangeRate.findFirst({
+      where: {
+        baseCurrency: base,
+        quoteCurrency: quote,
+        effectiveAt: { lte: at },
+      },
+      orderBy: { effectiveAt: 'desc' },
+    }),
+    prisma.exchangeRate.findFirst({
+      where: {
+        baseCurrency: quote,
+        quoteCurrency: base,
+        effectiveAt: { lte: at },
+      },
+      orderBy: { effectiveAt: 'desc' },
+    }),
+  ]);
+
+  // Prefer whichever rate was published most recently
+  if (direct && (!inverse || direct.effectiveAt >= inverse.effectiveAt)) {
+    return direct.rate;
+  }
+
+  if (inverse) {
+    return 1 / inverse.rate;
+  }
+
+  throw new ValidationError(
+    `No exchange rate available from ${base} to ${quote}`
+  );
+}
+
+/**
+ * Import every rate from a rates file, all effective at the file's date
+ */
+export async function importExchangeRates(file: ExchangeRatesFile) {
+  const baseCurrency = file.base.toUpperCase();
+  const effectiveAt = file.date ?? new Date();
+
+  const rates = Object.entries(file.rates)
+    .map(([quoteCurrency, rate]) => ({
+      baseCurrency,
+      quoteCurrency: quoteCurrency.toUpperCase(),
+      rate,
+      source: 'IMPORT' as const,
+      effectiveAt,
+    }))
+    .filter((rate) => rate.quoteCurrency !== baseCurrency);
+
+  const { count } = await prisma.exchangeRate.createMany({ data: rates });
+
+  return { imported: count, baseCurrency, effectiveAt };
+}
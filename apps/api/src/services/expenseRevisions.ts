@@ -0,0 +1,57 @@
+import type {
+  Expense,
+  ExpenseItem,
+  ExpenseParticipant,
+  ExpensePayer,
+  ExpenseRevisionAction,
+  Prisma,
+} from '@prisma/client';
+import { diffExpenseSnapshots, toExpenseSnapshot } from '@group-pay/shared';
+
+export type TrackedExpense = Expense & {
+  payers: ExpensePayer[];
+  participants: ExpenseParticipant[];
+  items: ExpenseItem[];
+};
+
+/**
+ * Append a revision for an expense being created (before is null), updated
+ * or deleted (after is null). Run it in the same transaction as the change so
+ * the history can't miss one. Updates that didn't change anything tracked
+ * aren't recorded. Restoring a deleted expense or confirming a draft passes
+ * its action explicitly.
+ */
+export async function recordExpenseRevision(
+  tx: Prisma.TransactionClient,
+  actorId: string,
+  before: TrackedExpense | null,
+  after: TrackedExpense | null,
+  action: ExpenseRevisionAction = !before
+    ? 'CREATE'
+    : !after
+      ? 'DELETE'
+      : 'UPDATE'
+) {
+  const expense = after ?? before;
+  if (!expense) {
+    return;
+  }
+
+  const changes = diffExpenseSnapshots(
+    before && toExpenseSnapshot(before),
+    after && toExpenseSnapshot(after)
+  );
+  if (action === 'UPDATE' && Object.keys(changes).length === 0) {
+    return;
+  }
+
+  await tx.expenseRevision.create({
+    data: {
+      expenseId: expense.id,
+      groupId: expense.groupId,
+      actorId,
+      action,
+      changes: changes as Prisma.InputJsonObject,
+    },
+  });
+}
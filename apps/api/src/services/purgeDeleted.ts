@@ -0,0 +1,92 @@
+import type { FastifyBaseLogger } from 'fastify';
+import { getPurgeCutoff } from '@group-pay/shared';
+import { prisma } from '../lib/prisma.js';
+import { deleteReceiptFiles } from './receiptFiles.js';
+
+export interface PurgeSchedulerOptions {
+  intervalMs?: number;
+  now?: () => Date; // Tests pass a fake clock here
+  logger?: FastifyBaseLogger;
+}
+
+/**
+ * Permanently remove expenses and groups that were deleted more than 30 days
+ * ago, along with their receipt files. Deleting a group cascades to its
+ * expenses, settlements and receipts. Returns how many of each were purged.
+ */
+export async function purgeDeletedRecords(
+  now: Date,
+  logger?: FastifyBaseLogger
+): Promise<{ expenses: number; groups: number }> {
+  const cutoff = getPurgeCutoff(now);
+  const expired = { deletedAt: { lt: cutoff } };
+
+  // Find the files first, the rows pointing at them are about to go
+  const receipts = await prisma.receipt.findMany({
+    where: {
+      expense: {
+        OR: [expired, { group: expired }],
+      },
+    },
+    select: { fileUrl: true, thumbnailUrl: true },
+  });
+
+  const [expenses, groups] = await prisma.$transaction([
+    prisma.expense.deleteMany({ where: expired }),
+    prisma.group.deleteMany({ where: expired }),
+  ]);
+
+  for (const receipt of receipts) {
+    try {
+      await deleteReceiptFiles(receipt);
+    } catch (error) {
+      // An orphaned file is better than stopping the purge
+      logger?.warn(
+        { err: error, fileUrl: receipt.fileUrl },
+        'Failed to delete purged receipt file'
+      );
+    }
+  }
+
+  return { expenses: expenses.count, groups: groups.count };
+}
+
+/**
+ * Run the purge on an interval in this process
+ */
+export function startPurgeScheduler(options: PurgeSchedulerOptions = {}) {
+  const {
+    intervalMs = 60 * 60 * 1000,
+    now = () => new Date(),
+    logger,
+  } = options;
+  let running: Promise<unknown> | null = null;
+
+  const tick = () => {
+    // A slow run keeps going rather than overlapping with the next tick
+    if (!running) {
+      running = purgeDeletedRecords(now(), logger)
+        .then((purged) => {
+          if (purged.expenses > 0 || purged.groups > 0) {
+            logger?.info(purged, 'Purged deleted expenses and groups');
+          }
+        })
+        .catch((error) => {
+          logger?.error({ err: error }, 'Purging deleted records failed');
+        })
+        .finally(() => {
+          running = null;
+        });
+    }
+    return running;
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  timer.unref();
+  void tick();
+
+  return {
+    tick,
+    stop: () => clearInterval(timer),
+  };
+}
@@ -0,0 +1,109 @@
+import type { FastifyBaseLogger } from 'fastify';
+import path from 'path';
+import { ValidationError } from '@group-pay/shared';
+import {
+  receiptImageProcessor,
+  type ReceiptImageProcessor,
+} from '../lib/images.js';
+import { storageService } from '../lib/storage.js';
+
+export interface StoreReceiptFileOptions {
+  processor?: ReceiptImageProcessor; // Tests pass a fake processor here
+  logger?: FastifyBaseLogger;
+}
+
+export interface StoredReceiptFile {
+  file: Buffer; // What was stored, after processing
+  fileUrl: string;
+  thumbnailUrl: string | null;
+  mimeType: string;
+  filename: string;
+  fileSize: number;
+}
+
+const HEIC_TYPES = ['image/heic', 'image/heif'];
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+};
+
+/**
+ * Process an uploaded receipt and put it in storage along with a thumbnail.
+ * Photos are turned upright and lose their metadata, including location,
+ * before anything is stored.
+ */
+export async function storeReceiptFile(
+  file: Buffer,
+  filename: string,
+  mimeType: string,
+  options: StoreReceiptFileOptions = {}
+): Promise<StoredReceiptFile> {
+  const { processor = receiptImageProcessor, logger } = options;
+
+  let image;
+  try {
+    image = await processor.normalize(file, mimeType);
+  } catch (error) {
+    logger?.warn({ err: error }, 'Receipt image processing failed');
+    throw new ValidationError('The image could not be read');
+  }
+
+  // Browsers can't show HEIC, so it is only accepted when it can be converted
+  if (!image && HEIC_TYPES.includes(mimeType)) {
+    throw new ValidationError('HEIC photos are not supported on this server');
+  }
+
+  const stored = image ?? { file, mimeType };
+  const storedFilename =
+    stored.mimeType === mimeType
+      ? filename
+      : `${path.parse(filename).name}${EXTENSIONS[stored.mimeType] ?? ''}`;
+
+  const fileUrl = await storageService.upload(
+    stored.file,
+    storedFilename,
+    stored.mimeType
+  );
+
+  // The receipt is still usable without a thumbnail
+  let thumbnailUrl: string | null = null;
+  if (image) {
+    try {
+      const thumbnail = await processor.thumbnail(image.file, image.mimeType);
+      if (thumbnail) {
+        thumbnailUrl = await storageService.upload(
+          thumbnail.file,
+          `thumbnail${EXTENSIONS[thumbnail.mimeType] ?? ''}`,
+          thumbnail.mimeType
+        );
+      }
+    } catch (error) {
+      logger?.warn({ err: error }, 'Receipt thumbnail could not be made');
+    }
+  }
+
+  return {
+    file: stored.file,
+    fileUrl,
+    thumbnailUrl,
+    mimeType: stored.mimeType,
+    filename: storedFilename,
+    fileSize: stored.file.length,
+  };
+}
+
+/**
+ * Remove a receipt's files from storage
+ */
+export async function deleteReceiptFiles(receipt: {
+  fileUrl: string;
+  thumbnailUrl: string | null;
+}): Promise<void> {
+  await storageService.delete(receipt.fileUrl);
+  if (receipt.thumbnailUrl) {
+    await storageService.delete(receipt.thumbnailUrl);
+  }
+}
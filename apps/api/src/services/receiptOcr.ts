@@ -0,0 +1,99 @@
+import type { FastifyBaseLogger } from 'fastify';
+import type { Prisma, ReceiptOcrStatus } from '@prisma/client';
+import { parseReceiptText, type ParsedReceiptData } from '@group-pay/shared';
+import { prisma } from '../lib/prisma.js';
+import { receiptRecognizer, type ReceiptRecognizer } from '../lib/ocr.js';
+
+export interface ReceiptOcrOptions {
+  recognizer?: ReceiptRecognizer; // Tests pass a fake recognizer here
+  logger?: FastifyBaseLogger;
+}
+
+export interface ReceiptOcrResult {
+  ocrStatus: Extract<ReceiptOcrStatus, 'COMPLETED' | 'FAILED' | 'SKIPPED'>;
+  parsed: ParsedReceiptData | null;
+}
+
+/**
+ * Run a receipt file through the recognizer and parse the text. Failures are
+ * logged and reported as a status rather than thrown.
+ */
+export async function readReceipt(
+  file: Buffer,
+  mimeType: string,
+  options: ReceiptOcrOptions = {}
+): Promise<ReceiptOcrResult> {
+  const { recognizer = receiptRecognizer, logger } = options;
+
+  try {
+    const text = await recognizer.recognize(file, mimeType);
+
+    if (text === null) {
+      return { ocrStatus: 'SKIPPED', parsed: null };
+    }
+
+    return { ocrStatus: 'COMPLETED', parsed: parseReceiptText(text) };
+  } catch (error) {
+    logger?.warn({ err: error }, 'Receipt OCR failed');
+    return { ocrStatus: 'FAILED', parsed: null };
+  }
+}
+
+/**
+ * Turn an OCR result into the Receipt columns that store it
+ */
+export function toReceiptOcrData({ ocrStatus, parsed }: ReceiptOcrResult) {
+  return {
+    ocrStatus,
+    ocrData: parsed
+      ? { ...parsed, date: parsed.date?.toISOString() }
+      : undefined,
+    ocrProcessedAt: new Date(),
+  } satisfies Prisma.ReceiptUpdateInput;
+}
+
+/**
+ * Read a receipt's text and store what could be parsed from it on the row.
+ * The receipt may be deleted while this runs, so updates go through
+ * updateMany and quietly match nothing.
+ */
+export async function processReceiptOcr(
+  receiptId: string,
+  file: Buffer,
+  mimeType: string,
+  options: ReceiptOcrOptions = {}
+): Promise<void> {
+  await prisma.receipt.updateMany({
+    where: { id: receiptId },
+    data: { ocrStatus: 'PROCESSING' },
+  });
+
+  const result = await readReceipt(file, mimeType, {
+    ...options,
+    logger: options.logger?.child({ receiptId }),
+  });
+
+  await prisma.receipt.updateMany({
+    where: { id: receiptId },
+    data: toReceiptOcrData(result),
+  });
+}
+
+/**
+ * Run OCR in the background so the upload response doesn't wait for it
+ */
+export function queueReceiptOcr(
+  receiptId: string,
+  file: Buffer,
+  mimeType: string,
+  options: ReceiptOcrOptions = {}
+): void {
+  setImmediate(() => {
+    processReceiptOcr(receiptId, file, mimeType, options).catch((error) => {
+      options.logger?.error(
+        { err: error, receiptId },
+        'Receipt OCR could not be recorded'
+      );
+    });
+  });
+}
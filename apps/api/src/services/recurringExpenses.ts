@@ -0,0 +1,206 @@
+import type { FastifyBaseLogger } from 'fastify';
+import { randomUUID } from 'crypto';
+import type {
+  RecurringExpense,
+  RecurringExpenseParticipant,
+} from '@prisma/client';
+import {
+  calculateSplit,
+  getDueOccurrences,
+  getNextOccurrence,
+  type CreateExpenseParticipantDto,
+} from '@group-pay/shared';
+import { prisma } from '../lib/prisma.js';
+import { getExchangeRate } from './exchangeRates.js';
+import { recordExpenseRevision } from './expenseRevisions.js';
+
+type RecurringTemplate = RecurringExpense & {
+  participants: RecurringExpenseParticipant[];
+  group: { currency: string };
+};
+
+export interface RecurringSchedulerOptions {
+  intervalMs?: number;
+  now?: () => Date; // Tests pass a fake clock here
+  logger?: FastifyBaseLogger;
+}
+
+/**
+ * Turn stored template participants back into split engine input
+ */
+export function toSplitParticipants(
+  participants: RecurringExpenseParticipant[]
+): CreateExpenseParticipantDto[] {
+  return participants.map((participant) => ({
+    userId: participant.userId,
+    shareCents: participant.shareCents ?? undefined,
+    sharePercentage: participant.sharePercentage ?? undefined,
+    shareCount: participant.shareCount ?? undefined,
+    adjustmentCents: participant.adjustmentCents ?? undefined,
+  }));
+}
+
+// Create the expense for one occurrence and move the template on to the
+// next one. The occurrence is claimed with a guarded update in the same
+// transaction, so a second run racing on the same template creates nothing.
+async function createOccurrence(
+  template: RecurringTemplate,
+  occurrence: Date
+): Promise<boolean> {
+  const expenseId = randomUUID();
+  const shares = calculateSplit(
+    template.amountCents,
+    template.splitType,
+    toSplitParticipants(template.participants),
+    [],
+    expenseId
+  );
+  const exchangeRate = await getExchangeRate(
+    template.currency,
+    template.group.currency,
+    occurrence
+  );
+  const nextRunAt = getNextOccurrence(template, occurrence);
+  const adjustments = new Map(
+    template.participants.map((p) => [p.userId, p.adjustmentCents])
+  );
+
+  return prisma.$transaction(async (tx) => {
+    const { count } = await tx.recurringExpense.updateMany({
+      where: { id: template.id, isActive: true, nextRunAt: occurrence },
+      data: {
+        nextRunAt,
+        lastRunAt: occurrence,
+        isActive: !template.endDate || nextRunAt <= template.endDate,
+      },
+    });
+
+    if (count === 0) {
+      return false;
+    }
+
+    // The template may have been moved back onto a date it already ran for
+    const existing = await tx.expense.findFirst({
+      where: { recurringExpenseId: template.id, recurrenceDate: occurrence },
+      select: { id: true },
+    });
+
+    if (existing) {
+      return false;
+    }
+
+    const expense = await tx.expense.create({
+      data: {
+        id: expenseId,
+        groupId: template.groupId,
+        payerId: template.payerId,
+        description: template.description,
+        amountCents: template.amountCents,
+        currency: template.currency,
+        exchangeRate,
+        date: occurrence,
+        category: template.category,
+        notes: template.notes,
+        splitType: template.splitType,
+        recurringExpenseId: template.id,
+        recurrenceDate: occurrence,
+        payers: {
+          create: { userId: template.payerId, paidCents: template.amountCents },
+        },
+        participants: {
+          create: shares.map((share) => ({
+            userId: share.userId,
+            shareCents: share.shareCents,
+            adjustmentCents:
+              template.splitType === 'ADJUSTMENT'
+                ? (adjustments.get(share.userId) ?? 0)
+                : null,
+          })),
+        },
+      },
+      include: { payers: true, participants: true, items: true },
+    });
+
+    // Scheduled expenses are put down to whoever set up the template
+    await recordExpenseRevision(tx, template.createdById, null, expense);
+
+    return true;
+  });
+}
+
+/**
+ * Create expenses for every recurring template that has come due, catching
+ * up on any occurrences missed while the scheduler wasn't running.
+ * Returns the number of expenses created.
+ */
+export async function runDueRecurringExpenses(
+  now: Date,
+  logger?: FastifyBaseLogger
+): Promise<number> {
+  const templates = await prisma.recurringExpense.findMany({
+    where: {
+      isActive: true,
+      nextRunAt: { lte: now },
+      group: { deletedAt: null }, // Picks up again if the group is restored
+    },
+    include: {
+      participants: true,
+      group: { select: { currency: true } },
+    },
+  });
+
+  let created = 0;
+  for (const template of templates) {
+    try {
+      const due = getDueOccurrences(template, template.nextRunAt, now);
+      for (const occurrence of due) {
+        if (!(await createOccurrence(template, occurrence))) {
+          break;
+        }
+        created++;
+      }
+    } catch (error) {
+      // One broken template shouldn't hold up the rest
+      logger?.error(
+        { err: error, recurringExpenseId: template.id },
+        'Failed to create recurring expense'
+      );
+    }
+  }
+
+  return created;
+}
+
+/**
+ * Run the recurring expense check on an interval in this process
+ */
+export function startRecurringScheduler(
+  options: RecurringSchedulerOptions = {}
+) {
+  const { intervalMs = 60_000, now = () => new Date(), logger } = options;
+  let running: Promise<number> | null = null;
+
+  const tick = () => {
+    // A slow run keeps going rather than overlapping with the next tick
+    if (!running) {
+      running = runDueRecurringExpenses(now(), logger)
+        .catch((error) => {
+          logger?.error({ err: error }, 'Recurring expense run failed');
+          return 0;
+        })
+        .finally(() => {
+          running = null;
+        });
+    }
+    return running;
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  timer.unref();
+  void tick();
+
+  return {
+    tick,
+    stop: () => clearInterval(timer),
+  };
+}
@@ -0,0 +1,95 @@
+import type { Prisma } from '@prisma/client';
+import {
+  ValidationError,
+  convertCents,
+  splitAmongPayers,
+} from '@group-pay/shared';
+
+type AllocatedExpense = Parameters<typeof splitAmongPayers>[0];
+
+/**
+ * Lock expense rows until the transaction ends. Recording a settlement
+ * against an expense and changing its shares both take this lock before
+ * checking allocations, so neither can slip in between the other's check
+ * and write.
+ */
+export async function lockExpenses(
+  tx: Prisma.TransactionClient,
+  expenseIds: string[]
+): Promise<void> {
+  if (expenseIds.length === 0) return;
+
+  await tx.$queryRaw`
+    SELECT "id" FROM "Expense"
+    WHERE "id" = ANY(${expenseIds}::uuid[])
+    ORDER BY "id"
+    FOR UPDATE
+  `;
+}
+
+/**
+ * The part of a participant's share that is owed to one of the expense's
+ * payers, in the group currency
+ */
+export function shareOwedTo(
+  expense: AllocatedExpense,
+  shareCents: number,
+  payerId: string
+): number {
+  return (
+    splitAmongPayers(
+      expense,
+      convertCents(shareCents, expense.exchangeRate)
+    ).find((payer) => payer.userId === payerId)?.amountCents ?? 0
+  );
+}
+
+/**
+ * Check that settlements which were not rejected don't pay back more of an
+ * expense than its current split leaves owed between each pair of people.
+ * Call with the expense locked.
+ */
+export async function assertAllocationsFit(
+  tx: Prisma.TransactionClient,
+  expenseId: string
+): Promise<void> {
+  const expense = await tx.expense.findUniqueOrThrow({
+    where: { id: expenseId },
+    include: {
+      payers: true,
+      participants: true,
+      allocations: {
+        where: { settlement: { status: { not: 'REJECTED' } } },
+        include: {
+          settlement: { select: { fromUserId: true, toUserId: true } },
+        },
+      },
+    },
+  });
+
+  // Allocated cents per participant and payer
+  const allocated = new Map<
+    string,
+    { from: string; to: string; cents: number }
+  >();
+  for (const allocation of expense.allocations) {
+    const { fromUserId: from, toUserId: to } = allocation.settlement;
+    const key = `${from}:${to}`;
+    const entry = allocated.get(key) ?? { from, to, cents: 0 };
+    entry.cents += allocation.amountCents;
+    allocated.set(key, entry);
+  }
+
+  for (const { from, to, cents } of allocated.values()) {
+    const participant = expense.participants.find((p) => p.userId === from);
+    const owedCents = participant
+      ? shareOwedTo(expense, participant.shareCents, to)
+      : 0;
+
+    if (cents > owedCents) {
+      throw new ValidationError(
+        `Settlements would pay back ${cents / 100} of "${expense.description}", more than the ${owedCents / 100} owed`
+      );
+    }
+  }
+}
@@ -24,3 +24,18 @@ export function calculateTokenExpiration(hours: number = 24): Date {
   return expirationDate;
 }
 
+// Excludes look-alike characters (0/O, 1/I/L) so codes can be read aloud
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+/**
+ * Generate a short, human-friendly group invite code
+ * @param length Number of characters in the code (default: 10)
+ */
+export function generateInviteCode(length: number = 10): string {
+  let code = '';
+  for (let i = 0; i < length; i++) {
+    // randomInt is uniform, unlike a byte taken modulo the alphabet size
+    code += INVITE_CODE_ALPHABET[crypto.randomInt(INVITE_CODE_ALPHABET.length)];
+  }
+  return code;
+}
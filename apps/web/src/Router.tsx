@@ -1,4 +1,4 @@
-import { Routes, Route, Navigate } from 'react-router-dom';
+import { Routes, Route, Navigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { AppShell } from '@/components/Layout/AppShell';
 import { Dashboard } from '@/pages/Dashboard';
@@ -9,6 +9,7 @@ import { Settings } from '@/pages/Settings';
 import { Login } from '@/pages/Login';
 import { Landing } from '@/pages/Landing';
 import { VerifyEmail } from '@/pages/VerifyEmail';
+import { JoinGroup } from '@/pages/JoinGroup';
 
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
   const { isAuthenticated, isLoading } = useAuth();
@@ -30,6 +31,14 @@ function ProtectedRoute({ children }: { children: React.ReactNode }) {
 
 export function Router() {
   const { isAuthenticated } = useAuth();
+  const [searchParams] = useSearchParams();
+
+  // Only follow same-origin paths after login (e.g. back to an invite link)
+  const redirect = searchParams.get('redirect');
+  const postLoginPath =
+    redirect?.startsWith('/') && !redirect.startsWith('//')
+      ? redirect
+      : '/dashboard';
 
   return (
     <Routes>
@@ -42,10 +51,11 @@ export function Router() {
       <Route
         path="/login"
         element={
-          isAuthenticated ? <Navigate to="/dashboard" replace /> : <Login />
+          isAuthenticated ? <Navigate to={postLoginPath} replace /> : <Login />
         }
       />
       <Route path="/verify-email" element={<VerifyEmail />} />
+      <Route path="/join/:code" element={<JoinGroup />} />
       <Route
         path="/dashboard"
         element={
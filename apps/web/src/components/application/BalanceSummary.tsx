@@ -41,11 +41,17 @@ export function BalanceSummary() {
     );
   }
 
-  // Calculate overall net balance
-  const overallNetBalance = balances.reduce(
-    (sum, balance) => sum + balance.netBalance,
-    0
-  );
+  // Total per currency - balances in different currencies can't be summed
+  const totals = new Map<string, { netBalance: number; inFlight: number }>();
+  for (const balance of balances) {
+    const total = totals.get(balance.currency) ?? {
+      netBalance: 0,
+      inFlight: 0,
+    };
+    total.netBalance += balance.netBalance;
+    total.inFlight += balance.inFlight;
+    totals.set(balance.currency, total);
+  }
 
   // Determine color based on balance
   const getBalanceColor = (balance: number) => {
@@ -54,9 +60,6 @@ export function BalanceSummary() {
     return 'text-neutral-600 dark:text-neutral-400';
   };
 
-  // Use currency from first balance (assuming all groups use same currency for now)
-  const currency = balances[0]?.currency || 'USD';
-
   return (
     <div className="bg-white dark:bg-neutral-800 rounded-lg border border-neutral-200 dark:border-neutral-700 p-6">
       <h3 className="text-lg font-semibold text-neutral-900 dark:text-neutral-50 mb-4">
@@ -64,32 +67,42 @@ export function BalanceSummary() {
       </h3>
 
       {/* Overall Net Balance */}
-      <div className="mb-6 pb-6 border-b border-neutral-200 dark:border-neutral-700">
-        <div className="flex items-baseline justify-between">
-          <span className="text-sm text-neutral-600 dark:text-neutral-400">
-            Net Balance (All Groups)
-          </span>
-          <span
-            className={`text-2xl font-bold ${getBalanceColor(overallNetBalance)}`}
-          >
-            {formatCurrency(overallNetBalance, currency)}
-          </span>
-        </div>
-        {overallNetBalance > 0 && (
-          <p className="text-xs text-neutral-500 dark:text-neutral-400 mt-1">
-            You are owed money
-          </p>
-        )}
-        {overallNetBalance < 0 && (
-          <p className="text-xs text-neutral-500 dark:text-neutral-400 mt-1">
-            You owe money
-          </p>
-        )}
-        {overallNetBalance === 0 && (
-          <p className="text-xs text-neutral-500 dark:text-neutral-400 mt-1">
-            All settled up
-          </p>
-        )}
+      <div className="mb-6 pb-6 border-b border-neutral-200 dark:border-neutral-700 space-y-4">
+        {[...totals].map(([currency, { netBalance, inFlight }]) => (
+          <div key={currency}>
+            <div className="flex items-baseline justify-between">
+              <span className="text-sm text-neutral-600 dark:text-neutral-400">
+                Net Balance (All Groups{totals.size > 1 ? `, ${currency}` : ''})
+              </span>
+              <span
+                className={`text-2xl font-bold ${getBalanceColor(netBalance)}`}
+              >
+                {formatCurrency(netBalance, currency)}
+              </span>
+            </div>
+            {netBalance > 0 && (
+              <p className="text-xs text-neutral-500 dark:text-neutral-400 mt-1">
+                You are owed money
+              </p>
+            )}
+            {netBalance < 0 && (
+              <p className="text-xs text-neutral-500 dark:text-neutral-400 mt-1">
+                You owe money
+              </p>
+            )}
+            {netBalance === 0 && (
+              <p className="text-xs text-neutral-500 dark:text-neutral-400 mt-1">
+                All settled up
+              </p>
+            )}
+            {inFlight !== 0 && (
+              <p className="text-xs text-amber-600 dark:text-amber-500 mt-1">
+                {formatCurrency(Math.abs(inFlight), currency)} in flight{' '}
+                {inFlight > 0 ? 'to you' : 'from you'}, awaiting confirmation
+              </p>
+            )}
+          </div>
+        ))}
       </div>
 
       {/* Breakdown by Group */}
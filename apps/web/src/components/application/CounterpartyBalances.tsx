@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useCounterpartyBalances } from '@/services/dashboard';
+import type { CounterpartyBalance } from '@/services/dashboard';
+import { formatCurrency } from '@/utils';
+import { LoadingSpinner } from './LoadingSpinner';
+import { EmptyState } from './EmptyState';
+
+function describeBalance(counterparty: CounterpartyBalance) {
+  const amount = formatCurrency(
+    Math.abs(counterparty.netBalance),
+    counterparty.currency
+  );
+  const groupCount = counterparty.groups.length;
+  const across = groupCount > 1 ? ` across ${groupCount} groups` : '';
+
+  return counterparty.netBalance < 0
+    ? `You owe ${counterparty.user.name} ${amount}${across}`
+    : `${counterparty.user.name} owes you ${amount}${across}`;
+}
+
+export function CounterpartyBalances() {
+  const { data: counterparties, isLoading, error } = useCounterpartyBalances();
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+
+  if (isLoading) {
+    return (
+      <div className="bg-white dark:bg-neutral-800 rounded-lg border border-neutral-200 dark:border-neutral-700 p-6">
+        <div className="flex items-center justify-center h-32">
+          <LoadingSpinner size="lg" />
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-white dark:bg-neutral-800 rounded-lg border border-neutral-200 dark:border-neutral-700 p-6">
+        <p className="text-neutral-600 dark:text-neutral-400">
+          Unable to load balances by person.
+        </p>
+      </div>
+    );
+  }
+
+  // Amounts in different currencies are never added together
+  const currencies = [
+    ...new Set((counterparties ?? []).map((c) => c.currency)),
+  ];
+
+  return (
+    <div className="bg-white dark:bg-neutral-800 rounded-lg border border-neutral-200 dark:border-neutral-700 p-6">
+      <h3 className="text-lg font-semibold text-neutral-900 dark:text-neutral-50 mb-4">
+        Balances by Person
+      </h3>
+
+      {!counterparties || counterparties.length === 0 ? (
+        <EmptyState
+          icon="🤝"
+          title="You're all square"
+          description="Nobody owes you and you don't owe anyone."
+        />
+      ) : (
+        <div className="space-y-4">
+          {currencies.map((currency) => (
+            <div key={currency} className="space-y-2">
+              {currencies.length > 1 && (
+                <h4 className="text-sm font-semibold text-neutral-700 dark:text-neutral-300">
+                  {currency}
+                </h4>
+              )}
+              {counterparties
+                .filter((c) => c.currency === currency)
+                .map((counterparty) => {
+                  const key = `${counterparty.user.id}-${counterparty.currency}`;
+                  const isExpanded = expandedKey === key;
+
+                  return (
+                    <div
+                      key={key}
+                      className="border border-neutral-200 dark:border-neutral-600 rounded-lg"
+                    >
+                      <button
+                        type="button"
+                        onClick={() => setExpandedKey(isExpanded ? null : key)}
+                        className="w-full flex items-center justify-between p-3 text-left hover:bg-neutral-50 dark:hover:bg-neutral-700 rounded-lg transition-colors"
+                      >
+                        <span
+                          className={`text-sm font-medium ${
+                            counterparty.netBalance < 0
+                              ? 'text-red-600 dark:text-red-500'
+                              : 'text-green-600 dark:text-green-500'
+                          }`}
+                        >
+                          {describeBalance(counterparty)}
+                        </span>
+                        <span className="text-xs text-neutral-500 dark:text-neutral-400">
+                          {isExpanded ? '▲' : '▼'}
+                        </span>
+                      </button>
+
+                      {isExpanded && (
+                        <div className="px-3 pb-3 space-y-1">
+                          {counterparty.groups.map((group) => (
+                            <Link
+                              key={group.groupId}
+                              to={`/groups/${group.groupId}`}
+                              className="flex items-center justify-between px-2 py-1 text-sm rounded hover:bg-neutral-50 dark:hover:bg-neutral-700"
+                            >
+                              <span className="text-neutral-700 dark:text-neutral-300">
+                                {group.groupName}
+                              </span>
+                              <span className="text-neutral-900 dark:text-neutral-50">
+                                {formatCurrency(
+                                  group.netBalance,
+                                  counterparty.currency
+                                )}
+                              </span>
+                            </Link>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { Button } from '@/components/base/buttons/button';
+import {
+  useDraftExpenses,
+  useDeleteExpense,
+  type DraftExpense,
+} from '@/services/expenses';
+import { formatCurrency } from '@/utils/currency';
+import { formatRelativeDate } from '@/utils';
+
+interface DraftExpensesProps {
+  groupId: string;
+  onReview: (expense: DraftExpense) => void;
+  className?: string;
+}
+
+export function DraftExpenses({
+  groupId,
+  onReview,
+  className,
+}: DraftExpensesProps) {
+  const { data } = useDraftExpenses(groupId);
+  const deleteMutation = useDeleteExpense();
+
+  const expenses = data?.expenses || [];
+
+  const handleDiscard = async (expenseId: string) => {
+    try {
+      await deleteMutation.mutateAsync(expenseId);
+    } catch (error) {
+      console.error('Failed to discard draft:', error);
+    }
+  };
+
+  if (expenses.length === 0) return null;
+
+  return (
+    <div
+      className={`p-4 border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 rounded-lg ${className ?? ''}`}
+    >
+      <h4 className="font-medium text-neutral-900 dark:text-neutral-50 mb-2">
+        Drafts to review
+      </h4>
+      <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-3">
+        Scanned receipts don't count towards balances until they're confirmed.
+      </p>
+
+      <ul className="divide-y divide-amber-200 dark:divide-amber-800">
+        {expenses.map((expense) => (
+          <li
+            key={expense.id}
+            className="flex items-center justify-between gap-3 py-2"
+          >
+            <div className="min-w-0">
+              <div className="text-sm font-medium text-neutral-900 dark:text-neutral-50 truncate">
+                {expense.description}
+              </div>
+              <div className="text-xs text-neutral-500 dark:text-neutral-400">
+                {formatCurrency(expense.amountCents, expense.currency)} scanned
+                by {expense.payer.name} ·{' '}
+                {formatRelativeDate(expense.createdAt)}
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                color="tertiary"
+                size="sm"
+                onClick={() => handleDiscard(expense.id)}
+                isDisabled={deleteMutation.isPending}
+              >
+                Discard
+              </Button>
+              <Button
+                color="secondary"
+                size="sm"
+                onClick={() => onReview(expense)}
+              >
+                Review
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+import { useState } from 'react';
+import { Button } from '@/components/base/buttons/button';
+import { TextArea } from '@/components/base/textarea/textarea';
+import { Avatar } from '@/components/base/avatar/avatar';
+import { getInitials } from '@/components/base/avatar/utils';
+import { useAuth } from '@/hooks/useAuth';
+import { formatRelativeDate } from '@/utils';
+import {
+  useComments,
+  useCreateComment,
+  useUpdateComment,
+  useDeleteComment,
+  type ExpenseCommentWithAuthor,
+} from '@/services/comments';
+
+interface ExpenseCommentsProps {
+  expenseId: string;
+  canModerate?: boolean; // Group admins can delete anyone's comment
+  className?: string;
+}
+
+export function ExpenseComments({
+  expenseId,
+  canModerate = false,
+  className,
+}: ExpenseCommentsProps) {
+  const { user } = useAuth();
+  const { data, isLoading } = useComments(expenseId);
+  const createMutation = useCreateComment();
+  const updateMutation = useUpdateComment();
+  const deleteMutation = useDeleteComment();
+
+  const [draft, setDraft] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const comments = data?.comments || [];
+
+  const handleAdd = async () => {
+    if (!draft.trim()) return;
+    setError(null);
+    try {
+      await createMutation.mutateAsync({ expenseId, body: draft.trim() });
+      setDraft('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add comment');
+    }
+  };
+
+  const startEditing = (comment: ExpenseCommentWithAuthor) => {
+    setEditingId(comment.id);
+    setEditDraft(comment.body);
+    setError(null);
+  };
+
+  const handleSave = async (commentId: string) => {
+    if (!editDraft.trim()) return;
+    setError(null);
+    try {
+      await updateMutation.mutateAsync({
+        expenseId,
+        commentId,
+        body: editDraft.trim(),
+      });
+      setEditingId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update comment');
+    }
+  };
+
+  const handleDelete = async (commentId: string) => {
+    if (!confirm('Delete this comment?')) return;
+    setError(null);
+    try {
+      await deleteMutation.mutateAsync({ expenseId, commentId });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete comment');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className={`${className} p-4 text-center text-neutral-500`}>
+        Loading comments...
+      </div>
+    );
+  }
+
+  return (
+    <div className={className}>
+      {comments.length === 0 ? (
+        <div className="text-center py-8 text-neutral-500 dark:text-neutral-400">
+          <p className="text-sm">No comments yet</p>
+          <p className="text-xs mt-1">Start the conversation below</p>
+        </div>
+      ) : (
+        <ul className="space-y-4 mb-4">
+          {comments.map((comment) => {
+            const isAuthor = comment.authorId === user?.id;
+            const isEdited = comment.updatedAt !== comment.createdAt;
+
+            return (
+              <li key={comment.id} className="flex gap-3">
+                <Avatar
+                  size="sm"
+                  src={comment.author.photoUrl ?? undefined}
+                  alt={comment.author.name}
+                  initials={getInitials(comment.author.name)}
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-baseline gap-2">
+                    <span className="text-sm font-medium text-neutral-900 dark:text-white">
+                      {comment.author.name}
+                    </span>
+                    <span className="text-xs text-neutral-500 dark:text-neutral-400">
+                      {formatRelativeDate(comment.createdAt)}
+                      {isEdited && ' (edited)'}
+                    </span>
+                  </div>
+
+                  {editingId === comment.id ? (
+                    <div className="mt-1 space-y-2">
+                      <TextArea
+                        aria-label="Edit comment"
+                        value={editDraft}
+                        onChange={setEditDraft}
+                        rows={2}
+                      />
+                      <div className="flex gap-2">
+                        <Button
+                          type="button"
+                          size="sm"
+                          color="primary"
+                          onClick={() => handleSave(comment.id)}
+                          isLoading={updateMutation.isPending}
+                          isDisabled={!editDraft.trim()}
+                        >
+                          Save
+                        </Button>
+                        <Button
+                          type="button"
+                          size="sm"
+                          color="tertiary"
+                          onClick={() => setEditingId(null)}
+                        >
+                          Cancel
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <p className="mt-1 text-sm text-neutral-700 dark:text-neutral-300 whitespace-pre-wrap break-words">
+                      {comment.body}
+                    </p>
+                  )}
+
+                  {editingId !== comment.id && (isAuthor || canModerate) && (
+                    <div className="mt-1 flex gap-3">
+                      {isAuthor && (
+                        <Button
+                          type="button"
+                          size="sm"
+                          color="link-gray"
+                          onClick={() => startEditing(comment)}
+                        >
+                          Edit
+                        </Button>
+                      )}
+                      <Button
+                        type="button"
+                        size="sm"
+                        color="link-gray"
+                        onClick={() => handleDelete(comment.id)}
+                        isDisabled={deleteMutation.isPending}
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {error && (
+        <p className="mb-2 text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      <div className="space-y-2">
+        <TextArea
+          aria-label="Add a comment"
+          placeholder="Add a comment..."
+          value={draft}
+          onChange={setDraft}
+          rows={2}
+        />
+        <div className="flex justify-end">
+          <Button
+            type="button"
+            size="sm"
+            color="primary"
+            onClick={handleAdd}
+            isLoading={createMutation.isPending}
+            isDisabled={!draft.trim()}
+          >
+            Comment
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { Button } from '@/components/base/buttons/button';
+import {
+  useGroupInvites,
+  useCreateInvite,
+  useCancelInvite,
+  getInviteUrl,
+} from '@/services/invites';
+import { formatDate } from '@/utils';
+import { LoadingSpinner } from './LoadingSpinner';
+
+interface InviteLinksProps {
+  groupId: string;
+}
+
+export function InviteLinks({ groupId }: InviteLinksProps) {
+  const { data: invites = [], isLoading } = useGroupInvites(groupId);
+  const createInviteMutation = useCreateInvite();
+  const cancelInviteMutation = useCancelInvite();
+  const [copiedCode, setCopiedCode] = useState<string | null>(null);
+
+  const handleCopy = async (code: string) => {
+    try {
+      await navigator.clipboard.writeText(getInviteUrl(code));
+      setCopiedCode(code);
+      setTimeout(() => setCopiedCode(null), 2000);
+    } catch (error) {
+      console.error('Failed to copy invite link:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <div>
+          <h4 className="font-medium text-neutral-900 dark:text-neutral-50">
+            Invite Links
+          </h4>
+          <p className="text-sm text-neutral-600 dark:text-neutral-400">
+            Anyone with a link can join this group until it expires or is used.
+          </p>
+        </div>
+        <Button
+          color="secondary"
+          size="sm"
+          isLoading={createInviteMutation.isPending}
+          onClick={() => createInviteMutation.mutate({ groupId })}
+        >
+          Create Link
+        </Button>
+      </div>
+
+      {createInviteMutation.error && (
+        <p className="text-sm text-red-600 dark:text-red-400">
+          {createInviteMutation.error instanceof Error
+            ? createInviteMutation.error.message
+            : 'Failed to create invite link. Please try again.'}
+        </p>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <LoadingSpinner size="md" />
+        </div>
+      ) : (
+        invites.map((invite) => (
+          <div
+            key={invite.id}
+            className="flex items-center justify-between p-3 border border-dashed border-neutral-300 dark:border-neutral-600 rounded-lg"
+          >
+            <div className="min-w-0">
+              <div className="font-mono text-sm text-neutral-900 dark:text-neutral-50 truncate">
+                {getInviteUrl(invite.code)}
+              </div>
+              <div className="text-xs text-neutral-500 dark:text-neutral-400">
+                Created by {invite.creator.name} • Expires{' '}
+                {formatDate(invite.expiresAt, 'MMM D, YYYY')}
+              </div>
+            </div>
+            <div className="flex items-center gap-2 ml-3">
+              <Button
+                color="tertiary"
+                size="sm"
+                onClick={() => handleCopy(invite.code)}
+              >
+                {copiedCode === invite.code ? 'Copied!' : 'Copy'}
+              </Button>
+              <Button
+                color="tertiary-destructive"
+                size="sm"
+                isDisabled={cancelInviteMutation.isPending}
+                onClick={() =>
+                  cancelInviteMutation.mutate({
+                    groupId,
+                    inviteId: invite.id,
+                  })
+                }
+              >
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+import { calculateItemizedSplit } from '@group-pay/shared';
+import { Button } from '@/components/base/buttons/button';
+import { Input, InputBase } from '@/components/base/input/input';
+import { InputGroup } from '@/components/base/input/input-group';
+import { formatCurrency } from '@/utils/currency';
+
+// A line item while it is being edited; amount is kept as typed
+export interface EditableLineItem {
+  key: string;
+  description: string;
+  amount: string;
+  userIds: string[];
+}
+
+interface ItemizedSplitEditorProps {
+  items: EditableLineItem[];
+  onChange: (items: EditableLineItem[]) => void;
+  members: Array<{
+    user: {
+      id: string;
+      name: string;
+    };
+  }>;
+  currency: string;
+  totalCents: number;
+}
+
+function toItemCents(amount: string): number {
+  const value = parseFloat(amount);
+  return isNaN(value) ? 0 : Math.round(value * 100);
+}
+
+function createLineItem(userIds: string[] = []): EditableLineItem {
+  return {
+    key: crypto.randomUUID(),
+    description: '',
+    amount: '',
+    userIds,
+  };
+}
+
+export function ItemizedSplitEditor({
+  items,
+  onChange,
+  members,
+  currency,
+  totalCents,
+}: ItemizedSplitEditorProps) {
+  const updateItem = (key: string, changes: Partial<EditableLineItem>) => {
+    onChange(
+      items.map((item) => (item.key === key ? { ...item, ...changes } : item))
+    );
+  };
+
+  const toggleUser = (item: EditableLineItem, userId: string) => {
+    updateItem(item.key, {
+      userIds: item.userIds.includes(userId)
+        ? item.userIds.filter((id) => id !== userId)
+        : [...item.userIds, userId],
+    });
+  };
+
+  const subtotalCents = items.reduce(
+    (sum, item) => sum + toItemCents(item.amount),
+    0
+  );
+  const extraCents = totalCents - subtotalCents;
+
+  // Preview each person's share once every item is complete
+  const completeItems = items.filter(
+    (item) => toItemCents(item.amount) > 0 && item.userIds.length > 0
+  );
+  const preview =
+    completeItems.length === items.length && items.length > 0 && extraCents >= 0
+      ? calculateItemizedSplit(
+          totalCents,
+          completeItems.map((item) => ({
+            description: item.description,
+            amountCents: toItemCents(item.amount),
+            userIds: item.userIds,
+          }))
+        )
+      : [];
+
+  return (
+    <div className="space-y-3">
+      {items.map((item) => (
+        <div
+          key={item.key}
+          className="p-3 space-y-2 border border-neutral-200 dark:border-neutral-600 rounded-lg"
+        >
+          <div className="flex items-center gap-2">
+            <div className="flex-1">
+              <Input
+                size="sm"
+                aria-label="Item description"
+                placeholder="Item"
+                value={item.description}
+                onChange={(description: string) =>
+                  updateItem(item.key, { description })
+                }
+              />
+            </div>
+            <div className="w-36">
+              <InputGroup
+                size="sm"
+                leadingAddon={
+                  <InputGroup.Prefix size="sm">{currency}</InputGroup.Prefix>
+                }
+                inputMode="decimal"
+                aria-label="Item price"
+                value={item.amount}
+                onChange={(amount: string) => updateItem(item.key, { amount })}
+              >
+                <InputBase type="number" placeholder="0.00" size="sm" />
+              </InputGroup>
+            </div>
+            <Button
+              type="button"
+              color="tertiary-destructive"
+              size="sm"
+              onClick={() =>
+                onChange(items.filter((other) => other.key !== item.key))
+              }
+            >
+              Remove
+            </Button>
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {members.map((member) => (
+              <Button
+                key={member.user.id}
+                type="button"
+                size="sm"
+                color={
+                  item.userIds.includes(member.user.id) ? 'primary' : 'tertiary'
+                }
+                onClick={() => toggleUser(item, member.user.id)}
+              >
+                {member.user.name}
+              </Button>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        color="secondary"
+        size="sm"
+        onClick={() =>
+          onChange([
+            ...items,
+            createLineItem(members.map((member) => member.user.id)),
+          ])
+        }
+      >
+        Add item
+      </Button>
+
+      <div className="pt-3 space-y-1 text-sm border-t border-neutral-200 dark:border-neutral-700">
+        <div className="flex justify-between text-neutral-600 dark:text-neutral-400">
+          <span>Items subtotal</span>
+          <span>{formatCurrency(subtotalCents, currency)}</span>
+        </div>
+        <div
+          className={`flex justify-between ${
+            extraCents < 0
+              ? 'text-red-600 dark:text-red-400'
+              : 'text-neutral-600 dark:text-neutral-400'
+          }`}
+        >
+          <span>Tax & tip (split by subtotal)</span>
+          <span>{formatCurrency(extraCents, currency)}</span>
+        </div>
+        {extraCents < 0 && (
+          <p className="text-xs text-red-600 dark:text-red-400">
+            Items add up to more than the expense amount.
+          </p>
+        )}
+        {preview.map((share) => (
+          <div
+            key={share.userId}
+            className="flex justify-between font-medium text-neutral-900 dark:text-neutral-50"
+          >
+            <span>
+              {members.find((member) => member.user.id === share.userId)?.user
+                .name ?? 'Unknown'}
+            </span>
+            <span>{formatCurrency(share.shareCents, currency)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { InputBase } from '@/components/base/input/input';
+import { InputGroup } from '@/components/base/input/input-group';
+import { formatCurrency } from '@/utils/currency';
+
+interface PayersEditorProps {
+  amounts: Record<string, string>; // userId -> amount paid, as typed
+  onChange: (amounts: Record<string, string>) => void;
+  members: Array<{
+    user: {
+      id: string;
+      name: string;
+    };
+  }>;
+  currency: string;
+  totalCents: number;
+}
+
+function toPaidCents(amount = ''): number {
+  const value = parseFloat(amount);
+  return isNaN(value) ? 0 : Math.round(value * 100);
+}
+
+export function PayersEditor({
+  amounts,
+  onChange,
+  members,
+  currency,
+  totalCents,
+}: PayersEditorProps) {
+  const paidCents = members.reduce(
+    (sum, member) => sum + toPaidCents(amounts[member.user.id]),
+    0
+  );
+  const remainingCents = totalCents - paidCents;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center">
+        <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300">
+          Who paid how much?
+        </label>
+        {totalCents > 0 && (
+          <span
+            className={`text-sm ${
+              remainingCents === 0
+                ? 'text-neutral-600 dark:text-neutral-400'
+                : 'text-red-600 dark:text-red-400'
+            }`}
+          >
+            {formatCurrency(paidCents, currency)} /{' '}
+            {formatCurrency(totalCents, currency)}
+          </span>
+        )}
+      </div>
+
+      {members.map((member) => (
+        <div key={member.user.id} className="flex items-center gap-3">
+          <span className="flex-1 text-sm text-neutral-900 dark:text-neutral-50">
+            {member.user.name}
+          </span>
+          <div className="w-36">
+            <InputGroup
+              size="sm"
+              leadingAddon={
+                <InputGroup.Prefix size="sm">{currency}</InputGroup.Prefix>
+              }
+              inputMode="decimal"
+              aria-label={`Amount ${member.user.name} paid`}
+              value={amounts[member.user.id] ?? ''}
+              onChange={(amount: string) =>
+                onChange({ ...amounts, [member.user.id]: amount })
+              }
+            >
+              <InputBase type="number" placeholder="0.00" size="sm" />
+            </InputGroup>
+          </div>
+        </div>
+      ))}
+
+      {totalCents > 0 && remainingCents !== 0 && (
+        <p className="text-xs text-red-600 dark:text-red-400">
+          {remainingCents > 0
+            ? `${formatCurrency(remainingCents, currency)} still to assign`
+            : `${formatCurrency(-remainingCents, currency)} more than the total`}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import type { Receipt } from '@group-pay/shared';
 interface ReceiptDisplayProps {
   receipt: Receipt;
   onDelete?: (receiptId: string) => void;
+  onUseScan?: (receipt: Receipt) => void; // Fill the expense from the scan
   showActions?: boolean;
   className?: string;
 }
@@ -13,18 +14,24 @@ interface ReceiptDisplayProps {
 export function ReceiptDisplay({
   receipt,
   onDelete,
+  onUseScan,
   showActions = true,
   className,
 }: ReceiptDisplayProps) {
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [imageError, setImageError] = useState(false);
 
+  const scan = receipt.ocrStatus === 'COMPLETED' ? receipt.ocrData : null;
   const isImage = receipt.mimeType.startsWith('image/');
   const isPdf = receipt.mimeType === 'application/pdf';
   const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
-  const fileUrl = receipt.fileUrl.startsWith('http')
-    ? receipt.fileUrl
-    : `${API_BASE_URL}${receipt.fileUrl}`;
+  const toAbsoluteUrl = (url: string) =>
+    url.startsWith('http') ? url : `${API_BASE_URL}${url}`;
+  const fileUrl = toAbsoluteUrl(receipt.fileUrl);
+  // The preview only needs the small version; the full image opens on click
+  const previewUrl = receipt.thumbnailUrl
+    ? toAbsoluteUrl(receipt.thumbnailUrl)
+    : fileUrl;
 
   const handleDownload = () => {
     const link = document.createElement('a');
@@ -57,8 +64,9 @@ export function ReceiptDisplay({
           <div className="relative aspect-video bg-neutral-100 dark:bg-neutral-900 flex items-center justify-center">
             {isImage && !imageError ? (
               <img
-                src={fileUrl}
+                src={previewUrl}
                 alt={receipt.filename || 'Receipt'}
+                loading="lazy"
                 className="w-full h-full object-contain"
                 onError={() => setImageError(true)}
               />
@@ -124,6 +132,28 @@ export function ReceiptDisplay({
                 {formatFileSize(receipt.fileSize)}
               </p>
             )}
+            {['PENDING', 'PROCESSING'].includes(receipt.ocrStatus) && (
+              <p className="text-xs text-neutral-500 dark:text-neutral-400">
+                Reading receipt...
+              </p>
+            )}
+            {scan?.totalAmount !== undefined && (
+              <div className="mt-1 flex items-center justify-between gap-2">
+                <p className="text-xs text-neutral-600 dark:text-neutral-300 truncate">
+                  {scan.merchantName ? `${scan.merchantName} · ` : ''}
+                  {(scan.totalAmount / 100).toFixed(2)}
+                </p>
+                {onUseScan && (
+                  <Button
+                    size="sm"
+                    color="link-gray"
+                    onClick={() => onUseScan(receipt)}
+                  >
+                    Use details
+                  </Button>
+                )}
+              </div>
+            )}
           </div>
         </div>
       </div>
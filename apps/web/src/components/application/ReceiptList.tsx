@@ -7,6 +7,7 @@ interface ReceiptListProps {
   expenseId: string;
   canUpload?: boolean;
   canDelete?: boolean;
+  onUseScan?: (receipt: Receipt) => void;
   className?: string;
 }
 
@@ -14,6 +15,7 @@ export function ReceiptList({
   expenseId,
   canUpload = true,
   canDelete = true,
+  onUseScan,
   className,
 }: ReceiptListProps) {
   const { data, isLoading, refetch } = useReceipts(expenseId);
@@ -69,6 +71,7 @@ export function ReceiptList({
               key={receipt.id}
               receipt={receipt}
               onDelete={canDelete ? handleDelete : undefined}
+              onUseScan={onUseScan}
               showActions={canDelete}
             />
           ))}
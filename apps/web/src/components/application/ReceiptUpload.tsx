@@ -121,7 +121,7 @@ export function ReceiptUpload({
         <input
           ref={fileInputRef}
           type="file"
-          accept="image/jpeg,image/png,image/gif,image/webp,application/pdf"
+          accept="image/jpeg,image/png,image/gif,image/webp,image/heic,image/heif,application/pdf"
           onChange={handleChange}
           className="hidden"
           disabled={uploadMutation.isPending}
@@ -145,7 +145,7 @@ export function ReceiptUpload({
           </p>
 
           <p className="text-xs text-neutral-400 dark:text-neutral-500 mb-4">
-            Supports: JPEG, PNG, GIF, WebP, PDF (max 10MB)
+            Supports: JPEG, PNG, GIF, WebP, HEIC, PDF (max 10MB)
           </p>
 
           <Button
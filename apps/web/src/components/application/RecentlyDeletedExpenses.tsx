@@ -0,0 +1,77 @@
+import { Button } from '@/components/base/buttons/button';
+import { useDeletedExpenses, useRestoreExpense } from '@/services/expenses';
+import { formatCurrency } from '@/utils/currency';
+import { formatDate, formatRelativeDate } from '@/utils';
+
+interface RecentlyDeletedExpensesProps {
+  groupId: string;
+  className?: string;
+}
+
+export function RecentlyDeletedExpenses({
+  groupId,
+  className,
+}: RecentlyDeletedExpensesProps) {
+  const { data, isLoading } = useDeletedExpenses(groupId);
+  const restoreMutation = useRestoreExpense();
+
+  const expenses = data?.expenses || [];
+
+  const handleRestore = async (expenseId: string) => {
+    try {
+      await restoreMutation.mutateAsync(expenseId);
+    } catch (error) {
+      console.error('Failed to restore expense:', error);
+    }
+  };
+
+  return (
+    <div
+      className={`p-4 border border-neutral-200 dark:border-neutral-600 rounded-lg ${className ?? ''}`}
+    >
+      <h4 className="font-medium text-neutral-900 dark:text-neutral-50 mb-2">
+        Recently Deleted
+      </h4>
+      <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-3">
+        Deleted expenses can be restored for 30 days.
+      </p>
+
+      {isLoading ? (
+        <p className="text-sm text-neutral-500">Loading...</p>
+      ) : expenses.length === 0 ? (
+        <p className="text-sm text-neutral-500 dark:text-neutral-400">
+          Nothing has been deleted recently
+        </p>
+      ) : (
+        <ul className="divide-y divide-neutral-200 dark:divide-neutral-700">
+          {expenses.map((expense) => (
+            <li
+              key={expense.id}
+              className="flex items-center justify-between gap-3 py-2"
+            >
+              <div className="min-w-0">
+                <div className="text-sm font-medium text-neutral-900 dark:text-neutral-50 truncate">
+                  {expense.description}
+                </div>
+                <div className="text-xs text-neutral-500 dark:text-neutral-400">
+                  {formatCurrency(expense.amountCents, expense.currency)} paid
+                  by {expense.payer.name} · deleted{' '}
+                  {formatRelativeDate(expense.deletedAt)} · gone for good on{' '}
+                  {formatDate(expense.purgeAt, 'MMM D, YYYY')}
+                </div>
+              </div>
+              <Button
+                color="tertiary"
+                size="sm"
+                onClick={() => handleRestore(expense.id)}
+                isDisabled={restoreMutation.isPending}
+              >
+                Restore
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { Button } from '@/components/base/buttons/button';
+import { useDeletedGroups, useRestoreGroup } from '@/services/groups';
+import { formatDate, formatRelativeDate } from '@/utils';
+
+export function RecentlyDeletedGroups() {
+  const { data: groups } = useDeletedGroups();
+  const restoreMutation = useRestoreGroup();
+
+  const handleRestore = async (groupId: string) => {
+    try {
+      await restoreMutation.mutateAsync(groupId);
+    } catch (error) {
+      console.error('Failed to restore group:', error);
+    }
+  };
+
+  // Only owners see their deleted groups, and most people have none
+  if (!groups || groups.length === 0) return null;
+
+  return (
+    <div className="bg-white dark:bg-neutral-800 rounded-lg border border-neutral-200 dark:border-neutral-700 p-6">
+      <h2 className="text-lg font-semibold text-neutral-900 dark:text-neutral-50">
+        Recently Deleted
+      </h2>
+      <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-3">
+        Deleted groups can be restored for 30 days.
+      </p>
+      <ul className="divide-y divide-neutral-200 dark:divide-neutral-700">
+        {groups.map((group) => (
+          <li
+            key={group.id}
+            className="flex items-center justify-between gap-3 py-2"
+          >
+            <div className="min-w-0">
+              <div className="text-sm font-medium text-neutral-900 dark:text-neutral-50 truncate">
+                {group.name}
+              </div>
+              <div className="text-xs text-neutral-500 dark:text-neutral-400">
+                Deleted {formatRelativeDate(group.deletedAt)} · gone for good on{' '}
+                {formatDate(group.purgeAt, 'MMM D, YYYY')}
+              </div>
+            </div>
+            <Button
+              color="tertiary"
+              size="sm"
+              onClick={() => handleRestore(group.id)}
+              isDisabled={restoreMutation.isPending}
+            >
+              Restore
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
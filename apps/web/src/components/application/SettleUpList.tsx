@@ -0,0 +1,207 @@
+import { useState } from 'react';
+import {
+  buildPaymentMemo,
+  buildPaymentUrl,
+  generatePaymentToken,
+  getAvailablePaymentMethods,
+  type SettlementMethod,
+} from '@group-pay/shared';
+import { Button } from '@/components/base/buttons/button';
+import { useAuth } from '@/hooks/useAuth';
+import { useSettleUp, useUpdateGroup } from '@/services/groups';
+import { useCreateSettlement } from '@/services/settlements';
+import { formatCurrency } from '@/utils';
+import { LoadingSpinner } from './LoadingSpinner';
+import { EmptyState } from './EmptyState';
+
+const PAYMENT_METHOD_LABELS: Partial<Record<SettlementMethod, string>> = {
+  VENMO: 'Venmo',
+  PAYPAL: 'PayPal',
+  ZELLE: 'Zelle',
+};
+
+interface SettleUpListProps {
+  groupId: string;
+  groupName: string;
+  canChangeMode?: boolean;
+}
+
+export function SettleUpList({
+  groupId,
+  groupName,
+  canChangeMode = false,
+}: SettleUpListProps) {
+  const { user } = useAuth();
+  const { data, isLoading, error } = useSettleUp(groupId);
+  const updateGroupMutation = useUpdateGroup();
+  const createSettlementMutation = useCreateSettlement();
+  const [recordedPayment, setRecordedPayment] = useState<{
+    toName: string;
+    token: string;
+  } | null>(null);
+
+  const handleModeChange = (simplifyDebts: boolean) => {
+    updateGroupMutation.mutate({ id: groupId, data: { simplifyDebts } });
+  };
+
+  const handlePay = (
+    transfer: NonNullable<typeof data>['transfers'][number],
+    method: SettlementMethod,
+    currency: string
+  ) => {
+    const token = generatePaymentToken();
+    const url = buildPaymentUrl({
+      method,
+      amountCents: transfer.amountCents,
+      currency,
+      memo: buildPaymentMemo(groupName, token),
+      recipient: transfer.to,
+    });
+
+    if (!url) return;
+
+    // Open the payment app straight from the click so popup blockers allow it
+    window.open(url, '_blank', 'noopener,noreferrer');
+
+    createSettlementMutation.mutate(
+      {
+        groupId,
+        data: {
+          fromUserId: transfer.from.id,
+          toUserId: transfer.to.id,
+          amountCents: transfer.amountCents,
+          method,
+          externalRef: token,
+        },
+      },
+      {
+        onSuccess: () =>
+          setRecordedPayment({ toName: transfer.to.name, token }),
+      }
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <p className="text-neutral-600 dark:text-neutral-400">
+        Unable to load settle up suggestions.
+      </p>
+    );
+  }
+
+  if (data.transfers.length === 0) {
+    return (
+      <EmptyState
+        icon="🎉"
+        title="All settled up"
+        description="Nobody in this group owes anyone money, apart from payments waiting to be confirmed."
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-start gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-neutral-900 dark:text-neutral-50">
+            Suggested Payments
+          </h3>
+          <p className="text-sm text-neutral-600 dark:text-neutral-400">
+            {data.simplifyDebts
+              ? 'Debts are combined to keep the number of payments low.'
+              : 'Everyone pays back the people who actually fronted the money.'}
+          </p>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <Button
+            color={data.simplifyDebts ? 'primary' : 'tertiary'}
+            size="sm"
+            isDisabled={!canChangeMode || updateGroupMutation.isPending}
+            onClick={() => handleModeChange(true)}
+          >
+            Simplified
+          </Button>
+          <Button
+            color={data.simplifyDebts ? 'tertiary' : 'primary'}
+            size="sm"
+            isDisabled={!canChangeMode || updateGroupMutation.isPending}
+            onClick={() => handleModeChange(false)}
+          >
+            Pairwise
+          </Button>
+        </div>
+      </div>
+
+      {recordedPayment && (
+        <div className="p-3 text-sm rounded-lg bg-amber-50 dark:bg-amber-950 text-amber-800 dark:text-amber-300">
+          Payment to {recordedPayment.toName} recorded as pending with reference{' '}
+          {recordedPayment.token}. It will count once {recordedPayment.toName}{' '}
+          confirms it arrived.
+        </div>
+      )}
+
+      {createSettlementMutation.isError && (
+        <div className="p-3 text-sm rounded-lg bg-red-50 dark:bg-red-950 text-red-700 dark:text-red-400">
+          The payment app opened, but the payment couldn't be recorded. Please
+          try again.
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {data.transfers.map((transfer) => (
+          <div
+            key={`${transfer.from.id}-${transfer.to.id}`}
+            className="flex items-center justify-between gap-4 p-4 border border-neutral-200 dark:border-neutral-600 rounded-lg"
+          >
+            <div>
+              <div className="font-medium text-neutral-900 dark:text-neutral-50">
+                {transfer.from.name} pays {transfer.to.name}
+              </div>
+              {(transfer.to.venmoHandle || transfer.to.paypalLink) && (
+                <div className="text-xs text-neutral-500 dark:text-neutral-400">
+                  {transfer.to.venmoHandle &&
+                    `Venmo: ${transfer.to.venmoHandle}`}
+                  {transfer.to.venmoHandle && transfer.to.paypalLink && ' • '}
+                  {transfer.to.paypalLink &&
+                    `PayPal: ${transfer.to.paypalLink}`}
+                </div>
+              )}
+            </div>
+            <div className="flex flex-col items-end gap-2">
+              <div className="font-semibold text-neutral-900 dark:text-neutral-50">
+                {formatCurrency(transfer.amountCents, data.currency)}
+              </div>
+              {transfer.from.id === user?.id && (
+                <div className="flex gap-1">
+                  {getAvailablePaymentMethods(transfer.to, data.currency).map(
+                    (method) => (
+                      <Button
+                        key={method}
+                        color="secondary"
+                        size="sm"
+                        isDisabled={createSettlementMutation.isPending}
+                        onClick={() =>
+                          handlePay(transfer, method, data.currency)
+                        }
+                      >
+                        {PAYMENT_METHOD_LABELS[method]}
+                      </Button>
+                    )
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
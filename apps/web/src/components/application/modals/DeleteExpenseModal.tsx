@@ -76,8 +76,9 @@ export function DeleteExpenseModal({
             <div className="px-6 py-4">
               <div className="mb-4">
                 <p className="text-neutral-700 dark:text-neutral-300 mb-4">
-                  Are you sure you want to delete this expense? This action
-                  cannot be undone.
+                  Are you sure you want to delete this expense? Group admins can
+                  restore it from Recently Deleted in the group settings for
+                  30 days.
                 </p>
 
                 {/* Expense details */}
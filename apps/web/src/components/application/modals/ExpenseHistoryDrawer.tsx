@@ -0,0 +1,229 @@
+import { Button } from '@/components/base/buttons/button';
+import { Modal, ModalOverlay, Dialog } from './modal';
+import { useExpenseHistory } from '@/services/expenses';
+import { formatCurrency } from '@/utils/currency';
+import { formatDate, formatRelativeDate } from '@/utils';
+import type { ExpenseRevisionAction } from '@group-pay/shared';
+
+interface ExpenseHistoryDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  expense: {
+    id: string;
+    description: string;
+    currency: string;
+  } | null;
+  groupMembers: Array<{
+    user: {
+      id: string;
+      name: string;
+    };
+  }>;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  description: 'Description',
+  amountCents: 'Amount',
+  currency: 'Currency',
+  date: 'Date',
+  category: 'Category',
+  notes: 'Notes',
+  payerId: 'Paid by',
+  payers: 'Paid',
+  splitType: 'Split',
+  shares: 'Shares',
+  items: 'Line items',
+};
+
+const ACTION_LABELS: Record<ExpenseRevisionAction, string> = {
+  CREATE: 'added this expense',
+  UPDATE: 'edited this expense',
+  DELETE: 'deleted this expense',
+  RESTORE: 'restored this expense',
+  CONFIRM: 'confirmed this expense',
+};
+
+export function ExpenseHistoryDrawer({
+  isOpen,
+  onClose,
+  expense,
+  groupMembers,
+}: ExpenseHistoryDrawerProps) {
+  const { data, isLoading, error } = useExpenseHistory(
+    isOpen && expense ? expense.id : ''
+  );
+
+  if (!expense) return null;
+
+  const revisions = data?.revisions ?? [];
+
+  // People who have left the group drop out of the member list
+  const memberName = (userId: string) =>
+    groupMembers.find((m) => m.user.id === userId)?.user.name ??
+    'Former member';
+
+  const formatValue = (field: string, value: unknown): string => {
+    if (value === null || value === undefined || value === '') return '—';
+
+    switch (field) {
+      case 'amountCents':
+        return formatCurrency(value as number, expense.currency);
+      case 'date':
+        return formatDate(value as string, 'MMM D, YYYY');
+      case 'payerId':
+        return memberName(value as string);
+      case 'splitType':
+        return (value as string).toLowerCase();
+      case 'items': {
+        const count = (value as unknown[]).length;
+        return `${count} item${count !== 1 ? 's' : ''}`;
+      }
+      default:
+        return String(value);
+    }
+  };
+
+  // Shares and payers are both amounts per person
+  const renderShares = (from: unknown, to: unknown) => {
+    const before = (from ?? {}) as Record<string, number>;
+    const after = (to ?? {}) as Record<string, number>;
+    const userIds = Array.from(
+      new Set([...Object.keys(before), ...Object.keys(after)])
+    ).filter((userId) => before[userId] !== after[userId]);
+
+    return (
+      <ul className="mt-1 space-y-0.5">
+        {userIds.map((userId) => (
+          <li key={userId}>
+            {memberName(userId)}: {formatValue('amountCents', before[userId])} →{' '}
+            {formatValue('amountCents', after[userId])}
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  return (
+    <ModalOverlay
+      isOpen={isOpen}
+      onOpenChange={onClose}
+      className="items-stretch justify-end p-0 sm:items-stretch sm:justify-end sm:p-0"
+    >
+      <Modal className="h-full max-w-md max-sm:rounded-none">
+        <Dialog className="h-full items-stretch">
+          <div className="bg-white dark:bg-neutral-800 shadow-xl w-full h-full flex flex-col">
+            {/* Header */}
+            <div className="px-6 py-4 border-b border-neutral-200 dark:border-neutral-700">
+              <div className="flex justify-between items-center">
+                <div>
+                  <h2 className="text-xl font-semibold text-neutral-900 dark:text-neutral-50">
+                    History
+                  </h2>
+                  <p className="text-sm text-neutral-500 dark:text-neutral-400">
+                    {expense.description}
+                  </p>
+                </div>
+                <Button
+                  onClick={onClose}
+                  color="tertiary"
+                  size="sm"
+                  aria-label="Close"
+                  iconLeading={
+                    <svg
+                      className="w-4 h-4"
+                      fill="none"
+                      viewBox="0 0 24 24"
+                      stroke="currentColor"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M6 18L18 6M6 6l12 12"
+                      />
+                    </svg>
+                  }
+                />
+              </div>
+            </div>
+
+            {/* Content */}
+            <div className="flex-1 overflow-y-auto px-6 py-4">
+              {isLoading ? (
+                <p className="text-sm text-center text-neutral-500">
+                  Loading history...
+                </p>
+              ) : error ? (
+                <p className="text-sm text-red-600 dark:text-red-400">
+                  Failed to load history
+                </p>
+              ) : revisions.length === 0 ? (
+                <p className="text-sm text-center text-neutral-500 dark:text-neutral-400">
+                  No changes recorded yet
+                </p>
+              ) : (
+                <ol className="space-y-4 border-l border-neutral-200 dark:border-neutral-700 pl-4">
+                  {revisions.map((revision) => (
+                    <li key={revision.id}>
+                      <p className="text-sm text-neutral-900 dark:text-neutral-50">
+                        <span className="font-medium">
+                          {revision.actor.name}
+                        </span>{' '}
+                        {ACTION_LABELS[revision.action]}
+                      </p>
+                      <p className="text-xs text-neutral-500 dark:text-neutral-400">
+                        {formatDate(revision.createdAt, 'MMM D, YYYY h:mm A')} ·{' '}
+                        {formatRelativeDate(revision.createdAt)}
+                      </p>
+
+                      {revision.action === 'UPDATE' && (
+                        <ul className="mt-2 space-y-1 text-sm text-neutral-700 dark:text-neutral-300">
+                          {Object.entries(revision.changes).map(
+                            ([field, { from, to }]) => (
+                              <li key={field}>
+                                <span className="font-medium">
+                                  {FIELD_LABELS[field] ?? field}:
+                                </span>{' '}
+                                {field === 'shares' || field === 'payers' ? (
+                                  renderShares(from, to)
+                                ) : (
+                                  <>
+                                    <span className="line-through text-neutral-500">
+                                      {formatValue(field, from)}
+                                    </span>{' '}
+                                    → {formatValue(field, to)}
+                                  </>
+                                )}
+                              </li>
+                            )
+                          )}
+                        </ul>
+                      )}
+
+                      {revision.action !== 'UPDATE' &&
+                        revision.changes.amountCents && (
+                          <p className="mt-1 text-sm text-neutral-700 dark:text-neutral-300">
+                            {formatValue(
+                              'amountCents',
+                              revision.changes.amountCents.to ??
+                                revision.changes.amountCents.from
+                            )}{' '}
+                            paid by{' '}
+                            {formatValue(
+                              'payerId',
+                              revision.changes.payerId?.to ??
+                                revision.changes.payerId?.from
+                            )}
+                          </p>
+                        )}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          </div>
+        </Dialog>
+      </Modal>
+    </ModalOverlay>
+  );
+}
@@ -1,9 +1,14 @@
 import { useEffect, useState, useCallback } from 'react';
+import type { Key } from 'react-aria-components';
 import { X, AlertTriangle } from '@untitledui/icons';
 import { Button } from '@/components/base/buttons/button';
 import { Modal, ModalOverlay, Dialog } from './modal';
 import { Tabs } from '@/components/application/tabs/tabs';
-import { useCreateExpense, useUpdateExpense } from '@/services/expenses';
+import {
+  useCreateExpense,
+  useUpdateExpense,
+  useConfirmExpense,
+} from '@/services/expenses';
 import {
   useAppForm,
   UiForm,
@@ -16,14 +21,31 @@ import { Select } from '@/components/base/select/select';
 import { InputGroup } from '@/components/base/input/input-group';
 import { InputBase } from '@/components/base/input/input';
 import { formatCurrency } from '@/utils/currency';
-import type { ExpenseSplitType, UpdateExpenseDto } from '@group-pay/shared';
+import {
+  calculateAdjustmentSplit,
+  calculateItemizedSplit,
+  validateExpensePayers,
+  type CreateExpenseItemDto,
+  type CreateExpensePayerDto,
+  type ExpenseSplitType,
+  type Receipt,
+  type UpdateExpenseDto,
+} from '@group-pay/shared';
 import { ReceiptList } from '@/components/application/ReceiptList';
+import { ExpenseComments } from '@/components/application/ExpenseComments';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  ItemizedSplitEditor,
+  type EditableLineItem,
+} from '@/components/application/ItemizedSplitEditor';
+import { PayersEditor } from '@/components/application/PayersEditor';
 
 interface BaseExpenseModalProps {
   isOpen: boolean;
   onClose: () => void;
   groupMembers: Array<{
     id: string;
+    role?: string;
     user: {
       id: string;
       name: string;
@@ -48,14 +70,25 @@ interface EditExpenseModalProps extends BaseExpenseModalProps {
     currency: string;
     date: string;
     category?: string;
+    splitType?: ExpenseSplitType;
+    items?: Array<{
+      description: string;
+      amountCents: number;
+      userIds: string[];
+    }>;
     payer: {
       id: string;
       name: string;
       photoUrl?: string;
     };
+    payers?: Array<{
+      paidCents: number;
+      user: { id: string };
+    }>;
     participants: Array<{
       id: string;
       shareCents: number;
+      adjustmentCents?: number | null;
       user: {
         id: string;
         name: string;
@@ -63,6 +96,7 @@ interface EditExpenseModalProps extends BaseExpenseModalProps {
       };
     }>;
   } | null;
+  isDraft?: boolean; // Saving also confirms a draft made from a scanned receipt
 }
 
 type ExpenseModalProps = CreateExpenseModalProps | EditExpenseModalProps;
@@ -82,6 +116,17 @@ interface Participant {
   userId: string;
   isSelected: boolean;
   shareCents: number;
+  adjustment?: string; // As typed, for adjustment splits
+}
+
+function toAdjustmentCents(adjustment = ''): number {
+  const value = parseFloat(adjustment);
+  return isNaN(value) ? 0 : Math.round(value * 100);
+}
+
+function toPaidCents(amount = ''): number {
+  const value = parseFloat(amount);
+  return isNaN(value) ? 0 : Math.round(value * 100);
 }
 
 const EXPENSE_CATEGORIES = [
@@ -98,13 +143,23 @@ const EXPENSE_CATEGORIES = [
 
 export function ExpenseModal(props: ExpenseModalProps) {
   const { isOpen, onClose, groupMembers, groupCurrency, mode } = props;
+  const { user } = useAuth();
+  const currentMember = groupMembers.find((m) => m.user.id === user?.id);
+  const isGroupAdmin =
+    !!currentMember?.role && ['OWNER', 'ADMIN'].includes(currentMember.role);
 
   const [splitType, setSplitType] = useState<ExpenseSplitType>('EQUAL');
   const [participants, setParticipants] = useState<Participant[]>([]);
+  const [lineItems, setLineItems] = useState<EditableLineItem[]>([]);
   const [participantError, setParticipantError] = useState<string | null>(null);
+  const [splitPayment, setSplitPayment] = useState(false);
+  const [payerAmounts, setPayerAmounts] = useState<Record<string, string>>({});
+  const [selectedTab, setSelectedTab] = useState<Key>('basic');
 
   const createExpenseMutation = useCreateExpense();
   const updateExpenseMutation = useUpdateExpense();
+  const confirmExpenseMutation = useConfirmExpense();
+  const isDraft = mode === 'edit' && !!props.isDraft;
 
   // Get initial values based on mode
   const getInitialValues = (): ExpenseFormValues => {
@@ -140,10 +195,95 @@ export function ExpenseModal(props: ExpenseModalProps) {
       }
       const amountCents = Math.round(amountValue * 100);
 
+      // With several payers the one who paid the most is listed as the payer
+      let payerId = values.payerId;
+      let payers: CreateExpensePayerDto[] = [
+        { userId: payerId, paidCents: amountCents },
+      ];
+      if (splitPayment) {
+        payers = Object.entries(payerAmounts)
+          .map(([userId, amount]) => ({
+            userId,
+            paidCents: toPaidCents(amount),
+          }))
+          .filter((payer) => payer.paidCents > 0);
+
+        const result = validateExpensePayers(amountCents, payers);
+        if (!result.isValid) {
+          setParticipantError(result.errors[0]);
+          return;
+        }
+
+        payerId = payers.reduce((top, payer) =>
+          payer.paidCents > top.paidCents ? payer : top
+        ).userId;
+      }
+
+      // Itemized splits send their line items and the shares they produce
+      let items: CreateExpenseItemDto[] | undefined;
+      let derivedParticipants: Participant[] | undefined;
+      if (splitType === 'ITEMIZED') {
+        items = lineItems.map((item) => ({
+          description: item.description.trim(),
+          amountCents: Math.round(parseFloat(item.amount || '0') * 100),
+          userIds: item.userIds,
+        }));
+
+        if (
+          items.length === 0 ||
+          items.some(
+            (item) =>
+              !item.description ||
+              !(item.amountCents > 0) ||
+              item.userIds.length === 0
+          )
+        ) {
+          setParticipantError(
+            'Every item needs a name, a price and at least one person'
+          );
+          return;
+        }
+
+        try {
+          derivedParticipants = calculateItemizedSplit(amountCents, items).map(
+            (share) => ({ ...share, isSelected: true })
+          );
+        } catch (error) {
+          setParticipantError(
+            error instanceof Error ? error.message : 'Invalid line items'
+          );
+          return;
+        }
+      }
+
+      // Adjustment splits share out what's left after each person's
+      // adjustment
+      const selected = participants.filter((p) => p.isSelected);
+      if (splitType === 'ADJUSTMENT' && selected.length > 0) {
+        try {
+          derivedParticipants = calculateAdjustmentSplit(
+            amountCents,
+            selected.map((p) => ({
+              userId: p.userId,
+              adjustmentCents: toAdjustmentCents(p.adjustment),
+            }))
+          ).map((share, index) => ({
+            ...selected[index],
+            shareCents: share.shareCents,
+          }));
+        } catch (error) {
+          setParticipantError(
+            error instanceof Error ? error.message : 'Invalid adjustments'
+          );
+          return;
+        }
+      }
+
       try {
         if (mode === 'create') {
           // Validate participants for create mode
-          const selectedParticipants = participants.filter((p) => p.isSelected);
+          const selectedParticipants =
+            derivedParticipants ?? participants.filter((p) => p.isSelected);
           if (selectedParticipants.length === 0) {
             setParticipantError('At least one participant is required');
             return;
@@ -168,20 +308,27 @@ export function ExpenseModal(props: ExpenseModalProps) {
             date: new Date(values.date),
             category: values.category || undefined,
             notes: values.notes || undefined,
-            payerId: values.payerId,
+            payerId,
+            payers,
             groupId: props.groupId,
             splitType,
             participants: selectedParticipants.map((p) => ({
               userId: p.userId,
               shareCents: p.shareCents,
+              adjustmentCents:
+                splitType === 'ADJUSTMENT'
+                  ? toAdjustmentCents(p.adjustment)
+                  : undefined,
             })),
+            items,
           });
         } else {
           // Edit mode - update expense including participants
           if (!props.expense) return;
 
           // Validate participants for edit mode
-          const selectedParticipants = participants.filter((p) => p.isSelected);
+          const selectedParticipants =
+            derivedParticipants ?? participants.filter((p) => p.isSelected);
           if (selectedParticipants.length === 0) {
             setParticipantError('At least one participant is required');
             return;
@@ -205,18 +352,28 @@ export function ExpenseModal(props: ExpenseModalProps) {
             date: new Date(values.date),
             category: values.category || null,
             notes: values.notes || null,
-            payerId: values.payerId,
+            payerId,
+            payers,
             splitType,
             participants: selectedParticipants.map((p) => ({
               userId: p.userId,
               shareCents: p.shareCents,
+              adjustmentCents:
+                splitType === 'ADJUSTMENT'
+                  ? toAdjustmentCents(p.adjustment)
+                  : undefined,
             })),
+            items,
           };
 
           await updateExpenseMutation.mutateAsync({
             id: props.expense.id,
             data: updateData,
           });
+
+          if (props.isDraft) {
+            await confirmExpenseMutation.mutateAsync(props.expense.id);
+          }
         }
 
         handleClose();
@@ -240,17 +397,49 @@ export function ExpenseModal(props: ExpenseModalProps) {
       // For edit mode, initialize with current expense data
       if (props.expense) {
         const expenseParticipantMap = new Map(
-          props.expense.participants.map((p) => [p.user.id, p.shareCents])
+          props.expense.participants.map((p) => [p.user.id, p])
         );
         setParticipants(
-          groupMembers.map((member) => ({
-            userId: member.user.id,
-            isSelected: expenseParticipantMap.has(member.user.id),
-            shareCents: expenseParticipantMap.get(member.user.id) || 0,
-          }))
+          groupMembers.map((member) => {
+            const participant = expenseParticipantMap.get(member.user.id);
+            return {
+              userId: member.user.id,
+              isSelected: !!participant,
+              shareCents: participant?.shareCents || 0,
+              adjustment: participant?.adjustmentCents
+                ? (participant.adjustmentCents / 100).toFixed(2)
+                : '',
+            };
+          })
+        );
+        // Itemized and adjustment expenses reopen as they were entered; other
+        // split types start from an equal split
+        if (props.expense.splitType === 'ITEMIZED' && props.expense.items) {
+          setSplitType('ITEMIZED');
+          setLineItems(
+            props.expense.items.map((item) => ({
+              key: crypto.randomUUID(),
+              description: item.description,
+              amount: (item.amountCents / 100).toFixed(2),
+              userIds: item.userIds,
+            }))
+          );
+        } else if (props.expense.splitType === 'ADJUSTMENT') {
+          setSplitType('ADJUSTMENT');
+        } else {
+          setSplitType('EQUAL');
+        }
+
+        const payers = props.expense.payers ?? [];
+        setSplitPayment(payers.length > 1);
+        setPayerAmounts(
+          Object.fromEntries(
+            payers.map((payer) => [
+              payer.user.id,
+              (payer.paidCents / 100).toFixed(2),
+            ])
+          )
         );
-        // Set current split type from expense (defaulting to EQUAL if not available)
-        setSplitType('EQUAL');
       }
     }
   }, [groupMembers, mode, props]);
@@ -317,11 +506,36 @@ export function ExpenseModal(props: ExpenseModalProps) {
         }))
       );
       setSplitType('EQUAL');
+      setLineItems([]);
+      setSplitPayment(false);
+      setPayerAmounts({});
     }
     setParticipantError(null);
+    setSelectedTab('basic');
     onClose();
   };
 
+  // Copy what was read from a receipt into the form and show it
+  const handleUseScan = (receipt: Receipt) => {
+    const scan = receipt.ocrData;
+    if (!scan) return;
+
+    if (scan.merchantName) {
+      form.setFieldValue('description', scan.merchantName);
+    }
+    if (scan.totalAmount !== undefined) {
+      form.setFieldValue('amount', (scan.totalAmount / 100).toFixed(2));
+    }
+    if (scan.date) {
+      // Arrives as an ISO string over JSON
+      form.setFieldValue(
+        'date',
+        new Date(scan.date).toISOString().split('T')[0]
+      );
+    }
+    setSelectedTab('basic');
+  };
+
   const handleParticipantToggle = (userId: string) => {
     setParticipants((prev) => {
       const updated = prev.map((p) =>
@@ -376,6 +590,13 @@ export function ExpenseModal(props: ExpenseModalProps) {
     setParticipantError(null);
   };
 
+  const handleAdjustmentChange = (userId: string, adjustment: string) => {
+    setParticipants((prev) =>
+      prev.map((p) => (p.userId === userId ? { ...p, adjustment } : p))
+    );
+    setParticipantError(null);
+  };
+
   const selectedParticipants = participants.filter((p) => p.isSelected);
   const totalSplitCents = selectedParticipants.reduce(
     (sum, p) => sum + p.shareCents,
@@ -386,10 +607,34 @@ export function ExpenseModal(props: ExpenseModalProps) {
     : 0;
   const splitDifference = Math.abs(totalSplitCents - expectedAmountCents);
 
+  // Preview adjustment split shares as adjustments are typed
+  let adjustedShares = new Map<string, number>();
+  let adjustmentError: string | null = null;
+  if (
+    splitType === 'ADJUSTMENT' &&
+    expectedAmountCents > 0 &&
+    selectedParticipants.length > 0
+  ) {
+    try {
+      adjustedShares = new Map(
+        calculateAdjustmentSplit(
+          expectedAmountCents,
+          selectedParticipants.map((p) => ({
+            userId: p.userId,
+            adjustmentCents: toAdjustmentCents(p.adjustment),
+          }))
+        ).map((share) => [share.userId, share.shareCents])
+      );
+    } catch (error) {
+      adjustmentError =
+        error instanceof Error ? error.message : 'Invalid adjustments';
+    }
+  }
+
   const isLoading =
     mode === 'create'
       ? createExpenseMutation.isPending
-      : updateExpenseMutation.isPending;
+      : updateExpenseMutation.isPending || confirmExpenseMutation.isPending;
 
   // Don't render if we're in edit mode but don't have an expense
   if (mode === 'edit' && !props.expense) {
@@ -405,7 +650,11 @@ export function ExpenseModal(props: ExpenseModalProps) {
             <div className="px-6 py-4 border-b border-neutral-200 dark:border-neutral-700 flex-shrink-0">
               <div className="flex justify-between items-center">
                 <h2 className="text-xl font-semibold text-neutral-900 dark:text-neutral-50">
-                  {mode === 'create' ? 'Add New Expense' : 'Edit Expense'}
+                  {mode === 'create'
+                    ? 'Add New Expense'
+                    : isDraft
+                      ? 'Review Scanned Expense'
+                      : 'Edit Expense'}
                 </h2>
                 <Button
                   onClick={handleClose}
@@ -449,19 +698,29 @@ export function ExpenseModal(props: ExpenseModalProps) {
                         type="submit"
                         isLoading={isLoading}
                       >
-                        {mode === 'create' ? 'Add Expense' : 'Update Expense'}
+                        {mode === 'create'
+                          ? 'Add Expense'
+                          : isDraft
+                            ? 'Confirm Expense'
+                            : 'Update Expense'}
                       </Button>
                     </div>
                   </div>
                 }
               >
-                <Tabs>
+                <Tabs
+                  selectedKey={selectedTab}
+                  onSelectionChange={setSelectedTab}
+                >
                   <Tabs.List
                     items={[
                       { id: 'basic', label: 'Basic Info' },
                       { id: 'participants', label: 'Participants' },
                       ...(mode === 'edit' && props.expense
-                        ? [{ id: 'receipts', label: 'Receipts' }]
+                        ? [
+                            { id: 'receipts', label: 'Receipts' },
+                            { id: 'comments', label: 'Comments' },
+                          ]
                         : []),
                     ]}
                     type="underline"
@@ -522,28 +781,68 @@ export function ExpenseModal(props: ExpenseModalProps) {
                         )}
                       </form.Field>
 
-                      <form.Field name="payerId">
-                        {(field) => (
-                          <SelectField
-                            field={field}
-                            label="Paid by"
-                            placeholder="Select who paid..."
-                            required
-                          >
-                            {groupMembers.map((member) => (
-                              <Select.Item
-                                key={member.user.id}
-                                id={member.user.id}
-                                label={member.user.name}
-                              >
-                                {member.user.name}
-                              </Select.Item>
-                            ))}
-                          </SelectField>
-                        )}
-                      </form.Field>
+                      {splitPayment ? (
+                        <div className="md:col-span-2">
+                          <PayersEditor
+                            amounts={payerAmounts}
+                            onChange={(amounts) => {
+                              setPayerAmounts(amounts);
+                              setParticipantError(null);
+                            }}
+                            members={groupMembers}
+                            currency={groupCurrency}
+                            totalCents={expectedAmountCents}
+                          />
+                        </div>
+                      ) : (
+                        <form.Field name="payerId">
+                          {(field) => (
+                            <SelectField
+                              field={field}
+                              label="Paid by"
+                              placeholder="Select who paid..."
+                              required
+                            >
+                              {groupMembers.map((member) => (
+                                <Select.Item
+                                  key={member.user.id}
+                                  id={member.user.id}
+                                  label={member.user.name}
+                                >
+                                  {member.user.name}
+                                </Select.Item>
+                              ))}
+                            </SelectField>
+                          )}
+                        </form.Field>
+                      )}
                     </div>
 
+                    <Button
+                      type="button"
+                      color="link-gray"
+                      size="sm"
+                      onClick={() => {
+                        // Start the breakdown from whoever was picked as the payer
+                        const payerId = form.getFieldValue('payerId');
+                        if (
+                          !splitPayment &&
+                          payerId &&
+                          expectedAmountCents > 0
+                        ) {
+                          setPayerAmounts({
+                            [payerId]: (expectedAmountCents / 100).toFixed(2),
+                          });
+                        }
+                        setSplitPayment(!splitPayment);
+                        setParticipantError(null);
+                      }}
+                    >
+                      {splitPayment
+                        ? 'One person paid'
+                        : 'Paid by more than one person?'}
+                    </Button>
+
                     {/* Notes */}
                     <form.Field name="notes">
                       {(field) => (
@@ -584,14 +883,77 @@ export function ExpenseModal(props: ExpenseModalProps) {
                         >
                           Custom Split
                         </Button>
+                        <Button
+                          type="button"
+                          onClick={() => {
+                            setSplitType('ADJUSTMENT');
+                            setParticipantError(null);
+                          }}
+                          color={
+                            splitType === 'ADJUSTMENT' ? 'primary' : 'tertiary'
+                          }
+                          size="sm"
+                        >
+                          Adjusted
+                        </Button>
+                        <Button
+                          type="button"
+                          onClick={() => {
+                            setSplitType('ITEMIZED');
+                            setParticipantError(null);
+                            if (lineItems.length === 0) {
+                              setLineItems([
+                                {
+                                  key: crypto.randomUUID(),
+                                  description: '',
+                                  amount: '',
+                                  userIds: groupMembers.map(
+                                    (member) => member.user.id
+                                  ),
+                                },
+                              ]);
+                            }
+                          }}
+                          color={
+                            splitType === 'ITEMIZED' ? 'primary' : 'tertiary'
+                          }
+                          size="sm"
+                        >
+                          Itemized
+                        </Button>
                       </div>
 
+                      {splitType === 'ITEMIZED' && (
+                        <ItemizedSplitEditor
+                          items={lineItems}
+                          onChange={(items) => {
+                            setLineItems(items);
+                            setParticipantError(null);
+                          }}
+                          members={groupMembers}
+                          currency={groupCurrency}
+                          totalCents={expectedAmountCents}
+                        />
+                      )}
+
                       {/* Participants */}
-                      <div className="space-y-3">
+                      <div
+                        className={
+                          splitType === 'ITEMIZED' ? 'hidden' : 'space-y-3'
+                        }
+                      >
                         <div className="flex justify-between items-center">
-                          <h4 className="text-sm font-medium text-neutral-700 dark:text-neutral-300">
-                            Who owes money for this expense?
-                          </h4>
+                          <div>
+                            <h4 className="text-sm font-medium text-neutral-700 dark:text-neutral-300">
+                              Who owes money for this expense?
+                            </h4>
+                            {splitType === 'ADJUSTMENT' && (
+                              <p className="text-xs text-neutral-500 dark:text-neutral-400">
+                                Enter how much more (or less, with a minus) each
+                                person owes than an equal share.
+                              </p>
+                            )}
+                          </div>
                           {splitType === 'EXACT' && expectedAmountCents > 0 && (
                             <div className="text-sm">
                               <span className="text-neutral-600 dark:text-neutral-400">
@@ -619,6 +981,12 @@ export function ExpenseModal(props: ExpenseModalProps) {
                           )}
                         </div>
 
+                        {adjustmentError && (
+                          <p className="text-sm text-red-600 dark:text-red-400">
+                            {adjustmentError}
+                          </p>
+                        )}
+
                         {groupMembers.map((member) => {
                           const participant = participants.find(
                             (p) => p.userId === member.user.id
@@ -661,7 +1029,42 @@ export function ExpenseModal(props: ExpenseModalProps) {
 
                               {participant.isSelected && (
                                 <div className="flex items-center gap-2">
-                                  {splitType === 'EQUAL' ? (
+                                  {splitType === 'ADJUSTMENT' ? (
+                                    <>
+                                      <div className="w-28">
+                                        <InputGroup
+                                          size="sm"
+                                          leadingAddon={
+                                            <InputGroup.Prefix size="sm">
+                                              +/-
+                                            </InputGroup.Prefix>
+                                          }
+                                          inputMode="decimal"
+                                          aria-label={`Adjustment for ${member.user.name}`}
+                                          value={participant.adjustment ?? ''}
+                                          onChange={(val: string) =>
+                                            handleAdjustmentChange(
+                                              member.user.id,
+                                              val
+                                            )
+                                          }
+                                        >
+                                          <InputBase
+                                            type="number"
+                                            placeholder="0.00"
+                                            size="sm"
+                                          />
+                                        </InputGroup>
+                                      </div>
+                                      <span className="w-20 text-right text-sm text-neutral-600 dark:text-neutral-400">
+                                        {formatCurrency(
+                                          adjustedShares.get(member.user.id) ??
+                                            0,
+                                          groupCurrency
+                                        )}
+                                      </span>
+                                    </>
+                                  ) : splitType === 'EQUAL' ? (
                                     <span className="text-sm text-neutral-600 dark:text-neutral-400">
                                       {formatCurrency(
                                         participant.shareCents,
@@ -713,7 +1116,20 @@ export function ExpenseModal(props: ExpenseModalProps) {
                   {/* Receipts Tab - Only show in edit mode */}
                   {mode === 'edit' && props.expense && (
                     <Tabs.Panel id="receipts" className="px-6 py-4">
-                      <ReceiptList expenseId={props.expense.id} />
+                      <ReceiptList
+                        expenseId={props.expense.id}
+                        onUseScan={handleUseScan}
+                      />
+                    </Tabs.Panel>
+                  )}
+
+                  {/* Comments Tab - Only show in edit mode */}
+                  {mode === 'edit' && props.expense && (
+                    <Tabs.Panel id="comments" className="px-6 py-4">
+                      <ExpenseComments
+                        expenseId={props.expense.id}
+                        canModerate={isGroupAdmin}
+                      />
                     </Tabs.Panel>
                   )}
                 </Tabs>
@@ -0,0 +1,148 @@
+import { useRef, useState } from 'react';
+import { X, Upload01 } from '@untitledui/icons';
+import { Button } from '@/components/base/buttons/button';
+import { Select } from '@/components/base/select/select';
+import { Modal, ModalOverlay, Dialog } from './modal';
+import { useScanReceipt } from '@/services/receipts';
+import type { DraftExpense } from '@/services/expenses';
+import { validateReceiptFile } from '@group-pay/shared';
+
+interface ScanReceiptModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  groups: Array<{ id: string; name: string }>; // Picker is hidden for one group
+  onScanned: (expense: DraftExpense, groupId: string) => void;
+}
+
+export function ScanReceiptModal({
+  isOpen,
+  onClose,
+  groups,
+  onScanned,
+}: ScanReceiptModalProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [selectedGroupId, setSelectedGroupId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const scanMutation = useScanReceipt();
+
+  const groupId =
+    selectedGroupId ?? (groups.length === 1 ? groups[0].id : null);
+
+  const handleClose = () => {
+    setSelectedGroupId(null);
+    setError(null);
+    onClose();
+  };
+
+  const handleChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !groupId) return;
+
+    setError(null);
+
+    const validation = validateReceiptFile({
+      name: file.name,
+      size: file.size,
+      type: file.type,
+    });
+
+    if (!validation.isValid) {
+      setError(validation.errors[0]);
+      return;
+    }
+
+    try {
+      const { expense } = await scanMutation.mutateAsync({ groupId, file });
+      handleClose();
+      onScanned(expense, groupId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Scan failed');
+    }
+  };
+
+  return (
+    <ModalOverlay isOpen={isOpen} onOpenChange={handleClose}>
+      <Modal>
+        <Dialog>
+          <div className="bg-white dark:bg-neutral-800 rounded-xl shadow-xl max-w-md w-full mx-4">
+            {/* Header */}
+            <div className="px-6 py-4 border-b border-neutral-200 dark:border-neutral-700">
+              <div className="flex justify-between items-center">
+                <h2 className="text-xl font-semibold text-neutral-900 dark:text-neutral-50">
+                  Scan Receipt
+                </h2>
+                <Button
+                  onClick={handleClose}
+                  color="tertiary"
+                  size="sm"
+                  aria-label="Close"
+                  iconLeading={<X className="w-4 h-4" />}
+                />
+              </div>
+            </div>
+
+            {/* Content */}
+            <div className="px-6 py-4 space-y-4">
+              <p className="text-sm text-neutral-600 dark:text-neutral-400">
+                We'll read the total, date and shop from the receipt and save a
+                draft split equally between everyone. Nothing counts towards
+                balances until you review and confirm it.
+              </p>
+
+              {groups.length > 1 && (
+                <Select
+                  label="Group"
+                  selectedKey={groupId}
+                  onSelectionChange={(key) => setSelectedGroupId(key as string)}
+                  items={groups.map((group) => ({
+                    id: group.id,
+                    label: group.name,
+                  }))}
+                  placeholder="Select group"
+                >
+                  {(item) => <Select.Item id={item.id} label={item.label} />}
+                </Select>
+              )}
+
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/jpeg,image/png,image/gif,image/webp,image/heic,image/heif,application/pdf"
+                onChange={handleChange}
+                className="hidden"
+                disabled={scanMutation.isPending}
+              />
+
+              {error && (
+                <div className="p-2 bg-error-subtle border border-error rounded text-sm text-error">
+                  {error}
+                </div>
+              )}
+            </div>
+
+            {/* Footer */}
+            <div className="px-6 py-4 border-t border-neutral-200 dark:border-neutral-700 flex justify-end gap-3">
+              <Button
+                color="tertiary"
+                onClick={handleClose}
+                isDisabled={scanMutation.isPending}
+              >
+                Cancel
+              </Button>
+              <Button
+                color="primary"
+                onClick={() => fileInputRef.current?.click()}
+                isDisabled={!groupId}
+                isLoading={scanMutation.isPending}
+                iconLeading={Upload01}
+              >
+                {scanMutation.isPending ? 'Reading receipt...' : 'Choose File'}
+              </Button>
+            </div>
+          </div>
+        </Dialog>
+      </Modal>
+    </ModalOverlay>
+  );
+}
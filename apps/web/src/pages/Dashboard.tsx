@@ -3,6 +3,7 @@ import { Link } from 'react-router-dom';
 import { Button } from '@/components/base/buttons/button';
 import { DashboardStats } from '@/components/application/DashboardStats';
 import { BalanceSummary } from '@/components/application/BalanceSummary';
+import { CounterpartyBalances } from '@/components/application/CounterpartyBalances';
 import { RecentActivity } from '@/components/application/RecentActivity';
 import { CreateGroupModal } from '@/components/application/modals/CreateGroupModal';
 import { EmailVerificationBanner } from '@/components/application/EmailVerificationBanner';
@@ -83,6 +84,9 @@ export function Dashboard() {
             <BalanceSummary />
             <RecentActivity />
           </div>
+
+          {/* Who owes whom across all groups */}
+          <CounterpartyBalances />
         </>
       )}
 
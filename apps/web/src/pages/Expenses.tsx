@@ -1,7 +1,7 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { Button } from '@/components/base/buttons/button';
-import { useExpenses } from '@/services/expenses';
+import { useExpenseSearch } from '@/services/expenses';
 import { LoadingSpinner } from '@/components/application/LoadingSpinner';
 import { ErrorState } from '@/components/application/ErrorState';
 import {
@@ -14,32 +14,46 @@ import {
 
 export function Expenses() {
   const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
   const [categoryFilter, setCategoryFilter] = useState<string>('all');
-  const { data: expenses, isLoading, error, refetch } = useExpenses();
+  const [payerFilter, setPayerFilter] = useState<string>('all');
 
-  // Filter expenses based on search query and category
-  const filteredExpenses = expenses?.filter((expense) => {
-    // Check if payer exists and has a name
-    const payerName =
-      expense.payer && 'name' in expense.payer ? expense.payer.name : null;
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(searchQuery), 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
 
-    const matchesSearch =
-      expense.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      (payerName &&
-        payerName.toLowerCase().includes(searchQuery.toLowerCase()));
-
-    const matchesCategory =
-      categoryFilter === 'all' ||
-      expense.category?.toLowerCase() === categoryFilter.toLowerCase();
-
-    return matchesSearch && matchesCategory;
+  const {
+    data,
+    isLoading,
+    error,
+    refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useExpenseSearch({
+    q: debouncedQuery.trim() || undefined,
+    category: categoryFilter === 'all' ? undefined : categoryFilter,
+    payerId: payerFilter === 'all' ? undefined : payerFilter,
   });
 
-  // Get unique categories for filter
-  const categories = Array.from(
-    new Set(
-      expenses?.map((e) => e.category).filter((c): c is string => c != null)
-    )
+  const expenses = data?.pages.flatMap((page) => page.expenses) ?? [];
+  const total = data?.pages[0]?.total ?? 0;
+  const facets = data?.pages[0]?.facets;
+  const isFiltered =
+    !!debouncedQuery.trim() ||
+    categoryFilter !== 'all' ||
+    payerFilter !== 'all';
+
+  // Facets count every match, not just the pages loaded so far
+  const categories = (facets?.categories ?? []).filter(
+    (facet): facet is { category: string; count: number } =>
+      facet.category != null
+  );
+  const categoryTotal = (facets?.categories ?? []).reduce(
+    (sum, facet) => sum + facet.count,
+    0
   );
 
   if (isLoading) {
@@ -73,8 +87,8 @@ export function Expenses() {
             Expenses
           </h1>
           <p className="text-neutral-600 dark:text-neutral-400 mt-1">
-            {expenses?.length
-              ? `${expenses.length} ${pluralize(expenses.length, 'expense')} across all groups`
+            {total
+              ? `${total} ${pluralize(total, 'expense')} ${isFiltered ? 'found' : 'across all groups'}`
               : 'View and manage all your expenses'}
           </p>
         </div>
@@ -86,7 +100,7 @@ export function Expenses() {
           <div className="flex-1">
             <input
               type="text"
-              placeholder="Search expenses by description or payer..."
+              placeholder="Search expenses by description or notes..."
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               className="w-full px-4 py-2 border border-neutral-300 dark:border-neutral-600 rounded-lg bg-white dark:bg-neutral-900 text-neutral-900 dark:text-neutral-50 placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent"
@@ -98,33 +112,52 @@ export function Expenses() {
               size="sm"
               onClick={() => setCategoryFilter('all')}
             >
-              All ({expenses?.length || 0})
+              All ({categoryTotal})
             </Button>
-            {categories.map((category) => {
-              const count =
-                expenses?.filter((e) => e.category === category).length || 0;
-              return (
+            {categories.map(({ category, count }) => (
+              <Button
+                key={category}
+                color={categoryFilter === category ? 'primary' : 'tertiary'}
+                size="sm"
+                onClick={() => setCategoryFilter(category)}
+              >
+                {category.charAt(0).toUpperCase() + category.slice(1)} ({count})
+              </Button>
+            ))}
+          </div>
+          {facets && facets.payers.length > 1 && (
+            <div className="flex gap-2 flex-wrap items-center">
+              <span className="text-sm text-neutral-600 dark:text-neutral-400">
+                Paid by:
+              </span>
+              <Button
+                color={payerFilter === 'all' ? 'primary' : 'tertiary'}
+                size="sm"
+                onClick={() => setPayerFilter('all')}
+              >
+                Anyone
+              </Button>
+              {facets.payers.map(({ user, count }) => (
                 <Button
-                  key={category}
-                  color={categoryFilter === category ? 'primary' : 'tertiary'}
+                  key={user.id}
+                  color={payerFilter === user.id ? 'primary' : 'tertiary'}
                   size="sm"
-                  onClick={() => setCategoryFilter(category)}
+                  onClick={() => setPayerFilter(user.id)}
                 >
-                  {category.charAt(0).toUpperCase() + category.slice(1)} (
-                  {count})
+                  {user.name} ({count})
                 </Button>
-              );
-            })}
-          </div>
+              ))}
+            </div>
+          )}
         </div>
       </div>
 
       {/* Expenses List */}
       <div className="space-y-4">
-        {filteredExpenses && filteredExpenses.length > 0 ? (
+        {expenses.length > 0 ? (
           <div className="bg-white dark:bg-neutral-800 rounded-lg border border-neutral-200 dark:border-neutral-700 overflow-hidden">
             <div className="divide-y divide-neutral-200 dark:divide-neutral-700">
-              {filteredExpenses.map((expense) => (
+              {expenses.map((expense) => (
                 <div
                   key={expense.id}
                   className="p-6 hover:bg-neutral-50 dark:hover:bg-neutral-700 transition-colors duration-150"
@@ -194,6 +227,13 @@ export function Expenses() {
                           <span>{formatDate(expense.date, 'MMM D, YYYY')}</span>
                         </div>
 
+                        {!!expense.commentCount && (
+                          <div className="flex items-center gap-1.5">
+                            <span className="font-medium">Comments:</span>
+                            <span>{expense.commentCount}</span>
+                          </div>
+                        )}
+
                         {expense.createdAt && (
                           <div className="text-xs">
                             {formatRelativeDate(expense.createdAt)}
@@ -279,16 +319,14 @@ export function Expenses() {
           <div className="text-center py-12 px-6 bg-white dark:bg-neutral-800 rounded-lg border border-neutral-200 dark:border-neutral-700">
             <div className="text-6xl mb-4 opacity-60">💰</div>
             <h3 className="text-lg font-semibold text-neutral-900 dark:text-neutral-50 mb-2">
-              {expenses?.length === 0
-                ? 'No expenses yet'
-                : 'No matching expenses'}
+              {!isFiltered ? 'No expenses yet' : 'No matching expenses'}
             </h3>
             <p className="text-neutral-600 dark:text-neutral-400 mb-6 max-w-sm mx-auto">
-              {expenses?.length === 0
+              {!isFiltered
                 ? 'Create a group and start adding expenses to track shared costs.'
                 : "Try adjusting your search or filter to find the expenses you're looking for."}
             </p>
-            {expenses?.length === 0 && (
+            {!isFiltered && (
               <div className="flex justify-center">
                 <Link to="/groups">
                   <Button color="primary">Go to Groups</Button>
@@ -299,8 +337,20 @@ export function Expenses() {
         )}
       </div>
 
+      {hasNextPage && (
+        <div className="flex justify-center">
+          <Button
+            color="secondary"
+            onClick={() => fetchNextPage()}
+            isLoading={isFetchingNextPage}
+          >
+            Load more
+          </Button>
+        </div>
+      )}
+
       {/* Summary Stats */}
-      {expenses && expenses.length > 0 && (
+      {expenses.length > 0 && (
         <div className="bg-white dark:bg-neutral-800 rounded-lg border border-neutral-200 dark:border-neutral-700 p-6">
           <h3 className="text-lg font-semibold text-neutral-900 dark:text-neutral-50 mb-4">
             Summary
@@ -308,7 +358,7 @@ export function Expenses() {
           <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
             <div className="text-center p-4 bg-neutral-50 dark:bg-neutral-700 rounded-lg">
               <div className="text-2xl font-bold text-neutral-900 dark:text-neutral-50">
-                {expenses.length}
+                {total}
               </div>
               <div className="text-sm text-neutral-600 dark:text-neutral-400 mt-1">
                 Total Expenses
@@ -1,7 +1,17 @@
 import { useParams, useNavigate } from 'react-router-dom';
 import { useState } from 'react';
+import {
+  convertCents,
+  type DebtSimplification,
+  type ExpenseSplitType,
+} from '@group-pay/shared';
 import { Button } from '@/components/base/buttons/button';
-import { useGroup, useUpdateGroup, useDeleteGroup } from '@/services/groups';
+import {
+  useGroup,
+  useUpdateGroup,
+  useDeleteGroup,
+  type ExpenseLineItem,
+} from '@/services/groups';
 import { LoadingSpinner } from '@/components/application/LoadingSpinner';
 import { ErrorState } from '@/components/application/ErrorState';
 import {
@@ -10,18 +20,47 @@ import {
 } from '@/components/application/modals/ExpenseModal';
 import { AddMemberModal } from '@/components/application/modals/AddMemberModal';
 import { DeleteExpenseModal } from '@/components/application/modals/DeleteExpenseModal';
+import { ScanReceiptModal } from '@/components/application/modals/ScanReceiptModal';
+import { ExpenseHistoryDrawer } from '@/components/application/modals/ExpenseHistoryDrawer';
+import { SettleUpList } from '@/components/application/SettleUpList';
+import { InviteLinks } from '@/components/application/InviteLinks';
+import { RecentlyDeletedExpenses } from '@/components/application/RecentlyDeletedExpenses';
+import { DraftExpenses } from '@/components/application/DraftExpenses';
+import type { DraftExpense } from '@/services/expenses';
 import { formatCurrency } from '@/utils/currency';
 import { formatRelativeDate, formatDate } from '@/utils';
 
+const TAB_LABELS = {
+  expenses: 'Expenses',
+  'settle-up': 'Settle up',
+  members: 'Members',
+  settings: 'Settings',
+} as const;
+
+const DEBT_SIMPLIFICATION_OPTIONS: Record<
+  DebtSimplification,
+  { label: string; description: string }
+> = {
+  GREEDY: {
+    label: 'Quick',
+    description: 'Pairs the largest debts first. Works for any group size.',
+  },
+  OPTIMAL: {
+    label: 'Fewest payments',
+    description:
+      'Finds the smallest possible number of payments. Very large groups fall back to the quick method.',
+  },
+};
+
 export function GroupDetail() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const [activeTab, setActiveTab] = useState<
-    'expenses' | 'members' | 'settings'
-  >('expenses');
+  const [activeTab, setActiveTab] =
+    useState<keyof typeof TAB_LABELS>('expenses');
   const [isEditingName, setIsEditingName] = useState(false);
   const [editName, setEditName] = useState('');
   const [isAddExpenseModalOpen, setIsAddExpenseModalOpen] = useState(false);
+  const [isScanModalOpen, setIsScanModalOpen] = useState(false);
   const [isAddMemberModalOpen, setIsAddMemberModalOpen] = useState(false);
   const [expenseToDelete, setExpenseToDelete] = useState<{
     id: string;
@@ -30,6 +69,11 @@ export function GroupDetail() {
     currency: string;
     payer: { name: string };
   } | null>(null);
+  const [expenseForHistory, setExpenseForHistory] = useState<{
+    id: string;
+    description: string;
+    currency: string;
+  } | null>(null);
   const [expenseToEdit, setExpenseToEdit] = useState<{
     id: string;
     description: string;
@@ -42,21 +86,33 @@ export function GroupDetail() {
       name: string;
       photoUrl?: string;
     };
+    payers?: Array<{
+      paidCents: number;
+      user: { id: string; name: string };
+    }>;
     participants: Array<{
       id: string;
       shareCents: number;
+      adjustmentCents?: number | null;
       user: {
         id: string;
         name: string;
         photoUrl?: string;
       };
     }>;
+    splitType?: ExpenseSplitType;
+    items?: ExpenseLineItem[];
+    isDraft?: boolean;
   } | null>(null);
 
   const { data: group, isLoading, error, refetch } = useGroup(id!);
   const updateGroupMutation = useUpdateGroup();
   const deleteGroupMutation = useDeleteGroup();
 
+  const handleReviewDraft = (draft: DraftExpense) => {
+    setExpenseToEdit({ ...draft, isDraft: true });
+  };
+
   const handleUpdateName = async () => {
     if (!id || !editName.trim()) return;
 
@@ -71,11 +127,26 @@ export function GroupDetail() {
     }
   };
 
+  const handleUpdateDebtSimplification = async (
+    debtSimplification: DebtSimplification
+  ) => {
+    if (!id) return;
+
+    try {
+      await updateGroupMutation.mutateAsync({
+        id,
+        data: { debtSimplification },
+      });
+    } catch (error) {
+      console.error('Failed to update debt simplification:', error);
+    }
+  };
+
   const handleDeleteGroup = async () => {
     if (!id) return;
 
     const confirmed = window.confirm(
-      'Are you sure you want to delete this group? This action cannot be undone.'
+      'Are you sure you want to delete this group? You can restore it from the Groups page for 30 days.'
     );
 
     if (confirmed) {
@@ -111,7 +182,7 @@ export function GroupDetail() {
 
   const groupData = group.group;
   const totalExpenses = groupData.expenses.reduce(
-    (sum, exp) => sum + exp.amountCents,
+    (sum, exp) => sum + exp.convertedAmountCents,
     0
   );
   const currentUser = groupData.members.find((m) => m.role === 'OWNER'); // Simplified for demo
@@ -201,6 +272,13 @@ export function GroupDetail() {
             >
               Add Expense
             </Button>
+            <Button
+              color="secondary"
+              size="sm"
+              onClick={() => setIsScanModalOpen(true)}
+            >
+              Scan Receipt
+            </Button>
             {isOwnerOrAdmin && (
               <Button
                 color="primary-destructive"
@@ -247,19 +325,21 @@ export function GroupDetail() {
       <div className="bg-white dark:bg-neutral-800 rounded-lg border border-neutral-200 dark:border-neutral-700">
         <div className="border-b border-neutral-200 dark:border-neutral-700">
           <nav className="flex space-x-8 px-6">
-            {(['expenses', 'members', 'settings'] as const).map((tab) => (
-              <button
-                key={tab}
-                onClick={() => setActiveTab(tab)}
-                className={
-                  activeTab === tab
-                    ? 'py-4 px-1 border-b-2 border-brand-500 text-brand-600 dark:text-brand-400 font-medium text-sm transition-colors'
-                    : 'py-4 px-1 border-b-2 border-transparent text-neutral-500 hover:text-neutral-700 hover:border-neutral-300 dark:text-neutral-400 dark:hover:text-neutral-300 font-medium text-sm transition-colors'
-                }
-              >
-                {tab.charAt(0).toUpperCase() + tab.slice(1)}
-              </button>
-            ))}
+            {(Object.keys(TAB_LABELS) as Array<keyof typeof TAB_LABELS>).map(
+              (tab) => (
+                <button
+                  key={tab}
+                  onClick={() => setActiveTab(tab)}
+                  className={
+                    activeTab === tab
+                      ? 'py-4 px-1 border-b-2 border-brand-500 text-brand-600 dark:text-brand-400 font-medium text-sm transition-colors'
+                      : 'py-4 px-1 border-b-2 border-transparent text-neutral-500 hover:text-neutral-700 hover:border-neutral-300 dark:text-neutral-400 dark:hover:text-neutral-300 font-medium text-sm transition-colors'
+                  }
+                >
+                  {TAB_LABELS[tab]}
+                </button>
+              )
+            )}
           </nav>
         </div>
 
@@ -267,6 +347,7 @@ export function GroupDetail() {
           {/* Expenses Tab */}
           {activeTab === 'expenses' && (
             <div className="space-y-4">
+              <DraftExpenses groupId={id!} onReview={handleReviewDraft} />
               {groupData.expenses.length > 0 ? (
                 <div className="space-y-3">
                   {groupData.expenses.map((expense) => (
@@ -293,14 +374,63 @@ export function GroupDetail() {
                             {expense.description}
                           </div>
                           <div className="text-sm text-neutral-600 dark:text-neutral-400">
-                            Paid by {expense.payer.name} •{' '}
-                            {formatDate(expense.date, 'MMM D, YYYY')}
+                            Paid by{' '}
+                            {expense.payers.length > 1
+                              ? expense.payers
+                                  .map((payer) => payer.user.name)
+                                  .join(' & ')
+                              : expense.payer.name}{' '}
+                            • {formatDate(expense.date, 'MMM D, YYYY')}
                           </div>
                           {expense.category && (
                             <div className="text-xs text-neutral-500 dark:text-neutral-400">
                               {expense.category}
                             </div>
                           )}
+                          {expense.participants
+                            .filter(
+                              (participant) =>
+                                participant.user.id !== expense.payer.id &&
+                                participant.paidBackCents > 0
+                            )
+                            .map((participant) => {
+                              // Settlements are paid in the group currency
+                              const owedCents = convertCents(
+                                participant.shareCents,
+                                expense.exchangeRate
+                              );
+
+                              return (
+                                <div
+                                  key={participant.id}
+                                  className="mt-1 flex items-center gap-2 text-xs text-neutral-500 dark:text-neutral-400"
+                                >
+                                  <div className="w-16 h-1.5 rounded-full bg-neutral-200 dark:bg-neutral-700 overflow-hidden">
+                                    <div
+                                      className="h-full bg-green-500"
+                                      style={{
+                                        width: `${Math.min(
+                                          100,
+                                          (participant.paidBackCents /
+                                            owedCents) *
+                                            100
+                                        )}%`,
+                                      }}
+                                    />
+                                  </div>
+                                  {participant.user.name} paid back{' '}
+                                  {formatCurrency(
+                                    participant.paidBackCents,
+                                    groupData.currency
+                                  )}{' '}
+                                  of{' '}
+                                  {formatCurrency(
+                                    owedCents,
+                                    groupData.currency
+                                  )}
+                                </div>
+                              );
+                            })}
                         </div>
                       </div>
                       <div className="flex items-center gap-3">
@@ -311,78 +441,120 @@ export function GroupDetail() {
                               expense.currency
                             )}
                           </div>
+                          {expense.currency !== groupData.currency && (
+                            <div className="text-xs text-neutral-500 dark:text-neutral-400">
+                              ≈{' '}
+                              {formatCurrency(
+                                expense.convertedAmountCents,
+                                groupData.currency
+                              )}
+                            </div>
+                          )}
                           <div className="text-xs text-neutral-500 dark:text-neutral-400">
                             {expense.participants.length} participant
                             {expense.participants.length !== 1 ? 's' : ''}
                           </div>
                         </div>
-                        {isOwnerOrAdmin && (
-                          <div className="flex gap-1">
-                            <Button
-                              onClick={() =>
-                                setExpenseToEdit({
-                                  id: expense.id,
-                                  description: expense.description,
-                                  amountCents: expense.amountCents,
-                                  currency: expense.currency,
-                                  date: expense.date,
-                                  category: expense.category,
-                                  payer: expense.payer,
-                                  participants: expense.participants,
-                                })
-                              }
-                              color="tertiary"
-                              size="sm"
-                              className="opacity-0 group-hover:opacity-100 text-blue-500 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 hover:bg-blue-50 dark:hover:bg-blue-950"
-                              title="Edit expense"
-                              iconLeading={
-                                <svg
-                                  className="w-4 h-4"
-                                  fill="none"
-                                  viewBox="0 0 24 24"
-                                  stroke="currentColor"
-                                >
-                                  <path
-                                    strokeLinecap="round"
-                                    strokeLinejoin="round"
-                                    strokeWidth={2}
-                                    d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
-                                  />
-                                </svg>
-                              }
-                            />
-                            <Button
-                              onClick={() =>
-                                setExpenseToDelete({
-                                  id: expense.id,
-                                  description: expense.description,
-                                  amountCents: expense.amountCents,
-                                  currency: expense.currency,
-                                  payer: { name: expense.payer.name },
-                                })
-                              }
-                              color="tertiary"
-                              size="sm"
-                              className="opacity-0 group-hover:opacity-100 text-red-500 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300 hover:bg-red-50 dark:hover:bg-red-950"
-                              title="Delete expense"
-                              iconLeading={
-                                <svg
-                                  className="w-4 h-4"
-                                  fill="none"
-                                  viewBox="0 0 24 24"
-                                  stroke="currentColor"
-                                >
-                                  <path
-                                    strokeLinecap="round"
-                                    strokeLinejoin="round"
-                                    strokeWidth={2}
-                                    d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
-                                  />
-                                </svg>
-                              }
-                            />
-                          </div>
-                        )}
+                        <div className="flex gap-1">
+                          <Button
+                            onClick={() =>
+                              setExpenseForHistory({
+                                id: expense.id,
+                                description: expense.description,
+                                currency: expense.currency,
+                              })
+                            }
+                            color="tertiary"
+                            size="sm"
+                            className="opacity-0 group-hover:opacity-100 text-neutral-500 hover:text-neutral-700 dark:text-neutral-400 dark:hover:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-700"
+                            title="Expense history"
+                            iconLeading={
+                              <svg
+                                className="w-4 h-4"
+                                fill="none"
+                                viewBox="0 0 24 24"
+                                stroke="currentColor"
+                              >
+                                <path
+                                  strokeLinecap="round"
+                                  strokeLinejoin="round"
+                                  strokeWidth={2}
+                                  d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
+                                />
+                              </svg>
+                            }
+                          />
+                          {isOwnerOrAdmin && (
+                            <>
+                              <Button
+                                onClick={() =>
+                                  setExpenseToEdit({
+                                    id: expense.id,
+                                    description: expense.description,
+                                    amountCents: expense.amountCents,
+                                    currency: expense.currency,
+                                    date: expense.date,
+                                    category: expense.category,
+                                    payer: expense.payer,
+                                    payers: expense.payers,
+                                    participants: expense.participants,
+                                    splitType: expense.splitType,
+                                    items: expense.items,
+                                  })
+                                }
+                                color="tertiary"
+                                size="sm"
+                                className="opacity-0 group-hover:opacity-100 text-blue-500 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 hover:bg-blue-50 dark:hover:bg-blue-950"
+                                title="Edit expense"
+                                iconLeading={
+                                  <svg
+                                    className="w-4 h-4"
+                                    fill="none"
+                                    viewBox="0 0 24 24"
+                                    stroke="currentColor"
+                                  >
+                                    <path
+                                      strokeLinecap="round"
+                                      strokeLinejoin="round"
+                                      strokeWidth={2}
+                                      d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
+                                    />
+                                  </svg>
+                                }
+                              />
+                              <Button
+                                onClick={() =>
+                                  setExpenseToDelete({
+                                    id: expense.id,
+                                    description: expense.description,
+                                    amountCents: expense.amountCents,
+                                    currency: expense.currency,
+                                    payer: { name: expense.payer.name },
+                                  })
+                                }
+                                color="tertiary"
+                                size="sm"
+                                className="opacity-0 group-hover:opacity-100 text-red-500 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300 hover:bg-red-50 dark:hover:bg-red-950"
+                                title="Delete expense"
+                                iconLeading={
+                                  <svg
+                                    className="w-4 h-4"
+                                    fill="none"
+                                    viewBox="0 0 24 24"
+                                    stroke="currentColor"
+                                  >
+                                    <path
+                                      strokeLinecap="round"
+                                      strokeLinejoin="round"
+                                      strokeWidth={2}
+                                      d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                                    />
+                                  </svg>
+                                }
+                              />
+                            </>
+                          )}
+                        </div>
                       </div>
                     </div>
                   ))}
@@ -409,6 +581,15 @@ export function GroupDetail() {
             </div>
           )}
 
+          {/* Settle Up Tab */}
+          {activeTab === 'settle-up' && (
+            <SettleUpList
+              groupId={id!}
+              groupName={groupData.name}
+              canChangeMode={!!isOwnerOrAdmin}
+            />
+          )}
+
           {/* Members Tab */}
           {activeTab === 'members' && (
             <div className="space-y-4">
@@ -480,6 +661,8 @@ export function GroupDetail() {
                   </div>
                 ))}
               </div>
+
+              {isOwnerOrAdmin && <InviteLinks groupId={id!} />}
             </div>
           )}
 
@@ -532,14 +715,59 @@ export function GroupDetail() {
                     </div>
                   </div>
 
+                  <div className="p-4 border border-neutral-200 dark:border-neutral-600 rounded-lg">
+                    <h4 className="font-medium text-neutral-900 dark:text-neutral-50 mb-2">
+                      Debt Simplification
+                    </h4>
+                    <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-3">
+                      Choose how payments are simplified when Settle up is in
+                      Simplified mode.
+                    </p>
+                    <div className="flex gap-2 mb-2">
+                      {(
+                        Object.keys(
+                          DEBT_SIMPLIFICATION_OPTIONS
+                        ) as DebtSimplification[]
+                      ).map((mode) => (
+                        <Button
+                          key={mode}
+                          color={
+                            groupData.debtSimplification === mode
+                              ? 'primary'
+                              : 'tertiary'
+                          }
+                          size="sm"
+                          isDisabled={
+                            !isOwnerOrAdmin || updateGroupMutation.isPending
+                          }
+                          onClick={() => handleUpdateDebtSimplification(mode)}
+                        >
+                          {DEBT_SIMPLIFICATION_OPTIONS[mode].label}
+                        </Button>
+                      ))}
+                    </div>
+                    <p className="text-xs text-neutral-500 dark:text-neutral-400">
+                      {
+                        DEBT_SIMPLIFICATION_OPTIONS[
+                          groupData.debtSimplification
+                        ]?.description
+                      }
+                    </p>
+                  </div>
+
+                  {isOwnerOrAdmin && (
+                    <RecentlyDeletedExpenses groupId={groupData.id} />
+                  )}
+
                   {isOwnerOrAdmin && (
                     <div className="p-4 border border-red-200 dark:border-red-800 rounded-lg bg-red-50 dark:bg-red-950">
                       <h4 className="font-medium text-red-900 dark:text-red-100 mb-2">
                         Danger Zone
                       </h4>
                       <p className="text-sm text-red-700 dark:text-red-300 mb-3">
-                        Deleting this group will permanently remove all expenses
-                        and member data. This action cannot be undone.
+                        Deleting this group hides it and all of its expenses.
+                        The owner can restore it from the Groups page for 30
+                        days, after which it is removed for good.
                       </p>
                       <Button
                         color="primary-destructive"
@@ -566,6 +794,13 @@ export function GroupDetail() {
         groupCurrency={groupData.currency}
       />
 
+      <ScanReceiptModal
+        isOpen={isScanModalOpen}
+        onClose={() => setIsScanModalOpen(false)}
+        groups={[{ id: id!, name: groupData.name }]}
+        onScanned={handleReviewDraft}
+      />
+
       <AddMemberModal
         isOpen={isAddMemberModalOpen}
         onClose={() => setIsAddMemberModalOpen(false)}
@@ -579,10 +814,18 @@ export function GroupDetail() {
         expense={expenseToDelete}
       />
 
+      <ExpenseHistoryDrawer
+        isOpen={expenseForHistory !== null}
+        onClose={() => setExpenseForHistory(null)}
+        expense={expenseForHistory}
+        groupMembers={groupData.members}
+      />
+
       <EditExpenseModal
         isOpen={expenseToEdit !== null}
         onClose={() => setExpenseToEdit(null)}
         expense={expenseToEdit}
+        isDraft={expenseToEdit?.isDraft}
         groupMembers={groupData.members}
         groupCurrency={groupData.currency}
       />
@@ -1,13 +1,17 @@
 import { useState } from 'react';
-import { Link } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/base/buttons/button';
 import { useGroups, useCreateGroup } from '@/services/groups';
 import { LoadingSpinner } from '@/components/application/LoadingSpinner';
 import { ErrorState } from '@/components/application/ErrorState';
+import { RecentlyDeletedGroups } from '@/components/application/RecentlyDeletedGroups';
+import { ScanReceiptModal } from '@/components/application/modals/ScanReceiptModal';
 import { formatRelativeDate, pluralize } from '@/utils';
 
 export function Groups() {
+  const navigate = useNavigate();
   const [searchQuery, setSearchQuery] = useState('');
+  const [isScanModalOpen, setIsScanModalOpen] = useState(false);
   const { data: groups, isLoading, error, refetch } = useGroups();
   const createGroupMutation = useCreateGroup();
 
@@ -62,13 +66,20 @@ export function Groups() {
               : 'Manage your expense groups'}
           </p>
         </div>
-        <Button
-          color="primary"
-          onClick={handleCreateGroup}
-          isLoading={createGroupMutation.isPending}
-        >
-          Create Group
-        </Button>
+        <div className="flex gap-2">
+          {!!groups?.length && (
+            <Button color="secondary" onClick={() => setIsScanModalOpen(true)}>
+              Scan Receipt
+            </Button>
+          )}
+          <Button
+            color="primary"
+            onClick={handleCreateGroup}
+            isLoading={createGroupMutation.isPending}
+          >
+            Create Group
+          </Button>
+        </div>
       </div>
 
       {/* Search and Filters */}
@@ -176,6 +187,15 @@ export function Groups() {
           </div>
         )}
       </div>
+
+      <RecentlyDeletedGroups />
+
+      <ScanReceiptModal
+        isOpen={isScanModalOpen}
+        onClose={() => setIsScanModalOpen(false)}
+        groups={groups || []}
+        onScanned={(_, groupId) => navigate(`/groups/${groupId}`)}
+      />
     </div>
   );
 }
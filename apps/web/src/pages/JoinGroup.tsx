@@ -0,0 +1,119 @@
+import { useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { useInvitePreview, useAcceptInvite } from '@/services/invites';
+import { Button } from '@/components/base/buttons/button';
+import { LoadingSpinner } from '@/components/application/LoadingSpinner';
+import { formatDate } from '@/utils';
+
+export function JoinGroup() {
+  const { code = '' } = useParams<{ code: string }>();
+  const navigate = useNavigate();
+  const { isAuthenticated, isLoading: isAuthLoading } = useAuth();
+  const { data: invite, isLoading, error } = useInvitePreview(code);
+  const acceptInviteMutation = useAcceptInvite();
+
+  const handleJoin = () => {
+    acceptInviteMutation.mutate(code, {
+      onSuccess: (data) => {
+        navigate(`/groups/${data.group.id}`);
+      },
+    });
+  };
+
+  const handleSignIn = () => {
+    navigate(`/login?redirect=${encodeURIComponent(`/join/${code}`)}`);
+  };
+
+  if (isLoading || isAuthLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  const unavailableReason = !invite
+    ? 'This invite link is invalid.'
+    : invite.status === 'ACCEPTED'
+      ? 'This invite link has already been used.'
+      : invite.status === 'CANCELLED'
+        ? 'This invite link has been cancelled.'
+        : invite.expired
+          ? 'This invite link has expired.'
+          : null;
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-neutral-50 dark:bg-neutral-900 px-4">
+      <div className="w-full max-w-md p-8 bg-white dark:bg-neutral-800 rounded-lg border border-neutral-200 dark:border-neutral-700">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-brand-600 mb-6">Group Pay</h1>
+
+          {error || unavailableReason ? (
+            <>
+              <h2 className="text-2xl font-bold mb-2 text-neutral-900 dark:text-neutral-50">
+                Invite Unavailable
+              </h2>
+              <p className="text-neutral-600 dark:text-neutral-400 mb-6">
+                {unavailableReason ?? 'This invite link is invalid.'} Ask a
+                group admin to send you a new one.
+              </p>
+              <Button
+                onClick={() => navigate(isAuthenticated ? '/groups' : '/')}
+                color="secondary"
+                className="w-full"
+              >
+                {isAuthenticated ? 'Go to Groups' : 'Go to Home'}
+              </Button>
+            </>
+          ) : (
+            invite && (
+              <>
+                <p className="text-neutral-600 dark:text-neutral-400 mb-1">
+                  {invite.invitedBy.name} invited you to join
+                </p>
+                <h2 className="text-2xl font-bold mb-2 text-neutral-900 dark:text-neutral-50">
+                  {invite.group.name}
+                </h2>
+                <p className="text-sm text-neutral-500 dark:text-neutral-400 mb-6">
+                  {invite.group.memberCount} member
+                  {invite.group.memberCount !== 1 ? 's' : ''} •{' '}
+                  {invite.group.currency} • Expires{' '}
+                  {formatDate(invite.expiresAt, 'MMM D, YYYY')}
+                </p>
+
+                {acceptInviteMutation.error && (
+                  <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md">
+                    <p className="text-sm text-red-800 dark:text-red-200">
+                      {acceptInviteMutation.error instanceof Error
+                        ? acceptInviteMutation.error.message
+                        : 'Failed to join group. Please try again.'}
+                    </p>
+                  </div>
+                )}
+
+                {isAuthenticated ? (
+                  <Button
+                    onClick={handleJoin}
+                    isLoading={acceptInviteMutation.isPending}
+                    color="primary"
+                    className="w-full"
+                  >
+                    Join Group
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={handleSignIn}
+                    color="primary"
+                    className="w-full"
+                  >
+                    Sign in to Join
+                  </Button>
+                )}
+              </>
+            )
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '../lib/api';
+import type { ExpenseComment } from '@group-pay/shared';
+
+export interface ExpenseCommentWithAuthor extends ExpenseComment {
+  author: {
+    id: string;
+    name: string;
+    photoUrl?: string | null;
+  };
+}
+
+// API functions
+const commentsApi = {
+  getComments: async (
+    expenseId: string
+  ): Promise<{ comments: ExpenseCommentWithAuthor[] }> => {
+    return api.get(`/api/expenses/${expenseId}/comments`);
+  },
+
+  createComment: async (
+    expenseId: string,
+    body: string
+  ): Promise<{ comment: ExpenseCommentWithAuthor }> => {
+    return api.post(`/api/expenses/${expenseId}/comments`, { body });
+  },
+
+  updateComment: async (
+    expenseId: string,
+    commentId: string,
+    body: string
+  ): Promise<{ comment: ExpenseCommentWithAuthor }> => {
+    return api.put(`/api/expenses/${expenseId}/comments/${commentId}`, {
+      body,
+    });
+  },
+
+  deleteComment: async (
+    expenseId: string,
+    commentId: string
+  ): Promise<{ success: boolean }> => {
+    return api.delete(`/api/expenses/${expenseId}/comments/${commentId}`);
+  },
+};
+
+// React Query hooks
+export function useComments(expenseId: string) {
+  return useQuery({
+    queryKey: ['comments', expenseId],
+    queryFn: () => commentsApi.getComments(expenseId),
+    enabled: !!expenseId,
+    staleTime: 30 * 1000, // 30 seconds
+  });
+}
+
+export function useCreateComment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ expenseId, body }: { expenseId: string; body: string }) =>
+      commentsApi.createComment(expenseId, body),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: ['comments', variables.expenseId],
+      });
+      // Lists show a comment count
+      queryClient.invalidateQueries({ queryKey: ['expenses'] });
+    },
+  });
+}
+
+export function useUpdateComment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      expenseId,
+      commentId,
+      body,
+    }: {
+      expenseId: string;
+      commentId: string;
+      body: string;
+    }) => commentsApi.updateComment(expenseId, commentId, body),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: ['comments', variables.expenseId],
+      });
+    },
+  });
+}
+
+export function useDeleteComment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      expenseId,
+      commentId,
+    }: {
+      expenseId: string;
+      commentId: string;
+    }) => commentsApi.deleteComment(expenseId, commentId),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: ['comments', variables.expenseId],
+      });
+      queryClient.invalidateQueries({ queryKey: ['expenses'] });
+    },
+  });
+}
@@ -8,6 +8,7 @@ export interface GroupBalance {
   totalOwed: number;
   totalLent: number;
   netBalance: number;
+  inFlight: number; // Pending settlements: positive = incoming, negative = outgoing
   currency: string;
 }
 
@@ -15,6 +16,27 @@ interface BalancesResponse {
   balances: GroupBalance[];
 }
 
+export interface CounterpartyBalance {
+  user: {
+    id: string;
+    name: string;
+    photoUrl?: string | null;
+    venmoHandle?: string | null;
+    paypalLink?: string | null;
+  };
+  currency: string;
+  netBalance: number; // Positive = they owe you, Negative = you owe them
+  groups: Array<{
+    groupId: string;
+    groupName: string;
+    netBalance: number;
+  }>;
+}
+
+interface CounterpartyBalancesResponse {
+  counterparties: CounterpartyBalance[];
+}
+
 export interface Settlement {
   id: string;
   groupId: string;
@@ -23,7 +45,12 @@ export interface Settlement {
   amountCents: number;
   method: 'VENMO' | 'PAYPAL' | 'ZELLE' | 'STRIPE_LINK' | 'MARK_ONLY';
   externalRef?: string;
-  status: 'PENDING' | 'CONFIRMED';
+  status: 'PENDING' | 'CONFIRMED' | 'REJECTED' | 'DISPUTED';
+  allocations?: Array<{
+    id: string;
+    expenseId: string;
+    amountCents: number;
+  }>;
   createdAt: string;
   fromUser: {
     id: string;
@@ -58,6 +85,13 @@ const dashboardApi = {
     return response.balances;
   },
 
+  getCounterpartyBalances: async (): Promise<CounterpartyBalance[]> => {
+    const response = await api.get<CounterpartyBalancesResponse>(
+      '/api/users/balances/counterparties'
+    );
+    return response.counterparties;
+  },
+
   getRecentSettlements: async (limit: number = 5): Promise<Settlement[]> => {
     const response = await api.get<SettlementsResponse>(
       `/api/settlements/user?limit=${limit}&offset=0`
@@ -75,6 +109,14 @@ export function useBalances() {
   });
 }
 
+export function useCounterpartyBalances() {
+  return useQuery({
+    queryKey: ['dashboard', 'counterparties'],
+    queryFn: dashboardApi.getCounterpartyBalances,
+    staleTime: 1 * 60 * 1000, // 1 minute
+  });
+}
+
 export function useRecentSettlements(limit: number = 5) {
   return useQuery({
     queryKey: ['dashboard', 'settlements', limit],
@@ -1,18 +1,37 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  useQuery,
+  useInfiniteQuery,
+  useMutation,
+  useQueryClient,
+  keepPreviousData,
+} from '@tanstack/react-query';
 import { api } from '../lib/api';
 import type {
   UpdateExpenseDto,
   Expense,
   ExpenseSplitType,
+  CreateExpenseItemDto,
+  CreateExpensePayerDto,
+  ExpenseRevision,
 } from '@group-pay/shared';
 
 // Extended interfaces for frontend use
 interface ExpenseWithDetails extends Expense {
+  convertedAmountCents: number; // In the group currency
+  commentCount?: number; // Only on list responses
   payer: {
     id: string;
     name: string;
     photoUrl?: string;
   };
+  payers?: Array<{
+    paidCents: number;
+    user: {
+      id: string;
+      name: string;
+      photoUrl?: string;
+    };
+  }>;
   participants: Array<{
     id: string;
     user: {
@@ -33,6 +52,7 @@ interface CreateExpenseRequest {
   category?: string;
   notes?: string;
   payerId: string;
+  payers?: CreateExpensePayerDto[]; // When more than one person paid
   groupId: string;
   splitType: ExpenseSplitType;
   participants: Array<{
@@ -41,12 +61,92 @@ interface CreateExpenseRequest {
     sharePercentage?: number;
     shareCount?: number;
   }>;
+  items?: CreateExpenseItemDto[]; // For itemized splits
+}
+
+export interface ExpenseRevisionWithActor extends ExpenseRevision {
+  actor: {
+    id: string;
+    name: string;
+    photoUrl?: string | null;
+  };
+}
+
+export interface DeletedExpense {
+  id: string;
+  description: string;
+  amountCents: number;
+  currency: string;
+  deletedAt: string;
+  purgeAt: string; // When it can no longer be restored
+  payer: {
+    id: string;
+    name: string;
+    photoUrl?: string | null;
+  };
+}
+
+// A draft made from a scanned receipt, waiting for someone to review it
+export interface DraftExpense {
+  id: string;
+  description: string;
+  amountCents: number;
+  currency: string;
+  convertedAmountCents: number; // In the group currency
+  date: string;
+  category?: string;
+  splitType: ExpenseSplitType;
+  createdAt: string;
+  payer: {
+    id: string;
+    name: string;
+    photoUrl?: string;
+  };
+  payers: Array<{
+    paidCents: number;
+    user: { id: string; name: string };
+  }>;
+  participants: Array<{
+    id: string;
+    shareCents: number;
+    adjustmentCents?: number | null;
+    user: {
+      id: string;
+      name: string;
+      photoUrl?: string;
+    };
+  }>;
 }
 
 interface CreateExpenseResponse {
   expense: ExpenseWithDetails;
 }
 
+export interface ExpenseSearchFilters {
+  q?: string; // Every word must appear in the description or notes
+  groupId?: string;
+  category?: string;
+  payerId?: string;
+  participantId?: string;
+  dateFrom?: string; // YYYY-MM-DD
+  dateTo?: string; // YYYY-MM-DD, inclusive
+  minAmountCents?: number;
+  maxAmountCents?: number;
+}
+
+export interface ExpenseSearchResult {
+  expenses: ExpenseWithDetails[];
+  nextCursor: string | null;
+  total: number;
+  facets: {
+    categories: Array<{ category: string | null; count: number }>;
+    payers: Array<{
+      user: { id: string; name: string; photoUrl?: string | null };
+      count: number;
+    }>;
+  };
+}
+
 // API functions
 const expensesApi = {
   getExpenses: async (groupId?: string): Promise<ExpenseWithDetails[]> => {
@@ -63,9 +163,27 @@ const expensesApi = {
     }
   },
 
+  searchExpenses: (
+    filters: ExpenseSearchFilters,
+    cursor?: string
+  ): Promise<ExpenseSearchResult> => {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries({ ...filters, cursor })) {
+      if (value !== undefined && value !== '') {
+        params.set(key, String(value));
+      }
+    }
+    return api.get(`/api/expenses/search?${params}`);
+  },
+
   getExpense: (id: string): Promise<{ expense: ExpenseWithDetails }> =>
     api.get(`/api/expenses/${id}`),
 
+  getExpenseHistory: (
+    id: string
+  ): Promise<{ revisions: ExpenseRevisionWithActor[] }> =>
+    api.get(`/api/expenses/${id}/history`),
+
   createExpense: async (
     data: CreateExpenseRequest
   ): Promise<CreateExpenseResponse> => {
@@ -90,6 +208,20 @@ const expensesApi = {
 
   deleteExpense: (id: string): Promise<void> =>
     api.delete(`/api/expenses/${id}`),
+
+  getDeletedExpenses: (
+    groupId: string
+  ): Promise<{ expenses: DeletedExpense[] }> =>
+    api.get(`/api/expenses/group/${groupId}/deleted`),
+
+  restoreExpense: (id: string): Promise<{ success: boolean }> =>
+    api.post(`/api/expenses/${id}/restore`),
+
+  getDraftExpenses: (groupId: string): Promise<{ expenses: DraftExpense[] }> =>
+    api.get(`/api/expenses/group/${groupId}/drafts`),
+
+  confirmExpense: (id: string): Promise<{ success: boolean }> =>
+    api.post(`/api/expenses/${id}/confirm`),
 };
 
 // React Query hooks
@@ -101,6 +233,18 @@ export function useExpenses(groupId?: string) {
   });
 }
 
+export function useExpenseSearch(filters: ExpenseSearchFilters) {
+  return useInfiniteQuery({
+    queryKey: ['expenses', 'search', filters],
+    queryFn: ({ pageParam }) => expensesApi.searchExpenses(filters, pageParam),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    // Keep showing the last results while a new search loads
+    placeholderData: keepPreviousData,
+    staleTime: 1 * 60 * 1000, // 1 minute
+  });
+}
+
 export function useExpense(id: string) {
   return useQuery({
     queryKey: ['expenses', id],
@@ -110,6 +254,14 @@ export function useExpense(id: string) {
   });
 }
 
+export function useExpenseHistory(id: string) {
+  return useQuery({
+    queryKey: ['expenses', id, 'history'],
+    queryFn: () => expensesApi.getExpenseHistory(id),
+    enabled: !!id,
+  });
+}
+
 export function useCreateExpense() {
   const queryClient = useQueryClient();
 
@@ -147,6 +299,7 @@ export function useCreateExpense() {
             category: newExpense.category,
             date: newExpense.date.toISOString(),
             payer: newExpense.payer,
+            payers: newExpense.payers,
             participants: newExpense.participants,
             createdAt: newExpense.createdAt.toISOString(),
           };
@@ -164,6 +317,7 @@ export function useCreateExpense() {
       queryClient.invalidateQueries({
         queryKey: ['groups', variables.groupId],
       });
+      queryClient.invalidateQueries({ queryKey: ['expenses', 'search'] });
     },
   });
 }
@@ -189,6 +343,8 @@ export function useUpdateExpense() {
       };
 
       queryClient.setQueryData(['expenses'], updateExpenseInList);
+      queryClient.invalidateQueries({ queryKey: ['expenses', 'search'] });
+      queryClient.invalidateQueries({ queryKey: ['expenses', 'drafts'] });
 
       // Update group-specific expense lists
       queryClient
@@ -241,6 +397,51 @@ export function useDeleteExpense() {
 
       // Invalidate group caches to ensure consistency
       queryClient.invalidateQueries({ queryKey: ['groups'] });
+      queryClient.invalidateQueries({ queryKey: ['expenses', 'deleted'] });
+      queryClient.invalidateQueries({ queryKey: ['expenses', 'drafts'] });
+      queryClient.invalidateQueries({ queryKey: ['expenses', 'search'] });
+    },
+  });
+}
+
+export function useDeletedExpenses(groupId: string, enabled = true) {
+  return useQuery({
+    queryKey: ['expenses', 'deleted', groupId],
+    queryFn: () => expensesApi.getDeletedExpenses(groupId),
+    enabled: enabled && !!groupId,
+  });
+}
+
+export function useRestoreExpense() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: expensesApi.restoreExpense,
+    onSuccess: () => {
+      // The expense is back in the lists and balances
+      queryClient.invalidateQueries({ queryKey: ['expenses'] });
+      queryClient.invalidateQueries({ queryKey: ['groups'] });
+    },
+  });
+}
+
+export function useDraftExpenses(groupId: string) {
+  return useQuery({
+    queryKey: ['expenses', 'drafts', groupId],
+    queryFn: () => expensesApi.getDraftExpenses(groupId),
+    enabled: !!groupId,
+  });
+}
+
+export function useConfirmExpense() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: expensesApi.confirmExpense,
+    onSuccess: () => {
+      // The expense now counts towards the lists and balances
+      queryClient.invalidateQueries({ queryKey: ['expenses'] });
+      queryClient.invalidateQueries({ queryKey: ['groups'] });
     },
   });
 }
@@ -1,4 +1,5 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { DebtSimplification, ExpenseSplitType } from '@group-pay/shared';
 import { api } from '../lib/api';
 
 // Types
@@ -7,6 +8,8 @@ interface Group {
   name: string;
   description?: string;
   currency: string;
+  simplifyDebts: boolean;
+  debtSimplification: DebtSimplification;
   createdBy: string;
   createdAt: string;
   updatedAt: string;
@@ -34,21 +37,42 @@ interface GroupMember {
   };
 }
 
+export interface ExpenseLineItem {
+  id?: string;
+  description: string;
+  amountCents: number;
+  userIds: string[];
+}
+
 interface GroupExpense {
   id: string;
   description: string;
   amountCents: number;
   currency: string;
+  exchangeRate: number;
+  convertedAmountCents: number; // In the group currency
   category?: string;
   date: string;
+  splitType: ExpenseSplitType;
+  items: ExpenseLineItem[]; // Only for itemized splits
   payer: {
     id: string;
     name: string;
     photoUrl?: string;
   };
+  payers: Array<{
+    paidCents: number;
+    user: {
+      id: string;
+      name: string;
+      photoUrl?: string;
+    };
+  }>;
   participants: Array<{
     id: string;
     shareCents: number;
+    adjustmentCents: number | null; // Only for adjustment splits
+    paidBackCents: number; // From confirmed settlements allocated to this expense
     user: {
       id: string;
       name: string;
@@ -62,6 +86,8 @@ interface GroupDetail {
   id: string;
   name: string;
   currency: string;
+  simplifyDebts: boolean;
+  debtSimplification: DebtSimplification;
   createdAt: string;
   members: GroupMember[];
   expenses: GroupExpense[];
@@ -87,6 +113,8 @@ interface UpdateGroupRequest {
   name?: string;
   description?: string;
   currency?: string;
+  simplifyDebts?: boolean;
+  debtSimplification?: DebtSimplification;
 }
 
 interface AddMemberRequest {
@@ -107,6 +135,36 @@ interface AddMemberResponse {
   };
 }
 
+export interface DeletedGroup {
+  id: string;
+  name: string;
+  currency: string;
+  deletedAt: string;
+  purgeAt: string; // When it can no longer be restored
+}
+
+interface SettleUpUser {
+  id: string;
+  name: string;
+  email: string;
+  photoUrl?: string | null;
+  venmoHandle?: string | null;
+  paypalLink?: string | null;
+}
+
+interface SettleUpTransfer {
+  amountCents: number;
+  from: SettleUpUser;
+  to: SettleUpUser;
+}
+
+interface SettleUpResponse {
+  currency: string;
+  simplifyDebts: boolean;
+  debtSimplification: DebtSimplification;
+  transfers: SettleUpTransfer[];
+}
+
 // API functions
 const groupsApi = {
   getGroups: async (): Promise<GroupListItem[]> => {
@@ -137,6 +195,19 @@ const groupsApi = {
 
   deleteGroup: (id: string): Promise<void> => api.delete(`/api/groups/${id}`),
 
+  getDeletedGroups: async (): Promise<DeletedGroup[]> => {
+    const response = await api.get<{ groups: DeletedGroup[] }>(
+      '/api/groups/deleted'
+    );
+    return response.groups;
+  },
+
+  restoreGroup: (id: string): Promise<{ success: boolean }> =>
+    api.post(`/api/groups/${id}/restore`),
+
+  getSettleUp: (id: string): Promise<SettleUpResponse> =>
+    api.get(`/api/groups/${id}/settle-up`),
+
   addMember: async (
     groupId: string,
     data: AddMemberRequest
@@ -167,6 +238,15 @@ export function useGroup(id: string) {
   });
 }
 
+export function useSettleUp(groupId: string) {
+  return useQuery({
+    queryKey: ['groups', groupId, 'settle-up'],
+    queryFn: () => groupsApi.getSettleUp(groupId),
+    enabled: !!groupId,
+    staleTime: 1 * 60 * 1000, // 1 minute
+  });
+}
+
 export function useCreateGroup() {
   const queryClient = useQueryClient();
 
@@ -196,6 +276,8 @@ export function useCreateGroup() {
         id: newGroup.id,
         name: newGroup.name,
         currency: newGroup.currency,
+        simplifyDebts: true, // New groups use the default settings
+        debtSimplification: 'GREEDY',
         createdAt: newGroup.createdAt,
         members: [],
         expenses: [],
@@ -241,6 +323,9 @@ export function useUpdateGroup() {
             : group
         );
       });
+
+      // Suggested payments depend on the simplification settings
+      queryClient.invalidateQueries({ queryKey: ['groups', id, 'settle-up'] });
     },
   });
 }
@@ -258,6 +343,26 @@ export function useDeleteGroup() {
 
       // Remove individual group cache
       queryClient.removeQueries({ queryKey: ['groups', deletedId] });
+      queryClient.invalidateQueries({ queryKey: ['groups', 'deleted'] });
+    },
+  });
+}
+
+export function useDeletedGroups() {
+  return useQuery({
+    queryKey: ['groups', 'deleted'],
+    queryFn: groupsApi.getDeletedGroups,
+  });
+}
+
+export function useRestoreGroup() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: groupsApi.restoreGroup,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['groups'] });
+      queryClient.invalidateQueries({ queryKey: ['expenses'] });
     },
   });
 }
@@ -0,0 +1,161 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { api } from '../lib/api';
+
+// Types
+export interface Invite {
+  id: string;
+  groupId: string;
+  code: string;
+  status: 'PENDING' | 'ACCEPTED' | 'CANCELLED';
+  expiresAt: string;
+  createdAt: string;
+  creator: {
+    id: string;
+    name: string;
+  };
+}
+
+interface CreateInviteRequest {
+  expiresInDays?: number;
+}
+
+export interface InvitePreview {
+  code: string;
+  status: 'PENDING' | 'ACCEPTED' | 'CANCELLED';
+  expiresAt: string;
+  expired: boolean;
+  invitedBy: {
+    name: string;
+  };
+  group: {
+    id: string;
+    name: string;
+    currency: string;
+    memberCount: number;
+  };
+}
+
+interface AcceptInviteResponse {
+  group: {
+    id: string;
+    name: string;
+    currency: string;
+  };
+  membership: {
+    id: string;
+    role: string;
+    joinedAt: string;
+  };
+}
+
+// API functions
+const invitesApi = {
+  getGroupInvites: async (groupId: string): Promise<Invite[]> => {
+    const response = await api.get<{ invites: Invite[] }>(
+      `/api/groups/${groupId}/invites`
+    );
+    return response.invites;
+  },
+
+  createInvite: async (
+    groupId: string,
+    data: CreateInviteRequest = {}
+  ): Promise<Invite> => {
+    const response = await api.post<{ invite: Invite }>(
+      `/api/groups/${groupId}/invites`,
+      data
+    );
+    return response.invite;
+  },
+
+  cancelInvite: (groupId: string, inviteId: string): Promise<void> =>
+    api.delete(`/api/groups/${groupId}/invites/${inviteId}`),
+
+  getInvite: async (code: string): Promise<InvitePreview> => {
+    const response = await api.get<{ invite: InvitePreview }>(
+      `/api/invites/${code}`,
+      { requiresAuth: false }
+    );
+    return response.invite;
+  },
+
+  acceptInvite: (code: string): Promise<AcceptInviteResponse> =>
+    api.post(`/api/invites/${code}/accept`),
+};
+
+/**
+ * Build the shareable join link for an invite code
+ */
+export function getInviteUrl(code: string): string {
+  return `${window.location.origin}/join/${code}`;
+}
+
+// React Query hooks
+export function useGroupInvites(groupId: string, enabled = true) {
+  return useQuery({
+    queryKey: ['groups', groupId, 'invites'],
+    queryFn: () => invitesApi.getGroupInvites(groupId),
+    enabled: !!groupId && enabled,
+    staleTime: 1 * 60 * 1000, // 1 minute
+  });
+}
+
+export function useCreateInvite() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      groupId,
+      data,
+    }: {
+      groupId: string;
+      data?: CreateInviteRequest;
+    }) => invitesApi.createInvite(groupId, data),
+    onSuccess: (_invite, { groupId }) => {
+      queryClient.invalidateQueries({
+        queryKey: ['groups', groupId, 'invites'],
+      });
+    },
+  });
+}
+
+export function useCancelInvite() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      groupId,
+      inviteId,
+    }: {
+      groupId: string;
+      inviteId: string;
+    }) => invitesApi.cancelInvite(groupId, inviteId),
+    onSuccess: (_data, { groupId }) => {
+      queryClient.invalidateQueries({
+        queryKey: ['groups', groupId, 'invites'],
+      });
+    },
+  });
+}
+
+export function useInvitePreview(code: string) {
+  return useQuery({
+    queryKey: ['invites', code],
+    queryFn: () => invitesApi.getInvite(code),
+    enabled: !!code,
+    retry: false,
+  });
+}
+
+export function useAcceptInvite() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: invitesApi.acceptInvite,
+    onSuccess: (_data, code) => {
+      queryClient.invalidateQueries({ queryKey: ['groups'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard'] });
+      queryClient.invalidateQueries({ queryKey: ['invites', code] });
+    },
+  });
+}
@@ -1,9 +1,19 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { api } from '../lib/api';
 import type { Receipt } from '@group-pay/shared';
+import type { DraftExpense } from './expenses';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
 
+// Receipts are read in the background after upload. Stop waiting after a
+// few minutes in case the job was lost, e.g. to a server restart.
+function isReadingReceipt(receipt: Receipt): boolean {
+  return (
+    ['PENDING', 'PROCESSING'].includes(receipt.ocrStatus) &&
+    Date.now() - new Date(receipt.createdAt).getTime() < 5 * 60 * 1000
+  );
+}
+
 // API functions
 const receiptsApi = {
   uploadReceipt: async (
@@ -32,6 +42,32 @@ const receiptsApi = {
     return response.json();
   },
 
+  scanReceipt: async (
+    groupId: string,
+    file: File
+  ): Promise<{ expense: DraftExpense; receipt: Receipt }> => {
+    const formData = new FormData();
+    formData.append('file', file);
+
+    const response = await fetch(
+      `${API_BASE_URL}/api/groups/${groupId}/receipts/draft`,
+      {
+        method: 'POST',
+        credentials: 'include',
+        body: formData,
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response
+        .json()
+        .catch(() => ({ message: 'Scan failed' }));
+      throw new Error(error.message || 'Scan failed');
+    }
+
+    return response.json();
+  },
+
   getReceipts: async (expenseId: string): Promise<{ receipts: Receipt[] }> => {
     return api.get(`/api/expenses/${expenseId}/receipts`);
   },
@@ -52,6 +88,11 @@ export function useReceipts(expenseId: string) {
     queryFn: () => receiptsApi.getReceipts(expenseId),
     enabled: !!expenseId,
     staleTime: 1 * 60 * 1000, // 1 minute
+    // Poll while a receipt is being read; signed file links expire after an hour
+    refetchInterval: (query) =>
+      query.state.data?.receipts.some(isReadingReceipt)
+        ? 3 * 1000
+        : 30 * 60 * 1000,
   });
 }
 
@@ -61,6 +102,7 @@ export function useReceipt(receiptId: string) {
     queryFn: () => receiptsApi.getReceipt(receiptId),
     enabled: !!receiptId,
     staleTime: 1 * 60 * 1000, // 1 minute
+    refetchInterval: 30 * 60 * 1000, // Signed file links expire after an hour
   });
 }
 
@@ -89,6 +131,23 @@ export function useUploadReceipt() {
   });
 }
 
+export function useScanReceipt() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ groupId, file }: { groupId: string; file: File }) =>
+      receiptsApi.scanReceipt(groupId, file),
+    onSuccess: (response, variables) => {
+      queryClient.setQueryData(['receipts', response.expense.id], {
+        receipts: [response.receipt],
+      });
+      queryClient.invalidateQueries({
+        queryKey: ['expenses', 'drafts', variables.groupId],
+      });
+    },
+  });
+}
+
 export function useDeleteReceipt() {
   const queryClient = useQueryClient();
 
@@ -0,0 +1,37 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import type { CreateSettlementDto } from '@group-pay/shared';
+import { api } from '../lib/api';
+import type { Settlement } from './dashboard';
+
+// API functions
+const settlementsApi = {
+  createSettlement: async (
+    groupId: string,
+    data: CreateSettlementDto
+  ): Promise<Settlement> => {
+    const response = await api.post<{ settlement: Settlement }>(
+      `/api/settlements?groupId=${groupId}`,
+      data
+    );
+    return response.settlement;
+  },
+};
+
+// React Query hooks
+export function useCreateSettlement() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      groupId,
+      data,
+    }: {
+      groupId: string;
+      data: CreateSettlementDto;
+    }) => settlementsApi.createSettlement(groupId, data),
+    onSuccess: (_settlement, { groupId }) => {
+      queryClient.invalidateQueries({ queryKey: ['groups', groupId] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard'] });
+    },
+  });
+}
@@ -6,14 +6,22 @@ export * from './schemas/settlement';
 export * from './schemas/invite';
 export * from './schemas/receipt';
 export * from './schemas/verification';
+export * from './schemas/exchangeRate';
+export * from './schemas/recurring';
+export * from './schemas/comment';
 
 // Export utilities
+export * from './utils/allocate';
 export * from './utils/currency';
 export * from './utils/splits';
 export * from './utils/balances';
 export * from './utils/smartSplits';
 export * from './utils/validation';
 export * from './utils/receipts';
+export * from './utils/payments';
+export * from './utils/recurring';
+export * from './utils/expenseHistory';
+export * from './utils/softDelete';
 
 // Export error types
 export * from './types/errors';
@@ -0,0 +1,26 @@
+import { z } from 'zod';
+
+export const ExpenseCommentSchema = z.object({
+  id: z.string().uuid(),
+  expenseId: z.string().uuid(),
+  authorId: z.string().uuid(),
+  body: z.string().min(1).max(2000),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export const CreateExpenseCommentSchema = z.object({
+  body: z.string().trim().min(1).max(2000),
+});
+
+export const UpdateExpenseCommentSchema = z.object({
+  body: z.string().trim().min(1).max(2000),
+});
+
+export type ExpenseComment = z.infer<typeof ExpenseCommentSchema>;
+export type CreateExpenseCommentDto = z.infer<
+  typeof CreateExpenseCommentSchema
+>;
+export type UpdateExpenseCommentDto = z.infer<
+  typeof UpdateExpenseCommentSchema
+>;
@@ -0,0 +1,26 @@
+import { z } from 'zod';
+
+// Rates only come in from rates files, through the db:import-rates script
+export const ExchangeRateSourceSchema = z.enum(['IMPORT']);
+
+// One unit of baseCurrency is worth `rate` units of quoteCurrency
+export const ExchangeRateSchema = z.object({
+  id: z.string().uuid(),
+  baseCurrency: z.string().length(3), // ISO 4217
+  quoteCurrency: z.string().length(3), // ISO 4217
+  rate: z.number().positive(),
+  source: ExchangeRateSourceSchema,
+  effectiveAt: z.date(),
+  createdAt: z.date(),
+});
+
+// Rates file format: { "base": "USD", "date": "2025-01-31", "rates": { "EUR": 0.92 } }
+export const ExchangeRatesFileSchema = z.object({
+  base: z.string().length(3),
+  date: z.coerce.date().optional(),
+  rates: z.record(z.string().length(3), z.number().positive()),
+});
+
+export type ExchangeRate = z.infer<typeof ExchangeRateSchema>;
+export type ExchangeRateSource = z.infer<typeof ExchangeRateSourceSchema>;
+export type ExchangeRatesFile = z.infer<typeof ExchangeRatesFileSchema>;
@@ -5,26 +5,62 @@ export const ExpenseSplitTypeSchema = z.enum([
   'PERCENTAGE',
   'SHARES',
   'EXACT',
+  'ITEMIZED',
+  'ADJUSTMENT',
 ]);
 
+// A line item on an itemized expense, shared equally by its users
+export const ExpenseItemSchema = z.object({
+  id: z.string().uuid(),
+  expenseId: z.string().uuid(),
+  description: z.string().min(1).max(200),
+  amountCents: z.number().int().min(1),
+  userIds: z.array(z.string().uuid()).min(1),
+  position: z.number().int().min(0),
+});
+
+export const CreateExpenseItemSchema = z.object({
+  description: z.string().min(1).max(200),
+  amountCents: z.number().int().min(1),
+  userIds: z.array(z.string().uuid()).min(1),
+});
+
 export const ExpenseParticipantSchema = z.object({
   id: z.string().uuid(),
   expenseId: z.string().uuid(),
   userId: z.string().uuid(),
   shareCents: z.number().int().min(0),
+  adjustmentCents: z.number().int().nullable().optional(), // Set for adjustment splits
+});
+
+// How much one person put towards an expense; an expense's payers add up to
+// its amount
+export const ExpensePayerSchema = z.object({
+  id: z.string().uuid(),
+  expenseId: z.string().uuid(),
+  userId: z.string().uuid(),
+  paidCents: z.number().int().min(1),
+});
+
+export const CreateExpensePayerSchema = z.object({
+  userId: z.string().uuid(),
+  paidCents: z.number().int().min(1),
 });
 
 export const ExpenseSchema = z.object({
   id: z.string().uuid(),
   groupId: z.string().uuid(),
-  payerId: z.string().uuid(),
+  payerId: z.string().uuid(), // Primary payer; one of the payers when several people paid
   description: z.string().min(1).max(200),
   amountCents: z.number().int().min(1),
   currency: z.string().length(3),
+  exchangeRate: z.number().positive(), // Snapshot: 1 unit of currency in the group currency
   date: z.date(),
   category: z.string().max(50).nullable(),
   notes: z.string().max(500).nullable(),
   createdAt: z.date(),
+  deletedAt: z.date().nullable().optional(), // Set while in the recently deleted list
+  isDraft: z.boolean().optional(), // Scanned from a receipt, left out of balances until confirmed
 });
 
 export const CreateExpenseParticipantSchema = z.object({
@@ -32,6 +68,7 @@ export const CreateExpenseParticipantSchema = z.object({
   shareCents: z.number().int().min(0).optional(), // Optional for equal splits
   sharePercentage: z.number().min(0).max(100).optional(), // For percentage splits
   shareCount: z.number().int().min(1).optional(), // For share-based splits
+  adjustmentCents: z.number().int().optional(), // For adjustment splits; + pays more, - pays less
 });
 
 export const CreateExpenseSchema = z.object({
@@ -42,8 +79,10 @@ export const CreateExpenseSchema = z.object({
   category: z.string().max(50).nullable().optional(),
   notes: z.string().max(500).nullable().optional(),
   payerId: z.string().uuid(),
+  payers: z.array(CreateExpensePayerSchema).min(1).optional(), // When more than one person paid; must include payerId
   splitType: ExpenseSplitTypeSchema,
   participants: z.array(CreateExpenseParticipantSchema).min(1),
+  items: z.array(CreateExpenseItemSchema).min(1).optional(), // For itemized splits
 });
 
 export const UpdateExpenseSchema = z.object({
@@ -53,15 +92,68 @@ export const UpdateExpenseSchema = z.object({
   category: z.string().max(50).nullable().optional(),
   notes: z.string().max(500).nullable().optional(),
   payerId: z.string().uuid().optional(),
+  payers: z.array(CreateExpensePayerSchema).min(1).optional(),
   splitType: ExpenseSplitTypeSchema.optional(),
   participants: z.array(CreateExpenseParticipantSchema).min(1).optional(),
+  items: z.array(CreateExpenseItemSchema).min(1).optional(),
+});
+
+export const ExpenseRevisionActionSchema = z.enum([
+  'CREATE',
+  'UPDATE',
+  'DELETE',
+  'RESTORE',
+  'CONFIRM', // A draft was reviewed and now counts
+]);
+
+// The parts of an expense its history tracks
+export const ExpenseSnapshotSchema = z.object({
+  description: z.string(),
+  amountCents: z.number().int(),
+  currency: z.string().length(3),
+  date: z.string(), // ISO 8601
+  category: z.string().nullable(),
+  notes: z.string().nullable(),
+  payerId: z.string().uuid(),
+  payers: z.record(z.string().uuid(), z.number().int()), // userId -> paidCents
+  splitType: ExpenseSplitTypeSchema,
+  shares: z.record(z.string().uuid(), z.number().int()), // userId -> shareCents
+  items: z.array(CreateExpenseItemSchema),
+});
+
+// Old and new value of each field a revision touched; null on the side of a
+// create or delete where the expense didn't exist
+export const ExpenseRevisionChangesSchema = z.record(
+  z.string(),
+  z.object({ from: z.unknown(), to: z.unknown() })
+);
+
+// One entry in an expense's append-only edit history
+export const ExpenseRevisionSchema = z.object({
+  id: z.string().uuid(),
+  expenseId: z.string().uuid(),
+  groupId: z.string().uuid(),
+  actorId: z.string().uuid(),
+  action: ExpenseRevisionActionSchema,
+  changes: ExpenseRevisionChangesSchema,
+  createdAt: z.date(),
 });
 
 export type Expense = z.infer<typeof ExpenseSchema>;
 export type ExpenseParticipant = z.infer<typeof ExpenseParticipantSchema>;
+export type ExpensePayer = z.infer<typeof ExpensePayerSchema>;
 export type ExpenseSplitType = z.infer<typeof ExpenseSplitTypeSchema>;
+export type ExpenseItem = z.infer<typeof ExpenseItemSchema>;
+export type CreateExpenseItemDto = z.infer<typeof CreateExpenseItemSchema>;
 export type CreateExpenseDto = z.infer<typeof CreateExpenseSchema>;
 export type CreateExpenseParticipantDto = z.infer<
   typeof CreateExpenseParticipantSchema
 >;
+export type CreateExpensePayerDto = z.infer<typeof CreateExpensePayerSchema>;
 export type UpdateExpenseDto = z.infer<typeof UpdateExpenseSchema>;
+export type ExpenseRevisionAction = z.infer<typeof ExpenseRevisionActionSchema>;
+export type ExpenseSnapshot = z.infer<typeof ExpenseSnapshotSchema>;
+export type ExpenseRevisionChanges = z.infer<
+  typeof ExpenseRevisionChangesSchema
+>;
+export type ExpenseRevision = z.infer<typeof ExpenseRevisionSchema>;
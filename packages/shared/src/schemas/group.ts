@@ -2,12 +2,18 @@ import { z } from 'zod';
 
 export const GroupMemberRoleSchema = z.enum(['OWNER', 'ADMIN', 'MEMBER']);
 
+// How suggested settle-up payments are computed for a group
+export const DebtSimplificationSchema = z.enum(['GREEDY', 'OPTIMAL']);
+
 export const GroupSchema = z.object({
   id: z.string().uuid(),
   ownerId: z.string().uuid(),
   name: z.string().min(1).max(100),
   currency: z.string().length(3), // ISO 4217
+  simplifyDebts: z.boolean(),
+  debtSimplification: DebtSimplificationSchema,
   createdAt: z.date(),
+  deletedAt: z.date().nullable().optional(), // Set while in the recently deleted list
 });
 
 export const GroupMemberSchema = z.object({
@@ -26,10 +32,13 @@ export const CreateGroupSchema = z.object({
 export const UpdateGroupSchema = z.object({
   name: z.string().min(1).max(100).optional(),
   currency: z.string().length(3).optional(),
+  simplifyDebts: z.boolean().optional(),
+  debtSimplification: DebtSimplificationSchema.optional(),
 });
 
 export type Group = z.infer<typeof GroupSchema>;
 export type GroupMember = z.infer<typeof GroupMemberSchema>;
 export type GroupMemberRole = z.infer<typeof GroupMemberRoleSchema>;
+export type DebtSimplification = z.infer<typeof DebtSimplificationSchema>;
 export type CreateGroupDto = z.infer<typeof CreateGroupSchema>;
-export type UpdateGroupDto = z.infer<typeof UpdateGroupSchema>;
\ No newline at end of file
+export type UpdateGroupDto = z.infer<typeof UpdateGroupSchema>;
@@ -13,16 +13,9 @@ export const InviteSchema = z.object({
 });
 
 export const CreateInviteSchema = z.object({
-  expiresAt: z
-    .date()
-    .optional()
-    .default(() => {
-      const date = new Date();
-      date.setDate(date.getDate() + 7); // Default 7 days
-      return date;
-    }),
+  expiresInDays: z.number().int().min(1).max(30).default(7),
 });
 
 export type Invite = z.infer<typeof InviteSchema>;
 export type InviteStatus = z.infer<typeof InviteStatusSchema>;
-export type CreateInviteDto = z.infer<typeof CreateInviteSchema>;
\ No newline at end of file
+export type CreateInviteDto = z.infer<typeof CreateInviteSchema>;
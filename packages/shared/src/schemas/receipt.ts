@@ -1,13 +1,41 @@
 import { z } from 'zod';
 
+export const ReceiptOcrStatusSchema = z.enum([
+  'PENDING',
+  'PROCESSING',
+  'COMPLETED',
+  'FAILED',
+  'SKIPPED', // The recognizer can't read this file type
+]);
+
+// ParsedReceiptData as stored on the receipt; amounts are in cents
+export const ParsedReceiptDataSchema = z.object({
+  merchantName: z.string().optional(),
+  totalAmount: z.number().int().optional(),
+  date: z.coerce.date().optional(),
+  items: z
+    .array(
+      z.object({
+        description: z.string(),
+        amount: z.number().int(),
+      })
+    )
+    .optional(),
+  confidence: z.number().min(0).max(1),
+});
+
 export const ReceiptSchema = z.object({
   id: z.string().uuid(),
   expenseId: z.string().uuid(),
   fileUrl: z.string(), // Can be URL or path
+  thumbnailUrl: z.string().nullable(), // Only for images
   mimeType: z.string(),
   filename: z.string().nullable(),
   fileSize: z.number().int().nullable(),
+  ocrStatus: ReceiptOcrStatusSchema,
+  ocrData: ParsedReceiptDataSchema.nullable(),
   createdAt: z.coerce.date(), // Accepts both string and Date
 });
 
 export type Receipt = z.infer<typeof ReceiptSchema>;
+export type ReceiptOcrStatus = z.infer<typeof ReceiptOcrStatusSchema>;
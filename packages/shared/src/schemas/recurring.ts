@@ -0,0 +1,79 @@
+import { z } from 'zod';
+import {
+  CreateExpenseParticipantSchema,
+  ExpenseSplitTypeSchema,
+} from './expense';
+
+export const RecurrenceCadenceSchema = z.enum([
+  'DAILY',
+  'WEEKLY',
+  'MONTHLY',
+  'YEARLY',
+]);
+
+// Line items don't carry over between occurrences, so templates can't be
+// itemized
+export const RecurringSplitTypeSchema = ExpenseSplitTypeSchema.exclude([
+  'ITEMIZED',
+]);
+
+export const RecurringExpenseSchema = z.object({
+  id: z.string().uuid(),
+  groupId: z.string().uuid(),
+  createdById: z.string().uuid(),
+  payerId: z.string().uuid(),
+  description: z.string().min(1).max(200),
+  amountCents: z.number().int().min(1),
+  currency: z.string().length(3),
+  category: z.string().max(50).nullable(),
+  notes: z.string().max(500).nullable(),
+  splitType: RecurringSplitTypeSchema,
+  cadence: RecurrenceCadenceSchema,
+  interval: z.number().int().min(1).max(365), // Every N days/weeks/months/years
+  startDate: z.date(),
+  endDate: z.date().nullable(),
+  nextRunAt: z.date(),
+  lastRunAt: z.date().nullable(),
+  isActive: z.boolean(),
+  createdAt: z.date(),
+});
+
+export const CreateRecurringExpenseSchema = z.object({
+  description: z.string().min(1).max(200),
+  amountCents: z.number().int().min(1),
+  currency: z.string().length(3).default('USD'),
+  category: z.string().max(50).nullable().optional(),
+  notes: z.string().max(500).nullable().optional(),
+  payerId: z.string().uuid(),
+  splitType: RecurringSplitTypeSchema,
+  participants: z.array(CreateExpenseParticipantSchema).min(1),
+  cadence: RecurrenceCadenceSchema,
+  interval: z.number().int().min(1).max(365).default(1),
+  startDate: z.date(),
+  endDate: z.date().nullable().optional(),
+});
+
+export const UpdateRecurringExpenseSchema = z.object({
+  description: z.string().min(1).max(200).optional(),
+  amountCents: z.number().int().min(1).optional(),
+  category: z.string().max(50).nullable().optional(),
+  notes: z.string().max(500).nullable().optional(),
+  payerId: z.string().uuid().optional(),
+  splitType: RecurringSplitTypeSchema.optional(),
+  participants: z.array(CreateExpenseParticipantSchema).min(1).optional(),
+  cadence: RecurrenceCadenceSchema.optional(),
+  interval: z.number().int().min(1).max(365).optional(),
+  startDate: z.date().optional(),
+  endDate: z.date().nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export type RecurrenceCadence = z.infer<typeof RecurrenceCadenceSchema>;
+export type RecurringSplitType = z.infer<typeof RecurringSplitTypeSchema>;
+export type RecurringExpense = z.infer<typeof RecurringExpenseSchema>;
+export type CreateRecurringExpenseDto = z.infer<
+  typeof CreateRecurringExpenseSchema
+>;
+export type UpdateRecurringExpenseDto = z.infer<
+  typeof UpdateRecurringExpenseSchema
+>;
@@ -7,7 +7,12 @@ export const SettlementMethodSchema = z.enum([
   'STRIPE_LINK',
   'MARK_ONLY',
 ]);
-export const SettlementStatusSchema = z.enum(['PENDING', 'CONFIRMED']);
+export const SettlementStatusSchema = z.enum([
+  'PENDING',
+  'CONFIRMED',
+  'REJECTED',
+  'DISPUTED',
+]);
 
 export const SettlementSchema = z.object({
   id: z.string().uuid(),
@@ -21,15 +26,62 @@ export const SettlementSchema = z.object({
   createdAt: z.date(),
 });
 
+// Part of a settlement paid back against one expense
+export const SettlementAllocationSchema = z.object({
+  id: z.string().uuid(),
+  settlementId: z.string().uuid(),
+  expenseId: z.string().uuid(),
+  amountCents: z.number().int().min(1),
+});
+
+export const CreateSettlementAllocationSchema = z.object({
+  expenseId: z.string().uuid(),
+  amountCents: z.number().int().min(1),
+});
+
 export const CreateSettlementSchema = z.object({
   fromUserId: z.string().uuid(),
   toUserId: z.string().uuid(),
   amountCents: z.number().int().min(1),
   method: SettlementMethodSchema,
   externalRef: z.string().optional(),
+  allocations: z.array(CreateSettlementAllocationSchema).optional(),
+});
+
+export const RejectSettlementSchema = z.object({
+  reason: z.string().trim().min(1).max(500),
+});
+
+export const DisputeSettlementSchema = z.object({
+  reason: z.string().trim().min(1).max(500),
+});
+
+export const ResubmitSettlementSchema = z.object({
+  amountCents: z.number().int().min(1),
+  note: z.string().trim().max(500).optional(),
+});
+
+// One entry in a settlement's audit trail
+export const SettlementEventSchema = z.object({
+  id: z.string().uuid(),
+  settlementId: z.string().uuid(),
+  actorId: z.string().uuid(),
+  fromStatus: SettlementStatusSchema.nullable(),
+  toStatus: SettlementStatusSchema,
+  amountCents: z.number().int().min(1),
+  reason: z.string().nullable(),
+  createdAt: z.date(),
 });
 
 export type Settlement = z.infer<typeof SettlementSchema>;
 export type SettlementMethod = z.infer<typeof SettlementMethodSchema>;
 export type SettlementStatus = z.infer<typeof SettlementStatusSchema>;
-export type CreateSettlementDto = z.infer<typeof CreateSettlementSchema>;
\ No newline at end of file
+export type CreateSettlementDto = z.infer<typeof CreateSettlementSchema>;
+export type SettlementAllocation = z.infer<typeof SettlementAllocationSchema>;
+export type CreateSettlementAllocationDto = z.infer<
+  typeof CreateSettlementAllocationSchema
+>;
+export type RejectSettlementDto = z.infer<typeof RejectSettlementSchema>;
+export type DisputeSettlementDto = z.infer<typeof DisputeSettlementSchema>;
+export type ResubmitSettlementDto = z.infer<typeof ResubmitSettlementSchema>;
+export type SettlementEvent = z.infer<typeof SettlementEventSchema>;
@@ -1,6 +1,16 @@
 import { describe, it, expect } from 'vitest';
-import { computeNetBalances, calculateUserBalances, calculateUserStats, calculateGroupTotal } from '../balances';
+import {
+  computeNetBalances,
+  computePairwiseBalances,
+  computeCounterpartyBalances,
+  calculateUserBalances,
+  calculateUserStats,
+  calculateGroupTotal,
+  OPTIMAL_SIMPLIFICATION_MAX_USERS,
+  type LedgerExpense,
+} from '../balances';
 import type { Expense, ExpenseParticipant } from '../../schemas/expense';
+import type { Settlement } from '../../schemas/settlement';
 
 describe('Balance Calculations', () => {
   const mockExpenses: Expense[] = [
@@ -11,6 +21,7 @@ describe('Balance Calculations', () => {
       description: 'Dinner',
       amountCents: 6000, // $60
       currency: 'USD',
+      exchangeRate: 1,
       date: new Date('2024-01-01'),
       category: 'food',
       notes: null,
@@ -23,6 +34,7 @@ describe('Balance Calculations', () => {
       description: 'Movie tickets',
       amountCents: 3000, // $30
       currency: 'USD',
+      exchangeRate: 1,
       date: new Date('2024-01-02'),
       category: 'entertainment',
       notes: null,
@@ -82,13 +94,308 @@ describe('Balance Calculations', () => {
     expect(bobToAlice?.amountCents).toBe(500);
   });
 
+  it('should reduce settle-up edges by confirmed settlements', () => {
+    const settlements: Settlement[] = [
+      {
+        id: 's1',
+        groupId: 'group1',
+        fromUserId: 'charlie',
+        toUserId: 'alice',
+        amountCents: 1500,
+        method: 'VENMO',
+        externalRef: null,
+        status: 'CONFIRMED',
+        createdAt: new Date(),
+      },
+      {
+        id: 's2',
+        groupId: 'group1',
+        fromUserId: 'bob',
+        toUserId: 'alice',
+        amountCents: 500,
+        method: 'MARK_ONLY',
+        externalRef: null,
+        status: 'PENDING',
+        createdAt: new Date(),
+      },
+    ];
+
+    const settlementEdges = computeNetBalances(
+      mockExpenses,
+      mockParticipants,
+      settlements
+    );
+
+    // Charlie already paid $15 of $20; Bob's payment is still pending
+    expect(settlementEdges).toEqual([
+      { fromUserId: 'bob', toUserId: 'alice', amountCents: 500 },
+      { fromUserId: 'charlie', toUserId: 'alice', amountCents: 500 },
+    ]);
+  });
+
+  it('should apply confirmed settlements and report pending ones as in flight', () => {
+    const settlements: Settlement[] = [
+      {
+        id: 's1',
+        groupId: 'group1',
+        fromUserId: 'charlie',
+        toUserId: 'alice',
+        amountCents: 2000,
+        method: 'ZELLE',
+        externalRef: null,
+        status: 'CONFIRMED',
+        createdAt: new Date(),
+      },
+      {
+        id: 's2',
+        groupId: 'group1',
+        fromUserId: 'bob',
+        toUserId: 'alice',
+        amountCents: 500,
+        method: 'VENMO',
+        externalRef: null,
+        status: 'PENDING',
+        createdAt: new Date(),
+      },
+    ];
+
+    const balances = calculateUserBalances(
+      mockExpenses,
+      mockParticipants,
+      settlements
+    );
+
+    const alice = balances.find((b) => b.userId === 'alice')!;
+    expect(alice.netBalance).toBe(500);
+    expect(alice.inFlight).toBe(500);
+
+    const bob = balances.find((b) => b.userId === 'bob')!;
+    expect(bob.netBalance).toBe(-500);
+    expect(bob.inFlight).toBe(-500);
+
+    const charlie = balances.find((b) => b.userId === 'charlie')!;
+    expect(charlie.netBalance).toBe(0);
+    expect(charlie.inFlight).toBe(0);
+
+    const charlieStats = calculateUserStats(
+      'charlie',
+      mockExpenses,
+      mockParticipants,
+      settlements
+    );
+    expect(charlieStats.netBalance).toBe(0);
+  });
+
+  it('should ignore rejected settlements and keep disputed ones in flight', () => {
+    const settlements: Settlement[] = [
+      {
+        id: 's1',
+        groupId: 'group1',
+        fromUserId: 'bob',
+        toUserId: 'alice',
+        amountCents: 1500,
+        method: 'VENMO',
+        externalRef: null,
+        status: 'REJECTED',
+        createdAt: new Date(),
+      },
+      {
+        id: 's2',
+        groupId: 'group1',
+        fromUserId: 'charlie',
+        toUserId: 'alice',
+        amountCents: 700,
+        method: 'ZELLE',
+        externalRef: null,
+        status: 'DISPUTED',
+        createdAt: new Date(),
+      },
+    ];
+
+    const balances = calculateUserBalances(
+      mockExpenses,
+      mockParticipants,
+      settlements
+    );
+
+    const bob = balances.find((b) => b.userId === 'bob')!;
+    expect(bob.netBalance).toBe(-500);
+    expect(bob.inFlight).toBe(0);
+
+    // A disputed payment stays in flight until the receiver resolves it
+    const charlie = balances.find((b) => b.userId === 'charlie')!;
+    expect(charlie.netBalance).toBe(-2000);
+    expect(charlie.inFlight).toBe(-700);
+  });
+
+  it('should compute pairwise balances without simplifying', () => {
+    const settlements: Settlement[] = [
+      {
+        id: 's1',
+        groupId: 'group1',
+        fromUserId: 'charlie',
+        toUserId: 'alice',
+        amountCents: 500,
+        method: 'VENMO',
+        externalRef: null,
+        status: 'CONFIRMED',
+        createdAt: new Date(),
+      },
+    ];
+
+    const edges = computePairwiseBalances(
+      mockExpenses,
+      mockParticipants,
+      settlements
+    );
+
+    // Bob owes Alice $20 for dinner, Alice owes Bob $15 for movies
+    // Charlie owes Alice $20 for dinner and has paid back $5
+    expect(edges).toEqual([
+      { fromUserId: 'charlie', toUserId: 'alice', amountCents: 1500 },
+      { fromUserId: 'bob', toUserId: 'alice', amountCents: 500 },
+    ]);
+  });
+
+  it('should convert foreign-currency expenses into the group currency', () => {
+    const expenses: Expense[] = [
+      ...mockExpenses,
+      {
+        id: '3',
+        groupId: 'group1',
+        payerId: 'charlie',
+        description: 'Museum tickets',
+        amountCents: 3000, // EUR 30
+        currency: 'EUR',
+        exchangeRate: 1.1,
+        date: new Date('2024-01-03'),
+        category: 'entertainment',
+        notes: null,
+        createdAt: new Date(),
+      },
+    ];
+    const participants: ExpenseParticipant[] = [
+      ...mockParticipants,
+      { id: '6', expenseId: '3', userId: 'alice', shareCents: 1000 },
+      { id: '7', expenseId: '3', userId: 'bob', shareCents: 1000 },
+      { id: '8', expenseId: '3', userId: 'charlie', shareCents: 1000 },
+    ];
+
+    const balances = calculateUserBalances(expenses, participants);
+
+    // EUR 30 = USD 33, so each share is USD 11
+    const charlie = balances.find((b) => b.userId === 'charlie')!;
+    expect(charlie.totalPaid).toBe(3300);
+    expect(charlie.totalOwed).toBe(3100);
+    expect(charlie.netBalance).toBe(200);
+    expect(balances.reduce((sum, b) => sum + b.netBalance, 0)).toBe(0);
+    expect(calculateGroupTotal(expenses)).toBe(12300);
+  });
+
+  it('should credit each payer of a shared expense', () => {
+    // Hotel for three put on two cards: Alice $180, Bob $120
+    const hotel: LedgerExpense = {
+      id: '3',
+      groupId: 'group1',
+      payerId: 'alice',
+      payers: [
+        { userId: 'alice', paidCents: 18000 },
+        { userId: 'bob', paidCents: 12000 },
+      ],
+      description: 'Hotel',
+      amountCents: 30000,
+      currency: 'USD',
+      exchangeRate: 1,
+      date: new Date('2024-01-03'),
+      category: 'accommodation',
+      notes: null,
+      createdAt: new Date(),
+    };
+    const participants: ExpenseParticipant[] = [
+      { id: '6', expenseId: '3', userId: 'alice', shareCents: 10000 },
+      { id: '7', expenseId: '3', userId: 'bob', shareCents: 10000 },
+      { id: '8', expenseId: '3', userId: 'charlie', shareCents: 10000 },
+    ];
+
+    const balances = calculateUserBalances([hotel], participants);
+    const bob = balances.find((b) => b.userId === 'bob')!;
+    expect(bob.totalPaid).toBe(12000);
+    expect(bob.netBalance).toBe(2000);
+    expect(balances.find((b) => b.userId === 'alice')!.netBalance).toBe(8000);
+
+    // Each share is owed to the payers in proportion to what they paid
+    expect(computePairwiseBalances([hotel], participants)).toEqual([
+      { fromUserId: 'charlie', toUserId: 'alice', amountCents: 6000 },
+      { fromUserId: 'charlie', toUserId: 'bob', amountCents: 4000 },
+      { fromUserId: 'bob', toUserId: 'alice', amountCents: 2000 },
+    ]);
+
+    const bobStats = calculateUserStats('bob', [hotel], participants);
+    expect(bobStats.expenseCount).toBe(1);
+    expect(bobStats.totalPaid).toBe(12000);
+  });
+
+  it('should net balances per counterparty across groups by currency', () => {
+    const counterparties = computeCounterpartyBalances('alice', [
+      {
+        groupId: 'trip',
+        currency: 'USD',
+        edges: [
+          { fromUserId: 'alice', toUserId: 'bob', amountCents: 3000 },
+          { fromUserId: 'charlie', toUserId: 'alice', amountCents: 500 },
+        ],
+      },
+      {
+        groupId: 'flat',
+        currency: 'USD',
+        edges: [
+          { fromUserId: 'alice', toUserId: 'bob', amountCents: 1200 },
+          { fromUserId: 'charlie', toUserId: 'bob', amountCents: 900 },
+        ],
+      },
+      {
+        groupId: 'paris',
+        currency: 'EUR',
+        edges: [{ fromUserId: 'bob', toUserId: 'alice', amountCents: 800 }],
+      },
+      {
+        groupId: 'dinner',
+        currency: 'USD',
+        edges: [{ fromUserId: 'alice', toUserId: 'charlie', amountCents: 500 }],
+      },
+    ]);
+
+    // Alice and Charlie cancel out, so only Bob remains, once per currency
+    expect(counterparties).toEqual([
+      {
+        userId: 'bob',
+        currency: 'USD',
+        netBalance: -4200,
+        groups: [
+          { groupId: 'trip', netBalance: -3000 },
+          { groupId: 'flat', netBalance: -1200 },
+        ],
+      },
+      {
+        userId: 'bob',
+        currency: 'EUR',
+        netBalance: 800,
+        groups: [{ groupId: 'paris', netBalance: 800 }],
+      },
+    ]);
+  });
+
   it('should calculate group total correctly', () => {
     const total = calculateGroupTotal(mockExpenses);
     expect(total).toBe(9000); // $60 + $30 = $90
   });
 
   it('should calculate user stats correctly', () => {
-    const aliceStats = calculateUserStats('alice', mockExpenses, mockParticipants);
+    const aliceStats = calculateUserStats(
+      'alice',
+      mockExpenses,
+      mockParticipants
+    );
 
     expect(aliceStats.userId).toBe('alice');
     expect(aliceStats.totalPaid).toBe(6000);
@@ -97,7 +404,11 @@ describe('Balance Calculations', () => {
     expect(aliceStats.expenseCount).toBe(1);
     expect(aliceStats.avgExpenseAmount).toBe(6000);
 
-    const charlieStats = calculateUserStats('charlie', mockExpenses, mockParticipants);
+    const charlieStats = calculateUserStats(
+      'charlie',
+      mockExpenses,
+      mockParticipants
+    );
     expect(charlieStats.expenseCount).toBe(0);
     expect(charlieStats.avgExpenseAmount).toBe(0);
   });
@@ -111,6 +422,7 @@ describe('Balance Calculations', () => {
         description: 'Groceries',
         amountCents: 12000, // $120
         currency: 'USD',
+        exchangeRate: 1,
         date: new Date('2024-01-01'),
         category: 'food',
         notes: null,
@@ -123,6 +435,7 @@ describe('Balance Calculations', () => {
         description: 'Gas',
         amountCents: 8000, // $80
         currency: 'USD',
+        exchangeRate: 1,
         date: new Date('2024-01-02'),
         category: 'transport',
         notes: null,
@@ -135,6 +448,7 @@ describe('Balance Calculations', () => {
         description: 'Utilities',
         amountCents: 15000, // $150
         currency: 'USD',
+        exchangeRate: 1,
         date: new Date('2024-01-03'),
         category: 'utilities',
         notes: null,
@@ -160,14 +474,20 @@ describe('Balance Calculations', () => {
       { id: '10', expenseId: '3', userId: 'david', shareCents: 3750 },
     ];
 
-    const settlements = computeNetBalances(complexExpenses, complexParticipants);
-    
+    const settlements = computeNetBalances(
+      complexExpenses,
+      complexParticipants
+    );
+
     // Verify that the net settlements balance out
-    const totalSettlements = settlements.reduce((sum, s) => sum + s.amountCents, 0);
+    const totalSettlements = settlements.reduce(
+      (sum, s) => sum + s.amountCents,
+      0
+    );
     expect(totalSettlements).toBeGreaterThan(0);
 
     // Verify no self-payments
-    settlements.forEach(settlement => {
+    settlements.forEach((settlement) => {
       expect(settlement.fromUserId).not.toBe(settlement.toUserId);
     });
   });
@@ -181,6 +501,7 @@ describe('Balance Calculations', () => {
         description: 'Lunch',
         amountCents: 2000, // $20
         currency: 'USD',
+        exchangeRate: 1,
         date: new Date('2024-01-01'),
         category: 'food',
         notes: null,
@@ -193,6 +514,7 @@ describe('Balance Calculations', () => {
         description: 'Coffee',
         amountCents: 2000, // $20
         currency: 'USD',
+        exchangeRate: 1,
         date: new Date('2024-01-02'),
         category: 'food',
         notes: null,
@@ -208,7 +530,137 @@ describe('Balance Calculations', () => {
       { id: '4', expenseId: '2', userId: 'bob', shareCents: 1000 },
     ];
 
-    const settlements = computeNetBalances(balancedExpenses, balancedParticipants);
+    const settlements = computeNetBalances(
+      balancedExpenses,
+      balancedParticipants
+    );
     expect(settlements).toHaveLength(0); // No settlements needed
   });
-});
\ No newline at end of file
+
+  describe('Optimal debt simplification', () => {
+    // One expense per payer, split across the given debtors
+    function buildGroup(debts: Record<string, Record<string, number>>) {
+      const expenses: Expense[] = [];
+      const participants: ExpenseParticipant[] = [];
+
+      Object.entries(debts).forEach(([payerId, shares], index) => {
+        const expenseId = String(index + 1);
+        expenses.push({
+          id: expenseId,
+          groupId: 'group1',
+          payerId,
+          description: `Expense ${expenseId}`,
+          amountCents: Object.values(shares).reduce((a, b) => a + b, 0),
+          currency: 'USD',
+          exchangeRate: 1,
+          date: new Date('2024-01-01'),
+          category: null,
+          notes: null,
+          createdAt: new Date(),
+        });
+        for (const [userId, shareCents] of Object.entries(shares)) {
+          participants.push({
+            id: `${expenseId}-${userId}`,
+            expenseId,
+            userId,
+            shareCents,
+          });
+        }
+      });
+
+      return { expenses, participants };
+    }
+
+    function settledBalances(
+      expenses: Expense[],
+      participants: ExpenseParticipant[],
+      edges: { fromUserId: string; toUserId: string; amountCents: number }[]
+    ) {
+      const balances = new Map(
+        calculateUserBalances(expenses, participants).map((b) => [
+          b.userId,
+          b.netBalance,
+        ])
+      );
+      for (const edge of edges) {
+        balances.set(
+          edge.fromUserId,
+          balances.get(edge.fromUserId)! + edge.amountCents
+        );
+        balances.set(
+          edge.toUserId,
+          balances.get(edge.toUserId)! - edge.amountCents
+        );
+      }
+      return [...balances.values()];
+    }
+
+    it('should use fewer transfers than greedy when balances cancel in subgroups', () => {
+      // alice +800, bob +600, charlie -600, dave -500, erin -300
+      const { expenses, participants } = buildGroup({
+        alice: { dave: 500, erin: 300 },
+        bob: { charlie: 600 },
+      });
+
+      const greedy = computeNetBalances(expenses, participants);
+      const optimal = computeNetBalances(expenses, participants, [], 'OPTIMAL');
+
+      expect(greedy).toHaveLength(4);
+      expect(optimal).toHaveLength(3);
+      expect(optimal).toContainEqual({
+        fromUserId: 'charlie',
+        toUserId: 'bob',
+        amountCents: 600,
+      });
+      expect(
+        settledBalances(expenses, participants, optimal).every((b) => b === 0)
+      ).toBe(true);
+    });
+
+    it('should never need more transfers than greedy', () => {
+      let seed = 42;
+      const random = () => {
+        seed = (seed * 1103515245 + 12345) % 2147483648;
+        return seed / 2147483648;
+      };
+      const users = ['u1', 'u2', 'u3', 'u4', 'u5', 'u6', 'u7', 'u8'];
+
+      for (let run = 0; run < 50; run++) {
+        const debts: Record<string, Record<string, number>> = {};
+        for (let e = 0; e < 5; e++) {
+          const payer = users[Math.floor(random() * users.length)];
+          debts[payer] = debts[payer] ?? {};
+          const debtor = users[Math.floor(random() * users.length)];
+          debts[payer][debtor] =
+            (debts[payer][debtor] ?? 0) + Math.ceil(random() * 10) * 100;
+        }
+        const { expenses, participants } = buildGroup(debts);
+
+        const greedy = computeNetBalances(expenses, participants);
+        const optimal = computeNetBalances(
+          expenses,
+          participants,
+          [],
+          'OPTIMAL'
+        );
+
+        expect(optimal.length).toBeLessThanOrEqual(greedy.length);
+        expect(
+          settledBalances(expenses, participants, optimal).every((b) => b === 0)
+        ).toBe(true);
+      }
+    });
+
+    it('should fall back to greedy above the size threshold', () => {
+      const shares: Record<string, number> = {};
+      for (let i = 0; i <= OPTIMAL_SIMPLIFICATION_MAX_USERS; i++) {
+        shares[`user${i}`] = 100 * (i + 1);
+      }
+      const { expenses, participants } = buildGroup({ payer: shares });
+
+      expect(computeNetBalances(expenses, participants, [], 'OPTIMAL')).toEqual(
+        computeNetBalances(expenses, participants)
+      );
+    });
+  });
+});
@@ -5,6 +5,8 @@ import {
   formatCurrency,
   sumCents,
   validateSplitTotal,
+  convertCents,
+  convertShares,
 } from '../currency';
 
 describe('Currency Utilities', () => {
@@ -125,4 +127,34 @@ describe('Currency Utilities', () => {
       }
     });
   });
-});
\ No newline at end of file
+  describe('convertCents', () => {
+    it('should convert and round to the nearest cent', () => {
+      expect(convertCents(1000, 1.1)).toBe(1100);
+      expect(convertCents(333, 0.5)).toBe(167);
+      expect(convertCents(1000, 1)).toBe(1000);
+    });
+  });
+
+  describe('convertShares', () => {
+    it('should keep converted shares summing to the converted total', () => {
+      const shares = [334, 333, 333];
+      const converted = convertShares(shares, 0.5);
+
+      expect(sumCents(converted)).toBe(convertCents(1000, 0.5));
+      expect(converted).toEqual([167, 167, 166]);
+    });
+
+    it('should return the shares unchanged for a rate of 1', () => {
+      expect(convertShares([500, 250, 250], 1)).toEqual([500, 250, 250]);
+    });
+
+    it('should handle awkward rates without losing cents', () => {
+      const shares = [1234, 5678, 91011, 1];
+      const rate = 0.912345;
+
+      expect(sumCents(convertShares(shares, rate))).toBe(
+        convertCents(sumCents(shares), rate)
+      );
+    });
+  });
+});
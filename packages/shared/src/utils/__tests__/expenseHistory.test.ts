@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { diffExpenseSnapshots, toExpenseSnapshot } from '../expenseHistory';
+
+const alice = '11111111-1111-4111-8111-111111111111';
+const bob = '22222222-2222-4222-8222-222222222222';
+
+const groceries = {
+  description: 'Groceries',
+  amountCents: 4200,
+  currency: 'USD',
+  date: new Date('2025-03-01T00:00:00Z'),
+  category: 'Food',
+  notes: null,
+  payerId: alice,
+  splitType: 'EQUAL' as const,
+  participants: [
+    { userId: bob, shareCents: 2100 },
+    { userId: alice, shareCents: 2100 },
+  ],
+};
+
+describe('Expense History', () => {
+  describe('toExpenseSnapshot', () => {
+    it('should not depend on participant order', () => {
+      const reordered = {
+        ...groceries,
+        participants: [...groceries.participants].reverse(),
+      };
+
+      expect(
+        diffExpenseSnapshots(
+          toExpenseSnapshot(groceries),
+          toExpenseSnapshot(reordered)
+        )
+      ).toEqual({});
+    });
+
+    it('should treat the payer as paying everything without a breakdown', () => {
+      const split = toExpenseSnapshot({
+        ...groceries,
+        payers: [
+          { userId: bob, paidCents: 1200 },
+          { userId: alice, paidCents: 3000 },
+        ],
+      });
+
+      expect(toExpenseSnapshot(groceries).payers).toEqual({ [alice]: 4200 });
+      expect(Object.keys(split.payers)).toEqual([alice, bob]);
+    });
+
+    it('should store dates as ISO strings', () => {
+      expect(toExpenseSnapshot(groceries).date).toBe(
+        '2025-03-01T00:00:00.000Z'
+      );
+    });
+  });
+
+  describe('diffExpenseSnapshots', () => {
+    it('should only keep the fields that changed', () => {
+      const before = toExpenseSnapshot(groceries);
+      const after = toExpenseSnapshot({
+        ...groceries,
+        amountCents: 5000,
+        payerId: bob,
+        participants: [
+          { userId: alice, shareCents: 2500 },
+          { userId: bob, shareCents: 2500 },
+        ],
+      });
+
+      expect(diffExpenseSnapshots(before, after)).toEqual({
+        amountCents: { from: 4200, to: 5000 },
+        payerId: { from: alice, to: bob },
+        payers: { from: { [alice]: 4200 }, to: { [bob]: 5000 } },
+        shares: {
+          from: { [alice]: 2100, [bob]: 2100 },
+          to: { [alice]: 2500, [bob]: 2500 },
+        },
+      });
+    });
+
+    it('should record every field against null on create and delete', () => {
+      const snapshot = toExpenseSnapshot(groceries);
+
+      const created = diffExpenseSnapshots(null, snapshot);
+      expect(created.description).toEqual({ from: null, to: 'Groceries' });
+      expect(created.notes).toBeUndefined(); // null both sides
+
+      const deleted = diffExpenseSnapshots(snapshot, null);
+      expect(deleted.amountCents).toEqual({ from: 4200, to: null });
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildPaymentMemo,
+  buildPaymentUrl,
+  generatePaymentToken,
+  getAvailablePaymentMethods,
+} from '../payments';
+
+describe('Payment Links', () => {
+  const recipient = {
+    name: 'Alice',
+    email: 'alice@example.com',
+    venmoHandle: '@alice-w',
+    paypalLink: 'https://paypal.me/alicew',
+  };
+
+  describe('generatePaymentToken', () => {
+    it('should generate prefixed tokens without ambiguous characters', () => {
+      const token = generatePaymentToken();
+
+      expect(token).toMatch(/^GP-[A-HJ-NP-Z2-9]{8}$/);
+      expect(generatePaymentToken()).not.toBe(token);
+    });
+  });
+
+  describe('buildPaymentMemo', () => {
+    it('should put the token before the group name', () => {
+      expect(buildPaymentMemo('Ski Trip', 'GP-ABCD2345')).toBe(
+        'GP-ABCD2345 GroupPay: Ski Trip'
+      );
+    });
+  });
+
+  describe('buildPaymentUrl', () => {
+    it('should prefill Venmo with the amount and memo', () => {
+      const url = buildPaymentUrl({
+        method: 'VENMO',
+        amountCents: 4250,
+        currency: 'USD',
+        memo: 'GP-ABCD2345 GroupPay: Ski Trip',
+        recipient,
+      });
+
+      const params = new URL(url!).searchParams;
+      expect(url).toMatch(/^https:\/\/venmo\.com\/\?/);
+      expect(params.get('txn')).toBe('pay');
+      expect(params.get('recipients')).toBe('alice-w');
+      expect(params.get('amount')).toBe('42.50');
+      expect(params.get('note')).toBe('GP-ABCD2345 GroupPay: Ski Trip');
+    });
+
+    it('should append the amount to PayPal.Me links', () => {
+      expect(
+        buildPaymentUrl({
+          method: 'PAYPAL',
+          amountCents: 1999,
+          currency: 'eur',
+          memo: 'GP-ABCD2345',
+          recipient,
+        })
+      ).toBe('https://paypal.me/alicew/19.99EUR');
+
+      expect(
+        buildPaymentUrl({
+          method: 'PAYPAL',
+          amountCents: 500,
+          currency: 'USD',
+          memo: 'GP-ABCD2345',
+          recipient: { name: 'Bob', paypalLink: 'bobpays' },
+        })
+      ).toBe('https://paypal.me/bobpays/5.00USD');
+    });
+
+    it('should encode the recipient for Zelle', () => {
+      const url = buildPaymentUrl({
+        method: 'ZELLE',
+        amountCents: 1000,
+        currency: 'USD',
+        memo: 'GP-ABCD2345',
+        recipient,
+      });
+
+      const data = new URL(url!).searchParams.get('data')!;
+      expect(JSON.parse(atob(data))).toEqual({
+        name: 'Alice',
+        token: 'alice@example.com',
+        action: 'payment',
+      });
+    });
+
+    it('should return null when the method is not available', () => {
+      const options = {
+        amountCents: 1000,
+        currency: 'USD',
+        memo: 'GP-ABCD2345',
+        recipient: { name: 'Bob' },
+      };
+
+      expect(buildPaymentUrl({ ...options, method: 'VENMO' })).toBeNull();
+      expect(buildPaymentUrl({ ...options, method: 'PAYPAL' })).toBeNull();
+      expect(buildPaymentUrl({ ...options, method: 'ZELLE' })).toBeNull();
+      expect(buildPaymentUrl({ ...options, method: 'MARK_ONLY' })).toBeNull();
+    });
+  });
+
+  describe('getAvailablePaymentMethods', () => {
+    it('should only offer US-only methods for US dollars', () => {
+      expect(getAvailablePaymentMethods(recipient, 'USD')).toEqual([
+        'VENMO',
+        'PAYPAL',
+        'ZELLE',
+      ]);
+      expect(getAvailablePaymentMethods(recipient, 'GBP')).toEqual(['PAYPAL']);
+    });
+  });
+});
@@ -1,5 +1,9 @@
 import { describe, it, expect } from 'vitest';
-import { validateReceiptFile, generateSecureFilename } from '../receipts';
+import {
+  validateReceiptFile,
+  generateSecureFilename,
+  parseReceiptText,
+} from '../receipts';
 
 describe('Receipt Processing', () => {
   describe('validateReceiptFile', () => {
@@ -9,6 +13,8 @@ describe('Receipt Processing', () => {
         { name: 'receipt.png', size: 2 * 1024 * 1024, type: 'image/png' },
         { name: 'receipt.gif', size: 500 * 1024, type: 'image/gif' },
         { name: 'receipt.webp', size: 1.5 * 1024 * 1024, type: 'image/webp' },
+        { name: 'IMG_0042.HEIC', size: 2 * 1024 * 1024, type: 'image/heic' },
+        { name: 'receipt.heif', size: 2 * 1024 * 1024, type: 'image/heif' },
       ];
 
       validFiles.forEach(file => {
@@ -53,7 +59,7 @@ describe('Receipt Processing', () => {
       invalidFiles.forEach(file => {
         const result = validateReceiptFile(file);
         expect(result.isValid).toBe(false);
-        expect(result.errors).toContain('File must be an image (JPEG, PNG, GIF, WebP) or PDF');
+        expect(result.errors).toContain('File must be an image (JPEG, PNG, GIF, WebP, HEIC) or PDF');
       });
     });
 
@@ -81,7 +87,7 @@ describe('Receipt Processing', () => {
       expect(result.isValid).toBe(false);
       expect(result.errors).toHaveLength(3);
       expect(result.errors).toContain('File size must be less than 10MB');
-      expect(result.errors).toContain('File must be an image (JPEG, PNG, GIF, WebP) or PDF');
+      expect(result.errors).toContain('File must be an image (JPEG, PNG, GIF, WebP, HEIC) or PDF');
       expect(result.errors).toContain('Filename must be provided and less than 255 characters');
     });
 
@@ -177,4 +183,81 @@ describe('Receipt Processing', () => {
       expect(secureFilename).toMatch(/^user-123@example\.com_\d+_[a-z0-9]{6}\.jpg$/);
     });
   });
-});
\ No newline at end of file
+
+  describe('parseReceiptText', () => {
+    const groceryReceipt = `
+      FRESH MARKET
+      123 Main St, Springfield
+      Tel 555-0100
+      03/14/2025  18:42
+      Bananas            1.99
+      Whole Milk 2L      3.49
+      Sourdough Bread    4.50
+      SUBTOTAL           9.98
+      TAX 8%             0.80
+      TOTAL             10.78
+      VISA              10.78
+      CHANGE             0.00
+    `;
+
+    it('should find the merchant, date and total', () => {
+      const result = parseReceiptText(groceryReceipt);
+
+      expect(result.merchantName).toBe('FRESH MARKET');
+      expect(result.date).toEqual(new Date(Date.UTC(2025, 2, 14)));
+      expect(result.totalAmount).toBe(1078);
+    });
+
+    it('should list the line items before the subtotal', () => {
+      const result = parseReceiptText(groceryReceipt);
+
+      expect(result.items).toEqual([
+        { description: 'Bananas', amount: 199 },
+        { description: 'Whole Milk 2L', amount: 349 },
+        { description: 'Sourdough Bread', amount: 450 },
+      ]);
+    });
+
+    it('should be fully confident when the items add up', () => {
+      expect(parseReceiptText(groceryReceipt).confidence).toBe(1);
+    });
+
+    it('should prefer an amount due over other totals', () => {
+      const result = parseReceiptText(`
+        Cafe Luna
+        2025-01-05
+        Total before tip   20.00
+        Tip                 4.00
+        Amount due         24.00
+      `);
+
+      expect(result.totalAmount).toBe(2400);
+      expect(result.date).toEqual(new Date(Date.UTC(2025, 0, 5)));
+    });
+
+    it('should read day-first dates, month names and thousands separators', () => {
+      expect(parseReceiptText('Hotel\n25/12/2024\nTotal $1,234.56').date).toEqual(
+        new Date(Date.UTC(2024, 11, 25))
+      );
+      expect(parseReceiptText('Hotel\nMar 7, 2025\nTotal $1,234.56')).toMatchObject({
+        date: new Date(Date.UTC(2025, 2, 7)),
+        totalAmount: 123456,
+      });
+    });
+
+    it('should fall back to the largest amount with low confidence', () => {
+      const result = parseReceiptText('Bakery\nCroissant 2.50\nCoffee 3.20');
+
+      expect(result.totalAmount).toBe(320);
+      expect(result.confidence).toBeLessThan(0.5);
+    });
+
+    it('should ignore impossible dates', () => {
+      expect(parseReceiptText('Shop\n02/30/2025\nTotal 5.00').date).toBeUndefined();
+    });
+
+    it('should return zero confidence for unreadable text', () => {
+      expect(parseReceiptText('~~ %% ##')).toEqual({ confidence: 0 });
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getDueOccurrences,
+  getNextOccurrence,
+  getOccurrenceDate,
+} from '../recurring';
+
+describe('Recurring Schedules', () => {
+  describe('getOccurrenceDate', () => {
+    it('should step daily and weekly schedules by whole days', () => {
+      const startDate = new Date('2025-03-01T09:00:00Z');
+
+      expect(
+        getOccurrenceDate({ startDate, cadence: 'DAILY', interval: 3 }, 2)
+      ).toEqual(new Date('2025-03-07T09:00:00Z'));
+      expect(
+        getOccurrenceDate({ startDate, cadence: 'WEEKLY', interval: 2 }, 1)
+      ).toEqual(new Date('2025-03-15T09:00:00Z'));
+    });
+
+    it('should clamp monthly schedules to the end of shorter months', () => {
+      const rule = {
+        startDate: new Date('2025-01-31T00:00:00Z'),
+        cadence: 'MONTHLY' as const,
+        interval: 1,
+      };
+
+      expect(getOccurrenceDate(rule, 1)).toEqual(
+        new Date('2025-02-28T00:00:00Z')
+      );
+      expect(getOccurrenceDate(rule, 2)).toEqual(
+        new Date('2025-03-31T00:00:00Z')
+      );
+      expect(getOccurrenceDate(rule, 3)).toEqual(
+        new Date('2025-04-30T00:00:00Z')
+      );
+    });
+
+    it('should move leap day yearly schedules to February 28th', () => {
+      const rule = {
+        startDate: new Date('2024-02-29T00:00:00Z'),
+        cadence: 'YEARLY' as const,
+        interval: 1,
+      };
+
+      expect(getOccurrenceDate(rule, 1)).toEqual(
+        new Date('2025-02-28T00:00:00Z')
+      );
+      expect(getOccurrenceDate(rule, 4)).toEqual(
+        new Date('2028-02-29T00:00:00Z')
+      );
+    });
+  });
+
+  describe('getNextOccurrence', () => {
+    const rule = {
+      startDate: new Date('2025-01-31T00:00:00Z'),
+      cadence: 'MONTHLY' as const,
+      interval: 1,
+    };
+
+    it('should return the first occurrence strictly after the date', () => {
+      expect(getNextOccurrence(rule, new Date('2025-02-28T00:00:00Z'))).toEqual(
+        new Date('2025-03-31T00:00:00Z')
+      );
+      expect(getNextOccurrence(rule, new Date('2025-02-27T23:59:59Z'))).toEqual(
+        new Date('2025-02-28T00:00:00Z')
+      );
+    });
+
+    it('should return the start date for dates before it', () => {
+      expect(getNextOccurrence(rule, new Date('2024-06-01T00:00:00Z'))).toEqual(
+        rule.startDate
+      );
+    });
+
+    it('should find occurrences far from the start date', () => {
+      expect(getNextOccurrence(rule, new Date('2035-01-15T00:00:00Z'))).toEqual(
+        new Date('2035-01-31T00:00:00Z')
+      );
+    });
+  });
+
+  describe('getDueOccurrences', () => {
+    const rule = {
+      startDate: new Date('2025-01-01T00:00:00Z'),
+      cadence: 'WEEKLY' as const,
+      interval: 1,
+    };
+
+    it('should list every missed occurrence up to now', () => {
+      expect(
+        getDueOccurrences(
+          rule,
+          rule.startDate,
+          new Date('2025-01-16T00:00:00Z')
+        )
+      ).toEqual([
+        new Date('2025-01-01T00:00:00Z'),
+        new Date('2025-01-08T00:00:00Z'),
+        new Date('2025-01-15T00:00:00Z'),
+      ]);
+    });
+
+    it('should stop at the end date', () => {
+      expect(
+        getDueOccurrences(
+          { ...rule, endDate: new Date('2025-01-10T00:00:00Z') },
+          new Date('2025-01-08T00:00:00Z'),
+          new Date('2025-03-01T00:00:00Z')
+        )
+      ).toEqual([new Date('2025-01-08T00:00:00Z')]);
+    });
+
+    it('should return nothing before the next run', () => {
+      expect(
+        getDueOccurrences(
+          rule,
+          new Date('2025-01-08T00:00:00Z'),
+          new Date('2025-01-07T23:59:59Z')
+        )
+      ).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { getPurgeCutoff, getPurgeDate } from '../softDelete';
+
+describe('Soft Delete', () => {
+  it('should purge 30 days after deletion', () => {
+    expect(getPurgeDate(new Date('2025-03-01T12:00:00Z'))).toEqual(
+      new Date('2025-03-31T12:00:00Z')
+    );
+  });
+
+  it('should only purge what was deleted before the cutoff', () => {
+    const deletedAt = new Date('2025-03-01T12:00:00Z');
+
+    expect(getPurgeCutoff(getPurgeDate(deletedAt))).toEqual(deletedAt);
+    expect(getPurgeCutoff(new Date('2025-03-31T11:59:59Z')) < deletedAt).toBe(
+      true
+    );
+  });
+});
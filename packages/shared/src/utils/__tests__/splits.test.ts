@@ -1,8 +1,11 @@
 import { describe, it, expect } from 'vitest';
+import { allocateCents } from '../allocate';
 import {
   calculateEqualSplit,
   calculatePercentageSplit,
   calculateShareSplit,
+  calculateItemizedSplit,
+  calculateAdjustmentSplit,
   calculateSplit,
 } from '../splits';
 import type { CreateExpenseParticipantDto } from '../../schemas/expense';
@@ -131,6 +134,245 @@ describe('Split Calculations', () => {
     });
   });
 
+  describe('calculateItemizedSplit', () => {
+    const items = [
+      { description: 'Burger', amountCents: 1500, userIds: ['alice'] },
+      { description: 'Pizza', amountCents: 2000, userIds: ['bob'] },
+      {
+        description: 'Fries',
+        amountCents: 900,
+        userIds: ['alice', 'bob', 'charlie'],
+      },
+    ];
+
+    it('should spread tax and tip in proportion to each subtotal', () => {
+      // Subtotals: alice $18, bob $23, charlie $3; $8.80 tax and tip on $44
+      const result = calculateItemizedSplit(5280, items);
+      expect(result).toEqual([
+        { userId: 'alice', shareCents: 2160 },
+        { userId: 'bob', shareCents: 2760 },
+        { userId: 'charlie', shareCents: 360 },
+      ]);
+    });
+
+    it('should split items alone when there is no tax or tip', () => {
+      const result = calculateItemizedSplit(4400, items);
+      expect(result).toEqual([
+        { userId: 'alice', shareCents: 1800 },
+        { userId: 'bob', shareCents: 2300 },
+        { userId: 'charlie', shareCents: 300 },
+      ]);
+    });
+
+    it('should give leftover cents to the largest rounding remainders', () => {
+      const result = calculateItemizedSplit(301, [
+        { description: 'Tea', amountCents: 100, userIds: ['user1'] },
+        { description: 'Coffee', amountCents: 100, userIds: ['user2'] },
+        { description: 'Juice', amountCents: 100, userIds: ['user3'] },
+      ]);
+
+      expect(result).toEqual([
+        { userId: 'user1', shareCents: 101 },
+        { userId: 'user2', shareCents: 100 },
+        { userId: 'user3', shareCents: 100 },
+      ]);
+    });
+
+    it('should reject items that add up to more than the total', () => {
+      expect(() => calculateItemizedSplit(4000, items)).toThrow(
+        'Line items add up to more than the expense total'
+      );
+    });
+
+    it('should reject items that are all free', () => {
+      expect(() =>
+        calculateItemizedSplit(500, [
+          { description: 'Water', amountCents: 0, userIds: ['alice'] },
+          { description: 'Bread', amountCents: 0, userIds: ['bob'] },
+        ])
+      ).toThrow('Line items need an amount to split the expense by');
+    });
+
+    it('should be used by calculateSplit for ITEMIZED expenses', () => {
+      const total = calculateSplit(5280, 'ITEMIZED', [], items).reduce(
+        (sum, r) => sum + r.shareCents,
+        0
+      );
+      expect(total).toBe(5280);
+    });
+  });
+
+  describe('calculateAdjustmentSplit', () => {
+    it('should split the rest equally after adjustments', () => {
+      const result = calculateAdjustmentSplit(3500, [
+        { userId: 'user1' },
+        { userId: 'user2', adjustmentCents: 500 },
+        { userId: 'user3' },
+      ]);
+
+      expect(result).toEqual([
+        { userId: 'user1', shareCents: 1000 },
+        { userId: 'user2', shareCents: 1500 },
+        { userId: 'user3', shareCents: 1000 },
+      ]);
+    });
+
+    it('should allow negative adjustments', () => {
+      const result = calculateAdjustmentSplit(3000, [
+        { userId: 'user1', adjustmentCents: -300 },
+        { userId: 'user2' },
+      ]);
+
+      expect(result).toEqual([
+        { userId: 'user1', shareCents: 1350 },
+        { userId: 'user2', shareCents: 1650 },
+      ]);
+    });
+
+    it('should round the same way every time', () => {
+      const participants: CreateExpenseParticipantDto[] = [
+        { userId: 'user1', adjustmentCents: 1 },
+        { userId: 'user2' },
+        { userId: 'user3' },
+      ];
+
+      const result = calculateAdjustmentSplit(1001, participants);
+      expect(result).toEqual([
+        { userId: 'user1', shareCents: 335 },
+        { userId: 'user2', shareCents: 333 },
+        { userId: 'user3', shareCents: 333 },
+      ]);
+      expect(calculateAdjustmentSplit(1001, participants)).toEqual(result);
+      expect(result.reduce((sum, r) => sum + r.shareCents, 0)).toBe(1001);
+    });
+
+    it('should reject adjustments that do not fit the total', () => {
+      expect(() => calculateAdjustmentSplit(1000, [
+        { userId: 'user1', adjustmentCents: 1500 },
+        { userId: 'user2' },
+      ])).toThrow('Adjustments add up to more than the expense total');
+
+      expect(() => calculateAdjustmentSplit(1000, [
+        { userId: 'user1', adjustmentCents: -1500 },
+        { userId: 'user2' },
+      ])).toThrow('Adjustments cannot leave anyone with a negative share');
+    });
+  });
+
+  describe('allocateCents', () => {
+    // Small seeded generator so failures can be reproduced
+    function random(seed: number) {
+      return () => {
+        seed = (seed + 0x6d2b79f5) | 0;
+        let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+      };
+    }
+
+    const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+    it('should give the leftover cents to the largest remainders', () => {
+      expect(allocateCents(100, [1, 1, 1])).toEqual([34, 33, 33]);
+      expect(allocateCents(1000, [33.33, 33.33, 33.34])).toEqual([333, 333, 334]);
+      expect(allocateCents(10, [2, 1])).toEqual([7, 3]);
+    });
+
+    it('should rotate ties by seed and stay deterministic', () => {
+      const counts = [0, 0, 0];
+      for (let i = 0; i < 300; i++) {
+        const shares = allocateCents(100, [1, 1, 1], `expense-${i}`);
+        expect(allocateCents(100, [1, 1, 1], `expense-${i}`)).toEqual(shares);
+        counts[shares.indexOf(34)]++;
+      }
+
+      // Each person absorbs the extra cent for some expenses
+      for (const count of counts) {
+        expect(count).toBeGreaterThan(50);
+      }
+    });
+
+    it('should keep every share within a cent of its exact value', () => {
+      const next = random(42);
+      for (let run = 0; run < 500; run++) {
+        const totalCents = Math.floor(next() * 1_000_000);
+        const weights = Array.from(
+          { length: 1 + Math.floor(next() * 12) },
+          () => Math.floor(next() * 100) + 1
+        );
+        const totalWeight = sum(weights);
+
+        const shares = allocateCents(totalCents, weights, `seed-${run}`);
+        expect(sum(shares)).toBe(totalCents);
+        shares.forEach((share, index) => {
+          const exact = (totalCents * weights[index]) / totalWeight;
+          expect(share).toBeGreaterThanOrEqual(Math.floor(exact));
+          expect(share).toBeLessThanOrEqual(Math.ceil(exact));
+        });
+      }
+    });
+
+    it('should make every split type sum exactly to the total', () => {
+      const next = random(7);
+      for (let run = 0; run < 300; run++) {
+        const seed = `expense-${run}`;
+        const totalCents = 100 + Math.floor(next() * 500_000);
+        const userIds = Array.from(
+          { length: 1 + Math.floor(next() * 8) },
+          (_, i) => `user${i}`
+        );
+
+        // Percentages to two decimals that add up to 100
+        const cuts = userIds.map(() => Math.floor(next() * 10000) + 1);
+        const cutTotal = sum(cuts);
+        const basisPoints = cuts.map((cut) =>
+          Math.floor((cut * 10000) / cutTotal)
+        );
+        basisPoints[0] += 10000 - sum(basisPoints);
+
+        const items = userIds.map((userId, i) => ({
+          description: `Item ${i}`,
+          amountCents: Math.floor(totalCents / (userIds.length * 2)),
+          userIds: userIds.filter((_, j) => j === i || next() < 0.5),
+        }));
+
+        const results = [
+          calculateEqualSplit(totalCents, userIds, seed),
+          calculatePercentageSplit(
+            totalCents,
+            userIds.map((userId, i) => ({
+              userId,
+              sharePercentage: basisPoints[i] / 100,
+            })),
+            seed
+          ),
+          calculateShareSplit(
+            totalCents,
+            userIds.map((userId) => ({
+              userId,
+              shareCount: 1 + Math.floor(next() * 5),
+            })),
+            seed
+          ),
+          calculateItemizedSplit(totalCents, items, seed),
+          calculateAdjustmentSplit(
+            totalCents,
+            userIds.map((userId, i) => ({
+              userId,
+              adjustmentCents: i === 0 ? Math.floor(totalCents / 10) : 0,
+            })),
+            seed
+          ),
+        ];
+
+        for (const result of results) {
+          expect(sum(result.map((r) => r.shareCents))).toBe(totalCents);
+          expect(result.every((r) => r.shareCents >= 0)).toBe(true);
+        }
+      }
+    });
+  });
+
   describe('calculateSplit', () => {
     it('should call correct split function based on type', () => {
       const participants: CreateExpenseParticipantDto[] = [
@@ -1,5 +1,9 @@
 import { describe, it, expect } from 'vitest';
-import { validateAndFixSplit } from '../validation';
+import {
+  validateAndFixSplit,
+  validateExpensePayers,
+  validateSettlementAllocations,
+} from '../validation';
 import type { CreateExpenseParticipantDto } from '../../schemas/expense';
 
 describe('Split Validation', () => {
@@ -189,4 +193,89 @@ describe('Split Validation', () => {
       expect(result.errors).toHaveLength(0);
     });
   });
-});
\ No newline at end of file
+});
+
+describe('Settlement Allocation Validation', () => {
+  const limits = [
+    { expenseId: 'dinner', shareCents: 2000, allocatedCents: 500 },
+    { expenseId: 'movies', shareCents: 1500, allocatedCents: 0 },
+  ];
+
+  it('should accept allocations within each remaining share', () => {
+    const result = validateSettlementAllocations(
+      3000,
+      [
+        { expenseId: 'dinner', amountCents: 1500 },
+        { expenseId: 'movies', amountCents: 1500 },
+      ],
+      limits
+    );
+
+    expect(result.isValid).toBe(true);
+    expect(result.errors).toHaveLength(0);
+  });
+
+  it('should reject allocations beyond the remaining share', () => {
+    const result = validateSettlementAllocations(
+      2000,
+      [{ expenseId: 'dinner', amountCents: 1600 }],
+      limits
+    );
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors[0]).toContain('exceeds the remaining share of 15');
+  });
+
+  it('should reject allocations that add up to more than the settlement', () => {
+    const result = validateSettlementAllocations(
+      1000,
+      [
+        { expenseId: 'dinner', amountCents: 600 },
+        { expenseId: 'movies', amountCents: 600 },
+      ],
+      limits
+    );
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toContain(
+      'Allocations sum to 12, more than the settlement amount of 10'
+    );
+  });
+
+  it('should reject unknown and duplicate expenses', () => {
+    const result = validateSettlementAllocations(
+      5000,
+      [
+        { expenseId: 'taxi', amountCents: 100 },
+        { expenseId: 'movies', amountCents: 100 },
+        { expenseId: 'movies', amountCents: 100 },
+      ],
+      limits
+    );
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toHaveLength(2);
+  });
+});
+
+describe('Expense Payer Validation', () => {
+  it('should accept payers that add up to the amount', () => {
+    const result = validateExpensePayers(30000, [
+      { userId: 'alice', paidCents: 20000 },
+      { userId: 'bob', paidCents: 10000 },
+    ]);
+
+    expect(result.isValid).toBe(true);
+    expect(result.errors).toHaveLength(0);
+  });
+
+  it('should reject payers that miss the amount or repeat someone', () => {
+    const result = validateExpensePayers(30000, [
+      { userId: 'alice', paidCents: 20000 },
+      { userId: 'alice', paidCents: 5000 },
+    ]);
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toHaveLength(2);
+  });
+});
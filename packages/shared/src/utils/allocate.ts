@@ -0,0 +1,60 @@
+// Spread a seed over [0, size) so the same expense always rotates the same
+// way (32-bit FNV-1a)
+function seedOffset(seed: string | undefined, size: number): number {
+  if (!seed || size === 0) {
+    return 0;
+  }
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % size;
+}
+
+/**
+ * Split a total in proportion to weights using the largest remainder method.
+ * Everyone gets the whole cents of their exact share, and the cents left over
+ * go to the largest fractional parts. Ties are broken by a rotation seeded
+ * with the expense id, so the same people don't always absorb the pennies.
+ * The result always adds up to exactly the total.
+ */
+export function allocateCents(
+  totalCents: number,
+  weights: number[],
+  seed?: string
+): number[] {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+  if (weights.length === 0 || totalWeight <= 0) {
+    throw new Error('Cannot split an amount without any weights');
+  }
+
+  const shares = weights.map((weight) => {
+    const exact = (totalCents * weight) / totalWeight;
+    return { cents: Math.floor(exact), fraction: exact - Math.floor(exact) };
+  });
+
+  const offset = seedOffset(seed, weights.length);
+  const rotated = (index: number) =>
+    (index - offset + weights.length) % weights.length;
+
+  // Fractions within a rounding error of each other count as a tie
+  const order = weights
+    .map((_, index) => index)
+    .sort(
+      (a, b) =>
+        (Math.abs(shares[a].fraction - shares[b].fraction) < 1e-9
+          ? 0
+          : shares[b].fraction - shares[a].fraction) || rotated(a) - rotated(b)
+    );
+
+  let leftover =
+    totalCents - shares.reduce((sum, share) => sum + share.cents, 0);
+  for (let i = 0; leftover > 0; i++, leftover--) {
+    shares[order[i % order.length]].cents += 1;
+  }
+
+  return shares.map((share) => share.cents);
+}
@@ -1,10 +1,27 @@
-import type { Expense, ExpenseParticipant } from '../schemas/expense';
+import type {
+  Expense,
+  ExpenseParticipant,
+  ExpensePayer,
+} from '../schemas/expense';
+import type { Settlement } from '../schemas/settlement';
+import type { DebtSimplification } from '../schemas/group';
+import { convertCents, convertShares } from './currency';
+import { allocateCents } from './allocate';
+
+/**
+ * An expense along with who paid what. Expenses loaded without their payers
+ * count as paid in full by `payerId`.
+ */
+export type LedgerExpense = Expense & {
+  payers?: Array<Pick<ExpensePayer, 'userId' | 'paidCents'>>;
+};
 
 export interface UserBalance {
   userId: string;
   netBalance: number; // Positive = owed money, Negative = owes money
   totalPaid: number;
   totalOwed: number;
+  inFlight: number; // Pending settlements: positive = incoming, negative = outgoing
 }
 
 export interface NettedEdge {
@@ -14,18 +31,99 @@ export interface NettedEdge {
 }
 
 /**
- * Calculate net balances for all users in a group
+ * Who paid for an expense and how much, in the expense currency
  */
-export function calculateUserBalances(
+export function getExpensePayers(
+  expense: LedgerExpense
+): Array<{ userId: string; paidCents: number }> {
+  return expense.payers?.length
+    ? expense.payers
+    : [{ userId: expense.payerId, paidCents: expense.amountCents }];
+}
+
+/**
+ * Split what a participant owes for an expense between its payers in
+ * proportion to what each paid. Seeded with the expense id like the split
+ * itself, so the odd cent always lands on the same payer.
+ */
+export function splitAmongPayers(
+  expense: LedgerExpense,
+  amountCents: number
+): Array<{ userId: string; amountCents: number }> {
+  const payers = getExpensePayers(expense);
+  const amounts = allocateCents(
+    amountCents,
+    payers.map((payer) => payer.paidCents),
+    expense.id
+  );
+  return payers.map((payer, index) => ({
+    userId: payer.userId,
+    amountCents: amounts[index],
+  }));
+}
+
+// What each payer paid, converted into the group currency so it adds up to
+// the converted amount of the expense
+function paidInGroupCurrency(expense: LedgerExpense) {
+  const payers = getExpensePayers(expense);
+  const paid = convertShares(
+    payers.map((payer) => payer.paidCents),
+    expense.exchangeRate
+  );
+  return payers.map((payer, index) => ({
+    userId: payer.userId,
+    paidCents: paid[index],
+  }));
+}
+
+/**
+ * Convert each participant's share into the group currency using the rate
+ * snapshot on its expense. The result lines up with `participants`.
+ */
+function sharesInGroupCurrency(
   expenses: Expense[],
   participants: ExpenseParticipant[]
+): number[] {
+  const rateByExpense = new Map(expenses.map((e) => [e.id, e.exchangeRate]));
+  const indexesByExpense = new Map<string, number[]>();
+
+  participants.forEach((participant, index) => {
+    const indexes = indexesByExpense.get(participant.expenseId) ?? [];
+    indexes.push(index);
+    indexesByExpense.set(participant.expenseId, indexes);
+  });
+
+  const converted = participants.map((p) => p.shareCents);
+  for (const [expenseId, indexes] of indexesByExpense) {
+    const shares = convertShares(
+      indexes.map((index) => participants[index].shareCents),
+      rateByExpense.get(expenseId) ?? 1
+    );
+    indexes.forEach((participantIndex, i) => {
+      converted[participantIndex] = shares[i];
+    });
+  }
+
+  return converted;
+}
+
+/**
+ * Calculate net balances for all users in a group, in the group currency.
+ * Confirmed settlements are applied as transfers from payer to receiver;
+ * pending settlements are only reported as in-flight amounts.
+ */
+export function calculateUserBalances(
+  expenses: LedgerExpense[],
+  participants: ExpenseParticipant[],
+  settlements: Settlement[] = []
 ): UserBalance[] {
   const balanceMap = new Map<string, UserBalance>();
 
   // Initialize all users from participants
   const allUserIds = new Set([
-    ...expenses.map((e) => e.payerId),
+    ...expenses.flatMap((e) => getExpensePayers(e).map((p) => p.userId)),
     ...participants.map((p) => p.userId),
+    ...settlements.flatMap((s) => [s.fromUserId, s.toUserId]),
   ]);
 
   for (const userId of allUserIds) {
@@ -34,47 +132,100 @@ export function calculateUserBalances(
       netBalance: 0,
       totalPaid: 0,
       totalOwed: 0,
+      inFlight: 0,
     });
   }
 
-  // Calculate what each user paid
+  // Calculate what each user paid, crediting every payer of an expense
   for (const expense of expenses) {
-    const balance = balanceMap.get(expense.payerId)!;
-    balance.totalPaid += expense.amountCents;
-    balance.netBalance += expense.amountCents;
+    for (const payer of paidInGroupCurrency(expense)) {
+      const balance = balanceMap.get(payer.userId)!;
+      balance.totalPaid += payer.paidCents;
+      balance.netBalance += payer.paidCents;
+    }
   }
 
   // Calculate what each user owes
-  for (const participant of participants) {
+  const shares = sharesInGroupCurrency(expenses, participants);
+  participants.forEach((participant, index) => {
     const balance = balanceMap.get(participant.userId)!;
-    balance.totalOwed += participant.shareCents;
-    balance.netBalance -= participant.shareCents;
+    balance.totalOwed += shares[index];
+    balance.netBalance -= shares[index];
+  });
+
+  // Paying someone back reduces what you owe and what they are owed
+  for (const settlement of settlements) {
+    const sender = balanceMap.get(settlement.fromUserId)!;
+    const receiver = balanceMap.get(settlement.toUserId)!;
+
+    if (settlement.status === 'CONFIRMED') {
+      sender.netBalance += settlement.amountCents;
+      receiver.netBalance -= settlement.amountCents;
+    } else if (settlement.status !== 'REJECTED') {
+      // Pending and disputed payments are still awaiting the receiver
+      sender.inFlight -= settlement.amountCents;
+      receiver.inFlight += settlement.amountCents;
+    }
   }
 
   return Array.from(balanceMap.values());
 }
 
 /**
- * Convert user balances into minimal settlement edges using greedy algorithm
+ * Largest number of users with an open balance that the optimal algorithm
+ * will search; bigger groups fall back to greedy matching
+ */
+export const OPTIMAL_SIMPLIFICATION_MAX_USERS = 16;
+
+interface OpenBalance {
+  userId: string;
+  amount: number; // Positive = owed money, Negative = owes money
+}
+
+/**
+ * Convert user balances into settlement edges.
+ * GREEDY repeatedly pairs the largest creditor with the largest debtor;
+ * OPTIMAL finds the true minimum number of transfers for small groups.
  */
 export function computeNetBalances(
-  expenses: Expense[],
-  participants: ExpenseParticipant[]
+  expenses: LedgerExpense[],
+  participants: ExpenseParticipant[],
+  settlements: Settlement[] = [],
+  algorithm: DebtSimplification = 'GREEDY'
 ): NettedEdge[] {
-  const userBalances = calculateUserBalances(expenses, participants);
+  const userBalances = calculateUserBalances(
+    expenses,
+    participants,
+    settlements
+  );
+
+  const openBalances = userBalances
+    .filter((b) => b.netBalance !== 0)
+    .map((b) => ({ userId: b.userId, amount: b.netBalance }));
+
+  if (
+    algorithm === 'OPTIMAL' &&
+    openBalances.length <= OPTIMAL_SIMPLIFICATION_MAX_USERS
+  ) {
+    return settleOptimally(openBalances);
+  }
+
+  return settleGreedily(openBalances);
+}
 
+function settleGreedily(balances: OpenBalance[]): NettedEdge[] {
   // Separate creditors (positive balance) and debtors (negative balance)
-  const creditors = userBalances
-    .filter((b) => b.netBalance > 0)
-    .map((b) => ({ userId: b.userId, amount: b.netBalance }))
+  const creditors = balances
+    .filter((b) => b.amount > 0)
+    .map((b) => ({ userId: b.userId, amount: b.amount }))
     .sort((a, b) => b.amount - a.amount); // Largest first
 
-  const debtors = userBalances
-    .filter((b) => b.netBalance < 0)
-    .map((b) => ({ userId: b.userId, amount: -b.netBalance }))
+  const debtors = balances
+    .filter((b) => b.amount < 0)
+    .map((b) => ({ userId: b.userId, amount: -b.amount }))
     .sort((a, b) => b.amount - a.amount); // Largest first
 
-  const settlements: NettedEdge[] = [];
+  const edges: NettedEdge[] = [];
 
   let i = 0; // creditor index
   let j = 0; // debtor index
@@ -86,7 +237,7 @@ export function computeNetBalances(
     const settlementAmount = Math.min(creditor.amount, debtor.amount);
 
     if (settlementAmount > 0) {
-      settlements.push({
+      edges.push({
         fromUserId: debtor.userId,
         toUserId: creditor.userId,
         amountCents: settlementAmount,
@@ -100,14 +251,196 @@ export function computeNetBalances(
     if (debtor.amount === 0) j++;
   }
 
-  return settlements;
+  return edges;
 }
 
 /**
- * Calculate total group spending
+ * Any k users whose balances sum to zero can settle among themselves in
+ * k - 1 transfers, so the fewest transfers overall comes from splitting
+ * users into as many disjoint zero-sum subsets as possible. The split is
+ * found with a DP over subsets and each subset is then settled greedily.
+ */
+function settleOptimally(balances: OpenBalance[]): NettedEdge[] {
+  const n = balances.length;
+  const fullMask = (1 << n) - 1;
+
+  // sums[mask]: combined balance of the users in mask
+  // groups[mask]: most zero-sum subsets mask can be split into
+  const sums = new Float64Array(fullMask + 1);
+  const groups = new Int32Array(fullMask + 1);
+
+  for (let mask = 1; mask <= fullMask; mask++) {
+    const lowestBit = mask & -mask;
+    sums[mask] =
+      sums[mask ^ lowestBit] + balances[31 - Math.clz32(lowestBit)].amount;
+
+    let best = 0;
+    for (let k = 0; k < n; k++) {
+      if (mask & (1 << k)) {
+        best = Math.max(best, groups[mask ^ (1 << k)]);
+      }
+    }
+    groups[mask] = best + (sums[mask] === 0 ? 1 : 0);
+  }
+
+  // Walk back from the full set one user at a time; every time the
+  // remaining users sum to zero, the users removed since the last cut
+  // form one zero-sum subset
+  const edges: NettedEdge[] = [];
+  let mask = fullMask;
+  let subsetStart = fullMask;
+
+  while (mask) {
+    const target = groups[mask] - (sums[mask] === 0 ? 1 : 0);
+    let k = 0;
+    while (!(mask & (1 << k)) || groups[mask ^ (1 << k)] !== target) k++;
+    mask ^= 1 << k;
+
+    if (sums[mask] === 0) {
+      const subset = subsetStart ^ mask;
+      edges.push(
+        ...settleGreedily(balances.filter((_, idx) => subset & (1 << idx)))
+      );
+      subsetStart = mask;
+    }
+  }
+
+  return edges;
+}
+
+/**
+ * Compute raw balances between every pair of users without simplification:
+ * each participant owes the payers their share, split in proportion to what
+ * each paid, and confirmed settlements pay that debt down. Edges point from
+ * debtor to creditor.
+ */
+export function computePairwiseBalances(
+  expenses: LedgerExpense[],
+  participants: ExpenseParticipant[],
+  settlements: Settlement[] = []
+): NettedEdge[] {
+  const expensesById = new Map(expenses.map((e) => [e.id, e]));
+
+  // Keyed by "a|b" with a < b; positive = a owes b, negative = b owes a
+  const pairBalances = new Map<string, number>();
+
+  const addDebt = (debtorId: string, creditorId: string, amount: number) => {
+    if (debtorId === creditorId || amount === 0) return;
+    const [a, b] =
+      debtorId < creditorId ? [debtorId, creditorId] : [creditorId, debtorId];
+    const key = `${a}|${b}`;
+    const signed = debtorId === a ? amount : -amount;
+    pairBalances.set(key, (pairBalances.get(key) ?? 0) + signed);
+  };
+
+  const shares = sharesInGroupCurrency(expenses, participants);
+  participants.forEach((participant, index) => {
+    const expense = expensesById.get(participant.expenseId);
+    if (expense && shares[index] > 0) {
+      for (const payer of splitAmongPayers(expense, shares[index])) {
+        addDebt(participant.userId, payer.userId, payer.amountCents);
+      }
+    }
+  });
+
+  // A confirmed payment from A to B reduces what A owes B
+  for (const settlement of settlements) {
+    if (settlement.status === 'CONFIRMED') {
+      addDebt(
+        settlement.toUserId,
+        settlement.fromUserId,
+        settlement.amountCents
+      );
+    }
+  }
+
+  const edges: NettedEdge[] = [];
+  for (const [key, amount] of pairBalances) {
+    if (amount === 0) continue;
+    const [a, b] = key.split('|');
+    edges.push(
+      amount > 0
+        ? { fromUserId: a, toUserId: b, amountCents: amount }
+        : { fromUserId: b, toUserId: a, amountCents: -amount }
+    );
+  }
+
+  return edges.sort((x, y) => y.amountCents - x.amountCents);
+}
+
+export interface GroupLedger {
+  groupId: string;
+  currency: string;
+  edges: NettedEdge[];
+}
+
+export interface CounterpartyBalance {
+  userId: string; // The other person
+  currency: string;
+  netBalance: number; // Positive = they owe you, Negative = you owe them
+  groups: Array<{ groupId: string; netBalance: number }>;
+}
+
+/**
+ * Net everything a user owes or is owed per counterparty across groups.
+ * Groups are only combined when they share a currency, so a person can
+ * appear once per currency. Counterparties who are square are left out.
+ */
+export function computeCounterpartyBalances(
+  userId: string,
+  ledgers: GroupLedger[]
+): CounterpartyBalance[] {
+  const balanceMap = new Map<string, CounterpartyBalance>();
+
+  for (const ledger of ledgers) {
+    for (const edge of ledger.edges) {
+      let counterpartyId: string;
+      let amount: number;
+      if (edge.toUserId === userId) {
+        counterpartyId = edge.fromUserId;
+        amount = edge.amountCents;
+      } else if (edge.fromUserId === userId) {
+        counterpartyId = edge.toUserId;
+        amount = -edge.amountCents;
+      } else {
+        continue;
+      }
+
+      const key = `${counterpartyId}|${ledger.currency}`;
+      const balance = balanceMap.get(key) ?? {
+        userId: counterpartyId,
+        currency: ledger.currency,
+        netBalance: 0,
+        groups: [],
+      };
+      balance.netBalance += amount;
+
+      const group = balance.groups.find((g) => g.groupId === ledger.groupId);
+      if (group) {
+        group.netBalance += amount;
+      } else {
+        balance.groups.push({ groupId: ledger.groupId, netBalance: amount });
+      }
+
+      balanceMap.set(key, balance);
+    }
+  }
+
+  return Array.from(balanceMap.values())
+    .filter((b) => b.netBalance !== 0)
+    .map((b) => ({ ...b, groups: b.groups.filter((g) => g.netBalance !== 0) }))
+    .sort((a, b) => Math.abs(b.netBalance) - Math.abs(a.netBalance));
+}
+
+/**
+ * Calculate total group spending in the group currency
  */
 export function calculateGroupTotal(expenses: Expense[]): number {
-  return expenses.reduce((total, expense) => total + expense.amountCents, 0);
+  return expenses.reduce(
+    (total, expense) =>
+      total + convertCents(expense.amountCents, expense.exchangeRate),
+    0
+  );
 }
 
 /**
@@ -124,25 +457,40 @@ export interface UserStats {
 
 export function calculateUserStats(
   userId: string,
-  expenses: Expense[],
-  participants: ExpenseParticipant[]
+  expenses: LedgerExpense[],
+  participants: ExpenseParticipant[],
+  settlements: Settlement[] = []
 ): UserStats {
-  const userExpenses = expenses.filter((e) => e.payerId === userId);
-  const userParticipations = participants.filter((p) => p.userId === userId);
+  const paidByUser = expenses
+    .map(
+      (e) =>
+        paidInGroupCurrency(e).find((payer) => payer.userId === userId)
+          ?.paidCents ?? 0
+    )
+    .filter((paidCents) => paidCents > 0);
+  const shares = sharesInGroupCurrency(expenses, participants);
 
-  const totalPaid = userExpenses.reduce((sum, e) => sum + e.amountCents, 0);
-  const totalOwed = userParticipations.reduce(
-    (sum, p) => sum + p.shareCents,
+  const totalPaid = paidByUser.reduce((sum, paidCents) => sum + paidCents, 0);
+  const totalOwed = participants.reduce(
+    (sum, p, index) => (p.userId === userId ? sum + shares[index] : sum),
     0
   );
 
+  // Confirmed settlements move money between users without new expenses
+  const settledCents = settlements
+    .filter((s) => s.status === 'CONFIRMED')
+    .reduce((sum, s) => {
+      if (s.fromUserId === userId) return sum + s.amountCents;
+      if (s.toUserId === userId) return sum - s.amountCents;
+      return sum;
+    }, 0);
+
   return {
     userId,
     totalPaid,
     totalOwed,
-    netBalance: totalPaid - totalOwed,
-    expenseCount: userExpenses.length,
-    avgExpenseAmount:
-      userExpenses.length > 0 ? totalPaid / userExpenses.length : 0,
+    netBalance: totalPaid - totalOwed + settledCents,
+    expenseCount: paidByUser.length,
+    avgExpenseAmount: paidByUser.length > 0 ? totalPaid / paidByUser.length : 0,
   };
-}
\ No newline at end of file
+}
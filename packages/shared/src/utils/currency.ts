@@ -1,3 +1,5 @@
+import { allocateCents } from './allocate';
+
 /**
  * Convert dollars to cents (avoiding floating point precision issues)
  */
@@ -39,4 +41,22 @@ export function validateSplitTotal(
 ): boolean {
   const splitSum = sumCents(splitCents);
   return splitSum === totalCents;
-}
\ No newline at end of file
+}
+
+/**
+ * Convert cents into another currency using an exchange rate
+ */
+export function convertCents(cents: number, rate: number): number {
+  return Math.round(cents * rate);
+}
+
+/**
+ * Convert a set of shares with an exchange rate so the converted shares
+ * still add up to the converted total
+ */
+export function convertShares(shareCents: number[], rate: number): number[] {
+  const totalCents = sumCents(shareCents);
+  if (rate === 1 || totalCents === 0) return [...shareCents];
+
+  return allocateCents(convertCents(totalCents, rate), shareCents);
+}
@@ -0,0 +1,87 @@
+import type {
+  CreateExpenseItemDto,
+  ExpenseRevisionChanges,
+  ExpenseSnapshot,
+  ExpenseSplitType,
+} from '../schemas/expense';
+
+export interface SnapshotSource {
+  description: string;
+  amountCents: number;
+  currency: string;
+  date: Date | string;
+  category: string | null;
+  notes: string | null;
+  payerId: string;
+  payers?: Array<{ userId: string; paidCents: number }>;
+  splitType: ExpenseSplitType;
+  participants: Array<{ userId: string; shareCents: number }>;
+  items?: CreateExpenseItemDto[];
+}
+
+/**
+ * Take the tracked fields of an expense, in a stable shape so two snapshots
+ * of the same expense compare equal
+ */
+export function toExpenseSnapshot(expense: SnapshotSource): ExpenseSnapshot {
+  const shares: Record<string, number> = {};
+  for (const participant of [...expense.participants].sort((a, b) =>
+    a.userId.localeCompare(b.userId)
+  )) {
+    shares[participant.userId] = participant.shareCents;
+  }
+
+  const payers: Record<string, number> = {};
+  for (const payer of [
+    ...(expense.payers?.length
+      ? expense.payers
+      : [{ userId: expense.payerId, paidCents: expense.amountCents }]),
+  ].sort((a, b) => a.userId.localeCompare(b.userId))) {
+    payers[payer.userId] = payer.paidCents;
+  }
+
+  return {
+    description: expense.description,
+    amountCents: expense.amountCents,
+    currency: expense.currency,
+    date: new Date(expense.date).toISOString(),
+    category: expense.category,
+    notes: expense.notes,
+    payerId: expense.payerId,
+    payers,
+    splitType: expense.splitType,
+    shares,
+    items: (expense.items ?? []).map(
+      ({ description, amountCents, userIds }) => ({
+        description,
+        amountCents,
+        userIds,
+      })
+    ),
+  };
+}
+
+/**
+ * Diff two snapshots of an expense, keeping only the fields that changed.
+ * Pass null for the side of a create or delete.
+ */
+export function diffExpenseSnapshots(
+  before: ExpenseSnapshot | null,
+  after: ExpenseSnapshot | null
+): ExpenseRevisionChanges {
+  const changes: ExpenseRevisionChanges = {};
+  const fields = Object.keys(before ?? after ?? {}) as Array<
+    keyof ExpenseSnapshot
+  >;
+
+  for (const field of fields) {
+    const from = before ? before[field] : null;
+    const to = after ? after[field] : null;
+
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,144 @@
+import type { SettlementMethod } from '../schemas/settlement';
+
+export interface PaymentRecipient {
+  name: string;
+  email?: string | null;
+  venmoHandle?: string | null;
+  paypalLink?: string | null;
+}
+
+export interface PaymentLinkOptions {
+  method: SettlementMethod;
+  amountCents: number;
+  currency: string;
+  memo: string;
+  recipient: PaymentRecipient;
+}
+
+// Leaves out characters that are easy to misread when typed back in
+const PAYMENT_TOKEN_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+/**
+ * Generate a short token that ties an outside payment back to a settlement
+ */
+export function generatePaymentToken(length = 8): string {
+  const bytes = new Uint8Array(length);
+  globalThis.crypto.getRandomValues(bytes);
+
+  let token = '';
+  for (const byte of bytes) {
+    token += PAYMENT_TOKEN_ALPHABET[byte % PAYMENT_TOKEN_ALPHABET.length];
+  }
+  return `GP-${token}`;
+}
+
+/**
+ * Build the memo sent with a payment. The token goes first so it survives
+ * apps that truncate long notes.
+ */
+export function buildPaymentMemo(groupName: string, token: string): string {
+  return `${token} GroupPay: ${groupName}`;
+}
+
+/**
+ * Build a prefilled payment URL for the given method, or null if the
+ * recipient hasn't set up that method or it can't take this currency
+ */
+export function buildPaymentUrl(options: PaymentLinkOptions): string | null {
+  const { method, recipient } = options;
+
+  switch (method) {
+    case 'VENMO':
+      return recipient.venmoHandle ? buildVenmoUrl(options) : null;
+    case 'PAYPAL':
+      return recipient.paypalLink ? buildPayPalUrl(options) : null;
+    case 'ZELLE':
+      return recipient.email ? buildZelleUrl(options) : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * List the payment methods that can be opened for a recipient
+ */
+export function getAvailablePaymentMethods(
+  recipient: PaymentRecipient,
+  currency: string
+): SettlementMethod[] {
+  const methods: SettlementMethod[] = ['VENMO', 'PAYPAL', 'ZELLE'];
+  return methods.filter(
+    (method) =>
+      buildPaymentUrl({
+        method,
+        amountCents: 1,
+        currency,
+        memo: '',
+        recipient,
+      }) !== null
+  );
+}
+
+function formatAmount(amountCents: number): string {
+  return (amountCents / 100).toFixed(2);
+}
+
+function buildVenmoUrl({
+  amountCents,
+  currency,
+  memo,
+  recipient,
+}: PaymentLinkOptions): string | null {
+  // Venmo only moves US dollars
+  if (currency.toUpperCase() !== 'USD') {
+    return null;
+  }
+
+  const params = new URLSearchParams({
+    txn: 'pay',
+    recipients: recipient.venmoHandle!.trim().replace(/^@/, ''),
+    amount: formatAmount(amountCents),
+    note: memo,
+  });
+  return `https://venmo.com/?${params.toString()}`;
+}
+
+function buildPayPalUrl({
+  amountCents,
+  currency,
+  recipient,
+}: PaymentLinkOptions): string | null {
+  const link = recipient.paypalLink!.trim().replace(/\/+$/, '');
+
+  // A bare username is treated as a PayPal.Me name
+  const base = /^https?:\/\//i.test(link)
+    ? link
+    : `https://paypal.me/${link.replace(/^@/, '')}`;
+
+  // PayPal.Me links take the amount as a path segment but have no memo field
+  if (!/paypal\.me\/|paypal\.com\/paypalme\//i.test(base)) {
+    return base;
+  }
+  return `${base}/${formatAmount(amountCents)}${currency.toUpperCase()}`;
+}
+
+function buildZelleUrl({
+  currency,
+  recipient,
+}: PaymentLinkOptions): string | null {
+  if (currency.toUpperCase() !== 'USD') {
+    return null;
+  }
+
+  // Same payload Zelle encodes in its QR codes; banks prefill the recipient
+  // but not the amount or memo
+  const payload = JSON.stringify({
+    name: recipient.name,
+    token: recipient.email,
+    action: 'payment',
+  });
+  const bytes = new TextEncoder().encode(payload);
+  const data = btoa(String.fromCharCode(...bytes));
+
+  return `https://enroll.zellepay.com/qr-codes?data=${encodeURIComponent(data)}`;
+}
@@ -7,11 +7,11 @@ export interface ReceiptMetadata {
 
 export interface ParsedReceiptData {
   merchantName?: string;
-  totalAmount?: number;
+  totalAmount?: number; // In cents
   date?: Date;
   items?: Array<{
     description: string;
-    amount: number;
+    amount: number; // In cents
   }>;
   confidence: number; // 0-1 score of parsing confidence
 }
@@ -38,11 +38,13 @@ export function validateReceiptFile(file: {
     'image/png',
     'image/gif',
     'image/webp',
+    'image/heic', // Converted to JPEG on upload
+    'image/heif',
     'application/pdf',
   ];
 
   if (!allowedTypes.includes(file.type)) {
-    errors.push('File must be an image (JPEG, PNG, GIF, WebP) or PDF');
+    errors.push('File must be an image (JPEG, PNG, GIF, WebP, HEIC) or PDF');
   }
 
   // Check filename
@@ -69,4 +71,194 @@ export function generateSecureFilename(
   const random = Math.random().toString(36).substring(2, 8);
 
   return `${userId}_${timestamp}_${random}${extension ? '.' + extension : ''}`;
-}
\ No newline at end of file
+}
+
+// A money amount at the end of a line, e.g. "12.50", "$1,234.56", "3,20 EUR"
+const TRAILING_AMOUNT =
+  /(-)?[$€£]?\s*(\d{1,3}(?:[,.]\d{3})*|\d+)[.,](\d{2})\s*(?:[A-Z]{3})?\s*[A-Z]?$/;
+
+// Lines that carry the amount owed, strongest first
+const TOTAL_PATTERNS = [
+  /\b(grand\s+total|amount\s+due|balance\s+due|total\s+due)\b/i,
+  /\btotal\b/i,
+];
+
+// Lines with an amount that are never line items
+const NON_ITEM_PATTERN =
+  /\b(sub\s*-?\s*total|total|tax|vat|gst|tip|gratuity|service\s+charge|change|cash|card|visa|mastercard|amex|debit|credit|balance|amount\s+due|tendered|discount|savings|rounding)\b/i;
+
+const SUBTOTAL_PATTERN = /\bsub\s*-?\s*total\b/i;
+const TAX_PATTERN = /\b(tax|vat|gst)\b/i;
+
+const MONTHS = [
+  'jan',
+  'feb',
+  'mar',
+  'apr',
+  'may',
+  'jun',
+  'jul',
+  'aug',
+  'sep',
+  'oct',
+  'nov',
+  'dec',
+];
+
+function parseAmountCents(line: string): number | undefined {
+  const match = line.match(TRAILING_AMOUNT);
+  if (!match) return undefined;
+
+  const whole = parseInt(match[2].replace(/[,.\s]/g, ''), 10);
+  const cents = whole * 100 + parseInt(match[3], 10);
+  return match[1] ? -cents : cents;
+}
+
+function toDate(year: number, month: number, day: number): Date | undefined {
+  if (year < 100) year += 2000;
+  if (month < 1 || month > 12 || day < 1 || day > 31) return undefined;
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // Reject dates that roll over, like February 30th
+  return date.getUTCDate() === day ? date : undefined;
+}
+
+function parseDate(line: string): Date | undefined {
+  // 2025-03-14
+  let match = line.match(/\b(\d{4})-(\d{1,2})-(\d{1,2})\b/);
+  if (match) {
+    return toDate(Number(match[1]), Number(match[2]), Number(match[3]));
+  }
+
+  // 03/14/2025, 14/03/25, 14.03.2025; month first unless that can't be
+  match = line.match(/\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})\b/);
+  if (match) {
+    const [first, second, year] = match.slice(1).map(Number);
+    return first > 12
+      ? toDate(year, second, first)
+      : toDate(year, first, second);
+  }
+
+  // Mar 14, 2025 or 14 March 2025
+  match = line.match(
+    /\b(?:(\d{1,2})\s+)?([a-z]{3})[a-z]*\.?\s+(?:(\d{1,2}),?\s+)?(\d{4})\b/i
+  );
+  if (match && (match[1] || match[3])) {
+    const month = MONTHS.indexOf(match[2].toLowerCase()) + 1;
+    if (month > 0) {
+      return toDate(Number(match[4]), month, Number(match[1] || match[3]));
+    }
+  }
+
+  return undefined;
+}
+
+// The merchant name is usually the first wordy line at the top
+function parseMerchantName(lines: string[]): string | undefined {
+  return lines
+    .slice(0, 5)
+    .find(
+      (line) =>
+        (line.match(/[a-z]/gi)?.length ?? 0) >= 3 &&
+        (line.match(/\d/g)?.length ?? 0) <= line.length / 3 &&
+        parseAmountCents(line) === undefined &&
+        parseDate(line) === undefined &&
+        !/(www\.|https?:|@|\btel\b|\bphone\b)/i.test(line)
+    );
+}
+
+/**
+ * Pull the merchant, total, date and line items out of OCR text.
+ *
+ * Amounts are in cents. The confidence score rises with each field found,
+ * and again when the line items add up to the subtotal or total.
+ */
+export function parseReceiptText(text: string): ParsedReceiptData {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+
+  const result: ParsedReceiptData = { confidence: 0 };
+  let confidence = 0;
+
+  const merchantName = parseMerchantName(lines);
+  if (merchantName) {
+    result.merchantName = merchantName;
+    confidence += 0.15;
+  }
+
+  const date = lines.map(parseDate).find((d) => d !== undefined);
+  if (date) {
+    result.date = date;
+    confidence += 0.2;
+  }
+
+  // Take the last line matching the strongest total keyword
+  let totalIndex = -1;
+  for (const pattern of TOTAL_PATTERNS) {
+    for (let i = lines.length - 1; i >= 0; i--) {
+      const line = lines[i];
+      if (
+        pattern.test(line) &&
+        !SUBTOTAL_PATTERN.test(line) &&
+        !TAX_PATTERN.test(line) &&
+        parseAmountCents(line) !== undefined
+      ) {
+        totalIndex = i;
+        break;
+      }
+    }
+    if (totalIndex >= 0) break;
+  }
+
+  if (totalIndex >= 0) {
+    result.totalAmount = parseAmountCents(lines[totalIndex]);
+    confidence += 0.4;
+  } else {
+    // Without a total line, the largest amount is the best guess
+    const amounts = lines
+      .map(parseAmountCents)
+      .filter((amount): amount is number => amount !== undefined);
+    if (amounts.length > 0) {
+      result.totalAmount = Math.max(...amounts);
+      confidence += 0.15;
+    }
+  }
+
+  // Line items come before the subtotal or total
+  const subtotalIndex = lines.findIndex((line) => SUBTOTAL_PATTERN.test(line));
+  const itemsEnd =
+    subtotalIndex >= 0
+      ? subtotalIndex
+      : totalIndex >= 0
+        ? totalIndex
+        : lines.length;
+  const items: NonNullable<ParsedReceiptData['items']> = [];
+  for (const line of lines.slice(0, itemsEnd)) {
+    const amount = parseAmountCents(line);
+    if (amount === undefined || NON_ITEM_PATTERN.test(line)) continue;
+
+    const description = line
+      .replace(TRAILING_AMOUNT, '')
+      .replace(/[\s.:$€£-]+$/, '')
+      .trim();
+    if (!/[a-z]{2}/i.test(description) || parseDate(line)) continue;
+
+    items.push({ description, amount });
+  }
+
+  if (items.length > 0) {
+    result.items = items;
+
+    const itemsTotal = items.reduce((sum, item) => sum + item.amount, 0);
+    const subtotal =
+      subtotalIndex >= 0 ? parseAmountCents(lines[subtotalIndex]) : undefined;
+    const matchesReceipt =
+      itemsTotal === subtotal || itemsTotal === result.totalAmount;
+    confidence += matchesReceipt ? 0.25 : 0.1;
+  }
+
+  result.confidence = Math.min(1, Math.round(confidence * 100) / 100);
+  return result;
+}
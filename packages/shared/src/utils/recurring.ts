@@ -0,0 +1,89 @@
+import type { RecurrenceCadence } from '../schemas/recurring';
+
+export interface RecurrenceRule {
+  startDate: Date;
+  cadence: RecurrenceCadence;
+  interval: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rough length of one period in days, used to guess where to start looking
+const APPROX_PERIOD_DAYS: Record<RecurrenceCadence, number> = {
+  DAILY: 1,
+  WEEKLY: 7,
+  MONTHLY: 30.44,
+  YEARLY: 365.25,
+};
+
+function addMonthsClamped(date: Date, months: number): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + months;
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+  const result = new Date(date);
+  result.setUTCFullYear(year, month, Math.min(date.getUTCDate(), daysInMonth));
+  return result;
+}
+
+/**
+ * Get the date of the nth occurrence of a schedule (the start date is 0).
+ * Months are always counted from the start date, so a schedule on the 31st
+ * falls on the last day of shorter months and goes back to the 31st after.
+ */
+export function getOccurrenceDate(rule: RecurrenceRule, index: number): Date {
+  const { startDate, cadence, interval } = rule;
+  const steps = index * interval;
+
+  switch (cadence) {
+    case 'DAILY':
+      return new Date(startDate.getTime() + steps * DAY_MS);
+    case 'WEEKLY':
+      return new Date(startDate.getTime() + steps * 7 * DAY_MS);
+    case 'MONTHLY':
+      return addMonthsClamped(startDate, steps);
+    case 'YEARLY':
+      return addMonthsClamped(startDate, steps * 12);
+    default:
+      throw new Error(`Unknown cadence: ${cadence}`);
+  }
+}
+
+/**
+ * Find the first occurrence of a schedule strictly after the given date
+ */
+export function getNextOccurrence(rule: RecurrenceRule, after: Date): Date {
+  const elapsedDays = (after.getTime() - rule.startDate.getTime()) / DAY_MS;
+  const periodDays = APPROX_PERIOD_DAYS[rule.cadence] * rule.interval;
+
+  // Start from an estimate and walk to the exact occurrence
+  let index = Math.max(0, Math.floor(elapsedDays / periodDays));
+  while (index > 0 && getOccurrenceDate(rule, index - 1) > after) {
+    index--;
+  }
+  while (getOccurrenceDate(rule, index) <= after) {
+    index++;
+  }
+
+  return getOccurrenceDate(rule, index);
+}
+
+/**
+ * List every occurrence that is due by the given date, starting from the
+ * next scheduled run and stopping at the end date if there is one
+ */
+export function getDueOccurrences(
+  rule: RecurrenceRule & { endDate?: Date | null },
+  nextRunAt: Date,
+  now: Date
+): Date[] {
+  const due: Date[] = [];
+
+  let occurrence = nextRunAt;
+  while (occurrence <= now && (!rule.endDate || occurrence <= rule.endDate)) {
+    due.push(occurrence);
+    occurrence = getNextOccurrence(rule, occurrence);
+  }
+
+  return due;
+}
@@ -0,0 +1,18 @@
+// How long deleted expenses and groups can be restored before they're purged
+export const SOFT_DELETE_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Get when something deleted at the given time will be purged for good
+ */
+export function getPurgeDate(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + SOFT_DELETE_RETENTION_DAYS * DAY_MS);
+}
+
+/**
+ * Get the cutoff for purging: anything deleted before it is past retention
+ */
+export function getPurgeCutoff(now: Date): Date {
+  return new Date(now.getTime() - SOFT_DELETE_RETENTION_DAYS * DAY_MS);
+}
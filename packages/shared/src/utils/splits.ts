@@ -1,7 +1,9 @@
 import type {
+  CreateExpenseItemDto,
   CreateExpenseParticipantDto,
   ExpenseSplitType,
 } from '../schemas/expense';
+import { allocateCents } from './allocate';
 import { validateSplitTotal } from './currency';
 
 export interface SplitResult {
@@ -14,14 +16,18 @@ export interface SplitResult {
  */
 export function calculateEqualSplit(
   totalCents: number,
-  participantIds: string[]
+  participantIds: string[],
+  seed?: string
 ): SplitResult[] {
-  const baseAmount = Math.floor(totalCents / participantIds.length);
-  const remainder = totalCents % participantIds.length;
+  const shares = allocateCents(
+    totalCents,
+    participantIds.map(() => 1),
+    seed
+  );
 
   return participantIds.map((userId, index) => ({
     userId,
-    shareCents: baseAmount + (index < remainder ? 1 : 0),
+    shareCents: shares[index],
   }));
 }
 
@@ -30,7 +36,8 @@ export function calculateEqualSplit(
  */
 export function calculatePercentageSplit(
   totalCents: number,
-  participants: CreateExpenseParticipantDto[]
+  participants: CreateExpenseParticipantDto[],
+  seed?: string
 ): SplitResult[] {
   const totalPercentage = participants.reduce(
     (sum, p) => sum + (p.sharePercentage || 0),
@@ -41,82 +48,157 @@ export function calculatePercentageSplit(
     throw new Error('Percentages must sum to 100%');
   }
 
-  let allocatedCents = 0;
-  const results = participants.map((participant, index) => {
-    const percentage = participant.sharePercentage || 0;
-    let shareCents: number;
-
-    if (index === participants.length - 1) {
-      // Last participant gets remaining amount to handle rounding
-      shareCents = totalCents - allocatedCents;
-    } else {
-      shareCents = Math.round(totalCents * (percentage / 100));
-      allocatedCents += shareCents;
+  const shares = allocateCents(
+    totalCents,
+    participants.map((p) => p.sharePercentage || 0),
+    seed
+  );
+
+  return participants.map((participant, index) => ({
+    userId: participant.userId,
+    shareCents: shares[index],
+  }));
+}
+
+/**
+ * Calculate share-based splits (e.g., 2 shares, 1 share, 3 shares)
+ */
+export function calculateShareSplit(
+  totalCents: number,
+  participants: CreateExpenseParticipantDto[],
+  seed?: string
+): SplitResult[] {
+  const shares = allocateCents(
+    totalCents,
+    participants.map((p) => p.shareCount || 1),
+    seed
+  );
+
+  return participants.map((participant, index) => ({
+    userId: participant.userId,
+    shareCents: shares[index],
+  }));
+}
+
+/**
+ * Calculate itemized splits. Each line item is split equally between the
+ * people who had it, and whatever the total has on top of the items (tax,
+ * tip) is spread in proportion to each person's item subtotal.
+ */
+export function calculateItemizedSplit(
+  totalCents: number,
+  items: CreateExpenseItemDto[],
+  seed?: string
+): SplitResult[] {
+  if (items.length === 0) {
+    throw new Error('Itemized splits need at least one line item');
+  }
+
+  // Whatever the items don't cover is shared in proportion to them
+  const itemsTotal = items.reduce((sum, item) => sum + item.amountCents, 0);
+  if (itemsTotal === 0) {
+    throw new Error('Line items need an amount to split the expense by');
+  }
+
+  const subtotals = new Map<string, number>();
+  items.forEach((item, position) => {
+    if (item.userIds.length === 0) {
+      throw new Error(`Line item "${item.description}" has nobody assigned`);
     }
 
-    return {
-      userId: participant.userId,
-      shareCents,
-    };
+    // Each item rotates separately so one person doesn't take every penny
+    const itemSeed = seed && `${seed}:${position}`;
+    for (const split of calculateEqualSplit(
+      item.amountCents,
+      item.userIds,
+      itemSeed
+    )) {
+      subtotals.set(
+        split.userId,
+        (subtotals.get(split.userId) || 0) + split.shareCents
+      );
+    }
   });
 
-  return results;
+  const extraCents = totalCents - itemsTotal;
+
+  if (extraCents < 0) {
+    throw new Error('Line items add up to more than the expense total');
+  }
+
+  const people = Array.from(subtotals);
+  const extras = allocateCents(
+    extraCents,
+    people.map(([, subtotal]) => subtotal),
+    seed
+  );
+
+  return people.map(([userId, subtotal], index) => ({
+    userId,
+    shareCents: subtotal + extras[index],
+  }));
 }
 
 /**
- * Calculate share-based splits (e.g., 2 shares, 1 share, 3 shares)
+ * Calculate adjustment splits. Each person's signed adjustment comes off the
+ * top and what's left is split equally, so +500 means paying 5.00 more than
+ * everyone else.
  */
-export function calculateShareSplit(
+export function calculateAdjustmentSplit(
   totalCents: number,
-  participants: CreateExpenseParticipantDto[]
+  participants: CreateExpenseParticipantDto[],
+  seed?: string
 ): SplitResult[] {
-  const totalShares = participants.reduce(
-    (sum, p) => sum + (p.shareCount || 1),
+  const adjustmentTotal = participants.reduce(
+    (sum, p) => sum + (p.adjustmentCents || 0),
     0
   );
+  const remainderCents = totalCents - adjustmentTotal;
 
-  const centsPerShare = totalCents / totalShares;
-  let allocatedCents = 0;
+  if (remainderCents < 0) {
+    throw new Error('Adjustments add up to more than the expense total');
+  }
+
+  const equalShares = calculateEqualSplit(
+    remainderCents,
+    participants.map((p) => p.userId),
+    seed
+  );
 
-  const results = participants.map((participant, index) => {
-    const shares = participant.shareCount || 1;
-    let shareCents: number;
+  return equalShares.map((share, index) => {
+    const shareCents =
+      share.shareCents + (participants[index].adjustmentCents || 0);
 
-    if (index === participants.length - 1) {
-      // Last participant gets remaining amount to handle rounding
-      shareCents = totalCents - allocatedCents;
-    } else {
-      shareCents = Math.round(centsPerShare * shares);
-      allocatedCents += shareCents;
+    if (shareCents < 0) {
+      throw new Error('Adjustments cannot leave anyone with a negative share');
     }
 
-    return {
-      userId: participant.userId,
-      shareCents,
-    };
+    return { userId: share.userId, shareCents };
   });
-
-  return results;
 }
 
 /**
- * Main split calculation function
+ * Main split calculation function. Pass the expense id as the seed so its
+ * leftover cents always land on the same people.
  */
 export function calculateSplit(
   totalCents: number,
   splitType: ExpenseSplitType,
-  participants: CreateExpenseParticipantDto[]
+  participants: CreateExpenseParticipantDto[],
+  items: CreateExpenseItemDto[] = [],
+  seed?: string
 ): SplitResult[] {
   switch (splitType) {
     case 'EQUAL':
       return calculateEqualSplit(
         totalCents,
-        participants.map((p) => p.userId)
+        participants.map((p) => p.userId),
+        seed
       );
     case 'PERCENTAGE':
-      return calculatePercentageSplit(totalCents, participants);
+      return calculatePercentageSplit(totalCents, participants, seed);
     case 'SHARES':
-      return calculateShareSplit(totalCents, participants);
+      return calculateShareSplit(totalCents, participants, seed);
     case 'EXACT': {
       // For exact splits, shareCents should already be specified
       const results = participants.map((p) => ({
@@ -135,7 +217,12 @@ export function calculateSplit(
 
       return results;
     }
+    case 'ITEMIZED':
+      // Participants come from the people assigned to line items
+      return calculateItemizedSplit(totalCents, items, seed);
+    case 'ADJUSTMENT':
+      return calculateAdjustmentSplit(totalCents, participants, seed);
     default:
       throw new Error(`Unknown split type: ${splitType}`);
   }
-}
\ No newline at end of file
+}
@@ -1,7 +1,10 @@
 import type {
   CreateExpenseParticipantDto,
+  CreateExpensePayerDto,
   ExpenseSplitType,
 } from '../schemas/expense';
+import type { CreateSettlementAllocationDto } from '../schemas/settlement';
+import { calculateAdjustmentSplit } from './splits';
 
 export interface SplitValidationResult {
   isValid: boolean;
@@ -41,6 +44,11 @@ export function validateAndFixSplit(
     case 'EQUAL':
       // Equal splits are always valid
       return result;
+    case 'ITEMIZED':
+      // Shares are derived from line items, which calculateSplit checks
+      return result;
+    case 'ADJUSTMENT':
+      return validateAdjustmentSplit(totalCents, participants);
     default:
       result.isValid = false;
       result.errors.push(`Unknown split type: ${splitType}`);
@@ -48,6 +56,28 @@ export function validateAndFixSplit(
   }
 }
 
+function validateAdjustmentSplit(
+  totalCents: number,
+  participants: CreateExpenseParticipantDto[]
+): SplitValidationResult {
+  const result: SplitValidationResult = {
+    isValid: true,
+    errors: [],
+    warnings: [],
+  };
+
+  try {
+    calculateAdjustmentSplit(totalCents, participants);
+  } catch (error) {
+    result.isValid = false;
+    result.errors.push(
+      error instanceof Error ? error.message : 'Invalid adjustments'
+    );
+  }
+
+  return result;
+}
+
 function validatePercentageSplit(
   totalCents: number,
   participants: CreateExpenseParticipantDto[],
@@ -156,4 +186,120 @@ function validateExactSplit(
   }
 
   return result;
-}
\ No newline at end of file
+}
+
+/**
+ * How much of an expense a participant can still pay back through
+ * settlement allocations
+ */
+export interface AllocationLimit {
+  expenseId: string;
+  shareCents: number;
+  allocatedCents: number; // Already allocated by earlier settlements
+}
+
+export interface AllocationValidationResult {
+  isValid: boolean;
+  errors: string[];
+}
+
+/**
+ * Validate a settlement's allocations against the settlement amount and the
+ * payer's remaining share of each expense
+ */
+export function validateSettlementAllocations(
+  amountCents: number,
+  allocations: CreateSettlementAllocationDto[],
+  limits: AllocationLimit[]
+): AllocationValidationResult {
+  const result: AllocationValidationResult = {
+    isValid: true,
+    errors: [],
+  };
+
+  const limitsByExpense = new Map(
+    limits.map((limit) => [limit.expenseId, limit])
+  );
+  const seen = new Set<string>();
+
+  for (const allocation of allocations) {
+    if (seen.has(allocation.expenseId)) {
+      result.errors.push(
+        `Expense ${allocation.expenseId} is allocated more than once`
+      );
+      continue;
+    }
+    seen.add(allocation.expenseId);
+
+    const limit = limitsByExpense.get(allocation.expenseId);
+    if (!limit) {
+      result.errors.push(
+        `Expense ${allocation.expenseId} is not owed by the payer to the receiver`
+      );
+      continue;
+    }
+
+    const remainingCents = limit.shareCents - limit.allocatedCents;
+    if (allocation.amountCents > remainingCents) {
+      result.errors.push(
+        `Allocation of ${allocation.amountCents / 100} to expense ${allocation.expenseId} exceeds the remaining share of ${remainingCents / 100}`
+      );
+    }
+  }
+
+  const totalAllocated = allocations.reduce(
+    (sum, allocation) => sum + allocation.amountCents,
+    0
+  );
+
+  if (totalAllocated > amountCents) {
+    result.errors.push(
+      `Allocations sum to ${totalAllocated / 100}, more than the settlement amount of ${amountCents / 100}`
+    );
+  }
+
+  result.isValid = result.errors.length === 0;
+  return result;
+}
+
+export interface PayerValidationResult {
+  isValid: boolean;
+  errors: string[];
+}
+
+/**
+ * Validate who paid for an expense: each person once, and together exactly
+ * the expense amount
+ */
+export function validateExpensePayers(
+  amountCents: number,
+  payers: CreateExpensePayerDto[]
+): PayerValidationResult {
+  const result: PayerValidationResult = {
+    isValid: true,
+    errors: [],
+  };
+
+  if (payers.length === 0) {
+    result.errors.push('At least one payer is required');
+  }
+
+  const userIds = new Set(payers.map((payer) => payer.userId));
+  if (userIds.size !== payers.length) {
+    result.errors.push('Each person can only be listed as a payer once');
+  }
+
+  if (payers.some((payer) => payer.paidCents <= 0)) {
+    result.errors.push('Each payer must have paid more than zero');
+  }
+
+  const totalPaid = payers.reduce((sum, payer) => sum + payer.paidCents, 0);
+  if (payers.length > 0 && totalPaid !== amountCents) {
+    result.errors.push(
+      `Payers paid ${totalPaid / 100} in total, but the expense is ${amountCents / 100}`
+    );
+  }
+
+  result.isValid = result.errors.length === 0;
+  return result;
+}